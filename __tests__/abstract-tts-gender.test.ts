@@ -14,10 +14,10 @@ function makeClient(voices: UnifiedVoice[]) {
     protected async _getVoices(): Promise<UnifiedVoice[]> {
       return voices;
     }
-    async synthToBytes(_text: string): Promise<Uint8Array> {
+    protected async _synthToBytes(_text: string): Promise<Uint8Array> {
       return new Uint8Array();
     }
-    async synthToBytestream(_text: string): Promise<ReadableStream<Uint8Array>> {
+    protected async _synthToBytestream(_text: string): Promise<ReadableStream<Uint8Array>> {
       return new ReadableStream();
     }
     checkCredentials(): boolean {
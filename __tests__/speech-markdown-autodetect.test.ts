@@ -22,7 +22,7 @@ class CaptureOptionsTTSClient extends AbstractTTSClient {
     ];
   }
 
-  async synthToBytes(_text: string, options?: SpeakOptions): Promise<Uint8Array> {
+  protected async _synthToBytes(_text: string, options?: SpeakOptions): Promise<Uint8Array> {
     this.lastOptions = options;
     return new Uint8Array([
       0x52, 0x49, 0x46, 0x46, 0x24, 0x00, 0x00, 0x00, 0x57, 0x41, 0x56, 0x45,
@@ -32,7 +32,7 @@ class CaptureOptionsTTSClient extends AbstractTTSClient {
     ]);
   }
 
-  async synthToBytestream(): Promise<{
+  protected async _synthToBytestream(): Promise<{
     audioStream: ReadableStream<Uint8Array>;
     wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
   }> {
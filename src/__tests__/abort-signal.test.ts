@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { GeminiTTSClient } from "../engines/gemini";
+import { abortableStream, isAbortError, raceWithAbort } from "../utils/abort-utils";
+import { MockTTSClient } from "./mock-tts-client.helper";
+
+const originalFetch = globalThis.fetch;
+
+function streamOf(chunks: number[][]): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(new Uint8Array(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+describe("abort-utils", () => {
+  it("returns the original stream when no signal is given", () => {
+    const stream = streamOf([[1]]);
+    expect(abortableStream(stream)).toBe(stream);
+  });
+
+  it("passes chunks through until the signal aborts", async () => {
+    const controller = new AbortController();
+    const reader = abortableStream(streamOf([[1, 2], [3]]), controller.signal).getReader();
+
+    const first = await reader.read();
+    expect(Array.from(first.value ?? [])).toEqual([1, 2]);
+
+    controller.abort();
+    await expect(reader.read()).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("errors immediately when the signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const reader = abortableStream(streamOf([[1]]), controller.signal).getReader();
+
+    await expect(reader.read()).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("rejects a pending operation and runs the cleanup hook on abort", async () => {
+    const controller = new AbortController();
+    const onAbort = jest.fn();
+    const pending = raceWithAbort(new Promise<string>(() => {}), controller.signal, onAbort);
+
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+    expect(onAbort).toHaveBeenCalledTimes(1);
+  });
+
+  it("detects abort errors", () => {
+    const error = new Error("aborted");
+    error.name = "AbortError";
+    expect(isAbortError(error)).toBe(true);
+    expect(isAbortError(new Error("other"))).toBe(false);
+  });
+});
+
+describe("SpeakOptions.signal", () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it("passes the signal to the engine's fetch request", async () => {
+    const fetchMock = jest.fn(async (_url: string, init?: RequestInit) => {
+      expect(init?.signal).toBe(controller.signal);
+      return {
+        ok: true,
+        status: 200,
+        statusText: "OK",
+        json: async () => ({
+          candidates: [
+            {
+              content: {
+                parts: [{ inlineData: { data: Buffer.from([0, 0]).toString("base64") } }],
+              },
+            },
+          ],
+        }),
+      };
+    });
+    globalThis.fetch = fetchMock as any;
+
+    const controller = new AbortController();
+    const client = new GeminiTTSClient({ apiKey: "test-api-key" });
+    await client.synthToBytes("Hello", { signal: controller.signal });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects the engine request when the signal aborts", async () => {
+    globalThis.fetch = jest.fn(
+      (_url: string, init?: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          const rejectAborted = () => {
+            const error = new Error("The operation was aborted");
+            error.name = "AbortError";
+            reject(error);
+          };
+          if (init?.signal?.aborted) {
+            rejectAborted();
+          }
+          init?.signal?.addEventListener("abort", rejectAborted);
+        })
+    ) as any;
+
+    const controller = new AbortController();
+    const client = new GeminiTTSClient({ apiKey: "test-api-key" });
+    const pending = client.synthToBytes("Hello", { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("does not start speaking when the signal is already aborted", async () => {
+    const client = new MockTTSClient();
+    const onStart = jest.fn();
+    client.on("start", onStart);
+
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(client.speak("Hello", { signal: controller.signal })).rejects.toMatchObject({
+      name: "AbortError",
+    });
+    await expect(
+      client.speakStreamed("Hello", { signal: controller.signal })
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(onStart).not.toHaveBeenCalled();
+  });
+});
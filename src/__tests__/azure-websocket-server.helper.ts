@@ -0,0 +1,100 @@
+import type { AddressInfo } from "node:net";
+import { WebSocket, WebSocketServer } from "ws";
+
+/**
+ * Local stand-in for the Azure Speech WebSocket endpoint
+ */
+
+/**
+ * Message received by the stand-in
+ */
+export interface AzureStandInMessage {
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * What the stand-in sends after receiving the SSML: metadata entries, an audio chunk, or a
+ * close frame. "turn.end" is sent after the last reply unless the connection was closed.
+ */
+export type AzureStandInReply =
+  | { metadata: unknown[] }
+  | { audio: Uint8Array }
+  | { close: { code: number; reason: string } };
+
+function parseMessage(text: string): AzureStandInMessage {
+  const [head, ...body] = text.split("\r\n\r\n");
+  const headers: Record<string, string> = {};
+  for (const line of head.split("\r\n")) {
+    const separator = line.indexOf(":");
+    headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+  }
+  return { headers, body: body.join("\r\n\r\n") };
+}
+
+function textMessage(path: string, requestId: string, body: string): string {
+  return `X-RequestId:${requestId}\r\nContent-Type:application/json; charset=utf-8\r\nPath:${path}\r\n\r\n${body}`;
+}
+
+function audioMessage(requestId: string, audio: Uint8Array): Uint8Array {
+  const headers = new TextEncoder().encode(
+    `X-RequestId:${requestId}\r\nContent-Type:audio/x-wav\r\nPath:audio\r\n`
+  );
+  const message = new Uint8Array(2 + headers.length + audio.length);
+  message[0] = headers.length >> 8;
+  message[1] = headers.length & 0xff;
+  message.set(headers, 2);
+  message.set(audio, 2 + headers.length);
+  return message;
+}
+
+/**
+ * Start the stand-in and make the "ws" client the global WebSocket until it is closed
+ * @param replies Replies to each synthesis request
+ * @returns Endpoint to pass as websocketEndpoint, the received connections and a close function
+ */
+export async function startAzureStandIn(replies: AzureStandInReply[]) {
+  const server = new WebSocketServer({ port: 0 });
+  await new Promise<void>((resolve) => server.on("listening", resolve));
+
+  const connections: Array<{ url: string; messages: AzureStandInMessage[] }> = [];
+  server.on("connection", (socket, request) => {
+    const connection = { url: request.url ?? "", messages: [] as AzureStandInMessage[] };
+    connections.push(connection);
+
+    socket.on("message", (data) => {
+      const message = parseMessage(String(data));
+      connection.messages.push(message);
+      if (message.headers.path !== "ssml") return;
+
+      const requestId = message.headers["x-requestid"];
+      socket.send(textMessage("turn.start", requestId, "{}"));
+      for (const reply of replies) {
+        if ("metadata" in reply) {
+          socket.send(
+            textMessage("audio.metadata", requestId, JSON.stringify({ Metadata: reply.metadata }))
+          );
+        } else if ("audio" in reply) {
+          socket.send(audioMessage(requestId, reply.audio));
+        } else {
+          socket.close(reply.close.code, reply.close.reason);
+          return;
+        }
+      }
+      socket.send(textMessage("turn.end", requestId, "{}"));
+    });
+  });
+
+  const globals = globalThis as { WebSocket?: unknown };
+  const originalWebSocket = globals.WebSocket;
+  globals.WebSocket = WebSocket;
+
+  return {
+    endpoint: `ws://127.0.0.1:${(server.address() as AddressInfo).port}/cognitiveservices/websocket/v1`,
+    connections,
+    close: () => {
+      globals.WebSocket = originalWebSocket;
+      return new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it } from "@jest/globals";
+import { TTSError } from "../core/errors";
+import { AzureTTSClient } from "../engines/azure";
+import { type AzureStandInReply, startAzureStandIn } from "./azure-websocket-server.helper";
+
+/**
+ * Metadata for "Hello world" in 100-nanosecond ticks, as sent by the service
+ */
+const METADATA = [
+  {
+    Type: "SentenceBoundary",
+    Data: { Offset: 500_000, Duration: 8_000_000, text: { Text: "Hello world" } },
+  },
+  { Type: "Bookmark", Data: { Offset: 500_000, Bookmark: "intro" } },
+  { Type: "WordBoundary", Data: { Offset: 500_000, Duration: 3_000_000, text: { Text: "Hello" } } },
+  { Type: "Viseme", Data: { Offset: 500_000, VisemeId: 12 } },
+  {
+    Type: "WordBoundary",
+    Data: { Offset: 4_500_000, Duration: 4_000_000, text: { Text: "world" } },
+  },
+  { Type: "Viseme", Data: { Offset: 4_500_000, VisemeId: 7 } },
+  { Type: "SessionEnd", Data: { Offset: 8_500_000 } },
+];
+
+let standIn: Awaited<ReturnType<typeof startAzureStandIn>> | null = null;
+
+async function createClient(replies: AzureStandInReply[]) {
+  standIn = await startAzureStandIn(replies);
+  return new AzureTTSClient({
+    subscriptionKey: "key",
+    region: "westeurope",
+    websocketEndpoint: standIn.endpoint,
+  });
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<number[]> {
+  const bytes: number[] = [];
+  const reader = stream.getReader();
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    bytes.push(...result.value);
+  }
+  return bytes;
+}
+
+describe("AzureTTSClient WebSocket protocol", () => {
+  afterEach(async () => {
+    await standIn?.close();
+    standIn = null;
+  });
+
+  it("sends the configuration and SSML of one request", async () => {
+    const client = await createClient([{ audio: new Uint8Array([1, 2]) }]);
+
+    const { audioStream } = await client.synthToBytestream("Hello world", { format: "mp3" });
+    await readAll(audioStream);
+
+    const [connection] = standIn!.connections;
+    expect(connection.url).toContain("Ocp-Apim-Subscription-Key=key");
+    expect(connection.messages.map(({ headers }) => headers.path)).toEqual([
+      "speech.config",
+      "synthesis.context",
+      "ssml",
+    ]);
+    const requestIds = new Set(connection.messages.map(({ headers }) => headers["x-requestid"]));
+    expect(requestIds.size).toBe(1);
+
+    const { audio } = JSON.parse(connection.messages[1].body).synthesis;
+    expect(audio.outputFormat).toBe("audio-24khz-96kbitrate-mono-mp3");
+    expect(audio.metadataOptions).toMatchObject({
+      bookmarkEnabled: true,
+      visemeEnabled: true,
+      wordBoundaryEnabled: true,
+    });
+    expect(connection.messages[2].body).toContain("Hello world");
+  });
+
+  it("streams audio and converts metadata to word boundaries and speech marks", async () => {
+    const client = await createClient([
+      { metadata: METADATA.slice(0, 4) },
+      { audio: new Uint8Array([1, 2, 3]) },
+      { metadata: METADATA.slice(4) },
+      { audio: new Uint8Array([4, 5]) },
+    ]);
+
+    const result = await client.synthToBytestream("Hello world");
+
+    expect(await readAll(result.audioStream)).toEqual([1, 2, 3, 4, 5]);
+    expect(result.wordBoundaries).toEqual([
+      { text: "Hello", offset: 50, duration: 300 },
+      { text: "world", offset: 450, duration: 400 },
+    ]);
+    expect(result.sentences).toEqual([{ text: "Hello world", offset: 50 }]);
+    expect(result.marks).toEqual([{ name: "intro", offset: 50 }]);
+    expect(result.visemes).toEqual([
+      { id: 12, offset: 50, shape: "h" },
+      { id: 7, offset: 450, shape: "uw" },
+    ]);
+  });
+
+  it("fails the audio stream when the service closes the connection", async () => {
+    const client = await createClient([{ close: { code: 1007, reason: "Invalid SSML" } }]);
+
+    const { audioStream } = await client.synthToBytestream("Hello world");
+
+    const error = await readAll(audioStream).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(TTSError);
+    expect((error as TTSError).message).toContain("code 1007: Invalid SSML");
+  });
+});
@@ -0,0 +1,83 @@
+import type { AddressInfo } from "node:net";
+import { WebSocket, WebSocketServer } from "ws";
+
+/**
+ * Local stand-in for the Cartesia TTS WebSocket. Each transcript is "synthesized" as 10ms of
+ * 1kHz PCM per character, with a word timestamp per word, continuing the context's timeline.
+ */
+
+/**
+ * Start the stand-in and make the "ws" client the global WebSocket until it is closed
+ * @param options Error to answer every message with, instead of audio
+ * @returns Base URL to pass as baseURL, the received connections and a close function
+ */
+export async function startCartesiaStandIn(
+  options: { error?: { message: string; status: number } } = {}
+) {
+  const server = new WebSocketServer({ port: 0 });
+  await new Promise<void>((resolve) => server.on("listening", resolve));
+
+  const connections: Array<{ url: string; messages: any[] }> = [];
+  server.on("connection", (socket, request) => {
+    const connection = { url: request.url ?? "", messages: [] as any[] };
+    connections.push(connection);
+    let elapsed = 0;
+
+    socket.on("message", (data) => {
+      const message = JSON.parse(String(data));
+      connection.messages.push(message);
+      const { context_id } = message;
+      if (options.error) {
+        socket.send(
+          JSON.stringify({
+            type: "error",
+            context_id,
+            error: options.error.message,
+            status_code: options.error.status,
+          })
+        );
+        return;
+      }
+
+      const transcript: string = message.transcript;
+      const words = transcript.split(" ").filter(Boolean);
+      if (words.length > 0) {
+        const start: number[] = [];
+        const end: number[] = [];
+        let position = elapsed;
+        for (const word of words) {
+          start.push(position);
+          end.push(position + word.length * 0.01);
+          position += (word.length + 1) * 0.01;
+        }
+        socket.send(
+          JSON.stringify({ type: "timestamps", context_id, word_timestamps: { words, start, end } })
+        );
+        socket.send(
+          JSON.stringify({
+            type: "chunk",
+            context_id,
+            data: Buffer.alloc(transcript.length * 20).toString("base64"),
+          })
+        );
+        elapsed += transcript.length * 0.01;
+      }
+      if (!message.continue) {
+        socket.send(JSON.stringify({ type: "done", context_id }));
+      }
+    });
+  });
+
+  const globals = globalThis as { WebSocket?: unknown };
+  const originalWebSocket = globals.WebSocket;
+  globals.WebSocket = WebSocket;
+
+  return {
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    connections,
+    close: () => {
+      globals.WebSocket = originalWebSocket;
+      return new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
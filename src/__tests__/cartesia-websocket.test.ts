@@ -0,0 +1,149 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { TTSError } from "../core/errors";
+import { CartesiaTTSClient } from "../engines/cartesia";
+import { startCartesiaStandIn } from "./cartesia-websocket-server.helper";
+
+let standIn: Awaited<ReturnType<typeof startCartesiaStandIn>> | null = null;
+
+async function createClient(options?: { error?: { message: string; status: number } }) {
+  standIn = await startCartesiaStandIn(options);
+  const client = new CartesiaTTSClient({ apiKey: "key", baseURL: standIn.baseUrl });
+  client.setProperty("outputFormat", {
+    container: "wav",
+    encoding: "pcm_s16le",
+    sample_rate: 1000,
+  });
+  return client;
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+describe("CartesiaTTSClient WebSocket", () => {
+  afterEach(async () => {
+    await standIn?.close();
+    standIn = null;
+  });
+
+  it("declares word boundary events for sonic models", () => {
+    const client = new CartesiaTTSClient({ apiKey: "key" });
+
+    const models = client.getModels();
+
+    expect(models.find(({ id }) => id === "sonic-3")?.features).toContain("word-boundary-events");
+    expect(models.find(({ id }) => id === "sonic-2")?.features).toContain("word-boundary-events");
+  });
+
+  it("synthesizes text with word timestamps", async () => {
+    const client = await createClient();
+
+    const { audioStream, wordBoundaries } = await client.synthToBytestream("Hello world", {
+      voice: "voice-1",
+    });
+    const audio = await readAll(audioStream);
+
+    expect(String.fromCharCode(...audio.subarray(0, 4))).toBe("RIFF");
+    expect(new DataView(audio.buffer).getUint32(24, true)).toBe(1000);
+    expect(audio.length).toBe(44 + 11 * 20);
+    expect(wordBoundaries).toEqual([
+      { text: "Hello", offset: 0, duration: 50 },
+      { text: "world", offset: 60, duration: 50 },
+    ]);
+
+    const [connection] = standIn!.connections;
+    expect(connection.url).toBe("/tts/websocket?api_key=key&cartesia_version=2025-04-16");
+    expect(connection.messages[0]).toMatchObject({
+      model_id: "sonic-3",
+      transcript: "Hello world",
+      voice: { mode: "id", id: "voice-1" },
+      output_format: { container: "raw", encoding: "pcm_s16le", sample_rate: 1000 },
+      add_timestamps: true,
+      continue: true,
+    });
+    expect(connection.messages[1]).toMatchObject({ transcript: "", continue: false });
+  });
+
+  it("continues one context for text written in fragments", async () => {
+    const client = await createClient();
+
+    const input = await client.createInputStream();
+    const audio = readAll(input.audioStream);
+    input.write("Hello ");
+    input.write("world");
+    await input.close();
+
+    expect((await audio).length).toBe(44 + 11 * 20);
+    expect(input.wordBoundaries).toEqual([
+      { text: "Hello", offset: 0, duration: 50 },
+      { text: "world", offset: 60, duration: 50 },
+    ]);
+    const messages = standIn!.connections[0].messages;
+    expect(messages.map(({ transcript }) => transcript)).toEqual(["Hello ", "world", ""]);
+    expect(new Set(messages.map(({ context_id }) => context_id))).toEqual(
+      new Set([input.contextId])
+    );
+    expect(() => input.write("more")).toThrow("closed");
+  });
+
+  it("throws when text is written to a connection that is not open", async () => {
+    const client = await createClient();
+
+    const input = await client.createInputStream();
+    const audio = readAll(input.audioStream).catch((err: unknown) => err);
+    (input as any).socket.close();
+
+    expect(() => input.write("Hello")).toThrow("the WebSocket is not open");
+    expect(await audio).toBeInstanceOf(TTSError);
+  });
+
+  it("synthesizes text streams as continuations", async () => {
+    const client = await createClient();
+    async function* tokens() {
+      yield "Hello ";
+      yield "world";
+    }
+
+    const { audioStream, wordBoundaries } = await client.synthFromTextStream(tokens());
+
+    expect((await readAll(audioStream)).length).toBe(44 + 11 * 20);
+    expect(wordBoundaries.map(({ text }) => text)).toEqual(["Hello", "world"]);
+    expect(standIn!.connections[0].messages.map(({ continue: more }) => more)).toEqual([
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  it("fails the stream when the service reports an error", async () => {
+    const client = await createClient({ error: { message: "Invalid voice", status: 400 } });
+
+    const { audioStream } = await client.synthToBytestream("Hello world");
+
+    const error = await readAll(audioStream).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(TTSError);
+    expect((error as TTSError).message).toContain("Invalid voice");
+    expect((error as TTSError).statusCode).toBe(400);
+  });
+
+  it.each([
+    ["compressed formats", { format: "mp3" as const }],
+    ["the http transport", { transport: "http" as const }],
+  ])("uses the bytes endpoint for %s", async (_case, options) => {
+    const client = await createClient();
+    const fetchMock = jest
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValue(new Response(new Uint8Array([1, 2, 3])));
+
+    try {
+      const { audioStream, wordBoundaries } = await client.synthToBytestream("Hello", options);
+
+      expect(await readAll(audioStream)).toEqual(new Uint8Array([1, 2, 3]));
+      expect(wordBoundaries).toEqual([]);
+      expect(String(fetchMock.mock.calls[0][0])).toContain("/tts/bytes");
+      expect(standIn!.connections).toHaveLength(0);
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+});
@@ -241,8 +241,8 @@ describe("CereVoiceTTSClient", () => {
     const result = await client.synthToBytestream("Hello world", { useWordBoundary: true });
 
     expect(result.wordBoundaries).toEqual([
-      { text: "hello", offset: 1000, duration: 2000 },
-      { text: "world", offset: 3000, duration: 3500 },
+      { text: "hello", offset: 100, duration: 200 },
+      { text: "world", offset: 300, duration: 350 },
     ]);
     expect(result.audioStream).toBe(stream);
   });
@@ -309,8 +309,8 @@ describe("CereVoiceTTSClient", () => {
     const result = await client.synthToBytestream("Hello world", { useWordBoundary: true });
 
     expect(result.wordBoundaries).toEqual([
-      { text: "hello", offset: 300, duration: 3900 },
-      { text: "world", offset: 4200, duration: 5000 },
+      { text: "hello", offset: 30, duration: 390 },
+      { text: "world", offset: 420, duration: 500 },
     ]);
   });
 
@@ -0,0 +1,169 @@
+import { afterEach, describe, expect, it } from "@jest/globals";
+import { WebSocket, WebSocketServer } from "ws";
+import { TTSError } from "../core/errors";
+import { ElevenLabsTTSClient } from "../engines/elevenlabs";
+
+/**
+ * Local stand-in for the stream-input WebSocket. Buffered text is "synthesized" on flush and
+ * at the end of the stream, as 10ms of 16kHz PCM per character.
+ */
+async function startStandIn(options: { error?: string } = {}) {
+  const server = new WebSocketServer({ port: 0 });
+  await new Promise<void>((resolve) => server.on("listening", resolve));
+
+  const connections: Array<{ url: string; messages: any[] }> = [];
+  server.on("connection", (socket, request) => {
+    const connection = { url: request.url ?? "", messages: [] as any[] };
+    connections.push(connection);
+    let buffer = "";
+
+    const generate = () => {
+      if (!buffer) return;
+      const chars = buffer.split("");
+      socket.send(
+        JSON.stringify({
+          audio: Buffer.alloc(chars.length * 320).toString("base64"),
+          isFinal: null,
+          alignment: {
+            chars,
+            charStartTimesMs: chars.map((_, index) => index * 10),
+            charsDurationsMs: chars.map(() => 10),
+          },
+        })
+      );
+      buffer = "";
+    };
+
+    socket.on("message", (data) => {
+      const message = JSON.parse(new TextDecoder().decode(data));
+      connection.messages.push(message);
+      if (options.error) {
+        socket.send(JSON.stringify({ error: "input_error", message: options.error }));
+        return;
+      }
+      if (message.xi_api_key) return;
+      if (message.text === "") {
+        generate();
+        socket.send(JSON.stringify({ isFinal: true }));
+        socket.close(1000);
+        return;
+      }
+      buffer += message.flush ? "" : message.text;
+      if (message.flush) generate();
+    });
+  });
+
+  const globals = globalThis as { WebSocket?: unknown };
+  const originalWebSocket = globals.WebSocket;
+  globals.WebSocket = WebSocket;
+
+  return {
+    baseUrl: `http://127.0.0.1:${server.address().port}/v1`,
+    connections,
+    close: () => {
+      globals.WebSocket = originalWebSocket;
+      return new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+let standIn: Awaited<ReturnType<typeof startStandIn>> | null = null;
+
+async function createClient(options?: { error?: string }) {
+  standIn = await startStandIn(options);
+  const client = new ElevenLabsTTSClient({ apiKey: "key" });
+  (client as any).baseUrl = standIn.baseUrl;
+  return client;
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<number> {
+  let length = 0;
+  const reader = stream.getReader();
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    length += result.value.length;
+  }
+  return length;
+}
+
+describe("ElevenLabs input streaming", () => {
+  afterEach(async () => {
+    await standIn?.close();
+    standIn = null;
+  });
+
+  it("opens the stream with the voice, model and API key", async () => {
+    const client = await createClient();
+
+    const input = await client.createInputStream({
+      voice: "voice-1",
+      model: "eleven_turbo_v2_5",
+      chunkLengthSchedule: [50, 120],
+    });
+    await input.close();
+
+    const [connection] = standIn!.connections;
+    expect(connection.url).toBe(
+      "/v1/text-to-speech/voice-1/stream-input?model_id=eleven_turbo_v2_5&output_format=mp3_44100_128"
+    );
+    expect(connection.messages[0]).toMatchObject({
+      text: " ",
+      xi_api_key: "key",
+      generation_config: { chunk_length_schedule: [50, 120] },
+    });
+    expect(connection.messages[1]).toEqual({ text: "" });
+  });
+
+  it("streams audio and word boundaries for text written in fragments", async () => {
+    const client = await createClient();
+
+    const input = await client.createInputStream({ outputFormat: "pcm_16000" });
+    const audioLength = readAll(input.audioStream);
+    input.write("Hello ");
+    input.write("wor");
+    input.write("ld");
+    input.flush();
+    input.write(" Bye.");
+    await input.close();
+
+    expect(await audioLength).toBe(16 * 320);
+    expect(input.wordBoundaries).toEqual([
+      { text: "Hello", offset: 0, duration: 50 },
+      { text: "world", offset: 60, duration: 50 },
+      { text: "Bye.", offset: 120, duration: 40 },
+    ]);
+    expect(input.alignment.characters.join("")).toBe("Hello world Bye.");
+    expect(input.alignment.character_start_times_seconds[12]).toBeCloseTo(0.12);
+    expect(() => input.write("more")).toThrow("closed");
+  });
+
+  it("synthesizes text streams over the input stream", async () => {
+    const client = await createClient();
+    async function* tokens() {
+      yield "Hello ";
+      yield "world";
+    }
+
+    const { audioStream, wordBoundaries } = await client.synthFromTextStream(tokens(), {
+      outputFormat: "pcm_16000",
+    });
+
+    expect(await readAll(audioStream)).toBe(11 * 320);
+    expect(wordBoundaries.map(({ text }) => text)).toEqual(["Hello", "world"]);
+    expect(standIn!.connections[0].messages.slice(1)).toEqual([
+      { text: "Hello " },
+      { text: "world" },
+      { text: "" },
+    ]);
+  });
+
+  it("fails the stream when the service reports an error", async () => {
+    const client = await createClient({ error: "Invalid API key" });
+
+    const input = await client.createInputStream();
+
+    const error = await readAll(input.audioStream).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(TTSError);
+    expect((error as TTSError).message).toContain("Invalid API key");
+    await expect(input.close()).rejects.toThrow("Invalid API key");
+  });
+});
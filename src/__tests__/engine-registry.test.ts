@@ -0,0 +1,146 @@
+import { afterEach, describe, expect, it } from "@jest/globals";
+import {
+  getEngineRegistration,
+  getRegisteredEngines,
+  isEngineRegistered,
+  registerEngine,
+  unregisterEngine,
+} from "../core/engine-registry";
+import { ENGINE_SSML_CAPABILITIES } from "../core/ssml-compatibility";
+import { AzureTTSClient } from "../engines/azure";
+import { EspeakNodeTTSClient } from "../engines/espeak";
+import { EspeakBrowserTTSClient } from "../engines/espeak-wasm";
+import { SherpaOnnxWasmTTSClient } from "../engines/sherpaonnx-wasm";
+import { createTTSClient } from "../factory";
+import { createBrowserTTSClient } from "../factory-browser";
+import type { TTSCredentials, UnifiedVoice } from "../types";
+import { StubTTSClient } from "./tts-fixtures.helper";
+
+class InHouseTTSClient extends StubTTSClient {
+  constructor(readonly options: TTSCredentials) {
+    super(options);
+  }
+
+  protected async _getVoices(): Promise<UnifiedVoice[]> {
+    return [
+      {
+        id: "house-1",
+        name: "House",
+        gender: "Female",
+        provider: "inhouse",
+        languageCodes: [{ bcp47: "en-US", iso639_3: "eng", display: "English" }],
+      },
+    ];
+  }
+}
+
+describe("engine registry", () => {
+  afterEach(() => {
+    unregisterEngine("inhouse");
+  });
+
+  it("registers the built-in engines with their metadata", () => {
+    const names = getRegisteredEngines().map((engine) => engine.name);
+    expect(names).toEqual(expect.arrayContaining(["azure", "polly", "sherpaonnx", "failover"]));
+
+    expect(getEngineRegistration("azure")?.credentialsSchema?.required).toEqual([
+      "subscriptionKey",
+      "region",
+    ]);
+    expect(getEngineRegistration("google")?.credentialsSchema).toMatchObject({
+      required: [],
+      oneOf: [["apiKey", "keyFilename"]],
+    });
+    expect(getEngineRegistration("sapi")?.capabilities?.browserSupported).toBe(false);
+  });
+
+  it("only lists browser engines for the browser factory", () => {
+    const names = getRegisteredEngines({ browser: true }).map((engine) => engine.name);
+    expect(names).toContain("espeak-wasm");
+    expect(names).not.toContain("sherpaonnx");
+    expect(names).not.toContain("sapi");
+  });
+
+  it("creates built-in engines through the factories", () => {
+    const credentials = { subscriptionKey: "key", region: "westeurope" };
+    expect(createTTSClient("azure", credentials)).toBeInstanceOf(AzureTTSClient);
+    expect(createBrowserTTSClient("azure", credentials)).toBeInstanceOf(AzureTTSClient);
+  });
+
+  it("lets third-party engines go through the factory", async () => {
+    registerEngine("inhouse", {
+      create: (credentials) => new InHouseTTSClient(credentials),
+      credentialsSchema: { required: ["endpoint"] },
+      capabilities: { browserSupported: false, nodeSupported: true },
+    });
+
+    const client = createTTSClient("inhouse", {
+      endpoint: "http://localhost",
+      properties: { rate: "fast" },
+    });
+
+    expect(client).toBeInstanceOf(InHouseTTSClient);
+    expect((client as InHouseTTSClient).options.endpoint).toBe("http://localhost");
+    expect(client.getProperty("rate")).toBe("fast");
+    expect((await client.getVoices())[0].provider).toBe("inhouse");
+    expect(client.engineName).toBe("inhouse");
+  });
+
+  it("names built-in engines after their registration, not their class", () => {
+    const clients = [
+      new SherpaOnnxWasmTTSClient({}),
+      new EspeakBrowserTTSClient({}),
+      new EspeakNodeTTSClient({}),
+      new AzureTTSClient({ subscriptionKey: "key", region: "westeurope" }),
+    ];
+
+    for (const client of clients) {
+      expect(getEngineRegistration(client.engineName)).toBeDefined();
+      expect(ENGINE_SSML_CAPABILITIES[client.engineName]).toBeDefined();
+    }
+    expect(clients.map((client) => client.engineName)).toEqual([
+      "sherpaonnx-wasm",
+      "espeak-wasm",
+      "espeak",
+      "azure",
+    ]);
+  });
+
+  it("keeps engines out of the browser factory unless they opt in", () => {
+    registerEngine("inhouse", { create: (credentials) => new InHouseTTSClient(credentials) });
+    expect(isEngineRegistered("inhouse")).toBe(true);
+    expect(isEngineRegistered("inhouse", { browser: true })).toBe(false);
+    expect(() => createBrowserTTSClient("inhouse")).toThrow("not supported");
+
+    registerEngine("inhouse", {
+      create: (credentials) => new InHouseTTSClient(credentials),
+      browser: true,
+    });
+    expect(createBrowserTTSClient("inhouse")).toBeInstanceOf(InHouseTTSClient);
+  });
+
+  it("rejects unknown engines and invalid registrations", () => {
+    expect(() => createTTSClient("does-not-exist")).toThrow(
+      "Engine 'does-not-exist' is not supported in the factory."
+    );
+    expect(() => registerEngine("broken", {} as any)).toThrow("create function");
+  });
+
+  it("resolves failover entries by engine name", () => {
+    registerEngine("inhouse", { create: (credentials) => new InHouseTTSClient(credentials) });
+    const client = createTTSClient("failover", {
+      engines: [{ engine: "inhouse", credentials: { endpoint: "a" } }],
+    }) as import("../engines/failover").FailoverTTSClient;
+
+    expect(client.getEngines()[0]).toBeInstanceOf(InHouseTTSClient);
+  });
+
+  it("only resolves failover entries available in the browser factory's environment", () => {
+    registerEngine("inhouse", { create: (credentials) => new InHouseTTSClient(credentials) });
+    const credentials = { engines: [{ engine: "inhouse", credentials: { endpoint: "a" } }] };
+
+    expect(() => createBrowserTTSClient("failover", credentials)).toThrow(
+      "Engine 'inhouse' is not supported in the factory."
+    );
+  });
+});
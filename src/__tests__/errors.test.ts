@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import {
+  createHttpError,
+  parseRetryAfter,
+  TTSAuthError,
+  TTSError,
+  TTSInvalidVoiceError,
+  TTSNetworkError,
+  TTSQuotaError,
+  TTSRateLimitError,
+  TTSUnsupportedFeatureError,
+  toTTSError,
+} from "../core/errors";
+import { GeminiTTSClient } from "../engines/gemini";
+import { OpenAITTSClient } from "../engines/openai";
+
+const originalFetch = globalThis.fetch;
+
+describe("TTSError hierarchy", () => {
+  it("carries request context and truncates the response body", () => {
+    const error = new TTSError("boom", {
+      provider: "openai",
+      statusCode: 400,
+      model: "tts-1",
+      voiceId: "alloy",
+      responseBody: "x".repeat(1000),
+    });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("TTSError");
+    expect(error.provider).toBe("openai");
+    expect(error.statusCode).toBe(400);
+    expect(error.model).toBe("tts-1");
+    expect(error.voiceId).toBe("alloy");
+    expect(error.responseBody).toHaveLength(503);
+    expect(error.isRetryable).toBe(false);
+  });
+
+  it("marks rate limit and network errors as retryable", () => {
+    expect(new TTSRateLimitError("slow down").isRetryable).toBe(true);
+    expect(new TTSNetworkError("offline").isRetryable).toBe(true);
+    expect(new TTSAuthError("denied").isRetryable).toBe(false);
+    expect(new TTSQuotaError("no credits").isRetryable).toBe(false);
+    expect(new TTSInvalidVoiceError("no voice").isRetryable).toBe(false);
+    expect(new TTSUnsupportedFeatureError("no ssml", { feature: "ssml" }).feature).toBe("ssml");
+  });
+
+  it("keeps subclasses distinguishable with instanceof", () => {
+    const error = new TTSAuthError("denied");
+    expect(error).toBeInstanceOf(TTSAuthError);
+    expect(error).toBeInstanceOf(TTSError);
+    expect(error.name).toBe("TTSAuthError");
+  });
+});
+
+describe("createHttpError", () => {
+  const context = { provider: "test", voiceId: "voice-1" };
+
+  it.each([
+    [401, "", TTSAuthError],
+    [403, "", TTSAuthError],
+    [402, "", TTSQuotaError],
+    [429, "You have exceeded your quota", TTSQuotaError],
+    [429, "Too many requests", TTSRateLimitError],
+    [404, "", TTSInvalidVoiceError],
+    [422, "voice not found", TTSInvalidVoiceError],
+    [500, "", TTSNetworkError],
+    [503, "", TTSNetworkError],
+    [400, "bad text", TTSError],
+  ])("maps HTTP %i to the matching error class", (statusCode, responseBody, errorClass) => {
+    const error = createHttpError("failed", { ...context, statusCode, responseBody });
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error.constructor).toBe(errorClass);
+    expect(error.statusCode).toBe(statusCode);
+  });
+
+  it("reads Retry-After from response headers", () => {
+    const error = createHttpError(
+      "failed",
+      { statusCode: 429 },
+      new Headers({ "retry-after": "3" })
+    ) as TTSRateLimitError;
+    expect(error.retryAfterMs).toBe(3000);
+  });
+
+  it("parses Retry-After dates", () => {
+    const date = new Date(Date.now() + 60_000).toUTCString();
+    expect(parseRetryAfter(date)).toBeGreaterThan(50_000);
+    expect(parseRetryAfter("not a date")).toBeUndefined();
+  });
+});
+
+describe("toTTSError", () => {
+  it("classifies SDK errors that expose a status code", () => {
+    const sdkError = Object.assign(new Error("Rate limited"), { status: 429 });
+    const error = toTTSError(sdkError, { provider: "openai" });
+    expect(error).toBeInstanceOf(TTSRateLimitError);
+    expect((error as TTSError).cause).toBe(sdkError);
+  });
+
+  it("classifies fetch network failures", () => {
+    const error = toTTSError(new TypeError("fetch failed"), { provider: "openai" });
+    expect(error).toBeInstanceOf(TTSNetworkError);
+  });
+
+  it("leaves abort errors and unknown errors untouched", () => {
+    const abortError = Object.assign(new Error("aborted"), { name: "AbortError" });
+    const other = new Error("something else");
+    expect(toTTSError(abortError)).toBe(abortError);
+    expect(toTTSError(other)).toBe(other);
+  });
+});
+
+describe("engine errors", () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it("throws a typed auth error for rejected API keys", async () => {
+    globalThis.fetch = jest.fn(async () => ({
+      ok: false,
+      status: 401,
+      statusText: "Unauthorized",
+      headers: new Headers(),
+      text: async () => "API key not valid",
+    })) as any;
+
+    const client = new GeminiTTSClient({ apiKey: "bad-key" });
+    const error = (await client.synthToBytes("Hello").catch((e) => e)) as TTSAuthError;
+
+    expect(error).toBeInstanceOf(TTSAuthError);
+    expect(error.provider).toBe("gemini");
+    expect(error.statusCode).toBe(401);
+    expect(error.model).toBe("gemini-3.1-flash-tts-preview");
+    expect(error.voiceId).toBe("Kore");
+    expect(error.responseBody).toBe("API key not valid");
+    expect(error.message).toContain("Gemini TTS API error: 401");
+  });
+
+  it("throws a typed unsupported feature error for SSML on OpenAI", async () => {
+    const client = new OpenAITTSClient({ apiKey: "test" });
+    await expect(client.ssmlToSpeech("<speak>Hi</speak>")).rejects.toBeInstanceOf(
+      TTSUnsupportedFeatureError
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { StubTTSClient } from "./tts-fixtures.helper";
+
+class EventTTSClient extends StubTTSClient {
+  failWith: Error | null = null;
+
+  protected async audioFor(text: string): Promise<Uint8Array> {
+    if (this.failWith) {
+      throw this.failWith;
+    }
+    return super.audioFor(text);
+  }
+
+  fire(word: string) {
+    this.emit("boundary", { text: word, offset: 0, duration: 100 });
+  }
+
+  monitor(chunks: number[][], startedAt: number) {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) {
+          controller.enqueue(new Uint8Array(chunk));
+        }
+        controller.close();
+      },
+    });
+    return this._monitorAudioStream(stream, startedAt);
+  }
+}
+
+describe("AbstractTTSClient events", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("removes listeners with off()", () => {
+    const client = new EventTTSClient({});
+    const kept = jest.fn();
+    const removed = jest.fn();
+    client.on("boundary", kept);
+    client.on("boundary", removed);
+
+    client.off("boundary", removed);
+    client.fire("Hello");
+
+    expect(kept).toHaveBeenCalledWith({ text: "Hello", offset: 0, duration: 100 });
+    expect(removed).not.toHaveBeenCalled();
+  });
+
+  it("calls once() listeners a single time and lets off() remove them", () => {
+    const client = new EventTTSClient({});
+    const once = jest.fn();
+    const cancelled = jest.fn();
+    client.once("boundary", once);
+    client.once("boundary", cancelled);
+    client.off("boundary", cancelled);
+
+    client.fire("Hello");
+    client.fire("world");
+
+    expect(once).toHaveBeenCalledTimes(1);
+    expect(cancelled).not.toHaveBeenCalled();
+  });
+
+  it("removes all listeners of an event when no listener is given", () => {
+    const client = new EventTTSClient({});
+    const listener = jest.fn();
+    client.on("boundary", listener);
+    client.on("boundary", listener);
+
+    client.off("boundary");
+    client.fire("Hello");
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("emits error before end when speaking fails", async () => {
+    const client = new EventTTSClient({});
+    client.failWith = new Error("quota exceeded");
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+    const events: string[] = [];
+    client.on("synthesisStart", ({ text }) => events.push(`synthesisStart:${text}`));
+    client.on("error", (error) => events.push(`error:${error.message}`));
+    client.on("end", () => events.push("end"));
+
+    await expect(client.speak("Hello")).rejects.toThrow("quota exceeded");
+
+    expect(events).toEqual(["synthesisStart:Hello", "error:quota exceeded", "end"]);
+    expect(consoleError).not.toHaveBeenCalled();
+  });
+
+  it("logs errors when there are no error listeners", async () => {
+    const client = new EventTTSClient({});
+    client.failWith = new Error("quota exceeded");
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(client.speak("Hello")).rejects.toThrow("quota exceeded");
+
+    expect(consoleError).toHaveBeenCalledWith("Error in speak method:", client.failWith);
+  });
+
+  it("emits firstByte, chunk and progress events while audio is read", async () => {
+    const client = new EventTTSClient({});
+    const now = jest.spyOn(Date, "now").mockReturnValue(1_250);
+    const firstByte = jest.fn();
+    const chunks: number[][] = [];
+    const progress: number[] = [];
+    client.on("firstByte", firstByte);
+    client.on("chunk", (chunk) => chunks.push(Array.from(chunk)));
+    client.on("progress", ({ bytesReceived }) => progress.push(bytesReceived));
+
+    const stream = client.monitor([[1, 2], [3]], 1_000);
+    await new Response(stream).arrayBuffer();
+
+    expect(firstByte).toHaveBeenCalledTimes(1);
+    expect(firstByte).toHaveBeenCalledWith({ latencyMs: 250 });
+    expect(chunks).toEqual([[1, 2], [3]]);
+    expect(progress).toEqual([2, 3]);
+    now.mockRestore();
+  });
+});
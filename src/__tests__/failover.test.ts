@@ -0,0 +1,254 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  TTSAuthError,
+  TTSError,
+  TTSNetworkError,
+  TTSUnsupportedFeatureError,
+} from "../core/errors";
+import { Lexicon } from "../core/lexicon";
+import { MemoryCacheBackend, SynthesisCache } from "../core/synthesis-cache";
+import { FailoverTTSClient, findClosestVoice } from "../engines/failover";
+import { createTTSClient } from "../factory";
+import type { SpeakOptions, UnifiedVoice } from "../types";
+import { StubTTSClient } from "./tts-fixtures.helper";
+
+const voice = (
+  id: string,
+  bcp47: string,
+  gender: UnifiedVoice["gender"],
+  provider: UnifiedVoice["provider"]
+): UnifiedVoice => ({
+  id,
+  name: id,
+  gender,
+  provider,
+  languageCodes: [{ bcp47, iso639_3: "", display: bcp47 }],
+});
+
+class FakeTTSClient extends StubTTSClient {
+  calls: Array<SpeakOptions | undefined> = [];
+
+  constructor(
+    private voices: UnifiedVoice[],
+    private failure?: Error,
+    private audio = new Uint8Array([1, 2, 3])
+  ) {
+    super({});
+  }
+
+  protected async _getVoices(): Promise<UnifiedVoice[]> {
+    return this.voices;
+  }
+
+  protected async audioFor(_text: string, options?: SpeakOptions): Promise<Uint8Array> {
+    this.calls.push(options);
+    if (!this.acceptsVoiceReference) {
+      this.resolveVoiceId(options?.voice);
+    }
+    if (this.failure) {
+      throw this.failure;
+    }
+    return this.audio;
+  }
+
+  protected wordBoundariesFor() {
+    return [{ text: "hello", offset: 0, duration: 1000 }];
+  }
+}
+
+/**
+ * Engine that clones a voice from reference audio sent with each request
+ */
+class CloningTTSClient extends FakeTTSClient {
+  protected acceptsVoiceReference = true;
+}
+
+const azureVoices = [
+  voice("en-US-JennyNeural", "en-US", "Female", "azure"),
+  voice("en-US-GuyNeural", "en-US", "Male", "azure"),
+];
+const pollyVoices = [
+  voice("Matthew", "en-US", "Male", "polly"),
+  voice("Joanna", "en-US", "Female", "polly"),
+  voice("Amy", "en-GB", "Female", "polly"),
+];
+
+describe("FailoverTTSClient", () => {
+  it("uses the first engine when it succeeds", async () => {
+    const azure = new FakeTTSClient(azureVoices, undefined, new Uint8Array([1]));
+    const polly = new FakeTTSClient(pollyVoices, undefined, new Uint8Array([2]));
+    const client = new FailoverTTSClient({ engines: [azure, polly] });
+
+    const bytes = await client.synthToBytes("Hello", { voice: "en-US-JennyNeural" });
+
+    expect(Array.from(bytes)).toEqual([1]);
+    expect(polly.calls).toHaveLength(0);
+    expect(client.getActiveEngine()).toBe(azure);
+  });
+
+  it("moves to the next engine on retryable errors and maps the voice", async () => {
+    const azure = new FakeTTSClient(azureVoices, new TTSNetworkError("503"));
+    const polly = new FakeTTSClient(pollyVoices, undefined, new Uint8Array([2]));
+    const client = new FailoverTTSClient({ engines: [azure, polly] });
+    const events: Array<{ voice?: string }> = [];
+    client.onFailover((event) => events.push(event));
+
+    const bytes = await client.synthToBytes("Hello", { voice: "en-US-JennyNeural" });
+
+    expect(Array.from(bytes)).toEqual([2]);
+    expect(polly.calls[0]?.voice).toBe("Joanna");
+    expect(events).toEqual([expect.objectContaining({ from: azure, to: polly, voice: "Joanna" })]);
+    expect(client.getActiveEngine()).toBe(polly);
+  });
+
+  it("fails over on auth errors and uses the voice set with setVoice", async () => {
+    const azure = new FakeTTSClient(azureVoices, new TTSAuthError("bad key"));
+    const polly = new FakeTTSClient(pollyVoices);
+    const client = new FailoverTTSClient({ engines: [azure, polly] });
+    client.setVoice("en-US-GuyNeural");
+
+    await client.synthToBytes("Hello");
+
+    expect(azure.calls[0]?.voice).toBe("en-US-GuyNeural");
+    expect(polly.calls[0]?.voice).toBe("Matthew");
+  });
+
+  it("does not fail over on other errors", async () => {
+    const error = new TTSError("invalid SSML");
+    const azure = new FakeTTSClient(azureVoices, error);
+    const polly = new FakeTTSClient(pollyVoices);
+    const client = new FailoverTTSClient({ engines: [azure, polly] });
+
+    await expect(client.synthToBytes("Hello")).rejects.toBe(error);
+    expect(polly.calls).toHaveLength(0);
+  });
+
+  it("throws the last error when every engine fails", async () => {
+    const last = new TTSNetworkError("offline");
+    const client = new FailoverTTSClient({
+      engines: [
+        new FakeTTSClient(azureVoices, new TTSNetworkError("503")),
+        new FakeTTSClient(pollyVoices, last),
+      ],
+    });
+
+    await expect(client.synthToBytes("Hello")).rejects.toBe(last);
+  });
+
+  it("names the failing engine in errors and plays with the state of the engine used", async () => {
+    const azure = new FakeTTSClient(azureVoices, new TTSNetworkError("503"));
+    const polly = new FakeTTSClient(pollyVoices, Object.assign(new Error("Bad"), { status: 400 }));
+    azure.engineName = "azure";
+    polly.engineName = "polly";
+    const client = new FailoverTTSClient({ engines: [azure, polly] });
+
+    await expect(client.synthToBytes("Hello")).rejects.toMatchObject({
+      provider: "polly",
+      statusCode: 400,
+    });
+
+    const fallback = new FakeTTSClient(pollyVoices);
+    const speechMarks = { sentences: [{ text: "Hello", offset: 0, duration: 500 }] };
+    (fallback as any).sampleRate = 16000;
+    (fallback as any).speechMarks = speechMarks;
+    const recovered = new FailoverTTSClient({ engines: [azure, fallback] });
+    await recovered.synthToBytes("Hello");
+    expect((recovered as any).sampleRate).toBe(16000);
+    expect((recovered as any).speechMarks).toEqual(speechMarks);
+  });
+
+  it("fails over while opening a stream and keeps the word boundaries", async () => {
+    const client = new FailoverTTSClient({
+      engines: [
+        new FakeTTSClient(azureVoices, new TTSNetworkError("503")),
+        new FakeTTSClient(pollyVoices),
+      ],
+    });
+
+    const result = await client.synthToBytestream("Hello");
+
+    expect(result.wordBoundaries).toHaveLength(1);
+  });
+
+  it("sends reference audio to the engines that can clone a voice from it", async () => {
+    const reference = { audio: new Uint8Array([1, 2, 3]) };
+    const openai = new FakeTTSClient(pollyVoices);
+    const cartesia = new CloningTTSClient(azureVoices);
+    const client = new FailoverTTSClient({ engines: [openai, cartesia] });
+    client.setVoice(reference);
+
+    await client.synthToBytes("Hello");
+
+    expect(openai.calls).toHaveLength(1);
+    expect(cartesia.calls[0]?.voice).toBe(reference);
+    expect(client.getActiveEngine()).toBe(cartesia);
+    expect(() =>
+      new FailoverTTSClient({ engines: [new FakeTTSClient(pollyVoices)] }).setVoice(reference)
+    ).toThrow(TTSUnsupportedFeatureError);
+  });
+
+  it("leaves the lexicon to the engine that serves the request", async () => {
+    const azure = new FakeTTSClient(azureVoices, new TTSNetworkError("503"));
+    const openai = new FakeTTSClient(pollyVoices);
+    azure.engineName = "azure";
+    openai.engineName = "openai";
+    const client = new FailoverTTSClient({ engines: [azure, openai] });
+    const lexicon = Lexicon.fromJSON({ Nguyen: "win" });
+    client.setLexicon(lexicon);
+
+    await client.synthToBytes("Hi Nguyen");
+
+    expect(client.getLexicon()).toBe(lexicon);
+    expect(azure.getLexicon()).toBe(lexicon);
+    expect(azure.requests).toEqual(['<speak>Hi <sub alias="win">Nguyen</sub></speak>']);
+    expect(openai.requests).toEqual(["Hi win"]);
+  });
+
+  it("caches results per engine", async () => {
+    const cache = new SynthesisCache(new MemoryCacheBackend());
+    const azure = new FakeTTSClient(azureVoices, new TTSNetworkError("503"));
+    const polly = new FakeTTSClient(pollyVoices);
+    const client = new FailoverTTSClient({ engines: [azure, polly], cache });
+
+    await client.synthToBytes("Hello");
+    await client.synthToBytes("Hello");
+
+    expect(client.getCache()).toBe(cache);
+    expect(azure.getCache()).toBe(cache);
+    expect(polly.calls).toHaveLength(1);
+  });
+
+  it("combines the voices of all engines", async () => {
+    const client = new FailoverTTSClient({
+      engines: [new FakeTTSClient(azureVoices), new FakeTTSClient(pollyVoices)],
+    });
+
+    const voices = await client.getVoices();
+
+    expect(voices.map((v) => v.provider)).toEqual(["azure", "azure", "polly", "polly", "polly"]);
+  });
+
+  it("is reachable through the factory", async () => {
+    const polly = new FakeTTSClient(pollyVoices);
+    const client = createTTSClient("failover", {
+      engines: [new FakeTTSClient(azureVoices, new TTSNetworkError("503")), polly],
+    });
+
+    expect(client).toBeInstanceOf(FailoverTTSClient);
+    await client.synthToBytes("Hello");
+    expect(polly.calls).toHaveLength(1);
+  });
+
+  it("requires at least one engine", () => {
+    expect(() => new FailoverTTSClient({ engines: [] })).toThrow(TTSError);
+  });
+});
+
+describe("findClosestVoice", () => {
+  it("prefers locale and gender, then falls back to the base language", () => {
+    const reference = voice("x", "en-GB", "Male", "azure");
+    expect(findClosestVoice(pollyVoices, reference)?.id).toBe("Amy");
+    expect(findClosestVoice(pollyVoices, voice("x", "en-AU", "Male", "azure"))?.id).toBe("Matthew");
+    expect(findClosestVoice(pollyVoices, voice("x", "fr-FR", "Male", "azure"))).toBeUndefined();
+  });
+});
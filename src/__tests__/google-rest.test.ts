@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { GoogleTTSClient } from "../engines/google";
+import { mockFetch, requestAt, requestBody } from "./mock-fetch.helper";
+
+describe("GoogleTTSClient REST mode", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("gets word timings from v1beta1 SSML mark timepoints", async () => {
+    const fetchMock = mockFetch({
+      audioContent: "AQID",
+      timepoints: [
+        { markName: "word_0", timeSeconds: 0.05 },
+        { markName: "word_1", timeSeconds: 0.4 },
+        { markName: "word_2", timeSeconds: 0.8 },
+      ],
+    });
+    const client = new GoogleTTSClient({ apiKey: "key" });
+
+    const { wordBoundaries } = await client.synthToBytestream("Hello world, hello!", {
+      useWordBoundary: true,
+    });
+
+    expect(requestAt(fetchMock, 0).url).toContain("/v1beta1/text:synthesize?key=key");
+    expect(requestBody(fetchMock, 0).enableTimePointing).toEqual(["SSML_MARK"]);
+    expect(requestBody(fetchMock, 0).input.ssml).toContain(
+      '<mark name="word_0"/>Hello <mark name="word_1"/>world, <mark name="word_2"/>hello!'
+    );
+    expect(wordBoundaries).toEqual([
+      { text: "Hello", offset: 50, duration: 350 },
+      { text: "world,", offset: 400, duration: 400 },
+      { text: "hello!", offset: 800, duration: 600 },
+    ]);
+  });
+
+  it("times elements that hold several words with one mark", async () => {
+    const fetchMock = mockFetch({
+      audioContent: "AQID",
+      timepoints: [
+        { markName: "word_0", timeSeconds: 0.1 },
+        { markName: "word_1", timeSeconds: 0.5 },
+        { markName: "word_2", timeSeconds: 1.5 },
+      ],
+    });
+    const client = new GoogleTTSClient({ apiKey: "key" });
+
+    const { wordBoundaries } = await client.synthToBytestream(
+      '<speak>Call <say-as interpret-as="telephone">0800 123 456</say-as> now</speak>',
+      { useWordBoundary: true }
+    );
+
+    expect(requestBody(fetchMock, 0).input.ssml).toContain(
+      '<mark name="word_1"/><say-as interpret-as="telephone">0800 123 456</say-as> ' +
+        '<mark name="word_2"/>now'
+    );
+    expect(wordBoundaries.map(({ text }) => text)).toEqual(["Call", "0800 123 456", "now"]);
+  });
+
+  it("keeps the marks of concurrent requests apart", async () => {
+    mockFetch(
+      {
+        audioContent: "AQID",
+        timepoints: [
+          { markName: "word_0", timeSeconds: 0 },
+          { markName: "word_1", timeSeconds: 0.5 },
+        ],
+      },
+      { audioContent: "AQID", timepoints: [{ markName: "word_0", timeSeconds: 0 }] }
+    );
+    const client = new GoogleTTSClient({ apiKey: "key" });
+
+    const [first, second] = await Promise.all([
+      client.synthToBytestream("Hello world", { useWordBoundary: true }),
+      client.synthToBytestream("Goodbye", { useWordBoundary: true }),
+    ]);
+
+    expect(first.wordBoundaries.map(({ text }) => text)).toEqual(["Hello", "world"]);
+    expect(second.wordBoundaries.map(({ text }) => text)).toEqual(["Goodbye"]);
+  });
+
+  it("uses the v1 endpoint when word boundaries are not requested", async () => {
+    const fetchMock = mockFetch({ audioContent: "AQID" });
+    const client = new GoogleTTSClient({ apiKey: "key" });
+
+    const audio = await client.synthToBytes("Hello world");
+
+    expect(Array.from(audio)).toEqual([1, 2, 3]);
+    expect(requestAt(fetchMock, 0).url).toContain("/v1/text:synthesize?key=key");
+    expect(requestBody(fetchMock, 0).enableTimePointing).toBeUndefined();
+  });
+
+  it("estimates timings for voices that return no timepoints", async () => {
+    mockFetch({ audioContent: "AQID" });
+    const client = new GoogleTTSClient({ apiKey: "key" });
+
+    const { wordBoundaries } = await client.synthToBytestream("Hello world", {
+      voice: "en-US-Chirp3-HD-Aoede",
+      useWordBoundary: true,
+    });
+
+    expect(wordBoundaries).toEqual([
+      { text: "Hello", offset: 0, duration: 300 },
+      { text: "world", offset: 300, duration: 300 },
+    ]);
+  });
+});
@@ -0,0 +1,251 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { applyLexicon, Lexicon } from "../core/lexicon";
+import { MemoryCacheBackend, SynthesisCache } from "../core/synthesis-cache";
+import { AzureTTSClient } from "../engines/azure";
+import { PollyTTSClient } from "../engines/polly";
+import { StubTTSClient } from "./tts-fixtures.helper";
+
+const PLS = `<?xml version="1.0" encoding="UTF-8"?>
+<lexicon version="1.0" xmlns="http://www.w3.org/2005/01/pronunciation-lexicon"
+    alphabet="ipa" xml:lang="en-GB">
+  <!-- Names -->
+  <lexeme>
+    <grapheme>Siobhan</grapheme>
+    <grapheme>Siobhán</grapheme>
+    <phoneme>ʃɪˈvɔːn</phoneme>
+    <alias>Shivawn</alias>
+  </lexeme>
+  <lexeme>
+    <grapheme>Leicester Square</grapheme>
+    <alias>Lester Square</alias>
+  </lexeme>
+  <lexeme>
+    <grapheme>Cholmondeley</grapheme>
+    <phoneme alphabet="x-sampa">"tSVmli</phoneme>
+  </lexeme>
+</lexicon>`;
+
+/**
+ * Client of an engine that reads `<phoneme>` and `<sub>`
+ */
+class GoogleTTSClient extends StubTTSClient {
+  readonly engineName = "google";
+}
+
+/**
+ * Client of an engine without SSML support
+ */
+class OpenAITTSClient extends StubTTSClient {
+  readonly engineName = "openai";
+}
+
+describe("Lexicon", () => {
+  it("loads PLS documents", () => {
+    const lexicon = Lexicon.fromPLS(PLS);
+
+    expect(lexicon.lang).toBe("en-GB");
+    expect(lexicon.lookup("Siobhán")).toEqual({
+      graphemes: ["Siobhan", "Siobhán"],
+      phoneme: "ʃɪˈvɔːn",
+      alphabet: "ipa",
+      alias: "Shivawn",
+    });
+    expect(lexicon.lookup("Cholmondeley")?.alphabet).toBe("x-sampa");
+    expect(Lexicon.fromPLS(lexicon.toPLS()).getEntries()).toEqual(lexicon.getEntries());
+    expect(lexicon.name).toMatch(/^[0-9A-Za-z]{1,20}$/);
+    expect(() => Lexicon.fromPLS("<speak>Hi</speak>")).toThrow("missing <lexicon> element");
+  });
+
+  it("loads JSON maps of aliases and pronunciations", () => {
+    const lexicon = Lexicon.fromJSON(
+      '{"Nguyen": "win", "Siobhan": "/ʃɪˈvɔːn/", "Leicester": {"alias": "Lester", "ipa": "ˈlɛstə"}}'
+    );
+
+    expect(lexicon.getEntries()).toEqual([
+      { graphemes: ["Nguyen"], alias: "win" },
+      { graphemes: ["Siobhan"], phoneme: "ʃɪˈvɔːn", alphabet: "ipa" },
+      { graphemes: ["Leicester"], phoneme: "ˈlɛstə", alphabet: "ipa", alias: "Lester" },
+    ]);
+    expect(() => new Lexicon([], { name: "my-lexicon" })).toThrow("Invalid lexicon name");
+  });
+
+  it("serializes to PLS again only after an entry is added", () => {
+    const lexicon = Lexicon.fromJSON({ Nguyen: "win" });
+    const pls = lexicon.toPLS();
+    const name = lexicon.name;
+
+    expect(lexicon.toPLS()).toBe(pls);
+    lexicon.add({ graphemes: ["Siobhan"], alias: "Shivawn" });
+    expect(lexicon.toPLS()).toContain("<alias>Shivawn</alias>");
+    expect(lexicon.name).not.toBe(name);
+  });
+});
+
+describe("applyLexicon", () => {
+  const lexicon = Lexicon.fromPLS(PLS);
+
+  it("writes phonemes and aliases as tags for engines that read them", () => {
+    expect(
+      applyLexicon("Siobhan & Siobhans meet at Leicester  Square.", lexicon, {
+        phoneme: true,
+        sub: true,
+      })
+    ).toBe(
+      '<speak><phoneme alphabet="ipa" ph="ʃɪˈvɔːn">Siobhan</phoneme> &amp; Siobhans meet at ' +
+        '<sub alias="Lester Square">Leicester  Square</sub>.</speak>'
+    );
+  });
+
+  it("respells aliases for engines without the tags", () => {
+    expect(applyLexicon("Siobhan & Cholmondeley at Leicester Square", lexicon)).toBe(
+      "Shivawn & Cholmondeley at Lester Square"
+    );
+    expect(applyLexicon("Nothing to change", lexicon, { phoneme: true })).toBe("Nothing to change");
+  });
+
+  it("rewrites SSML outside elements that set a pronunciation", () => {
+    expect(
+      applyLexicon(
+        '<speak>Siobhan, <sub alias="Siobhan">S.</sub> <say-as interpret-as="characters">' +
+          "Siobhan</say-as></speak>",
+        lexicon,
+        { phoneme: false, sub: true }
+      )
+    ).toBe(
+      '<speak><sub alias="Shivawn">Siobhan</sub>, <sub alias="Siobhan">S.</sub> ' +
+        '<say-as interpret-as="characters">Siobhan</say-as></speak>'
+    );
+  });
+});
+
+describe("setLexicon", () => {
+  it("rewrites requests with the tags the engine supports", async () => {
+    const lexicon = Lexicon.fromPLS(PLS);
+    const google = new GoogleTTSClient({});
+    const openai = new OpenAITTSClient({});
+    google.setLexicon(lexicon);
+    openai.setLexicon(lexicon);
+
+    await google.synthToBytes("Hi Siobhan");
+    await openai.synthToBytestream("Hi Siobhan");
+    await google.synthToBytes("<speak>Siobhan</speak>", { rawSSML: true });
+    google.setLexicon(null);
+    await google.synthToBytes("Hi Siobhan");
+
+    expect(google.getLexicon()).toBeNull();
+    expect(google.requests).toEqual([
+      '<speak>Hi <phoneme alphabet="ipa" ph="ʃɪˈvɔːn">Siobhan</phoneme></speak>',
+      "<speak>Siobhan</speak>",
+      "Hi Siobhan",
+    ]);
+    expect(openai.requests).toEqual(["Hi Shivawn"]);
+  });
+
+  it("caches results per lexicon", async () => {
+    const client = new OpenAITTSClient({});
+    client.setCache(new SynthesisCache(new MemoryCacheBackend()));
+
+    await client.synthToBytes("Hi Nguyen");
+    client.setLexicon(Lexicon.fromJSON({ Nguyen: "win" }));
+    await client.synthToBytes("Hi Nguyen");
+    client.setLexicon(Lexicon.fromJSON({ Nguyen: "nwen" }));
+    await client.synthToBytes("Hi Nguyen");
+    await client.synthToBytes("Hi Nguyen");
+
+    expect(client.requests).toEqual(["Hi Nguyen", "Hi win", "Hi nwen"]);
+  });
+});
+
+describe("Polly lexicons", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  function createClient(putLexicon: () => Promise<unknown>) {
+    const client = new PollyTTSClient({
+      region: "us-east-1",
+      accessKeyId: "a",
+      secretAccessKey: "b",
+    });
+    const send = jest.fn(async (command: { name: string; input: any }) =>
+      command.name === "PutLexicon"
+        ? putLexicon()
+        : { AudioStream: { transformToByteArray: async () => new Uint8Array([1, 2, 3]) } }
+    );
+    const command = (name: string) =>
+      class {
+        name = name;
+        constructor(public input: unknown) {}
+      };
+    Object.assign(client as any, {
+      client: { send },
+      _pollyModule: {
+        OutputFormat: { MP3: "mp3", OGG_VORBIS: "ogg_vorbis", PCM: "pcm" },
+        SynthesizeSpeechCommand: command("SynthesizeSpeech"),
+        PutLexiconCommand: command("PutLexicon"),
+        Engine: { standard: "standard" },
+      },
+    });
+    (client as any).voiceCache.set("Joanna", {
+      id: "Joanna",
+      metadata: { supportedEngines: ["standard"] },
+    });
+    return { client, send };
+  }
+
+  it("uploads the lexicon once and applies it by name", async () => {
+    const { client, send } = createClient(async () => ({}));
+    const lexicon = Lexicon.fromJSON({ Siobhan: "/ʃɪˈvɔːn/" }, { name: "names" });
+    client.setLexicon(lexicon);
+
+    await client.synthToBytes("Hi Siobhan", { format: "mp3", voice: "Joanna" });
+    await client.synthToBytes("Bye Siobhan", { format: "mp3", voice: "Joanna" });
+
+    const commands = send.mock.calls.map(([command]) => command);
+    expect(commands.map((command) => command.name)).toEqual([
+      "PutLexicon",
+      "SynthesizeSpeech",
+      "SynthesizeSpeech",
+    ]);
+    expect(commands[0].input).toEqual({ Name: "names", Content: lexicon.toPLS() });
+    expect(commands[1].input.LexiconNames).toEqual(["names"]);
+    expect(commands[1].input.Text).not.toContain("phoneme");
+  });
+
+  it("rewrites the text when the upload fails", async () => {
+    const { client, send } = createClient(async () => {
+      throw new Error("AccessDenied");
+    });
+    client.setLexicon(Lexicon.fromJSON({ Siobhan: "/ʃɪˈvɔːn/" }));
+
+    await client.synthToBytes("Hi Siobhan", { format: "mp3", voice: "Joanna" });
+
+    const synthesis = send.mock.calls[1][0].input;
+    expect(synthesis.LexiconNames).toBeUndefined();
+    expect(synthesis.Text).toContain('<phoneme alphabet="ipa" ph="ʃɪˈvɔːn">Siobhan</phoneme>');
+  });
+});
+
+describe("Azure lexicons", () => {
+  it("references published lexicons and rewrites the text with others", async () => {
+    const client = new AzureTTSClient({ subscriptionKey: "test-key", region: "eastus" });
+    const uri = "https://example.com/names.xml";
+
+    client.setLexicon(Lexicon.fromJSON({ Siobhan: "/ʃɪˈvɔːn/" }, { uri }));
+    expect(await (client as any)._applyLexicon("Hi Siobhan")).toBe("Hi Siobhan");
+    expect(
+      (client as any).ensureAzureSSMLStructure(
+        '<speak><prosody rate="slow">Hi Siobhan</prosody></speak>',
+        "en-GB-SoniaNeural"
+      )
+    ).toContain(
+      `<voice name="en-GB-SoniaNeural"><lexicon uri="${uri}"/><prosody rate="slow">Hi Siobhan`
+    );
+
+    client.setLexicon(Lexicon.fromJSON({ Siobhan: "/ʃɪˈvɔːn/" }));
+    expect(await (client as any)._applyLexicon("Hi Siobhan")).toBe(
+      '<speak>Hi <phoneme alphabet="ipa" ph="ʃɪˈvɔːn">Siobhan</phoneme></speak>'
+    );
+  });
+});
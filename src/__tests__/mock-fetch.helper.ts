@@ -0,0 +1,62 @@
+import { jest } from "@jest/globals";
+
+/**
+ * Stand-ins for the global fetch in engine tests. They spy on globalThis.fetch, so
+ * jest.restoreAllMocks() puts the real one back.
+ */
+
+export type FetchMock = ReturnType<typeof mockFetch>;
+
+/**
+ * Turn a fixture into a response: responses are used as they are, bytes become the audio body
+ * and anything else is sent as JSON
+ */
+export function fixtureResponse(body: unknown): Response {
+  if (body instanceof Response) {
+    return body;
+  }
+  if (body instanceof Uint8Array) {
+    return new Response(body as Uint8Array<ArrayBuffer>, { status: 200 });
+  }
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Answer the next fetch calls with the given fixtures, in order
+ */
+export function mockFetch(...bodies: unknown[]) {
+  const fetchMock = jest.spyOn(globalThis, "fetch");
+  for (const body of bodies) {
+    fetchMock.mockResolvedValueOnce(fixtureResponse(body));
+  }
+  return fetchMock;
+}
+
+/**
+ * Answer every fetch call with the fixture the handler picks for its URL
+ */
+export function mockFetchByUrl(handler: (url: string) => unknown): FetchMock {
+  return jest
+    .spyOn(globalThis, "fetch")
+    .mockImplementation(async (input) =>
+      fixtureResponse(handler(input instanceof Request ? input.url : String(input)))
+    );
+}
+
+/**
+ * URL and options of a request made through the mock
+ */
+export function requestAt(fetchMock: FetchMock, index: number) {
+  const [url, init] = fetchMock.mock.calls[index];
+  return { url: String(url), init: init as RequestInit };
+}
+
+/**
+ * JSON body of a request made through the mock
+ */
+export function requestBody(fetchMock: FetchMock, index: number) {
+  return JSON.parse(String(requestAt(fetchMock, index).init.body));
+}
@@ -1,4 +1,5 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
 import type { SpeakOptions, UnifiedVoice, WordBoundary, WordBoundaryCallback } from "../types";
 
 /**
@@ -33,7 +34,7 @@ export class MockTTSClient extends AbstractTTSClient {
    * @param _options Synthesis options
    * @returns Promise resolving to audio bytes
    */
-  async synthToBytes(_text: string, _options?: SpeakOptions): Promise<Uint8Array> {
+  protected async _synthToBytes(_text: string, _options?: SpeakOptions): Promise<Uint8Array> {
     // Return a small WAV file header (44 bytes)
     return new Uint8Array([
       0x52, 0x49, 0x46, 0x46, 0x24, 0x00, 0x00, 0x00, 0x57, 0x41, 0x56, 0x45, 0x66, 0x6d, 0x74,
@@ -48,14 +49,14 @@ export class MockTTSClient extends AbstractTTSClient {
    * @param options Synthesis options.
    * @returns Promise resolving to an object containing the audio stream and word boundaries.
    */
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options?: SpeakOptions
   ): Promise<{
     audioStream: ReadableStream<Uint8Array>;
     wordBoundaries: WordBoundary[];
   }> {
-    const bytes = await this.synthToBytes(text, options);
+    const bytes = await this._synthToBytes(text, options);
 
     // Create a readable stream from the bytes
     const stream = new ReadableStream<Uint8Array>({
@@ -111,3 +112,10 @@ export class MockTTSClient extends AbstractTTSClient {
     this.emit("end");
   }
 }
+
+registerEngine("mock", {
+  create: () => new MockTTSClient({}),
+  credentialsSchema: { required: [] },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
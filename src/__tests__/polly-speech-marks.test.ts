@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { PollyTTSClient } from "../engines/polly";
+
+/**
+ * Speech marks for "Hello world. Bye." as returned by Polly (standard engine)
+ */
+const SPEECH_MARKS = [
+  { time: 0, type: "sentence", start: 0, end: 12, value: "Hello world." },
+  { time: 6, type: "word", start: 0, end: 5, value: "Hello" },
+  { time: 6, type: "viseme", value: "k" },
+  { time: 180, type: "viseme", value: "@" },
+  { time: 373, type: "word", start: 6, end: 11, value: "world" },
+  { time: 373, type: "viseme", value: "u" },
+  { time: 820, type: "sentence", start: 13, end: 17, value: "Bye." },
+  { time: 830, type: "word", start: 13, end: 16, value: "Bye" },
+  { time: 830, type: "viseme", value: "p" },
+  { time: 1100, type: "viseme", value: "sil" },
+];
+
+type SentCommand = { input: { OutputFormat: string; SpeechMarkTypes?: string[] } };
+
+function createClient(marks: unknown[] = SPEECH_MARKS) {
+  const client = new PollyTTSClient({
+    region: "us-east-1",
+    accessKeyId: "a",
+    secretAccessKey: "b",
+  });
+  const send = jest.fn(async (command: SentCommand) => ({
+    AudioStream:
+      command.input.OutputFormat === "json"
+        ? new Response(marks.map((mark) => JSON.stringify(mark)).join("\n")).body
+        : new Response(new Uint8Array([1, 2, 3])).body,
+  }));
+  Object.assign(client as any, {
+    client: { send },
+    _pollyModule: {
+      OutputFormat: { MP3: "mp3", OGG_VORBIS: "ogg_vorbis", PCM: "pcm" },
+      SynthesizeSpeechCommand: class {
+        constructor(public input: unknown) {}
+      },
+      SpeechMarkType: { SENTENCE: "sentence", SSML: "ssml", VISEME: "viseme", WORD: "word" },
+      Engine: { standard: "standard" },
+    },
+  });
+  (client as any).voiceCache.set("Joanna", {
+    id: "Joanna",
+    metadata: { supportedEngines: ["standard"] },
+  });
+  return { client, send };
+}
+
+describe("Polly speech marks", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("requests word, sentence, SSML and viseme speech marks", async () => {
+    const { client, send } = createClient();
+
+    await client.synthToBytestream("Hello world. Bye.", { format: "mp3" });
+
+    const marksRequest = send.mock.calls[0][0];
+    expect(marksRequest.input.OutputFormat).toBe("json");
+    expect(marksRequest.input.SpeechMarkTypes).toEqual(["word", "sentence", "ssml", "viseme"]);
+  });
+
+  it("reports SSML marks", async () => {
+    const { client } = createClient([
+      { time: 0, type: "ssml", start: 7, end: 26, value: "intro" },
+      { time: 6, type: "word", start: 26, end: 31, value: "Hello" },
+    ]);
+
+    const { marks } = await client.synthToBytestream('<speak><mark name="intro"/>Hello</speak>', {
+      format: "mp3",
+    });
+
+    expect(marks).toEqual([{ name: "intro", offset: 0 }]);
+  });
+
+  it("derives word durations from the following marks", async () => {
+    const { client } = createClient();
+
+    const result = await client.synthToBytestream("Hello world. Bye.", { format: "mp3" });
+
+    expect(result.wordBoundaries).toEqual([
+      { text: "Hello", offset: 6, duration: 367 },
+      { text: "world", offset: 373, duration: 447 },
+      { text: "Bye", offset: 830, duration: 270 },
+    ]);
+    expect(result.sentences).toEqual([
+      { text: "Hello world.", offset: 0 },
+      { text: "Bye.", offset: 820 },
+    ]);
+    expect(result.visemes?.map(({ id, shape }) => [id, shape])).toEqual([
+      [20, "k"],
+      [1, "ae"],
+      [7, "uw"],
+      [21, "p"],
+      [0, "sil"],
+    ]);
+  });
+
+  it("schedules sentence and viseme events alongside word boundaries", async () => {
+    const { client } = createClient();
+    const { sentences, visemes, wordBoundaries } = await client.synthToBytestream(
+      "Hello world. Bye.",
+      { format: "mp3" }
+    );
+    const events: string[] = [];
+    client.on("sentence", ({ text }) => events.push(`sentence:${text}`));
+    client.on("viseme", ({ shape }) => events.push(`viseme:${shape}`));
+    client.on("boundary", ({ text }) => events.push(`boundary:${text}`));
+
+    jest.useFakeTimers();
+    try {
+      (client as any).speechMarks = { sentences, visemes };
+      (client as any)._setTimingsFromWordBoundaries(wordBoundaries);
+      (client as any)._scheduleWordBoundaryCallbacks();
+
+      jest.advanceTimersByTime(400);
+      expect(events).toEqual([
+        "sentence:Hello world.",
+        "boundary:Hello",
+        "viseme:k",
+        "viseme:ae",
+        "boundary:world",
+        "viseme:uw",
+      ]);
+
+      client.stop();
+      jest.advanceTimersByTime(1000);
+      expect(events).toHaveLength(6);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
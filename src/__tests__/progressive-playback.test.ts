@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it } from "@jest/globals";
+import { getBrowserStreamFormat } from "../utils/browser-stream-audio";
+import { peekStream } from "../utils/stream-utils";
+import { wavHeader } from "./tts-fixtures.helper";
+
+function streamOf(chunks: number[][]) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(new Uint8Array(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+describe("peekStream", () => {
+  it("returns the first bytes and replays them", async () => {
+    const { head, stream } = await peekStream(streamOf([[1, 2], [], [3, 4, 5], [6]]), 3);
+
+    expect(Array.from(head)).toEqual([1, 2, 3, 4, 5]);
+    const chunks: number[][] = [];
+    for await (const chunk of stream as unknown as AsyncIterable<Uint8Array>) {
+      chunks.push(Array.from(chunk));
+    }
+    expect(chunks).toEqual([[1, 2], [3, 4, 5], [6]]);
+  });
+
+  it("does not wait for the rest of the stream", async () => {
+    let controller!: ReadableStreamDefaultController<Uint8Array>;
+    const source = new ReadableStream<Uint8Array>({
+      start(c) {
+        controller = c;
+      },
+    });
+    controller.enqueue(new Uint8Array([1, 2, 3, 4]));
+
+    const { head } = await peekStream(source, 4);
+
+    expect(Array.from(head)).toEqual([1, 2, 3, 4]);
+    controller.close();
+  });
+
+  it("returns what there is when the stream is shorter", async () => {
+    const { head, stream } = await peekStream(streamOf([[1]]), 44);
+
+    expect(Array.from(head)).toEqual([1]);
+    expect((await stream.getReader().read()).value).toEqual(new Uint8Array([1]));
+  });
+});
+
+describe("getBrowserStreamFormat", () => {
+  const globals = globalThis as any;
+
+  afterEach(() => {
+    delete globals.AudioContext;
+    delete globals.MediaSource;
+  });
+
+  it("plays MP3 through Media Source Extensions when supported", () => {
+    const mp3 = new Uint8Array([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, 0, 0, 0]);
+    expect(getBrowserStreamFormat(mp3)).toBeNull();
+
+    globals.MediaSource = { isTypeSupported: (type: string) => type === "audio/mpeg" };
+    expect(getBrowserStreamFormat(mp3)).toBe("mpeg");
+  });
+
+  it("plays 16-bit WAV and raw PCM through Web Audio", () => {
+    globals.AudioContext = class {};
+
+    expect(getBrowserStreamFormat(wavHeader())).toBe("wav");
+    expect(getBrowserStreamFormat(new Uint8Array(44).fill(1))).toBe("pcm");
+  });
+
+  it("buffers formats it cannot schedule chunk by chunk", () => {
+    globals.AudioContext = class {};
+
+    expect(getBrowserStreamFormat(wavHeader({ audioFormat: 3, bitsPerSample: 32 }))).toBeNull();
+    expect(getBrowserStreamFormat(new Uint8Array([0x4f, 0x67, 0x67, 0x53]))).toBeNull();
+  });
+});
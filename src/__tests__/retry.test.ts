@@ -0,0 +1,187 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { TTSAuthError, TTSNetworkError, TTSRateLimitError } from "../core/errors";
+import { computeRetryDelay, DEFAULT_RETRY_POLICY, resolveRetryPolicy } from "../core/retry";
+import { CereVoiceTTSClient } from "../engines/cerevoice";
+import { GeminiTTSClient } from "../engines/gemini";
+
+const originalFetch = globalThis.fetch;
+
+const audioResponse = () => ({
+  ok: true,
+  status: 200,
+  statusText: "OK",
+  headers: new Headers(),
+  json: async () => ({
+    candidates: [
+      {
+        content: {
+          parts: [{ inlineData: { data: Buffer.from([1, 2, 3, 4]).toString("base64") } }],
+        },
+      },
+    ],
+  }),
+});
+
+const errorResponse = (status: number, body = "", headers: Record<string, string> = {}) => {
+  const response = {
+    ok: false,
+    status,
+    statusText: "Error",
+    headers: new Headers(headers),
+    text: async () => body,
+    clone: () => response,
+  };
+  return response;
+};
+
+describe("retry policy", () => {
+  it("merges options over the defaults and ignores invalid values", () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 5, baseDelayMs: -1, jitter: 2 });
+    expect(policy.maxAttempts).toBe(5);
+    expect(policy.baseDelayMs).toBe(DEFAULT_RETRY_POLICY.baseDelayMs);
+    expect(policy.jitter).toBe(1);
+    expect(policy.retryOn).toEqual([TTSRateLimitError, TTSNetworkError]);
+  });
+
+  it("backs off exponentially up to the maximum delay", () => {
+    const policy = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 350, jitter: 0 });
+    expect(computeRetryDelay(1, policy)).toBe(100);
+    expect(computeRetryDelay(2, policy)).toBe(200);
+    expect(computeRetryDelay(3, policy)).toBe(350);
+  });
+
+  it("prefers the Retry-After delay when the provider sends one", () => {
+    const policy = resolveRetryPolicy({ baseDelayMs: 100, jitter: 0 });
+    expect(computeRetryDelay(1, policy, 2000)).toBe(2000);
+  });
+});
+
+describe("fetchWithRetry", () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it("retries transient server errors and returns the successful response", async () => {
+    const fetchMock = jest
+      .fn()
+      .mockResolvedValueOnce(errorResponse(503) as never)
+      .mockResolvedValueOnce(errorResponse(500) as never)
+      .mockResolvedValueOnce(audioResponse() as never);
+    globalThis.fetch = fetchMock as any;
+
+    const client = new GeminiTTSClient({ apiKey: "key", retry: { baseDelayMs: 1, jitter: 0 } });
+    const bytes = await client.synthToBytes("Hello");
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(bytes.length).toBeGreaterThan(0);
+  });
+
+  it("honours Retry-After on 429 responses", async () => {
+    const fetchMock = jest
+      .fn()
+      .mockResolvedValueOnce(errorResponse(429, "slow down", { "retry-after": "0.05" }) as never)
+      .mockResolvedValueOnce(audioResponse() as never);
+    globalThis.fetch = fetchMock as any;
+
+    const client = new GeminiTTSClient({ apiKey: "key", retry: { baseDelayMs: 5000 } });
+    const started = Date.now();
+    await client.synthToBytes("Hello");
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+
+  it("gives up after maxAttempts and surfaces the engine error", async () => {
+    const fetchMock = jest.fn(async () => errorResponse(502, "bad gateway"));
+    globalThis.fetch = fetchMock as any;
+
+    const client = new GeminiTTSClient({ apiKey: "key" });
+    client.setProperty("retry", { maxAttempts: 2, baseDelayMs: 1 });
+
+    await expect(client.synthToBytes("Hello")).rejects.toBeInstanceOf(TTSNetworkError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry errors outside the retryable classes", async () => {
+    const fetchMock = jest.fn(async () => errorResponse(401, "bad key"));
+    globalThis.fetch = fetchMock as any;
+
+    const client = new GeminiTTSClient({ apiKey: "key", retry: { baseDelayMs: 1 } });
+
+    await expect(client.synthToBytes("Hello")).rejects.toBeInstanceOf(TTSAuthError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries network failures", async () => {
+    const fetchMock = jest
+      .fn()
+      .mockRejectedValueOnce(new TypeError("fetch failed") as never)
+      .mockResolvedValueOnce(audioResponse() as never);
+    globalThis.fetch = fetchMock as any;
+
+    const client = new GeminiTTSClient({ apiKey: "key", retry: { baseDelayMs: 1 } });
+    await client.synthToBytes("Hello");
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("cancels the body of each response it retries", async () => {
+    const cancel = jest.fn(async () => {});
+    const failure = () => Object.assign(errorResponse(503), { body: { cancel } });
+    const fetchMock = jest
+      .fn()
+      .mockResolvedValueOnce(failure() as never)
+      .mockResolvedValueOnce(failure() as never)
+      .mockResolvedValueOnce(audioResponse() as never);
+    globalThis.fetch = fetchMock as any;
+
+    const client = new GeminiTTSClient({ apiKey: "key", retry: { baseDelayMs: 1, jitter: 0 } });
+    await client.synthToBytes("Hello");
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(cancel).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops waiting when the request is aborted", async () => {
+    globalThis.fetch = jest.fn(async () => errorResponse(503)) as any;
+
+    const client = new GeminiTTSClient({ apiKey: "key", retry: { baseDelayMs: 60000 } });
+    const controller = new AbortController();
+    const pending = client.synthToBytes("Hello", { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("keeps CereVoice re-authentication on 401 separate from the retry policy", async () => {
+    const fetchMock = jest
+      .fn()
+      .mockResolvedValueOnce(errorResponse(401, "expired") as never)
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: "OK",
+        headers: new Headers(),
+        json: async () => ({ access_token: "fresh" }),
+      } as never)
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: "OK",
+        headers: new Headers(),
+        json: async () => ({ voices: [] }),
+      } as never);
+    globalThis.fetch = fetchMock as any;
+
+    const client = new CereVoiceTTSClient({
+      accessToken: "stale",
+      email: "user@example.com",
+      password: "secret",
+      retry: { baseDelayMs: 1 },
+    });
+    await client.getVoices();
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
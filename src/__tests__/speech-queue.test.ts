@@ -0,0 +1,219 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { SpeechQueue, type SpeechQueueEndReason } from "../core/speech-queue";
+import type { SpeakInput, SpeakOptions } from "../types";
+import { StubTTSClient } from "./tts-fixtures.helper";
+
+/**
+ * Client whose playback lasts until finishPlayback() is called or the signal aborts
+ */
+class QueueTestClient extends StubTTSClient {
+  played: string[] = [];
+  private finishCurrent: (() => void) | null = null;
+
+  protected async audioFor(text: string): Promise<Uint8Array> {
+    if (text === "broken") {
+      throw new Error("synthesis failed");
+    }
+    return new TextEncoder().encode(text);
+  }
+
+  protected wordBoundariesFor(text: string) {
+    return [{ text, offset: 0, duration: 100 }];
+  }
+
+  async speakStreamed(input: string | SpeakInput, options?: SpeakOptions): Promise<void> {
+    const text = new TextDecoder().decode((input as SpeakInput).audioBytes);
+    this.played.push(text);
+    this.emit("start");
+    await new Promise<void>((resolve) => {
+      this.finishCurrent = resolve;
+      options?.signal?.addEventListener("abort", () => resolve());
+    });
+    this.emit("end");
+  }
+
+  finishPlayback() {
+    this.finishCurrent?.();
+  }
+}
+
+/**
+ * Client whose speakStreamed() resolves when playback starts, like browser playback, and whose
+ * playback ends with events only
+ */
+class StartResolvingClient extends QueueTestClient {
+  async speakStreamed(input: string | SpeakInput): Promise<void> {
+    this.played.push(new TextDecoder().decode((input as SpeakInput).audioBytes));
+    this.emit("start");
+  }
+
+  failPlayback(error: Error) {
+    this.emit("error", error);
+  }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function track(queue: SpeechQueue) {
+  const ended: Array<[string, SpeechQueueEndReason]> = [];
+  queue.on("itemEnd", (item, reason) => ended.push([item.text, reason]));
+  return ended;
+}
+
+describe("SpeechQueue", () => {
+  it("speaks items in turn and synthesizes the next one ahead", async () => {
+    const client = new QueueTestClient({});
+    const queue = new SpeechQueue(client);
+    const ended = track(queue);
+    const idle = jest.fn();
+    queue.on("idle", idle);
+
+    queue.enqueue("first");
+    queue.enqueue("second");
+    await flush();
+
+    expect(client.played).toEqual(["first"]);
+    expect(client.requests).toEqual(["first", "second"]);
+
+    client.finishPlayback();
+    await flush();
+    expect(client.played).toEqual(["first", "second"]);
+
+    client.finishPlayback();
+    await flush();
+    expect(ended).toEqual([
+      ["first", "completed"],
+      ["second", "completed"],
+    ]);
+    expect(idle).toHaveBeenCalledTimes(1);
+  });
+
+  it("orders pending items by priority", async () => {
+    const client = new QueueTestClient({});
+    const queue = new SpeechQueue(client);
+
+    queue.enqueue("playing");
+    queue.enqueue("low", { priority: -1 });
+    queue.enqueue("normal");
+    queue.enqueue("high", { priority: 5, id: "alert" });
+
+    expect(queue.currentItem?.text).toBe("playing");
+    expect(queue.pendingItems.map((item) => item.id)).toEqual([
+      "alert",
+      "utterance-3",
+      "utterance-2",
+    ]);
+  });
+
+  it("synthesizes an item that moves to the front while another plays", async () => {
+    const client = new QueueTestClient({});
+    const queue = new SpeechQueue(client);
+
+    queue.enqueue("first");
+    queue.enqueue("later");
+    await flush();
+    queue.enqueue("sooner", { priority: 1 });
+    await flush();
+
+    expect(client.played).toEqual(["first"]);
+    expect(client.requests).toEqual(["first", "later", "sooner"]);
+
+    client.finishPlayback();
+    await flush();
+    client.finishPlayback();
+    await flush();
+    expect(client.played).toEqual(["first", "sooner", "later"]);
+    expect(client.requests).toEqual(["first", "later", "sooner"]);
+  });
+
+  it("interrupts the current utterance for urgent items", async () => {
+    const client = new QueueTestClient({});
+    const queue = new SpeechQueue(client);
+    const ended = track(queue);
+
+    queue.enqueue("long message");
+    queue.enqueue("later");
+    await flush();
+    queue.enqueue("urgent", { interrupt: true });
+    await flush();
+
+    expect(client.played).toEqual(["long message", "urgent"]);
+    expect(ended).toEqual([["long message", "interrupted"]]);
+    expect(queue.pendingItems.map((item) => item.text)).toEqual(["later"]);
+  });
+
+  it("skips the current item and clears the rest", async () => {
+    const client = new QueueTestClient({});
+    const queue = new SpeechQueue(client);
+    const ended = track(queue);
+    const changes: number[] = [];
+    queue.on("change", ({ pending }) => changes.push(pending.length));
+
+    queue.enqueue("one");
+    queue.enqueue("two");
+    queue.enqueue("three");
+    await flush();
+    queue.skip();
+    await flush();
+    queue.clear();
+    await flush();
+
+    expect(client.played).toEqual(["one", "two"]);
+    expect(ended).toEqual([
+      ["one", "skipped"],
+      ["three", "cleared"],
+      ["two", "cleared"],
+    ]);
+    expect(changes[changes.length - 1]).toBe(0);
+  });
+
+  it("reports failed items and moves on", async () => {
+    const client = new QueueTestClient({});
+    const queue = new SpeechQueue(client);
+    const ended = track(queue);
+    const errors: string[] = [];
+    queue.on("error", (error, item) => errors.push(`${item.text}: ${error.message}`));
+
+    queue.enqueue("broken");
+    queue.enqueue("fine");
+    await flush();
+
+    expect(errors).toEqual(["broken: synthesis failed"]);
+    expect(ended).toEqual([["broken", "error"]]);
+    expect(client.played).toEqual(["fine"]);
+  });
+
+  it("moves on when playback fails after it has started", async () => {
+    const client = new StartResolvingClient({});
+    const queue = new SpeechQueue(client);
+    const ended = track(queue);
+    const errors: string[] = [];
+    queue.on("error", (error, item) => errors.push(`${item.text}: ${error.message}`));
+
+    queue.enqueue("first");
+    queue.enqueue("second");
+    await flush();
+    client.failPlayback(new Error("audio device lost"));
+    await flush();
+
+    expect(errors).toEqual(["first: audio device lost"]);
+    expect(ended).toEqual([["first", "error"]]);
+    expect(client.played).toEqual(["first", "second"]);
+  });
+
+  it("moves on when the client is stopped directly", async () => {
+    const client = new StartResolvingClient({});
+    const queue = new SpeechQueue(client);
+    const ended = track(queue);
+
+    queue.enqueue("first");
+    queue.enqueue("second");
+    await flush();
+    client.stop();
+    await flush();
+
+    expect(ended).toEqual([["first", "skipped"]]);
+    expect(client.played).toEqual(["first", "second"]);
+    expect(queue.currentItem?.text).toBe("second");
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "@jest/globals";
+import { SSMLBuilder } from "../ssml/builder";
+
+describe("SSMLBuilder", () => {
+  it("chains elements in document order and escapes text", () => {
+    const ssml = new SSMLBuilder()
+      .text("Tom & Jerry ")
+      .prosody({ rate: "slow" }, "say <hi>")
+      .break(500)
+      .sayAs("characters", "SSML")
+      .phoneme("ipa", "təˈmɑːtəʊ", "tomato")
+      .sub("World Wide Web", "WWW")
+      .mark("end")
+      .build();
+
+    expect(ssml).toBe(
+      "<speak>Tom &amp; Jerry " +
+        '<prosody rate="slow">say &lt;hi&gt;</prosody>' +
+        '<break time="500ms"/>' +
+        '<say-as interpret-as="characters">SSML</say-as>' +
+        '<phoneme alphabet="ipa" ph="təˈmɑːtəʊ">tomato</phoneme>' +
+        '<sub alias="World Wide Web">WWW</sub>' +
+        '<mark name="end"/></speak>'
+    );
+  });
+
+  it("nests content given as callbacks or left open until end()", () => {
+    const ssml = new SSMLBuilder()
+      .voice("en-US-JennyNeural", (b) =>
+        b.p((p) => p.s("One.").s((s) => s.text("Two ").emphasis("strong", "now")))
+      )
+      .lang("fr-FR")
+      .prosody({ pitch: "high" })
+      .text("Bonjour")
+      .end()
+      .text("!")
+      .end()
+      .text(" Done")
+      .build();
+
+    expect(ssml).toBe(
+      '<speak><voice name="en-US-JennyNeural"><p><s>One.</s>' +
+        '<s>Two <emphasis level="strong">now</emphasis></s></p></voice>' +
+        '<lang xml:lang="fr-FR"><prosody pitch="high">Bonjour</prosody>!</lang> Done</speak>'
+    );
+    expect(() => new SSMLBuilder().end()).toThrow("no open element");
+  });
+
+  it("supports lexicons, audio and vendor extensions", () => {
+    const ssml = new SSMLBuilder()
+      .text("Hi")
+      .expressAs("cheerful", "Great news", { styledegree: 2 })
+      .amazonEffect("whispered", "secret")
+      .audio("https://example.com/ding.mp3", "ding")
+      .lexicon("https://example.com/names.pls", "names")
+      .build();
+
+    expect(ssml).toBe(
+      '<speak xmlns:mstts="https://www.w3.org/2001/mstts">' +
+        '<lexicon uri="https://example.com/names.pls" xml:id="names"/>Hi' +
+        '<mstts:express-as style="cheerful" styledegree="2">Great news</mstts:express-as>' +
+        '<amazon:effect name="whispered">secret</amazon:effect>' +
+        '<audio src="https://example.com/ding.mp3">ding</audio></speak>'
+    );
+  });
+
+  it("adapts the document to an engine", () => {
+    const builder = new SSMLBuilder()
+      .add('<speak xml:lang="en-US">Hello </speak>')
+      .emphasis("strong", "world");
+
+    expect(builder.build("polly", "Joanna-neural")).toBe(
+      '<speak xml:lang="en-US" xmlns="http://www.w3.org/2001/10/synthesis">Hello world</speak>'
+    );
+    expect(builder.build("openai")).toBe("Hello world");
+    expect(builder.toString()).toBe(
+      '<speak xml:lang="en-US">Hello <emphasis level="strong">world</emphasis></speak>'
+    );
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "@jest/globals";
+import { TTSUnsupportedFeatureError } from "../core/errors";
+import { SSMLCompatibilityManager } from "../core/ssml-compatibility";
+import { emulateSSMLAsText, splitSSMLForAudioEmulation } from "../core/ssml-emulation";
+import * as SSMLUtils from "../core/ssml-utils";
+import type { WordBoundary } from "../types";
+import { createSilence, getAudioDuration, timeStretch } from "../utils/audio-concat";
+import { streamToBytes } from "../utils/audio-input";
+import { StubTTSClient, wav } from "./tts-fixtures.helper";
+
+/**
+ * Count the sign changes of the samples of a 16-bit mono WAV file
+ */
+function zeroCrossings(bytes: Uint8Array): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset + 44);
+  let count = 0;
+  for (let i = 1; i < (bytes.length - 44) / 2; i++) {
+    if (view.getInt16(i * 2, true) >= 0 !== view.getInt16((i - 1) * 2, true) >= 0) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Client of an engine without SSML support that speaks 10ms per character
+ */
+class OpenAITTSClient extends StubTTSClient {
+  readonly engineName = "openai";
+  format: "wav" | "mp3" | "ogg" = "wav";
+
+  protected async audioFor(text: string): Promise<Uint8Array> {
+    const spoken = SSMLUtils.stripSSML(text);
+    if (this.format === "ogg") {
+      return new Uint8Array([0x4f, 0x67, 0x67, 0x53, 0, 0, 0, 0]);
+    }
+    if (this.format === "mp3") {
+      const frame = new Uint8Array(417);
+      frame.set([0xff, 0xfb, 0x90, 0x00]);
+      return frame;
+    }
+    return wav(new Array(spoken.length * 10).fill(1000));
+  }
+
+  protected wordBoundariesFor(text: string): WordBoundary[] {
+    return [{ text: SSMLUtils.stripSSML(text).split(" ")[0], offset: 0, duration: 10 }];
+  }
+}
+
+describe("SSML text emulation", () => {
+  it("speaks aliases, spells out characters and turns breaks into punctuation", () => {
+    const ssml =
+      '<speak>Visit the <sub alias="World Wide Web">WWW</sub><break time="2s"/>' +
+      'then spell <say-as interpret-as="characters">abc</say-as><break strength="weak"/>' +
+      'slowly.<break time="800ms"/> Done<break/></speak>';
+
+    expect(emulateSSMLAsText(ssml)).toBe(
+      "Visit the World Wide Web... then spell a b c, slowly. Done"
+    );
+    expect(SSMLCompatibilityManager.processSSMLForEngine(ssml, "openai")).toBe(
+      emulateSSMLAsText(ssml)
+    );
+  });
+
+  it("emulates only the tags an SSML engine lacks", () => {
+    const processed = SSMLCompatibilityManager.processSSMLForEngine(
+      '<speak><sub alias="Doctor">Dr.</sub> Who<break time="1s"/>returns</speak>',
+      "espeak"
+    );
+
+    expect(processed).toBe('<speak>Doctor Who<break time="1s"/>returns</speak>');
+  });
+
+  it("expands say-as in the given language when the document has no xml:lang", () => {
+    const ssml = '<speak><say-as interpret-as="date">03/04/2024</say-as></speak>';
+
+    expect(emulateSSMLAsText(ssml, "en-GB")).toBe("the third of April, twenty twenty-four");
+    expect(emulateSSMLAsText(ssml.replace("<speak>", '<speak xml:lang="en-GB">'), "en-US")).toBe(
+      "the third of April, twenty twenty-four"
+    );
+    expect(SSMLCompatibilityManager.processSSMLForEngine(ssml, "openai", undefined, "en-US")).toBe(
+      "March fourth, twenty twenty-four"
+    );
+  });
+});
+
+describe("SSML audio emulation", () => {
+  it("splits SSML into speech at its own rate and pauses", () => {
+    expect(
+      splitSSMLForAudioEmulation(
+        '<speak xml:lang="en">One<break time="300ms"/><break strength="weak"/>' +
+          '<prosody rate="slow">two <prosody rate="50%">three</prosody></prosody></speak>'
+      )
+    ).toEqual([
+      { type: "speech", ssml: '<speak xml:lang="en">One</speak>', rate: 1 },
+      { type: "pause", duration: 800 },
+      { type: "speech", ssml: '<speak xml:lang="en">two </speak>', rate: 0.75 },
+      { type: "speech", ssml: '<speak xml:lang="en">three</speak>', rate: 0.375 },
+    ]);
+    expect(splitSSMLForAudioEmulation('<speak><prosody rate="medium">Hi</prosody></speak>')).toBe(
+      null
+    );
+  });
+
+  it("splices silence and time-stretched speech into one file", async () => {
+    const client = new OpenAITTSClient({});
+    const { audioStream, wordBoundaries } = await client.synthToBytestream(
+      '<speak>One <break time="500ms"/><prosody rate="200%">two three</prosody></speak>',
+      { ssmlEmulation: "audio" }
+    );
+    const audio = await streamToBytes(audioStream);
+
+    expect(client.requests).toEqual(["<speak>One </speak>", "<speak>two three</speak>"]);
+    // 30ms of speech, 500ms of silence and 90ms of speech at double speed
+    expect(getAudioDuration(audio)).toBeCloseTo(0.575, 3);
+    expect(wordBoundaries).toEqual([
+      { text: "One", offset: 0, duration: 10 },
+      { text: "two", offset: 530, duration: 5 },
+    ]);
+
+    const text = await client.synthToBytes('<speak>One <break time="1s"/>two</speak>');
+    expect(getAudioDuration(text)).toBeCloseTo(0.07, 3);
+  });
+
+  it("creates silence in the format of the speech, or reports formats it can't splice", async () => {
+    const client = new OpenAITTSClient({});
+    client.format = "mp3";
+    const silence = createSilence(await client.synthToBytes("x"), 1);
+    expect(getAudioDuration(silence)).toBeCloseTo(1, 1);
+
+    client.format = "ogg";
+    await expect(
+      client.synthToBytes('<speak>One<break time="1s"/>two</speak>', { ssmlEmulation: "audio" })
+    ).rejects.toMatchObject({ feature: "ssml-emulation" });
+    await expect(
+      client.synthToBytes('<speak>One<break time="1s"/>two</speak>', { ssmlEmulation: "audio" })
+    ).rejects.toBeInstanceOf(TTSUnsupportedFeatureError);
+  });
+});
+
+describe("timeStretch", () => {
+  it("changes the length of the audio but not its pitch", () => {
+    const sampleRate = 8000;
+    const tone = Array.from({ length: sampleRate }, (_, i) =>
+      Math.round(8000 * Math.sin((2 * Math.PI * 200 * i) / sampleRate))
+    );
+    const input = wav(tone, sampleRate);
+
+    const faster = timeStretch(input, 2);
+    expect(getAudioDuration(faster)).toBeCloseTo(0.5, 2);
+    expect(zeroCrossings(faster) / 0.5).toBeGreaterThan(zeroCrossings(input) * 0.9);
+    expect(zeroCrossings(faster) / 0.5).toBeLessThan(zeroCrossings(input) * 1.1);
+
+    const slower = timeStretch(input, 0.5);
+    expect(getAudioDuration(slower)).toBeCloseTo(2, 2);
+    expect(() => timeStretch(new Uint8Array([0xff, 0xfb, 0x90, 0x00]), 2)).toThrow(
+      "Cannot time-stretch"
+    );
+  });
+});
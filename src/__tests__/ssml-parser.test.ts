@@ -0,0 +1,125 @@
+import { describe, expect, it } from "@jest/globals";
+import { SSMLParseError } from "../core/errors";
+import { SSMLCompatibilityManager } from "../core/ssml-compatibility";
+import * as SSMLUtils from "../core/ssml-utils";
+import { parseSSML, serializeSSML, ssmlToText, unwrapSSMLElements } from "../ssml/parser";
+
+describe("SSML parser", () => {
+  it("builds an AST with namespaced tags, decoded attributes and nested elements", () => {
+    const nodes = parseSSML(
+      '<speak><mstts:express-as style="a&gt;b" note="x > y">' +
+        '<prosody rate="slow">Tom &amp; <prosody pitch="high">Jerry</prosody></prosody>' +
+        "</mstts:express-as></speak>"
+    );
+
+    expect(nodes).toEqual([
+      {
+        type: "element",
+        name: "speak",
+        attributes: {},
+        children: [
+          {
+            type: "element",
+            name: "mstts:express-as",
+            attributes: { style: "a>b", note: "x > y" },
+            children: [
+              {
+                type: "element",
+                name: "prosody",
+                attributes: { rate: "slow" },
+                children: [
+                  { type: "text", value: "Tom & " },
+                  {
+                    type: "element",
+                    name: "prosody",
+                    attributes: { pitch: "high" },
+                    children: [{ type: "text", value: "Jerry" }],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("reads CDATA as text and skips comments, declarations and DOCTYPE", () => {
+    const nodes = parseSSML(
+      '<?xml version="1.0"?><!DOCTYPE speak [<!ENTITY x "y">]>' +
+        "<speak><!-- note -->A <![CDATA[<b> & c]]>&#233;&#x41;</speak>"
+    );
+
+    expect(nodes).toEqual([
+      {
+        type: "element",
+        name: "speak",
+        attributes: {},
+        children: [{ type: "text", value: "A <b> & céA" }],
+      },
+    ]);
+  });
+
+  it("reports malformed input with its position, or repairs it in recover mode", () => {
+    const error = (() => {
+      try {
+        parseSSML("<speak><p>Hello</speak>");
+      } catch (err) {
+        return err;
+      }
+    })();
+    expect(error).toBeInstanceOf(SSMLParseError);
+    expect((error as SSMLParseError).position).toBe(15);
+    expect(() => parseSSML("<speak>Tom & Jerry</speak>")).toThrow("Invalid entity");
+
+    const repaired = parseSSML("<speak><p>Hello</speak></s> a < b & c", { recover: true });
+    expect(serializeSSML(repaired)).toBe("<speak><p>Hello</p></speak> a &lt; b &amp; c");
+  });
+
+  it("serializes escaped, well-formed SSML", () => {
+    const nodes = parseSSML('<speak><sub alias="&quot;W&quot;">&lt;W&gt;</sub><break /></speak>');
+
+    expect(serializeSSML(nodes)).toBe(
+      '<speak><sub alias="&quot;W&quot;">&lt;W&gt;</sub><break/></speak>'
+    );
+    expect(serializeSSML(nodes, { selfClosing: false })).toContain("<break></break>");
+    expect(serializeSSML(unwrapSSMLElements(nodes, (element) => element.name === "sub"))).toBe(
+      "<speak>&lt;W&gt;<break/></speak>"
+    );
+  });
+
+  it("extracts the spoken text", () => {
+    const ssml =
+      '<speak><p><s>One</s><s>Two<mark name="m"/></s></p>' +
+      '<prosody rate="slow"><prosody volume="loud">nested</prosody> &amp; done</prosody>' +
+      '<break time="1s"/>end</speak>';
+
+    expect(ssmlToText(parseSSML(ssml))).toBe("One Two nested & done end");
+    expect(SSMLUtils.stripSSML(ssml)).toBe("One Two nested & done end");
+  });
+});
+
+describe("SSMLCompatibilityManager on the AST", () => {
+  it("removes nested and namespaced unsupported tags", () => {
+    const processed = SSMLCompatibilityManager.processSSMLForEngine(
+      '<speak><emphasis level="strong"><emphasis>Very</emphasis> loud</emphasis> ' +
+        '<amazon:effect name="whispered">quiet</amazon:effect></speak>',
+      "polly",
+      "Joanna-neural"
+    );
+
+    expect(processed).toBe(
+      '<speak xmlns="http://www.w3.org/2001/10/synthesis">Very loud quiet</speak>'
+    );
+  });
+
+  it("reports malformed SSML as a validation error", () => {
+    const result = SSMLCompatibilityManager.validateSSML(
+      '<speak><prosody rate="slow">Hello</speak>',
+      "azure"
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors[0]).toContain("Malformed SSML");
+  });
+});
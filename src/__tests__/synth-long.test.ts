@@ -0,0 +1,159 @@
+import { describe, expect, it } from "@jest/globals";
+import { TTSUnsupportedFeatureError } from "../core/errors";
+import { splitTextIntoChunks } from "../core/text-chunking";
+import type { SpeakOptions } from "../types";
+import { concatAudio, getAudioDuration } from "../utils/audio-concat";
+import { StubTTSClient, wav } from "./tts-fixtures.helper";
+
+/**
+ * Build an MP3 made of silent MPEG-1 Layer III frames (128 kbps, 44.1 kHz, 417 bytes each)
+ */
+function mp3(frames: number, id3 = false): Uint8Array {
+  const frame = new Uint8Array(417);
+  frame.set([0xff, 0xfb, 0x90, 0x00]);
+  const tag = id3 ? new Uint8Array([0x49, 0x44, 0x33, 3, 0, 0, 0, 0, 0, 2, 0, 0]) : [];
+  const bytes = new Uint8Array(tag.length + frames * frame.length);
+  bytes.set(tag);
+  for (let i = 0; i < frames; i++) {
+    bytes.set(frame, tag.length + i * frame.length);
+  }
+  return bytes;
+}
+
+class ChunkRecordingTTSClient extends StubTTSClient {
+  inFlight = 0;
+  maxInFlight = 0;
+
+  constructor(private format: "wav" | "ogg" = "wav") {
+    super({});
+    this.maxTextLength = 40;
+  }
+
+  protected async audioFor(text: string): Promise<Uint8Array> {
+    return this.format === "wav" ? wav(text.length * 10) : new Uint8Array([0x4f, 0x67, 0x67, 0x53]);
+  }
+
+  protected wordBoundariesFor(text: string) {
+    return [{ text: text.split(" ")[0], offset: 0, duration: 1000 }];
+  }
+
+  protected async _synthToBytestream(text: string, options?: SpeakOptions) {
+    this.inFlight++;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    this.inFlight--;
+    return super._synthToBytestream(text, options);
+  }
+}
+
+describe("splitTextIntoChunks", () => {
+  it("splits plain text on sentences and keeps short paragraphs together", () => {
+    const text = "First sentence here. Second one follows! Third?\n\nNew paragraph.";
+    const chunks = splitTextIntoChunks(text, 30);
+
+    expect(chunks).toEqual([
+      "First sentence here.",
+      "Second one follows! Third?",
+      "New paragraph.",
+    ]);
+    expect(chunks.every((chunk) => chunk.length <= 30)).toBe(true);
+  });
+
+  it("falls back to clauses and words for long sentences", () => {
+    const chunks = splitTextIntoChunks("one two three, four five six seven eight nine", 15);
+
+    expect(chunks.every((chunk) => chunk.length <= 15)).toBe(true);
+    expect(chunks.join(" ")).toBe("one two three, four five six seven eight nine");
+  });
+
+  it("splits SSML on elements and keeps every chunk wrapped", () => {
+    const ssml =
+      '<speak version="1.0"><p><s>First sentence.</s><s>Second sentence.</s></p><p>Next paragraph.</p></speak>';
+    const chunks = splitTextIntoChunks(ssml, 60);
+
+    expect(chunks).toEqual([
+      '<speak version="1.0"><p><s>First sentence.</s></p></speak>',
+      '<speak version="1.0"><p><s>Second sentence.</s></p></speak>',
+      '<speak version="1.0"><p>Next paragraph.</p></speak>',
+    ]);
+  });
+
+  it("keeps self-closing elements and splits long text runs", () => {
+    const ssml = '<speak>One sentence. <break time="1s"/>Another sentence. A third one.</speak>';
+    const chunks = splitTextIntoChunks(ssml, 45);
+
+    expect(chunks.every((chunk) => chunk.length <= 45)).toBe(true);
+    expect(chunks.every((chunk) => chunk.startsWith("<speak>"))).toBe(true);
+    expect(chunks.join("")).toContain('<break time="1s"/>');
+  });
+});
+
+describe("concatAudio", () => {
+  it("joins WAV files under one header", () => {
+    const joined = concatAudio([wav(100), wav(50)]);
+
+    expect(joined.length).toBe(44 + 300);
+    expect(new DataView(joined.buffer).getUint32(40, true)).toBe(300);
+    expect(getAudioDuration(joined)).toBeCloseTo(0.15);
+  });
+
+  it("joins MP3 files frame by frame and drops later ID3 tags", () => {
+    const joined = concatAudio([mp3(2, true), mp3(3, true)]);
+
+    expect(joined.length).toBe(12 + 5 * 417);
+    expect(getAudioDuration(joined)).toBeCloseTo((5 * 1152) / 44100);
+  });
+
+  it("rejects formats that cannot be joined", () => {
+    const ogg = new Uint8Array([0x4f, 0x67, 0x67, 0x53]);
+    expect(() => concatAudio([ogg, ogg])).toThrow("request WAV or MP3");
+  });
+});
+
+describe("synthLong", () => {
+  const text = "The first sentence is here. The second sentence follows. A third sentence ends it.";
+
+  it("synthesizes chunks with bounded concurrency and joins the audio", async () => {
+    const client = new ChunkRecordingTTSClient();
+
+    const result = await client.synthLong(text, { concurrency: 2 });
+
+    expect(client.requests).toEqual([
+      "The first sentence is here.",
+      "The second sentence follows.",
+      "A third sentence ends it.",
+    ]);
+    expect(client.maxInFlight).toBe(2);
+    const samples = client.requests.reduce((total, chunk) => total + chunk.length * 10, 0);
+    expect(result.audioBytes.length).toBe(44 + samples * 2);
+  });
+
+  it("offsets word boundaries by the duration of earlier chunks", async () => {
+    const client = new ChunkRecordingTTSClient();
+
+    const { wordBoundaries } = await client.synthLong(text);
+
+    // Each chunk lasts length * 10 samples at 1000 Hz, i.e. length * 10 milliseconds
+    const first = client.requests[0].length * 10;
+    const second = client.requests[1].length * 10;
+    expect(wordBoundaries.map((wb) => [wb.text, wb.offset])).toEqual([
+      ["The", 0],
+      ["The", first],
+      ["A", first + second],
+    ]);
+  });
+
+  it("sends short text in one request", async () => {
+    const client = new ChunkRecordingTTSClient();
+
+    await client.synthLong("Short text.");
+
+    expect(client.requests).toEqual(["Short text."]);
+  });
+
+  it("reports formats that cannot be joined", async () => {
+    const client = new ChunkRecordingTTSClient("ogg");
+
+    await expect(client.synthLong(text)).rejects.toThrow(TTSUnsupportedFeatureError);
+  });
+});
@@ -0,0 +1,251 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { FileSystemCacheBackend } from "../core/fs-cache-backend";
+import { createCacheKey, MemoryCacheBackend, SynthesisCache } from "../core/synthesis-cache";
+import type { SpeakOptions, SSMLMark } from "../types";
+import { StubTTSClient } from "./tts-fixtures.helper";
+
+class CountingTTSClient extends StubTTSClient {
+  bytesCalls = 0;
+  streamCalls = 0;
+
+  protected async audioFor(text: string): Promise<Uint8Array> {
+    this.bytesCalls++;
+    this.timings = [[0, 0.5, text]];
+    this.speechMarks = { marks: [{ name: "end", offset: 500 }] };
+    return new TextEncoder().encode(text);
+  }
+
+  protected async _synthToBytestream(text: string, _options?: SpeakOptions) {
+    this.streamCalls++;
+    const wordBoundaries: Array<{ text: string; offset: number; duration: number }> = [];
+    const marks: SSMLMark[] = [];
+    const bytes = new TextEncoder().encode(text);
+    return {
+      audioStream: new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(bytes.slice(0, 2));
+          controller.enqueue(bytes.slice(2));
+          // Like streaming engines, boundaries are filled in while the audio arrives
+          wordBoundaries.push({ text, offset: 0, duration: 500 });
+          marks.push({ name: "end", offset: 500 });
+          controller.close();
+        },
+      }),
+      wordBoundaries,
+      marks,
+    };
+  }
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+const entry = (size: number) => ({
+  audio: new Uint8Array(size),
+  wordBoundaries: [],
+  createdAt: Date.now(),
+});
+
+describe("createCacheKey", () => {
+  it("ignores option order but not option values", async () => {
+    const base = { engine: "azure", voice: "jenny", text: "Hello" };
+    const a = await createCacheKey({ ...base, options: { rate: "fast", pitch: "low" } });
+    const b = await createCacheKey({ ...base, options: { pitch: "low", rate: "fast" } });
+    const c = await createCacheKey({ ...base, options: { pitch: "low", rate: "slow" } });
+
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+    expect(a).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe("MemoryCacheBackend", () => {
+  it("evicts the least recently used entries", async () => {
+    const backend = new MemoryCacheBackend({ maxEntries: 2 });
+    await backend.set("a", entry(1));
+    await backend.set("b", entry(1));
+    await backend.get("a");
+    await backend.set("c", entry(1));
+
+    expect(await backend.get("a")).toBeDefined();
+    expect(await backend.get("b")).toBeUndefined();
+    expect(await backend.get("c")).toBeDefined();
+  });
+
+  it("keeps the total size within maxBytes", async () => {
+    const backend = new MemoryCacheBackend({ maxBytes: 10 });
+    await backend.set("a", entry(6));
+    await backend.set("b", entry(6));
+
+    expect(await backend.get("a")).toBeUndefined();
+    expect(await backend.get("b")).toBeDefined();
+  });
+});
+
+describe("FileSystemCacheBackend", () => {
+  const dir = path.join(os.tmpdir(), `tts-cache-${process.pid}`);
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("stores audio and word boundaries on disk", async () => {
+    const cache = new SynthesisCache({ backend: new FileSystemCacheBackend(dir) });
+    await cache.set("k", new Uint8Array([1, 2, 3]), [{ text: "hi", offset: 0, duration: 10 }]);
+
+    const reloaded = new SynthesisCache({ backend: new FileSystemCacheBackend(dir) });
+    const cached = await reloaded.get("k");
+
+    expect(Array.from(cached?.audio ?? [])).toEqual([1, 2, 3]);
+    expect(cached?.wordBoundaries).toEqual([{ text: "hi", offset: 0, duration: 10 }]);
+
+    await reloaded.clear();
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it("evicts entries beyond maxEntries", async () => {
+    const backend = new FileSystemCacheBackend(dir, { maxEntries: 1 });
+    await backend.set("a", entry(4));
+    // Make "a" clearly older than "b"
+    const past = new Date(Date.now() - 60_000);
+    fs.utimesSync(path.join(dir, "a.bin"), past, past);
+    await backend.set("b", entry(4));
+
+    expect(await backend.get("a")).toBeUndefined();
+    expect(await backend.get("b")).toBeDefined();
+  });
+});
+
+describe("SynthesisCache", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("expires entries after the TTL", async () => {
+    const now = jest.spyOn(Date, "now").mockReturnValue(1_000);
+    const cache = new SynthesisCache({ ttlMs: 100 });
+    await cache.set("k", new Uint8Array([1]));
+
+    now.mockReturnValue(1_050);
+    expect(await cache.get("k")).toBeDefined();
+    now.mockReturnValue(1_200);
+    expect(await cache.get("k")).toBeUndefined();
+  });
+});
+
+describe("AbstractTTSClient caching", () => {
+  it("serves repeated synthToBytes requests from the cache", async () => {
+    const client = new CountingTTSClient({ cache: new SynthesisCache() });
+
+    await client.synthToBytes("Hello", { voice: "a" });
+    const bytes = await client.synthToBytes("Hello", { voice: "a" });
+    await client.synthToBytes("Hello", { voice: "b" });
+    await client.synthToBytes("Hello", { voice: "a", rate: "fast" });
+
+    expect(new TextDecoder().decode(bytes)).toBe("Hello");
+    expect(client.bytesCalls).toBe(3);
+  });
+
+  it("caches streams with their word boundaries once fully read", async () => {
+    const client = new CountingTTSClient({});
+    client.setCache(new SynthesisCache());
+
+    const first = await client.synthToBytestream("Hello");
+    expect(await readAll(first.audioStream)).toBe("Hello");
+
+    const second = await client.synthToBytestream("Hello");
+    expect(await readAll(second.audioStream)).toBe("Hello");
+    expect(second.wordBoundaries).toEqual([{ text: "Hello", offset: 0, duration: 500 }]);
+    expect(second.marks).toEqual([{ name: "end", offset: 500 }]);
+    expect(client.streamCalls).toBe(1);
+  });
+
+  it("restores word timings and speech marks on cache hits", async () => {
+    const client = new CountingTTSClient({ cache: new SynthesisCache() });
+
+    await client.synthToBytes("Hello");
+    (client as any).timings = [];
+    (client as any).speechMarks = { marks: [{ name: "stale", offset: 0 }] };
+    await client.synthToBytes("Hello");
+
+    expect(client.bytesCalls).toBe(1);
+    expect((client as any).timings).toEqual([[0, 0.5, "Hello"]]);
+    expect((client as any).speechMarks).toEqual({ marks: [{ name: "end", offset: 500 }] });
+  });
+
+  it("rejects cache hits for requests that were already aborted", async () => {
+    const client = new CountingTTSClient({ cache: new SynthesisCache() });
+    await client.synthToBytes("Hello");
+    await readAll((await client.synthToBytestream("Hello")).audioStream);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(client.synthToBytes("Hello", { signal: controller.signal })).rejects.toMatchObject(
+      { name: "AbortError" }
+    );
+    await expect(
+      client.synthToBytestream("Hello", { signal: controller.signal })
+    ).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("hands out copies of cached audio and timings", async () => {
+    const client = new CountingTTSClient({ cache: new SynthesisCache() });
+
+    const first = await client.synthToBytes("Hello");
+    first.fill(0);
+    const second = await client.synthToBytes("Hello");
+    second.fill(0);
+    expect(new TextDecoder().decode(await client.synthToBytes("Hello"))).toBe("Hello");
+
+    await readAll((await client.synthToBytestream("Hello")).audioStream);
+    const stream = await client.synthToBytestream("Hello");
+    stream.wordBoundaries[0].text = "changed";
+    stream.marks?.splice(0);
+    const again = await client.synthToBytestream("Hello");
+    expect(again.wordBoundaries[0].text).toBe("Hello");
+    expect(again.marks).toHaveLength(1);
+  });
+
+  it("includes engine properties in the key and can be switched off", async () => {
+    const client = new CountingTTSClient({ cache: new SynthesisCache() });
+
+    await client.synthToBytes("Hello");
+    client.setProperty("volume", 50);
+    await client.synthToBytes("Hello");
+    expect(client.bytesCalls).toBe(2);
+
+    client.setCache(null);
+    await client.synthToBytes("Hello");
+    expect(client.bytesCalls).toBe(3);
+  });
+});
+
+describe("AbstractTTSClient synthesis pipeline", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("warns once about subclasses that still override the public synthesis methods", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    class LegacyTTSClient extends CountingTTSClient {
+      async synthToBytes(text: string): Promise<Uint8Array> {
+        return new TextEncoder().encode(text.toUpperCase());
+      }
+    }
+
+    new CountingTTSClient({});
+    expect(warn).not.toHaveBeenCalled();
+
+    const legacy = new LegacyTTSClient({});
+    new LegacyTTSClient({});
+    expect(new TextDecoder().decode(await legacy.synthToBytes("hi"))).toBe("HI");
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain(
+      "LegacyTTSClient overrides synthToBytes(), which skips lexicons"
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it } from "@jest/globals";
+import { SSMLCompatibilityManager } from "../core/ssml-compatibility";
+import { createEnglishRules } from "../normalization/english";
+import {
+  getNormalizationRules,
+  normalizeSayAs,
+  normalizeText,
+  registerNormalizationRules,
+} from "../normalization/normalizer";
+
+describe("normalizeText", () => {
+  it("reads numbers, ordinals, fractions and currencies as words", () => {
+    expect(normalizeText("It costs £4.50, $1,000 or $0.99, and €5m in 2nd place.")).toBe(
+      "It costs four pounds and fifty pence, one thousand dollars or ninety-nine cents, " +
+        "and five million euros in second place."
+    );
+    expect(normalizeText("-12, 3.14, 007 and 3/4 of 1,234,567")).toBe(
+      "minus twelve, three point one four, zero zero seven and three quarters of " +
+        "one million two hundred thirty-four thousand five hundred sixty-seven"
+    );
+  });
+
+  it("reads dates and times in the order of the locale", () => {
+    expect(normalizeText("See you 12/03 at 3:30pm, or on 2024-03-12 at 15:00.")).toBe(
+      "See you December third at three thirty p m, or on March twelfth, twenty twenty-four " +
+        "at fifteen hundred."
+    );
+    expect(normalizeText("See you 12/03/2024, in 1999 or March 5th.", "en-GB")).toBe(
+      "See you the twelfth of March, twenty twenty-four, in nineteen ninety-nine or the fifth " +
+        "of March."
+    );
+  });
+
+  it("reads telephone numbers, units and abbreviations", () => {
+    expect(
+      normalizeText("Dr. Smith on Main St. weighs 80kg. Call +1 (555) 123-4567, 1990-2000.")
+    ).toBe(
+      "Doctor Smith on Main Street weighs eighty kilograms. Call plus one, five five five, " +
+        "one two three, four five six seven, nineteen ninety to two thousand."
+    );
+    expect(normalizeText("It is 5 km and 50% at -5°C", "en-AU")).toBe(
+      "It is five kilometres and fifty percent at minus five degrees Celsius"
+    );
+  });
+});
+
+describe("normalization rules", () => {
+  afterEach(() => {
+    registerNormalizationRules("en-GB", createEnglishRules({ dateOrder: "dmy", british: true }));
+  });
+
+  it("uses rules registered for a language or its primary language", () => {
+    expect(normalizeText("12 fois", "fr-CA")).toBe("12 fois");
+
+    const english = getNormalizationRules("en-GB");
+    if (!english) throw new Error("missing en-GB rules");
+    registerNormalizationRules("en-GB", {
+      ...english,
+      rules: [{ name: "nhs", pattern: /\bNHS\b/g, replace: () => "N H S" }, ...english.rules],
+    });
+
+    expect(normalizeText("The NHS has 5 beds", "en_gb")).toBe("The N H S has five beds");
+  });
+
+  it("expands say-as content by type and format", () => {
+    expect(normalizeSayAs("12/03", "date", { format: "dm" })).toBe("March twelfth");
+    expect(normalizeSayAs("42", "ordinal")).toBe("forty-second");
+    expect(normalizeSayAs("4.5", "currency", { format: "USD" })).toBe(
+      "four dollars and fifty cents"
+    );
+    expect(normalizeSayAs("1234", "digits")).toBe("one two three four");
+    expect(normalizeSayAs("abc", "cardinal")).toBeNull();
+    expect(normalizeSayAs("1", "expletive")).toBeNull();
+  });
+
+  it("expands say-as for engines that don't support it", () => {
+    const ssml =
+      '<speak>Room <say-as interpret-as="ordinal">3</say-as> on ' +
+      '<say-as interpret-as="date" format="dmy">12/03/2024</say-as></speak>';
+
+    expect(SSMLCompatibilityManager.processSSMLForEngine(ssml, "openai")).toBe(
+      "Room third on March twelfth, twenty twenty-four"
+    );
+    expect(SSMLCompatibilityManager.processSSMLForEngine(ssml, "espeak")).toBe(
+      "<speak>Room third on March twelfth, twenty twenty-four</speak>"
+    );
+    expect(SSMLCompatibilityManager.processSSMLForEngine(ssml, "google")).toContain(
+      '<say-as interpret-as="ordinal">3</say-as>'
+    );
+  });
+});
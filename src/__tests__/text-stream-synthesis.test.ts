@@ -0,0 +1,84 @@
+import { describe, expect, it } from "@jest/globals";
+import { bufferSentences } from "../core/text-chunking";
+import type { WordBoundary } from "../types";
+import { getAudioDuration } from "../utils/audio-concat";
+import { StubTTSClient, wav } from "./tts-fixtures.helper";
+
+/**
+ * Client that speaks 10ms per character and reports the first word of each request
+ */
+class SentenceTTSClient extends StubTTSClient {
+  protected async audioFor(text: string): Promise<Uint8Array> {
+    return wav(text.length * 10);
+  }
+
+  protected wordBoundariesFor(text: string): WordBoundary[] {
+    return [{ text: text.split(" ")[0], offset: 0, duration: 10 }];
+  }
+}
+
+async function* tokens(...values: string[]) {
+  for (const value of values) {
+    yield value;
+  }
+}
+
+async function collect(source: AsyncIterable<string>): Promise<string[]> {
+  const values: string[] = [];
+  for await (const value of source) {
+    values.push(value);
+  }
+  return values;
+}
+
+describe("synthFromTextStream", () => {
+  it("collects fragments into sentences", async () => {
+    expect(
+      await collect(bufferSentences(tokens("Hel", "lo wor", "ld. How", " are you?", " Fine")))
+    ).toEqual(["Hello world.", "How are you?", "Fine"]);
+    expect(await collect(bufferSentences(tokens("Pi is 3.", "14 today.\n\nNew ", "line")))).toEqual(
+      ["Pi is 3.14 today.", "New line"]
+    );
+  });
+
+  it("synthesizes each sentence and joins the audio into one stream", async () => {
+    const client = new SentenceTTSClient({});
+
+    const { audioStream, wordBoundaries } = await client.synthFromTextStream(
+      tokens("Hello ", "there. ", "How are", " you?")
+    );
+    const audio = new Uint8Array(await new Response(audioStream).arrayBuffer());
+
+    expect(client.requests).toEqual(["Hello there.", "How are you?"]);
+    expect(String.fromCharCode(...audio.subarray(0, 4))).toBe("RIFF");
+    expect(getAudioDuration(audio)).toBeCloseTo(0.24);
+    expect(wordBoundaries).toEqual([
+      { text: "Hello", offset: 0, duration: 10 },
+      { text: "How", offset: 120, duration: 10 },
+    ]);
+  });
+
+  it("starts speaking before the text stream ends", async () => {
+    const client = new SentenceTTSClient({});
+    let textController!: ReadableStreamDefaultController<string>;
+    const textStream = new ReadableStream<string>({
+      start(controller) {
+        textController = controller;
+      },
+    });
+
+    const { audioStream } = await client.synthFromTextStream(textStream);
+    const reader = audioStream.getReader();
+    textController.enqueue("First sentence. ");
+    textController.enqueue("Second");
+
+    const first = await reader.read();
+    expect(first.done).toBe(false);
+    expect(client.requests).toEqual(["First sentence."]);
+
+    textController.close();
+    await reader.read();
+    expect(client.requests).toEqual(["First sentence.", "Second"]);
+    expect((await reader.read()).done).toBe(true);
+  });
+});
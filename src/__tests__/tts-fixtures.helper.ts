@@ -0,0 +1,97 @@
+import { AbstractTTSClient } from "../core/abstract-tts";
+import type { SpeakOptions, UnifiedVoice, WordBoundary } from "../types";
+
+/**
+ * Engine stand-in for tests of the base client. It records the text of each request and
+ * returns the audio of audioFor(); tests override audioFor() and wordBoundariesFor() to
+ * shape the response.
+ */
+export class StubTTSClient extends AbstractTTSClient {
+  /**
+   * Text of each request, as the engine received it
+   */
+  requests: string[] = [];
+
+  protected async _getVoices(): Promise<UnifiedVoice[]> {
+    return [];
+  }
+
+  /**
+   * Audio returned for a request
+   */
+  protected async audioFor(_text: string, _options?: SpeakOptions): Promise<Uint8Array> {
+    return new Uint8Array([1, 2, 3]);
+  }
+
+  /**
+   * Word boundaries returned with streamed audio
+   */
+  protected wordBoundariesFor(_text: string): WordBoundary[] {
+    return [];
+  }
+
+  protected async _synthToBytes(text: string, options?: SpeakOptions): Promise<Uint8Array> {
+    this.requests.push(text);
+    return this.audioFor(text, options);
+  }
+
+  protected async _synthToBytestream(text: string, options?: SpeakOptions) {
+    this.requests.push(text);
+    const audio = await this.audioFor(text, options);
+    return {
+      audioStream: new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(audio);
+          controller.close();
+        },
+      }),
+      wordBoundaries: this.wordBoundariesFor(text),
+    };
+  }
+}
+
+/**
+ * Build the 44-byte header of a mono WAV file
+ */
+export function wavHeader({
+  sampleRate = 1000,
+  audioFormat = 1,
+  bitsPerSample = 16,
+  dataLength = 0,
+} = {}): Uint8Array {
+  const header = new Uint8Array(44);
+  const view = new DataView(header.buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      header[offset + i] = text.charCodeAt(i);
+    }
+  };
+  const blockAlign = bitsPerSample / 8;
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(8, "WAVEfmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, audioFormat, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+  writeString(36, "data");
+  view.setUint32(40, dataLength, true);
+  return header;
+}
+
+/**
+ * Build a 16-bit mono WAV file from samples, or of silence when given a sample count
+ */
+export function wav(samples: number | ArrayLike<number>, sampleRate = 1000): Uint8Array {
+  const values = typeof samples === "number" ? new Array<number>(samples).fill(0) : samples;
+  const bytes = new Uint8Array(44 + values.length * 2);
+  bytes.set(wavHeader({ sampleRate, dataLength: values.length * 2 }));
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < values.length; i++) {
+    view.setInt16(44 + i * 2, values[i], true);
+  }
+  return bytes;
+}
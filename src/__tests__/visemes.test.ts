@@ -0,0 +1,168 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { createViseme, estimateVisemes, splitPhonemes, visemeFromPolly } from "../core/visemes";
+import { AzureTTSClient } from "../engines/azure";
+import { EspeakNodeTTSClient } from "../engines/espeak";
+import { PollyTTSClient } from "../engines/polly";
+import { startAzureStandIn } from "./azure-websocket-server.helper";
+
+describe("visemes", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("maps viseme IDs and Polly symbols to the common set", () => {
+    expect(createViseme(21, 40)).toEqual({ id: 21, offset: 40, shape: "p" });
+    expect(visemeFromPolly("S", 10)).toEqual({ id: 16, offset: 10, shape: "sh" });
+    expect(visemeFromPolly("unknown", 10)).toEqual({ id: 0, offset: 10, shape: "sil" });
+  });
+
+  it("maps the phonemes of each word and spreads them over the word", () => {
+    expect(splitPhonemes("h_ə_l_ˈəʊ")).toEqual(["h", "ə", "l", "əʊ"]);
+    expect(splitPhonemes("tʃˈɜːtʃ")).toEqual(["tʃ", "ɜ", "tʃ"]);
+
+    const visemes = estimateVisemes(
+      [
+        { text: "Hello", offset: 0, duration: 400 },
+        { text: "one", offset: 400, duration: 300 },
+      ],
+      [splitPhonemes("h_ə_l_ˈəʊ"), splitPhonemes("w_ˈʌ_n")]
+    );
+
+    expect(visemes.map(({ shape, offset }) => `${shape}@${offset}`)).toEqual([
+      "h@0",
+      "ae@100",
+      "l@200",
+      "ow@300",
+      "uw@400",
+      "ae@500",
+      "d@600",
+      "sil@700",
+    ]);
+  });
+
+  it("falls back to phonemes guessed from word spellings", () => {
+    const visemes = estimateVisemes([
+      { text: "Hello", offset: 0, duration: 300 },
+      { text: "world.", offset: 300, duration: 300 },
+      { text: "Shape", offset: 1000, duration: 300 },
+    ]);
+
+    expect(visemes.map(({ shape, offset }) => `${shape}@${offset}`)).toEqual([
+      "h@0",
+      "eh@75",
+      "l@150",
+      "ow@225",
+      "uw@300",
+      "ao@375",
+      "l@450",
+      "d@525",
+      "sil@600",
+      "sh@1000",
+      "ae@1100",
+      "p@1200",
+      "sil@1300",
+    ]);
+  });
+
+  it("reports the visemes feature", () => {
+    const polly = new PollyTTSClient({
+      region: "us-east-1",
+      accessKeyId: "a",
+      secretAccessKey: "b",
+    });
+
+    expect(polly.hasFeature("visemes")).toBe(true);
+    expect(
+      new AzureTTSClient({ subscriptionKey: "key", region: "westeurope" }).hasFeature("visemes")
+    ).toBe(true);
+    expect(new EspeakNodeTTSClient().hasFeature("visemes")).toBe(true);
+  });
+
+  it("estimates eSpeak visemes from eSpeak's own phonemes", async () => {
+    const client = new EspeakNodeTTSClient();
+
+    const { visemes } = await client.synthToBytestream("Hello one", { useWordBoundary: true });
+
+    // Spelling alone would give "eh" for the "e" of "Hello" and "ow" for the "o" of "one"
+    expect(visemes?.map(({ shape }) => shape)).toEqual([
+      "h",
+      "ae",
+      "l",
+      "ow",
+      "uw",
+      "ao",
+      "d",
+      "sil",
+    ]);
+  });
+
+  it("falls back to spellings when eSpeak cannot transcribe the text", async () => {
+    const client = new EspeakNodeTTSClient();
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest
+      .spyOn(client as any, "_getPhonemes")
+      .mockRejectedValue(new Error("eSpeak NG exited with status 1"));
+
+    const visemes = await (client as any)._estimateVisemes("Shape", []);
+
+    expect(visemes.map(({ shape }: { shape: string }) => shape)).toEqual(["sh", "ae", "p", "sil"]);
+  });
+
+  it("collects Azure visemes from the WebSocket metadata", async () => {
+    const standIn = await startAzureStandIn([
+      {
+        metadata: [
+          { Type: "Viseme", Data: { Offset: 0, VisemeId: 0 } },
+          { Type: "Viseme", Data: { Offset: 500_000, VisemeId: 12 } },
+        ],
+      },
+    ]);
+    try {
+      const client = new AzureTTSClient({
+        subscriptionKey: "key",
+        region: "westeurope",
+        websocketEndpoint: standIn.endpoint,
+      });
+
+      const { audioStream, visemes } = await client.synthToBytestream("Hello");
+      // Metadata arrives while the audio is read
+      await new Response(audioStream).arrayBuffer();
+
+      expect(visemes).toEqual([
+        { id: 0, offset: 0, shape: "sil" },
+        { id: 12, offset: 50, shape: "h" },
+      ]);
+    } finally {
+      await standIn.close();
+    }
+  });
+
+  it("collects Azure visemes from the Speech SDK where no WebSocket is available", async () => {
+    const client = new AzureTTSClient({ subscriptionKey: "key", region: "westeurope" });
+    const sdk = {
+      ResultReason: { SynthesizingAudio: 1, SynthesizingAudioCompleted: 2 },
+      SpeechSynthesisOutputFormat: {},
+      SpeechConfig: { fromSubscription: () => ({}) },
+      SpeechSynthesizer: class {
+        visemeReceived?: (sender: unknown, event: unknown) => void;
+        speakSsmlAsync(_ssml: string, done: (result: unknown) => void) {
+          this.visemeReceived?.(null, { visemeId: 0, audioOffset: 0 });
+          this.visemeReceived?.(null, { visemeId: 12, audioOffset: 500_000 });
+          done({ reason: 2, audioData: new ArrayBuffer(4) });
+        }
+        close() {}
+      },
+    };
+
+    const { visemes } = await (client as any).synthToBytestreamWithSDK(
+      "<speak>Hello</speak>",
+      undefined,
+      sdk
+    );
+
+    expect(visemes).toEqual([
+      { id: 0, offset: 0, shape: "sil" },
+      { id: 12, offset: 50, shape: "h" },
+    ]);
+  });
+});
@@ -0,0 +1,183 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { TTSAuthError, TTSNetworkError, TTSUnsupportedFeatureError } from "../core/errors";
+import { CartesiaTTSClient } from "../engines/cartesia";
+import { ElevenLabsTTSClient } from "../engines/elevenlabs";
+import { OpenAITTSClient } from "../engines/openai";
+import { PlayHTTTSClient } from "../engines/playht";
+import { ResembleTTSClient } from "../engines/resemble";
+import { loadVoiceSamples } from "../utils/audio-input";
+import { mockFetch, requestAt, requestBody } from "./mock-fetch.helper";
+
+/**
+ * Start of an MP3 file (ID3 tag)
+ */
+const MP3_SAMPLE = new Uint8Array([0x49, 0x44, 0x33, 0x04, 0, 0, 0, 0]);
+
+describe("Voice cloning", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("throws TTSUnsupportedFeatureError for engines without voice cloning", async () => {
+    const client = new OpenAITTSClient({ apiKey: "key" });
+
+    const error = await client
+      .createClonedVoice({ name: "Me", samples: [MP3_SAMPLE] })
+      .catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(TTSUnsupportedFeatureError);
+    expect((error as TTSUnsupportedFeatureError).feature).toBe("voice-cloning");
+    await expect(client.listClonedVoices()).rejects.toThrow("not supported by openai");
+    await expect(client.deleteClonedVoice("voice")).rejects.toThrow(TTSUnsupportedFeatureError);
+  });
+
+  it("names voice samples after their source", async () => {
+    jest.spyOn(globalThis, "fetch").mockResolvedValueOnce(new Response(MP3_SAMPLE));
+
+    const samples = await loadVoiceSamples([MP3_SAMPLE, "https://example.com/audio/me.mp3"]);
+
+    expect(samples.map(({ filename }) => filename)).toEqual(["sample-1.mp3", "me.mp3"]);
+    expect(samples.map(({ blob }) => blob.type)).toEqual(["audio/mpeg", "audio/mpeg"]);
+    await expect(loadVoiceSamples([])).rejects.toThrow("At least one voice sample");
+  });
+
+  it("uploads every sample to ElevenLabs and lists only cloned voices", async () => {
+    const client = new ElevenLabsTTSClient({ apiKey: "key" });
+    const fetchMock = mockFetch(
+      { voice_id: "new-voice" },
+      {
+        voices: [
+          { voice_id: "premade", name: "Rachel", category: "premade" },
+          { voice_id: "new-voice", name: "Me", category: "cloned" },
+        ],
+      }
+    );
+
+    const voice = await client.createClonedVoice({
+      name: "Me",
+      samples: [MP3_SAMPLE, MP3_SAMPLE],
+      description: "My voice",
+      language: "en-GB",
+    });
+    const cloned = await client.listClonedVoices();
+
+    expect(voice).toMatchObject({ id: "new-voice", name: "Me", provider: "elevenlabs" });
+    expect(voice.languageCodes[0].bcp47).toBe("en-GB");
+    const { url, init } = requestAt(fetchMock, 0);
+    expect(url).toBe("https://api.elevenlabs.io/v1/voices/add");
+    const form = init.body as FormData;
+    expect(form.getAll("files")).toHaveLength(2);
+    expect(form.get("description")).toBe("My voice");
+    expect(JSON.parse(String(form.get("labels")))).toEqual({ language: "en-GB" });
+    expect(cloned.map(({ id }) => id)).toEqual(["new-voice"]);
+    expect(client.hasFeature("voice-cloning", "eleven_v3")).toBe(true);
+    expect(client.hasFeature("inline-voice-cloning", "eleven_v3")).toBe(true);
+    expect(client.hasFeature("inline-voice-cloning", "eleven_multilingual_v2")).toBe(false);
+  });
+
+  it("clones a Cartesia voice from the first sample", async () => {
+    const client = new CartesiaTTSClient({ apiKey: "key" });
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const fetchMock = mockFetch(
+      { id: "cloned-id", name: "Me", language: "de" },
+      new Response(null, { status: 204 })
+    );
+
+    const voice = await client.createClonedVoice({
+      name: "Me",
+      samples: [MP3_SAMPLE, MP3_SAMPLE],
+      language: "de-DE",
+    });
+    await client.deleteClonedVoice("cloned-id");
+
+    expect(voice).toMatchObject({ id: "cloned-id", provider: "cartesia" });
+    expect(warn).toHaveBeenCalled();
+    const form = requestAt(fetchMock, 0).init.body as FormData;
+    expect(form.getAll("clip")).toHaveLength(1);
+    expect(form.get("language")).toBe("de");
+    expect(requestAt(fetchMock, 1)).toMatchObject({
+      url: "https://api.cartesia.ai/voices/cloned-id",
+      init: { method: "DELETE" },
+    });
+    expect(client.hasFeature("voice-cloning", "sonic-2")).toBe(true);
+  });
+
+  it("creates, fills and builds a Resemble voice", async () => {
+    const client = new ResembleTTSClient({ apiKey: "key" });
+    const fetchMock = mockFetch(
+      { success: true, item: { uuid: "voice-uuid", name: "Me" } },
+      { success: true },
+      { success: true }
+    );
+
+    const voice = await client.createClonedVoice({ name: "Me", samples: [MP3_SAMPLE] });
+
+    expect(voice.id).toBe("voice-uuid");
+    expect(fetchMock.mock.calls.map(([url]) => String(url))).toEqual([
+      "https://f.cluster.resemble.ai/v2/voices",
+      "https://f.cluster.resemble.ai/v2/voices/voice-uuid/recordings",
+      "https://f.cluster.resemble.ai/v2/voices/voice-uuid/build",
+    ]);
+    expect(requestBody(fetchMock, 0)).toEqual({
+      name: "Me",
+      voice_type: "rapid",
+    });
+  });
+
+  it("deletes a Resemble voice whose samples could not be uploaded", async () => {
+    const client = new ResembleTTSClient({ apiKey: "key" });
+    const fetchMock = mockFetch(
+      { success: true, item: { uuid: "voice-uuid", name: "Me" } },
+      new Response("Bad sample", { status: 400, statusText: "Bad Request" }),
+      { success: true }
+    );
+
+    await expect(
+      client.createClonedVoice({ name: "Me", samples: [MP3_SAMPLE] })
+    ).rejects.toMatchObject({ statusCode: 400, voiceId: "voice-uuid" });
+
+    expect(requestAt(fetchMock, 2)).toMatchObject({
+      url: "https://f.cluster.resemble.ai/v2/voices/voice-uuid",
+      init: { method: "DELETE" },
+    });
+  });
+
+  it("sends cloning requests once and escapes voice IDs", async () => {
+    const client = new ElevenLabsTTSClient({ apiKey: "key" });
+    const fetchMock = mockFetch(
+      new Response("Unavailable", { status: 503, statusText: "Service Unavailable" }),
+      new Response(null, { status: 200 })
+    );
+
+    await expect(
+      client.createClonedVoice({ name: "Me", samples: [MP3_SAMPLE] })
+    ).rejects.toBeInstanceOf(TTSNetworkError);
+    await client.deleteClonedVoice("../voices/other");
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(requestAt(fetchMock, 1).url).toBe(
+      "https://api.elevenlabs.io/v1/voices/..%2Fvoices%2Fother"
+    );
+  });
+
+  it("deletes PlayHT cloned voices by ID and reports HTTP errors", async () => {
+    const client = new PlayHTTTSClient({ apiKey: "key", userId: "user" });
+    const fetchMock = mockFetch(
+      { deleted: true },
+      new Response("Unauthorized", { status: 401, statusText: "Unauthorized" })
+    );
+
+    await client.deleteClonedVoice("s3://voice/manifest.json");
+    const error = await client
+      .createClonedVoice({ name: "Me", samples: [MP3_SAMPLE] })
+      .catch((err: unknown) => err);
+
+    expect(requestAt(fetchMock, 0).init).toMatchObject({
+      method: "DELETE",
+      body: JSON.stringify({ voice_id: "s3://voice/manifest.json" }),
+    });
+    expect(error).toBeInstanceOf(TTSAuthError);
+    expect(client.hasFeature("voice-cloning", "playht")).toBe(true);
+    expect(client.hasFeature("inline-voice-cloning", "playht")).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import type { AbstractTTSClient } from "../core/abstract-tts";
+import { createRegisteredClient, getRegisteredEngines } from "../core/engine-registry";
+import { TTSUnsupportedFeatureError } from "../core/errors";
+import { CartesiaTTSClient } from "../engines/cartesia";
+import { DeepgramTTSClient } from "../engines/deepgram";
+import { ElevenLabsTTSClient } from "../engines/elevenlabs";
+import { FishAudioTTSClient } from "../engines/fishaudio";
+import { HumeTTSClient } from "../engines/hume";
+import { MistralTTSClient } from "../engines/mistral";
+import "../factory";
+import { mockFetch, requestBody } from "./mock-fetch.helper";
+
+/**
+ * Start of a WAV file, used as reference audio
+ */
+const REFERENCE = new Uint8Array([0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0x57, 0x41, 0x56, 0x45]);
+const REFERENCE_BASE64 = Buffer.from(REFERENCE).toString("base64");
+
+describe("Reference audio voices", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("raises TTSUnsupportedFeatureError on engines without zero-shot cloning", async () => {
+    const elevenlabs = new ElevenLabsTTSClient({ apiKey: "key" });
+    const deepgram = new DeepgramTTSClient({ apiKey: "key" });
+    const fetchMock = mockFetch();
+
+    expect(() => elevenlabs.setVoice({ url: "https://example.com/me.wav" })).toThrow(
+      TTSUnsupportedFeatureError
+    );
+    await expect(
+      deepgram.synthToBytes("Hello", { voice: { audio: REFERENCE } })
+    ).rejects.toMatchObject({ feature: "inline-voice-cloning", provider: "deepgram" });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("rejects reference audio in setVoice on every engine without zero-shot cloning", async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    const rejecting: string[] = [];
+
+    for (const { name, credentialsSchema } of getRegisteredEngines()) {
+      if (name === "sapi" && process.platform !== "win32") {
+        continue;
+      }
+      const credentials: Record<string, unknown> = { noDefaultDownload: true };
+      const alternatives = credentialsSchema?.oneOf?.map(([first]) => first) ?? [];
+      for (const field of [...(credentialsSchema?.required ?? []), ...alternatives]) {
+        credentials[field] = "key";
+      }
+      if (name === "failover") {
+        credentials.engines = [{ engine: "openai", credentials: { apiKey: "key" } }];
+      }
+      const client: AbstractTTSClient = createRegisteredClient(name, credentials);
+      if ((client as any).acceptsVoiceReference) {
+        continue;
+      }
+
+      // Some engines load the voice asynchronously, so a rejected promise counts as well
+      await expect(
+        Promise.resolve().then(() => client.setVoice({ audio: REFERENCE }))
+      ).rejects.toBeInstanceOf(TTSUnsupportedFeatureError);
+      rejecting.push(name);
+    }
+
+    expect(rejecting).toEqual(
+      expect.arrayContaining(["openai", "playht", "watson", "sherpaonnx", "sherpaonnx-wasm"])
+    );
+    expect(rejecting).not.toContain("fishaudio");
+  });
+
+  it("sends Fish Audio references with their transcript", async () => {
+    const client = new FishAudioTTSClient({ apiKey: "key" });
+    const fetchMock = mockFetch(new Uint8Array([1]));
+
+    await client.synthToBytes("Hello", { voice: { audio: REFERENCE, transcript: "Hi there" } });
+
+    const body = requestBody(fetchMock, 0);
+    expect(body.references).toEqual([{ audio: REFERENCE_BASE64, text: "Hi there" }]);
+    expect(body.reference_id).toBeUndefined();
+  });
+
+  it("downloads URL references set with setVoice", async () => {
+    const client = new MistralTTSClient({ apiKey: "key" });
+    const fetchMock = mockFetch(REFERENCE, { audio_data: "AQ==" });
+
+    client.setVoice({ url: "https://example.com/me.wav" });
+    await client.synthToBytes("Hello");
+
+    expect(String(fetchMock.mock.calls[0][0])).toBe("https://example.com/me.wav");
+    const body = requestBody(fetchMock, 1);
+    expect(body.ref_audio).toBe(REFERENCE_BASE64);
+    expect(body.voice_id).toBeUndefined();
+  });
+
+  it("decodes data URL references and prefers a voice ID given with the request", async () => {
+    const client = new HumeTTSClient({ apiKey: "key" });
+    const fetchMock = mockFetch(new Uint8Array([1]), new Uint8Array([1]));
+
+    client.setVoice({ audio: `data:audio/wav;base64,${REFERENCE_BASE64}` });
+    await client.synthToBytes("Hello");
+    await client.synthToBytes("Hello", { voice: "ito" });
+
+    expect(requestBody(fetchMock, 0).utterances[0].voice).toEqual({ audio: REFERENCE_BASE64 });
+    expect(requestBody(fetchMock, 1).utterances[0].voice).toEqual({
+      name: "ito",
+      provider: "HUME_AI",
+    });
+  });
+
+  it("embeds Cartesia references once per reference", async () => {
+    const client = new CartesiaTTSClient({ apiKey: "key" });
+    const fetchMock = mockFetch(
+      { embedding: [0.1, 0.2] },
+      new Uint8Array([1]),
+      new Uint8Array([1])
+    );
+    const reference = { audio: REFERENCE };
+
+    await client.synthToBytes("Hello", { voice: reference });
+    await client.synthToBytes("Again", { voice: reference });
+
+    expect(fetchMock.mock.calls.map(([url]) => String(url))).toEqual([
+      "https://api.cartesia.ai/voices/clone/clip",
+      "https://api.cartesia.ai/tts/bytes",
+      "https://api.cartesia.ai/tts/bytes",
+    ]);
+    expect(requestBody(fetchMock, 2).voice).toEqual({ mode: "embedding", embedding: [0.1, 0.2] });
+  });
+});
@@ -0,0 +1,459 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type { AbstractTTSClient } from "../core/abstract-tts";
+import { AzureTTSClient } from "../engines/azure";
+import { CartesiaTTSClient } from "../engines/cartesia";
+import { CereVoiceTTSClient } from "../engines/cerevoice";
+import { DeepgramTTSClient } from "../engines/deepgram";
+import { ElevenLabsTTSClient } from "../engines/elevenlabs";
+import { EspeakNodeTTSClient } from "../engines/espeak";
+import { EspeakBrowserTTSClient } from "../engines/espeak-wasm";
+import { FishAudioTTSClient } from "../engines/fishaudio";
+import { GeminiTTSClient } from "../engines/gemini";
+import { GoogleTTSClient } from "../engines/google";
+import { HumeTTSClient } from "../engines/hume";
+import { MistralTTSClient } from "../engines/mistral";
+import { ModelsLabTTSClient } from "../engines/modelslab";
+import { MurfTTSClient } from "../engines/murf";
+import { OpenAITTSClient } from "../engines/openai";
+import { PlayHTTTSClient } from "../engines/playht";
+import { PollyTTSClient } from "../engines/polly";
+import { ResembleTTSClient } from "../engines/resemble";
+import { SAPITTSClient } from "../engines/sapi";
+import { SherpaOnnxTTSClient } from "../engines/sherpaonnx";
+import { SherpaOnnxWasmTTSClient } from "../engines/sherpaonnx-wasm";
+import { UnrealSpeechTTSClient } from "../engines/unrealspeech";
+import { UpliftAITTSClient } from "../engines/upliftai";
+import { WatsonTTSClient } from "../engines/watson";
+import { WitAITTSClient } from "../engines/witai";
+import { XaiTTSClient } from "../engines/xai";
+import type { SpeakOptions, WordBoundary } from "../types";
+import { estimateWordBoundaries } from "../utils/word-timing-estimator";
+import { startAzureStandIn } from "./azure-websocket-server.helper";
+import { startCartesiaStandIn } from "./cartesia-websocket-server.helper";
+import { mockFetchByUrl } from "./mock-fetch.helper";
+import { StubTTSClient } from "./tts-fixtures.helper";
+
+/**
+ * Every engine must report word boundaries in milliseconds. These tests stub each engine's
+ * transport with native timing data for "Hello world" and check the converted boundaries.
+ */
+
+/**
+ * Audio returned by the stubbed endpoints
+ */
+const AUDIO = new Uint8Array([1, 2, 3, 4]);
+
+/**
+ * Boundaries of an estimated "Hello world" (300ms per word)
+ */
+const ESTIMATED: WordBoundary[] = [
+  { text: "Hello", offset: 0, duration: 300 },
+  { text: "world", offset: 300, duration: 300 },
+];
+
+class TimingTTSClient extends StubTTSClient {
+  async speak(text: string, _options?: SpeakOptions): Promise<void> {
+    this._createEstimatedWordTimings(text);
+  }
+
+  fireBoundaries(text: string) {
+    this._createEstimatedWordTimings(text);
+    this._fireWordBoundaryCallbacks();
+  }
+}
+
+describe("word boundary units", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "debug").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe("AbstractTTSClient", () => {
+    it("emits boundary events in milliseconds", () => {
+      const client = new TimingTTSClient({});
+      const events: WordBoundary[] = [];
+      client.on("boundary", (event) => events.push(event));
+
+      client.fireBoundaries("Hello world");
+
+      expect(events).toEqual(ESTIMATED);
+    });
+
+    it("passes milliseconds to startPlaybackWithCallbacks callbacks", async () => {
+      jest.useFakeTimers();
+      const client = new TimingTTSClient({});
+      const calls: Array<[string, number, number]> = [];
+
+      await client.startPlaybackWithCallbacks("Hello world", (word, start, end) =>
+        calls.push([word, start, end])
+      );
+      jest.advanceTimersByTime(299);
+      expect(calls).toEqual([["Hello", 0, 300]]);
+      jest.advanceTimersByTime(1);
+      expect(calls).toEqual([
+        ["Hello", 0, 300],
+        ["world", 300, 600],
+      ]);
+    });
+
+    it.each([
+      ["google", () => new GoogleTTSClient({ apiKey: "key" })],
+      ["azure", () => new AzureTTSClient({ subscriptionKey: "key", region: "eastus" })],
+      ["elevenlabs", () => new ElevenLabsTTSClient({ apiKey: "key" })],
+    ])(
+      "removes the %s startPlaybackWithCallbacks listener when playback ends",
+      async (_name, create) => {
+        const client: AbstractTTSClient = create();
+        jest.spyOn(client, "speakStreamed").mockImplementation(async () => {
+          (client as any).emit("boundary", ESTIMATED[0]);
+          (client as any).emit("end");
+        });
+        const calls: Array<[string, number, number]> = [];
+
+        await client.startPlaybackWithCallbacks("Hello", (word, start, end) =>
+          calls.push([word, start, end])
+        );
+        await client.startPlaybackWithCallbacks("Hello", (word, start, end) =>
+          calls.push([word, start, end])
+        );
+
+        expect(calls).toEqual([
+          ["Hello", 0, 300],
+          ["Hello", 0, 300],
+        ]);
+        expect((client as any).callbacks.boundary ?? []).toHaveLength(0);
+      }
+    );
+
+    it("estimates word boundaries in milliseconds", () => {
+      const [first, second] = estimateWordBoundaries("Hello world", { wordsPerMinute: 120 });
+
+      expect(first).toEqual({ word: "Hello", start: 0, end: 500 });
+      expect(second).toEqual({ word: "world", start: 500, end: 1000 });
+    });
+  });
+
+  it("azure converts 100-nanosecond ticks", async () => {
+    const standIn = await startAzureStandIn([
+      {
+        metadata: [
+          {
+            Type: "WordBoundary",
+            Data: { Offset: 500_000, Duration: 4_000_000, text: { Text: "Hello" } },
+          },
+          {
+            Type: "WordBoundary",
+            Data: { Offset: 4_500_000, Duration: 5_000_000, text: { Text: "world" } },
+          },
+        ],
+      },
+    ]);
+    try {
+      const client = new AzureTTSClient({
+        subscriptionKey: "key",
+        region: "westeurope",
+        websocketEndpoint: standIn.endpoint,
+      });
+
+      const { audioStream, wordBoundaries } = await client.synthToBytestream("Hello world");
+      // Metadata arrives while the audio is read
+      await new Response(audioStream).arrayBuffer();
+
+      expect(wordBoundaries).toEqual([
+        { text: "Hello", offset: 50, duration: 400 },
+        { text: "world", offset: 450, duration: 500 },
+      ]);
+    } finally {
+      await standIn.close();
+    }
+  });
+
+  it("azure converts 100-nanosecond ticks from the Speech SDK", async () => {
+    const client = new AzureTTSClient({ subscriptionKey: "key", region: "westeurope" });
+    const sdk = {
+      ResultReason: { SynthesizingAudio: 1, SynthesizingAudioCompleted: 2 },
+      SpeechSynthesisOutputFormat: {},
+      SpeechConfig: { fromSubscription: () => ({}) },
+      SpeechSynthesizer: class {
+        wordBoundary?: (sender: unknown, event: unknown) => void;
+        speakSsmlAsync(_ssml: string, done: (result: unknown) => void) {
+          this.wordBoundary?.(null, { text: "Hello", audioOffset: 500_000 });
+          this.wordBoundary?.(null, { text: "world", audioOffset: 4_500_000 });
+          done({ reason: 2, audioData: new ArrayBuffer(4) });
+        }
+        close() {}
+      },
+    };
+
+    const { wordBoundaries } = await (client as any).synthToBytestreamWithSDK(
+      "<speak>Hello world</speak>",
+      undefined,
+      sdk
+    );
+
+    expect(wordBoundaries).toEqual([
+      { text: "Hello", offset: 50, duration: 400 },
+      { text: "world", offset: 450, duration: 500 },
+    ]);
+  });
+
+  it("elevenlabs converts character timestamps in seconds", async () => {
+    mockFetchByUrl(() => ({
+      audio_base64: "AQID",
+      alignment: {
+        characters: "Hello world".split(""),
+        character_start_times_seconds: [0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1.0],
+        character_end_times_seconds: [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1.0, 1.1],
+      },
+    }));
+    const client = new ElevenLabsTTSClient({ apiKey: "key" });
+
+    const { wordBoundaries } = await client.synthToBytestream("Hello world", {
+      useWordBoundary: true,
+      format: "mp3",
+    });
+
+    expect(wordBoundaries).toEqual([
+      { text: "Hello", offset: 0, duration: 500 },
+      { text: "world", offset: 600, duration: 500 },
+    ]);
+  });
+
+  it("gemini estimates timings in milliseconds", async () => {
+    mockFetchByUrl(() => ({
+      candidates: [{ content: { parts: [{ inlineData: { data: "AQID" } }] } }],
+    }));
+    const client = new GeminiTTSClient({ apiKey: "key" });
+
+    const { wordBoundaries } = await client.synthToBytestream("Hello world", {
+      useWordBoundary: true,
+    });
+
+    expect(wordBoundaries).toEqual(ESTIMATED);
+  });
+
+  it("google estimates timings in milliseconds", async () => {
+    mockFetchByUrl(() => ({ audioContent: "AQID" }));
+    const client = new GoogleTTSClient({ apiKey: "key" });
+
+    const { wordBoundaries } = await client.synthToBytestream("Hello world", {
+      useWordBoundary: true,
+    });
+
+    expect(wordBoundaries).toEqual(ESTIMATED);
+  });
+
+  it("polly keeps speech mark times in milliseconds", async () => {
+    const client = new PollyTTSClient({
+      region: "us-east-1",
+      accessKeyId: "a",
+      secretAccessKey: "b",
+    });
+    const send = jest.fn(async (command: { input: { OutputFormat: string } }) => ({
+      AudioStream:
+        command.input.OutputFormat === "json"
+          ? new Response(
+              [
+                '{"time":6,"type":"word","start":0,"end":5,"value":"Hello"}',
+                '{"time":373,"type":"word","start":6,"end":11,"value":"world"}',
+              ].join("\n")
+            ).body
+          : new ReadableStream<Uint8Array>(),
+    }));
+    Object.assign(client as any, {
+      client: { send },
+      _pollyModule: {
+        OutputFormat: { MP3: "mp3", OGG_VORBIS: "ogg_vorbis", PCM: "pcm" },
+        SynthesizeSpeechCommand: class {
+          constructor(public input: unknown) {}
+        },
+        SpeechMarkType: { SENTENCE: "sentence", SSML: "ssml", VISEME: "viseme", WORD: "word" },
+        Engine: { standard: "standard" },
+      },
+    });
+    (client as any).voiceCache.set("Joanna", {
+      id: "Joanna",
+      metadata: { supportedEngines: ["standard"] },
+    });
+
+    const { wordBoundaries } = await client.synthToBytestream("Hello world", { format: "mp3" });
+
+    expect(wordBoundaries).toEqual([
+      { text: "Hello", offset: 6, duration: 367 },
+      { text: "world", offset: 373, duration: 0 },
+    ]);
+  });
+
+  it("watson estimates timings in milliseconds", async () => {
+    mockFetchByUrl((url) => (url.includes("identity/token") ? { access_token: "token" } : AUDIO));
+    const client = new WatsonTTSClient({ apiKey: "key", region: "us-south", instanceId: "id" });
+
+    const { wordBoundaries } = await client.synthToBytestream("Hello world");
+
+    expect(wordBoundaries).toEqual(ESTIMATED);
+  });
+
+  it("witai estimates timings in milliseconds", async () => {
+    mockFetchByUrl(() => AUDIO);
+    const client = new WitAITTSClient({ token: "token" });
+
+    const { wordBoundaries } = await client.synthToBytestream("Hello world", {
+      voice: "witai$Alex",
+    });
+
+    expect(wordBoundaries.map(({ offset, duration }) => [offset, duration])).toEqual([
+      [0, 300],
+      [300, 300],
+    ]);
+  });
+
+  it("cartesia converts WebSocket timestamps in seconds", async () => {
+    const standIn = await startCartesiaStandIn();
+    try {
+      const client = new CartesiaTTSClient({ apiKey: "key", baseURL: standIn.baseUrl });
+
+      const { audioStream, wordBoundaries } = await client.synthToBytestream("Hello world", {
+        voice: "voice-1",
+      });
+      await new Response(audioStream).arrayBuffer();
+
+      expect(wordBoundaries).toEqual([
+        { text: "Hello", offset: 0, duration: 50 },
+        { text: "world", offset: 60, duration: 50 },
+      ]);
+    } finally {
+      await standIn.close();
+    }
+  });
+
+  it("cerevoice converts metadata times in seconds", async () => {
+    const metadata = "https://metadata.example.test/trans.xml";
+    mockFetchByUrl((url) => {
+      if (url.endsWith("/auth")) {
+        return { access_token: "access", refresh_token: "refresh" };
+      }
+      if (url === metadata) {
+        return new Response(
+          '<trans><word name="Hello" start="0.000" end="0.300"/>' +
+            '<word name="world" start="0.300" end="0.600"/></trans>'
+        );
+      }
+      return new Response(AUDIO, { headers: { "X-CereVoice-Metadata": metadata } });
+    });
+    const client = new CereVoiceTTSClient({ email: "user@example.com", password: "secret" });
+
+    const { wordBoundaries } = await client.synthToBytestream("Hello world", {
+      useWordBoundary: true,
+    });
+
+    expect(wordBoundaries).toEqual(ESTIMATED);
+  });
+
+  it("sherpaonnx converts model word timings in seconds", async () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    const client = new SherpaOnnxTTSClient({ noDefaultDownload: true } as any);
+    (client as any).tts = {
+      generate: () => ({
+        samples: new Float32Array(16),
+        sampleRate: 16000,
+        wordBoundaries: [
+          { word: "Hello", start: 0.05, end: 0.4 },
+          { word: "world", start: 0.45, end: 0.95 },
+        ],
+      }),
+    };
+
+    const { wordBoundaries } = await client.synthToBytestream("Hello world");
+
+    expect(wordBoundaries).toEqual([
+      { text: "Hello", offset: 50, duration: 350 },
+      { text: "world", offset: 450, duration: 500 },
+    ]);
+  });
+
+  describe("engines that estimate timings alongside the audio", () => {
+    const createSAPIClient = () => {
+      // The client refuses to start outside Windows; synthesis is stubbed below
+      const platform = Object.getOwnPropertyDescriptor(process, "platform")!;
+      Object.defineProperty(process, "platform", { value: "win32" });
+      try {
+        return new SAPITTSClient();
+      } finally {
+        Object.defineProperty(process, "platform", platform);
+      }
+    };
+    const engines: Array<[string, () => AbstractTTSClient]> = [
+      ["espeak", () => new EspeakNodeTTSClient()],
+      ["espeak-wasm", () => new EspeakBrowserTTSClient()],
+      ["sherpaonnx-wasm", () => new SherpaOnnxWasmTTSClient({})],
+      ["sapi", createSAPIClient],
+    ];
+
+    it.each(engines)("%s estimates timings in milliseconds", async (_name, create) => {
+      const client = create();
+      jest.spyOn(client as any, "_synthToBytes").mockResolvedValue(AUDIO);
+
+      const { wordBoundaries } = await client.synthToBytestream("Hello world", {
+        useWordBoundary: true,
+      });
+
+      expect(wordBoundaries).toEqual(ESTIMATED);
+    });
+  });
+
+  describe("engines without timing data", () => {
+    /**
+     * These engines report no boundaries with the audio, so speaking falls back to timings
+     * estimated from the text
+     */
+    const engines: Array<[string, () => AbstractTTSClient]> = [
+      ["deepgram", () => new DeepgramTTSClient({ apiKey: "key" })],
+      ["fishaudio", () => new FishAudioTTSClient({ apiKey: "key" })],
+      ["hume", () => new HumeTTSClient({ apiKey: "key" })],
+      ["mistral", () => new MistralTTSClient({ apiKey: "key" })],
+      ["murf", () => new MurfTTSClient({ apiKey: "key" })],
+      ["playht", () => new PlayHTTTSClient({ apiKey: "key", userId: "user" })],
+      ["resemble", () => new ResembleTTSClient({ apiKey: "key" })],
+      ["unrealspeech", () => new UnrealSpeechTTSClient({ apiKey: "key" })],
+      ["upliftai", () => new UpliftAITTSClient({ apiKey: "key" })],
+      ["xai", () => new XaiTTSClient({ apiKey: "key" })],
+      [
+        "modelslab",
+        () => {
+          const client = new ModelsLabTTSClient({ apiKey: "key" });
+          jest.spyOn(client as any, "_synthesize").mockResolvedValue(AUDIO);
+          return client;
+        },
+      ],
+      [
+        "openai",
+        () => {
+          const client = new OpenAITTSClient({ apiKey: "key" });
+          jest.spyOn(client as any, "loadClient").mockResolvedValue({
+            audio: { speech: { create: async () => new Response(AUDIO) } },
+          });
+          return client;
+        },
+      ],
+    ];
+
+    it.each(engines)("%s falls back to estimated milliseconds", async (_name, create) => {
+      mockFetchByUrl(() => AUDIO);
+      const client = create();
+      const events: WordBoundary[] = [];
+      client.on("boundary", (event) => events.push(event));
+
+      const { wordBoundaries } = await client.synthToBytestream("Hello world");
+      (client as any)._createEstimatedWordTimings("Hello world");
+      (client as any)._fireWordBoundaryCallbacks();
+
+      expect(wordBoundaries).toEqual([]);
+      expect(events).toEqual(ESTIMATED);
+    });
+  });
+});
@@ -6,13 +6,87 @@
 
 // Core components
 export { AbstractTTSClient } from "./core/abstract-tts";
+export {
+  createRegisteredClient,
+  type EngineCapabilities,
+  type EngineCreateOptions,
+  type EngineCredentialsSchema,
+  type EngineRegistration,
+  getEngineRegistration,
+  getRegisteredEngines,
+  isEngineRegistered,
+  type RegisteredEngine,
+  registerEngine,
+  unregisterEngine,
+} from "./core/engine-registry";
+export {
+  createHttpError,
+  parseRetryAfter,
+  SSMLParseError,
+  TTSAuthError,
+  TTSError,
+  type TTSErrorContext,
+  type TTSErrorOptions,
+  TTSInvalidVoiceError,
+  TTSNetworkError,
+  TTSQuotaError,
+  TTSRateLimitError,
+  TTSUnsupportedFeatureError,
+  toTTSError,
+} from "./core/errors";
+export {
+  type ApplyLexiconOptions,
+  applyLexicon,
+  Lexicon,
+  type LexiconEntry,
+  type LexiconMap,
+  type LexiconOptions,
+} from "./core/lexicon";
+export {
+  computeRetryDelay,
+  DEFAULT_RETRY_POLICY,
+  isRetryableError,
+  type RetryOptions,
+  type RetryPolicy,
+  resolveRetryPolicy,
+  type TTSErrorClass,
+} from "./core/retry";
+export {
+  type SpeechQueueEndReason,
+  type SpeechQueueEventMap,
+  type SpeechQueueItem,
+  type SpeechQueueItemOptions,
+  type SpeechQueueListener,
+  SpeechQueue,
+} from "./core/speech-queue";
+export {
+  type CacheBackend,
+  type CacheEntry,
+  type CacheKeyParts,
+  type CacheLimits,
+  createCacheKey,
+  IndexedDBCacheBackend,
+  MemoryCacheBackend,
+  SynthesisCache,
+  type SynthesisCacheOptions,
+} from "./core/synthesis-cache";
 // Browser-compatible engines
 export { AzureTTSClient } from "./engines/azure";
-export { CartesiaTTSClient } from "./engines/cartesia";
+export { type CartesiaInputStream, CartesiaTTSClient } from "./engines/cartesia";
 export { CereVoiceTTSClient } from "./engines/cerevoice";
 export { DeepgramTTSClient } from "./engines/deepgram";
-export { ElevenLabsTTSClient } from "./engines/elevenlabs";
+export {
+  type ElevenLabsInputStream,
+  type ElevenLabsInputStreamOptions,
+  ElevenLabsTTSClient,
+} from "./engines/elevenlabs";
 export { EspeakBrowserTTSClient } from "./engines/espeak-wasm";
+export {
+  FailoverTTSClient,
+  type FailoverEvent,
+  type FailoverTTSCredentials,
+  findClosestVoice,
+} from "./engines/failover";
 export { FishAudioTTSClient } from "./engines/fishaudio";
 export { GeminiTTSClient } from "./engines/gemini";
 export { GoogleTTSClient } from "./engines/google";
@@ -34,7 +108,41 @@ export { XaiTTSClient } from "./engines/xai";
 export { createBrowserTTSClient } from "./factory-browser";
 export * as SpeechMarkdown from "./markdown/converter-browser";
 export { configureSpeechMarkdown, SpeechMarkdownConverter } from "./markdown/converter-browser";
-export { SSMLBuilder } from "./ssml/builder";
+export { createEnglishRules, type EnglishNormalizationOptions } from "./normalization/english";
+export {
+  getNormalizationRules,
+  type NormalizationRule,
+  type NormalizeSayAsOptions,
+  normalizeSayAs,
+  normalizeText,
+  registerNormalizationRules,
+  type SayAsHandler,
+  type TextNormalizationRules,
+} from "./normalization/normalizer";
+export {
+  type SSMLBreakAttributes,
+  SSMLBuilder,
+  type SSMLContent,
+  type SSMLExpressAsAttributes,
+  type SSMLProsodyAttributes,
+  type SSMLSayAsAttributes,
+  type SSMLVoiceAttributes,
+} from "./ssml/builder";
+export {
+  createSSMLElement,
+  findSSMLElement,
+  type ParseSSMLOptions,
+  parseSSML,
+  replaceSSMLElements,
+  type SerializeSSMLOptions,
+  type SSMLElement,
+  type SSMLNode,
+  type SSMLText,
+  serializeSSML,
+  ssmlToText,
+  unwrapSSMLElements,
+  walkSSML,
+} from "./ssml/parser";
 
 // Mock client for testing (if available)
 // Note: This is conditionally exported in factory.ts instead
@@ -43,5 +151,9 @@ export { SSMLBuilder } from "./ssml/builder";
 export * from "./types";
 export { isBrowser, isNode } from "./utils/environment";
 // Utilities
+export { splitTextIntoChunks } from "./core/text-chunking";
+export { estimateVisemes, splitPhonemes, VISEME_SHAPES } from "./core/visemes";
+export { concatAudio, getAudioDuration } from "./utils/audio-concat";
 export { estimateWordBoundaries } from "./utils/word-timing-estimator";
 export * as VoiceUtils from "./core/voice-utils";
+export { type InputStreamService, WebSocketInputStream } from "./core/websocket-input-stream";
@@ -1,6 +1,7 @@
 import * as SpeechMarkdown from "../markdown/converter";
 import { SSMLBuilder } from "../ssml/builder";
 import type {
+  CloneVoiceOptions,
   CredentialsCheckResult,
   ModelFeature,
   ModelInfo,
@@ -8,17 +9,79 @@ import type {
   SimpleCallback,
   SpeakInput,
   SpeakOptions,
+  SpeechMarks,
+  SynthLongOptions,
+  SynthLongResult,
+  TextStreamInput,
+  TextStreamSynthesisResult,
   TTSCredentials,
+  TTSEventListener,
+  TTSEventMap,
   TTSEventType,
   UnifiedVoice,
+  Viseme,
+  VoiceInput,
+  VoiceReference,
+  WordBoundary,
   WordBoundaryCallback,
 } from "../types";
+import { abortableStream, throwIfAborted } from "../utils/abort-utils";
 import type { AudioFormat } from "../utils/audio-converter";
-import { detectAudioFormat } from "../utils/audio-input";
+import {
+  concatAudio,
+  createSilence,
+  getAudioDuration,
+  timeStretch,
+  toStreamSegment,
+} from "../utils/audio-concat";
+import { detectAudioFormat, streamToBytes } from "../utils/audio-input";
+import {
+  getBrowserStreamFormat,
+  playAudioStreamInBrowser,
+  type StreamPlayback,
+} from "../utils/browser-stream-audio";
 import { isBrowser, isNode } from "../utils/environment";
+import { type FetchOptions, type FetchResponse, getFetch } from "../utils/fetch-utils";
+import { iterateStream, peekStream } from "../utils/stream-utils";
+import { createHttpError, parseRetryAfter, TTSUnsupportedFeatureError, toTTSError } from "./errors";
+import { estimateVisemes } from "./visemes";
 import { filterByGender } from "./voice-utils";
 import { LanguageNormalizer } from "./language-utils";
+import { applyLexicon, type Lexicon } from "./lexicon";
+import {
+  computeRetryDelay,
+  isRetryableError,
+  type RetryOptions,
+  type RetryPolicy,
+  resolveRetryPolicy,
+  sleep,
+} from "./retry";
+import { ENGINE_SSML_CAPABILITIES, SSMLCompatibilityManager } from "./ssml-compatibility";
+import { type EmulatedSSMLSegment, splitSSMLForAudioEmulation } from "./ssml-emulation";
 import * as SSMLUtils from "./ssml-utils";
+import { copySpeechMarks, createCacheKey, type SynthesisCache } from "./synthesis-cache";
+import { bufferSentences, splitTextIntoChunks } from "./text-chunking";
+
+/**
+ * Result of synthToBytestream: the audio stream, word boundaries in milliseconds and any
+ * sentence, SSML mark or viseme timings the engine reports
+ */
+type BytestreamResult = {
+  audioStream: ReadableStream<Uint8Array>;
+  wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
+} & SpeechMarks;
+
+/**
+ * Listener registered by once(), remembering the listener it wraps so off() can remove it
+ */
+type OnceListener<E extends TTSEventType> = TTSEventListener<E> & {
+  listener?: TTSEventListener<E>;
+};
+
+/**
+ * Client classes already warned about overriding the public synthesis methods
+ */
+const legacySynthesisWarnings = new WeakSet<object>();
 
 /**
  * Abstract base class for all TTS clients
@@ -30,15 +93,25 @@ export abstract class AbstractTTSClient {
    */
   protected voiceId: string | null = null;
 
+  /**
+   * Reference audio selected with setVoice(), used instead of voiceId
+   */
+  protected voiceReference: VoiceReference | null = null;
+
+  /**
+   * Whether the engine clones a voice from reference audio sent with each request
+   */
+  protected acceptsVoiceReference = false;
+
   /**
    * Currently selected language
    */
   protected lang = "en-US";
 
   /**
-   * Event callbacks
+   * Event listeners, by event type
    */
-  protected callbacks: Record<string, ((...args: any[]) => void)[]> = {};
+  protected callbacks: { [E in TTSEventType]?: TTSEventListener<E>[] } = {};
 
   /**
    * SSML builder instance
@@ -66,10 +139,26 @@ export abstract class AbstractTTSClient {
   };
 
   /**
-   * Word timings for the current audio
+   * Word timings for the current audio, as [start, end, word] with times in seconds.
+   * Word boundaries exposed to callers use milliseconds; see _getWordBoundariesFromTimings.
    */
   protected timings: Array<[number, number, string]> = [];
 
+  /**
+   * Sentence, SSML mark and viseme events for the current audio, with offsets in milliseconds
+   */
+  protected speechMarks: SpeechMarks = {};
+
+  /**
+   * Pending timers for scheduled word boundary and speech mark events
+   */
+  private boundaryTimers: ReturnType<typeof setTimeout>[] = [];
+
+  /**
+   * Controls for browser audio that is being played from a stream
+   */
+  private streamPlayback: StreamPlayback | null = null;
+
   protected _models: ModelInfo[] = [];
 
   /**
@@ -83,6 +172,14 @@ export abstract class AbstractTTSClient {
       needsWasm: false,
     };
 
+  /**
+   * Name of the engine as registered with registerEngine ("azure", "sherpaonnx-wasm", ...), used
+   * to look up its SSML capabilities and in cache keys and errors. Engines set it explicitly
+   * because class names don't survive minification; clients created through the registry get
+   * their registered name when they don't set one.
+   */
+  engineName = "";
+
   /**
    * Audio sample rate in Hz
    * This is used for playback and word timing estimation
@@ -90,12 +187,38 @@ export abstract class AbstractTTSClient {
    */
   protected sampleRate = 24000;
 
+  /**
+   * Maximum number of characters the provider accepts in one request.
+   * synthLong() splits longer input into chunks of this size.
+   */
+  protected maxTextLength = Number.POSITIVE_INFINITY;
+
+  /**
+   * Retry policy applied to provider HTTP requests made through fetchWithRetry
+   */
+  protected retryPolicy: RetryPolicy;
+
+  /**
+   * Cache for synthesis results, or null when caching is disabled
+   */
+  protected cache: SynthesisCache | null = null;
+
+  /**
+   * Pronunciation lexicon applied before synthesis, or null when none is set
+   */
+  protected lexicon: Lexicon | null = null;
+
   /**
    * Creates a new TTS client
    * @param credentials Provider-specific credentials
    */
   constructor(protected credentials: TTSCredentials) {
     this.ssml = new SSMLBuilder();
+    this.retryPolicy = resolveRetryPolicy(credentials?.retry as RetryOptions | undefined);
+    this._warnAboutLegacySynthesisOverrides();
+    if (credentials?.cache) {
+      this.setCache(credentials.cache as SynthesisCache);
+    }
     this.audio = {
       isPlaying: false,
       isPaused: false,
@@ -115,13 +238,60 @@ export abstract class AbstractTTSClient {
   protected abstract _getVoices(): Promise<UnifiedVoice[]>;
 
   /**
-   * Synthesize text to audio bytes
+   * Synthesize text to audio bytes with the engine.
+   * Called by synthToBytes() after the lexicon, cache and SSML emulation steps.
+   * @param text Text or SSML to synthesize
+   * @param options Synthesis options
+   * @returns Promise resolving to audio bytes in engine's native format
+   */
+  protected abstract _synthToBytes(text: string, options?: SpeakOptions): Promise<Uint8Array>;
+
+  /**
+   * Synthesize text to a byte stream with the engine.
+   * Called by synthToBytestream() after the lexicon, cache and SSML emulation steps.
+   * @param text Text or SSML to synthesize
+   * @param options Synthesis options
+   * @returns Promise resolving to the audio stream, word boundaries and any speech marks
+   */
+  protected abstract _synthToBytestream(
+    text: string,
+    options?: SpeakOptions
+  ): Promise<BytestreamResult>;
+
+  // --- Synthesis pipeline ---
+
+  /**
+   * Synthesize text to audio bytes.
+   * Every request runs through the same steps, in this order: the lexicon is applied, the cache
+   * is consulted, SSML is emulated in audio mode where requested, and the engine's
+   * _synthToBytes() produces the audio.
    * @param text Text or SSML to synthesize
    * @param options Synthesis options
    * @returns Promise resolving to audio bytes in engine's native format
    * @note For format conversion (e.g., WAV to MP3), use synthToBytesWithConversion() instead
    */
-  abstract synthToBytes(text: string, options?: SpeakOptions): Promise<Uint8Array>;
+  async synthToBytes(text: string, options?: SpeakOptions): Promise<Uint8Array> {
+    const prepared = await this._applyLexicon(text, options);
+    const cache = this.cache;
+    if (!cache) {
+      return this._synthToBytesWithEmulation(prepared, options);
+    }
+
+    const key = await this._getCacheKey("bytes", prepared, options);
+    const cached = await cache.get(key);
+    if (cached) {
+      throwIfAborted(options?.signal);
+      this._setTimingsFromWordBoundaries(cached.wordBoundaries);
+      this.speechMarks = copySpeechMarks(cached.speechMarks ?? {});
+      return cached.audio.slice();
+    }
+
+    this.timings = [];
+    this.speechMarks = {};
+    const audio = await this._synthToBytesWithEmulation(prepared, options);
+    await cache.set(key, audio.slice(), this._getWordBoundariesFromTimings(), this.speechMarks);
+    return audio;
+  }
 
   /**
    * Synthesize text to audio bytes with format conversion support
@@ -142,18 +312,198 @@ export abstract class AbstractTTSClient {
 
   /**
    * Synthesize text to a byte stream and optionally provide word boundaries.
+   * Runs through the same steps as synthToBytes() before the engine's _synthToBytestream().
    * @param text Text or SSML to synthesize
    * @param options Synthesis options
    * @returns Promise resolving to an object containing the audio stream and an array of word boundaries.
    *          The wordBoundaries array will be empty if the engine does not support them.
+   *          Engines that report sentence, SSML mark or viseme timings add them as well.
    */
-  abstract synthToBytestream(
-    text: string,
+  async synthToBytestream(text: string, options?: SpeakOptions): Promise<BytestreamResult> {
+    const prepared = await this._applyLexicon(text, options);
+    const cache = this.cache;
+    if (!cache) {
+      return this._synthToBytestreamWithEmulation(prepared, options);
+    }
+
+    const key = await this._getCacheKey("stream", prepared, options);
+    const cached = await cache.get(key);
+    if (cached) {
+      throwIfAborted(options?.signal);
+      const audio = cached.audio.slice();
+      return {
+        audioStream: new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(audio);
+            controller.close();
+          },
+        }),
+        wordBoundaries: cached.wordBoundaries.map((wb) => ({ ...wb })),
+        ...copySpeechMarks(cached.speechMarks ?? {}),
+      };
+    }
+
+    const result = await this._synthToBytestreamWithEmulation(prepared, options);
+    return {
+      ...result,
+      // Engines may fill in boundaries and marks while the stream is read, so the result
+      // itself is stored once the stream ends
+      audioStream: cache.storeStream(key, result.audioStream, result.wordBoundaries, result),
+    };
+  }
+
+  // --- Long text support ---
+
+  /**
+   * Synthesize text that may be longer than the provider's per-request limit.
+   * The text is split on paragraph and sentence boundaries (or on SSML elements, preferring
+   * `<p>` and `<s>`), the chunks are synthesized with bounded concurrency, and the audio is
+   * joined into one WAV or MP3 file with word boundaries offset to match.
+   * @param text Text or SSML to synthesize
+   * @param options Synthesis options, chunk length and concurrency
+   * @returns Promise resolving to the joined audio and word boundaries
+   */
+  async synthLong(text: string, options: SynthLongOptions = {}): Promise<SynthLongResult> {
+    const { maxChunkLength = this.maxTextLength, concurrency = 2, ...speakOptions } = options;
+    throwIfAborted(speakOptions.signal);
+
+    const engine = this.engineName;
+    const normalizedOptions = this.normalizeSpeechMarkdownOptions(text, speakOptions);
+    const chunks = Number.isFinite(maxChunkLength)
+      ? splitTextIntoChunks(text, maxChunkLength)
+      : [text];
+
+    const results = await this._mapWithConcurrency(chunks, concurrency, async (chunk) => {
+      throwIfAborted(speakOptions.signal);
+      const { audioStream, wordBoundaries } = await this.synthToBytestream(
+        chunk,
+        normalizedOptions
+      );
+      const audioBytes = await streamToBytes(audioStream);
+      // Some engines fill in word boundaries while the stream is read
+      return { audioBytes, wordBoundaries: [...wordBoundaries] };
+    });
+
+    const wordBoundaries: SynthLongResult["wordBoundaries"] = [];
+    let chunkStart = 0; // seconds
+    for (const { audioBytes, wordBoundaries: chunkBoundaries } of results) {
+      for (const wb of chunkBoundaries) {
+        wordBoundaries.push({ ...wb, offset: wb.offset + Math.round(chunkStart * 1000) });
+      }
+      const last = chunkBoundaries[chunkBoundaries.length - 1];
+      chunkStart +=
+        getAudioDuration(audioBytes, this.sampleRate) ??
+        (last ? (last.offset + last.duration) / 1000 : 0);
+    }
+
+    try {
+      return {
+        audioBytes: concatAudio(results.map((result) => result.audioBytes)),
+        wordBoundaries,
+      };
+    } catch (error) {
+      throw new TTSUnsupportedFeatureError(error instanceof Error ? error.message : String(error), {
+        provider: engine,
+        feature: "synthLong",
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Synthesize text that arrives in fragments, such as LLM tokens, while it is still arriving.
+   * Fragments are collected into sentences, and each sentence is synthesized with
+   * synthToBytestream() once it is complete and the audio before it has been read. The audio
+   * is joined into one WAV or MP3 stream with word boundaries offset to match. Engines with
+   * native input streaming override this.
+   * @param textStream Text fragments
+   * @param options Synthesis options
+   * @returns Promise resolving to the audio stream and the word boundaries filled in as it is read
+   */
+  async synthFromTextStream(
+    textStream: TextStreamInput,
     options?: SpeakOptions
-  ): Promise<{
-    audioStream: ReadableStream<Uint8Array>;
-    wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
-  }>;
+  ): Promise<TextStreamSynthesisResult> {
+    throwIfAborted(options?.signal);
+
+    const sentences = bufferSentences(iterateStream(textStream));
+    const wordBoundaries: TextStreamSynthesisResult["wordBoundaries"] = [];
+    let first = true;
+    let start = 0; // milliseconds
+
+    const audioStream = new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        const { done, value: sentence } = await sentences.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+
+        const pieces =
+          Number.isFinite(this.maxTextLength) && sentence.length > this.maxTextLength
+            ? splitTextIntoChunks(sentence, this.maxTextLength)
+            : [sentence];
+        for (const piece of pieces) {
+          const result = await this.synthToBytestream(
+            piece,
+            this.normalizeSpeechMarkdownOptions(piece, options)
+          );
+          const audioBytes = await streamToBytes(result.audioStream);
+          for (const wb of result.wordBoundaries) {
+            wordBoundaries.push({ ...wb, offset: wb.offset + Math.round(start) });
+          }
+
+          const last = result.wordBoundaries[result.wordBoundaries.length - 1];
+          const duration = getAudioDuration(audioBytes, this.sampleRate);
+          start +=
+            duration !== undefined ? duration * 1000 : last ? last.offset + last.duration : 0;
+
+          if (audioBytes.length > 0) {
+            controller.enqueue(toStreamSegment(audioBytes, first));
+            first = false;
+          }
+        }
+      },
+      cancel: async () => {
+        await sentences.return(undefined);
+      },
+    });
+
+    return { audioStream: abortableStream(audioStream, options?.signal), wordBoundaries };
+  }
+
+  /**
+   * Run an async operation over items with at most `limit` operations in flight
+   * @param items Items to process
+   * @param limit Maximum number of concurrent operations
+   * @param operation Operation to run on each item
+   * @returns Results in the order of the items
+   */
+  private async _mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    operation: (item: T) => Promise<R>
+  ): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    let failed = false;
+    const worker = async () => {
+      // Stop picking up new items once one has failed
+      while (!failed && next < items.length) {
+        const index = next++;
+        try {
+          results[index] = await operation(items[index]);
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => worker())
+    );
+    return results;
+  }
 
   // --- Format conversion support ---
 
@@ -295,17 +645,26 @@ export abstract class AbstractTTSClient {
    * @returns Promise resolving when audio playback starts
    */
   async speak(input: string | SpeakInput, options?: SpeakOptions): Promise<void> {
+    throwIfAborted(options?.signal);
+
     // Trigger onStart callback
     this.emit("start");
 
+    // Stop playback if the caller aborts
+    const releaseAbort = this._stopPlaybackOnAbort(options?.signal);
+
     try {
       let audioBytes: Uint8Array;
       let mimeType: string;
+      this.speechMarks = {};
 
       // Handle different input types
       if (typeof input === "string") {
         // Traditional text input with format conversion support
+        const startedAt = Date.now();
+        this.emit("synthesisStart", { text: input });
         audioBytes = await this.synthToBytesWithConversion(input, options);
+        this._emitAudioReceived(audioBytes, 0, startedAt);
 
         // Determine MIME type based on actual audio format
         mimeType = detectAudioFormat(audioBytes);
@@ -315,6 +674,12 @@ export abstract class AbstractTTSClient {
         const result = await processAudioInput(input);
         audioBytes = result.audioBytes;
         mimeType = result.mimeType;
+
+        // Use the word boundaries supplied with the audio, if any
+        this.timings = [];
+        if (input.wordBoundaries) {
+          this._setTimingsFromWordBoundaries(input.wordBoundaries);
+        }
       }
 
       // Check if we're in a browser environment
@@ -330,6 +695,11 @@ export abstract class AbstractTTSClient {
 
         // Set up event handlers before setting the source
         audio.oncanplay = async () => {
+          if (options?.signal?.aborted) {
+            URL.revokeObjectURL(url);
+            this.emit("end");
+            return;
+          }
           try {
             this.audio.audioElement = audio;
             this.audio.isPlaying = true;
@@ -343,18 +713,23 @@ export abstract class AbstractTTSClient {
             // Play the audio
             await audio.play();
           } catch (playError) {
-            console.error("Error playing audio:", playError);
+            this._emitError(playError, "Error playing audio");
             this.emit("end");
           }
         };
 
-        audio.onerror = (e) => {
-          console.error("Audio playback error:", e);
+        audio.onerror = () => {
+          this._emitError(
+            new Error(`Audio playback error: ${audio.error?.message || "unknown error"}`),
+            "Audio playback error"
+          );
+          releaseAbort();
           this.emit("end");
           URL.revokeObjectURL(url);
         };
 
         audio.onended = () => {
+          releaseAbort();
           this.emit("end");
           this.audio.isPlaying = false;
           URL.revokeObjectURL(url); // Clean up the URL
@@ -384,11 +759,7 @@ export abstract class AbstractTTSClient {
 
             // Play audio using our node-audio utility
             // Pass the engine name to handle Polly audio differently
-            await playAudioInNode(
-              audioBytes,
-              this.sampleRate,
-              this.constructor.name.replace("TTSClient", "").toLowerCase()
-            );
+            await playAudioInNode(audioBytes, this.sampleRate, this.engineName);
 
             // Emit end event
             this.emit("end");
@@ -404,7 +775,7 @@ export abstract class AbstractTTSClient {
             this.emit("end");
           }
         } catch (nodeAudioError) {
-          console.error("Error playing audio in Node.js:", nodeAudioError);
+          this._emitError(nodeAudioError, "Error playing audio in Node.js");
           this._fireWordBoundaryCallbacks();
           this.emit("end");
         }
@@ -417,9 +788,17 @@ export abstract class AbstractTTSClient {
         this.emit("end");
       }
     } catch (error) {
-      console.error("Error in speak method:", error);
+      releaseAbort();
+      if (!options?.signal?.aborted) {
+        this._emitError(error, "Error in speak method");
+      }
       this.emit("end"); // Ensure end event is triggered even on error
       throw error;
+    } finally {
+      // Browser playback releases the listener once the audio element finishes
+      if (!isBrowser) {
+        releaseAbort();
+      }
     }
   }
 
@@ -430,9 +809,14 @@ export abstract class AbstractTTSClient {
    * @returns Promise resolving when audio playback starts
    */
   async speakStreamed(input: string | SpeakInput, options?: SpeakOptions): Promise<void> {
+    throwIfAborted(options?.signal);
+
     // Trigger onStart callback
     this.emit("start");
 
+    // Stop playback if the caller aborts
+    const releaseAbort = this._stopPlaybackOnAbort(options?.signal);
+
     try {
       let audioBytes: Uint8Array;
       let mimeType: string;
@@ -444,11 +828,36 @@ export abstract class AbstractTTSClient {
         // Traditional text input - use streaming synthesis
         text = input;
         const normalizedOptions = this.normalizeSpeechMarkdownOptions(text, options);
+        const startedAt = Date.now();
+        this.emit("synthesisStart", { text });
         const streamResult = await this.synthToBytestream(text, normalizedOptions);
 
         // Get audio stream and word boundaries
-        const audioStream = streamResult.audioStream;
+        let audioStream = this._monitorAudioStream(streamResult.audioStream, startedAt);
         wordBoundaries = streamResult.wordBoundaries;
+        this.speechMarks = {
+          sentences: streamResult.sentences,
+          marks: streamResult.marks,
+          visemes: streamResult.visemes,
+        };
+
+        // Play the audio as it arrives unless it has to be converted first
+        if (!normalizedOptions?.format) {
+          const progressive = await this._playStreamProgressively(
+            audioStream,
+            text,
+            wordBoundaries
+          );
+          if (progressive.played) {
+            releaseAbort();
+            // Aborted browser playback has already emitted "end"
+            if (!(isBrowser && options?.signal?.aborted)) {
+              this.emit("end");
+            }
+            return;
+          }
+          audioStream = progressive.audioStream;
+        }
 
         const reader = audioStream.getReader();
         const chunks: Uint8Array[] = [];
@@ -508,19 +917,17 @@ export abstract class AbstractTTSClient {
         audioBytes = result.audioBytes;
         mimeType = result.mimeType;
 
-        // For audio input, we don't have word boundaries or text
-        // We'll create estimated timings if needed
+        // For audio input there is no text to estimate timings from; use the word
+        // boundaries supplied with the audio, if any
+        wordBoundaries = input.wordBoundaries ?? [];
+        this.speechMarks = {};
         text = ""; // No text available for audio input
       }
 
       // Use actual word boundaries if available, otherwise create estimated ones
       if (wordBoundaries.length > 0) {
         // Convert the word boundaries to our internal format
-        this.timings = wordBoundaries.map((wb) => [
-          wb.offset / 10000, // Convert from 100-nanosecond units to seconds
-          (wb.offset + wb.duration) / 10000,
-          wb.text,
-        ]);
+        this._setTimingsFromWordBoundaries(wordBoundaries);
       } else if (text) {
         // Create estimated word timings only if we have text
         this._createEstimatedWordTimings(text);
@@ -542,6 +949,11 @@ export abstract class AbstractTTSClient {
 
         // Set up event handlers before setting the source
         audio.oncanplay = async () => {
+          if (options?.signal?.aborted) {
+            URL.revokeObjectURL(url);
+            this.emit("end");
+            return;
+          }
           try {
             this.audio.audioElement = audio;
             this.audio.isPlaying = true;
@@ -550,18 +962,23 @@ export abstract class AbstractTTSClient {
             // Play the audio
             await audio.play();
           } catch (playError) {
-            console.error("Error playing audio:", playError);
+            this._emitError(playError, "Error playing audio");
             this.emit("end");
           }
         };
 
-        audio.onerror = (e) => {
-          console.error("Audio playback error:", e);
+        audio.onerror = () => {
+          this._emitError(
+            new Error(`Audio playback error: ${audio.error?.message || "unknown error"}`),
+            "Audio playback error"
+          );
+          releaseAbort();
           this.emit("end");
           URL.revokeObjectURL(url);
         };
 
         audio.onended = () => {
+          releaseAbort();
           this.emit("end");
           this.audio.isPlaying = false;
           URL.revokeObjectURL(url);
@@ -571,33 +988,19 @@ export abstract class AbstractTTSClient {
         audio.src = url;
       } else if (isNode) {
         // In Node.js environment, try to use sound-play
-        console.log("🔍 Taking Node.js audio path");
         try {
           // Check if Node.js audio playback is available
           const nodeAudioModule = await import("../utils/node-audio.js");
           const { isNodeAudioAvailable, playAudioInNode } = nodeAudioModule;
           const audioAvailable = await isNodeAudioAvailable();
-          console.log(`🔍 Audio available: ${audioAvailable}`);
-
-          // Create estimated word timings if needed and we have text
-          if (text) {
-            console.log(`🔍 Creating estimated word timings for: "${text}"`);
-            this._createEstimatedWordTimings(text);
-            console.log(`🔍 Created ${this.timings.length} timings`);
-          }
 
           if (audioAvailable) {
-            console.log("🔍 Audio available - scheduling word boundary callbacks");
             // Schedule word boundary callbacks
             this._scheduleWordBoundaryCallbacks();
 
             // Play audio using our node-audio utility with the engine's sample rate
             // Pass the engine name to handle Polly audio differently
-            await playAudioInNode(
-              audioBytes,
-              this.sampleRate,
-              this.constructor.name.replace("TTSClient", "").toLowerCase()
-            );
+            await playAudioInNode(audioBytes, this.sampleRate, this.engineName);
 
             // Emit end event
             this.emit("end");
@@ -613,7 +1016,7 @@ export abstract class AbstractTTSClient {
             this.emit("end");
           }
         } catch (nodeAudioError) {
-          console.error("Error playing audio in Node.js:", nodeAudioError);
+          this._emitError(nodeAudioError, "Error playing audio in Node.js");
           this._fireWordBoundaryCallbacks();
           this.emit("end");
         }
@@ -624,11 +1027,6 @@ export abstract class AbstractTTSClient {
           "Use synthToFile() to save audio to a file and play it with an external player."
         );
 
-        // Create estimated word timings if needed and we have text
-        if (text) {
-          this._createEstimatedWordTimings(text);
-        }
-
         // Fire word boundary callbacks immediately
         setTimeout(() => {
           this._fireWordBoundaryCallbacks();
@@ -636,9 +1034,17 @@ export abstract class AbstractTTSClient {
         }, 100);
       }
     } catch (error) {
-      console.error("Error in streaming synthesis:", error);
+      releaseAbort();
+      if (!options?.signal?.aborted) {
+        this._emitError(error, "Error in streaming synthesis");
+      }
       this.emit("end"); // Ensure end event is triggered even on error
       throw error;
+    } finally {
+      // Browser playback releases the listener once the audio element finishes
+      if (!isBrowser) {
+        releaseAbort();
+      }
     }
   }
 
@@ -694,16 +1100,58 @@ export abstract class AbstractTTSClient {
 
   /**
    * Set the voice to use for synthesis
-   * @param voiceId Voice ID to use
+   * @param voice Voice ID, or reference audio for engines with zero-shot cloning
    * @param lang Language code (optional)
+   * @throws TTSUnsupportedFeatureError for reference audio when the engine cannot use it
    */
-  setVoice(voiceId: string, lang?: string): void {
-    this.voiceId = voiceId;
+  setVoice(voice: VoiceInput, lang?: string): void {
+    if (typeof voice === "string") {
+      this.voiceId = voice;
+      this.voiceReference = null;
+    } else if (this.acceptsVoiceReference) {
+      this.voiceReference = voice;
+    } else {
+      throw this._voiceReferenceUnsupported();
+    }
     if (lang) {
       this.lang = lang;
     }
   }
 
+  /**
+   * Get the voice ID of a request: the voice option, or the voice selected with setVoice()
+   * @param voice Voice option of the request
+   * @returns Voice ID, or null when none is selected
+   * @throws TTSUnsupportedFeatureError when the voice is reference audio
+   */
+  protected resolveVoiceId(voice?: VoiceInput): string | null {
+    const resolved: unknown = voice || (this.voiceReference ?? this.voiceId);
+    if (resolved != null && typeof resolved !== "string") {
+      throw this._voiceReferenceUnsupported();
+    }
+    return resolved || null;
+  }
+
+  /**
+   * Get the reference audio of a request, for engines with zero-shot cloning
+   * @param voice Voice option of the request
+   * @returns Reference audio of the voice option or of setVoice(), or null when a voice ID is used
+   */
+  protected resolveVoiceReference(voice?: VoiceInput): VoiceReference | null {
+    if (voice) {
+      return typeof voice === "string" ? null : voice;
+    }
+    return this.voiceReference;
+  }
+
+  private _voiceReferenceUnsupported(): TTSUnsupportedFeatureError {
+    const provider = this.engineName;
+    return new TTSUnsupportedFeatureError(
+      `Reference audio voices are not supported by ${provider}; use a voice ID`,
+      { provider, feature: "inline-voice-cloning" }
+    );
+  }
+
   // --- Playback control methods ---
 
   /**
@@ -711,10 +1159,19 @@ export abstract class AbstractTTSClient {
    */
   pause(): void {
     if (isBrowser) {
+      if (this.streamPlayback) {
+        if (this.audio.isPlaying && !this.audio.isPaused) {
+          this.streamPlayback.pause();
+          this.audio.isPaused = true;
+          this.emit("pause");
+        }
+        return;
+      }
       // Browser environment - use HTML5 Audio element
       if (this.audio.audioElement && this.audio.isPlaying && !this.audio.isPaused) {
         this.audio.audioElement.pause();
         this.audio.isPaused = true;
+        this.emit("pause");
       }
     } else if (isNode) {
       // Node.js environment - use node-speaker
@@ -725,6 +1182,7 @@ export abstract class AbstractTTSClient {
             const paused = nodeAudio.pauseAudioPlayback();
             if (paused) {
               this.audio.isPaused = true;
+              this.emit("pause");
             }
           })
           .catch((error) => {
@@ -741,10 +1199,19 @@ export abstract class AbstractTTSClient {
    */
   resume(): void {
     if (isBrowser) {
+      if (this.streamPlayback) {
+        if (this.audio.isPlaying && this.audio.isPaused) {
+          this.streamPlayback.resume();
+          this.audio.isPaused = false;
+          this.emit("resume");
+        }
+        return;
+      }
       // Browser environment - use HTML5 Audio element
       if (this.audio.audioElement && this.audio.isPlaying && this.audio.isPaused) {
         this.audio.audioElement.play();
         this.audio.isPaused = false;
+        this.emit("resume");
       }
     } else if (isNode) {
       // Node.js environment - use node-speaker
@@ -755,6 +1222,7 @@ export abstract class AbstractTTSClient {
             const resumed = nodeAudio.resumeAudioPlayback();
             if (resumed) {
               this.audio.isPaused = false;
+              this.emit("resume");
             }
           })
           .catch((error) => {
@@ -770,7 +1238,21 @@ export abstract class AbstractTTSClient {
    * Stop audio playback
    */
   stop(): void {
+    // Cancel word boundary events that have not fired yet
+    for (const timer of this.boundaryTimers) {
+      clearTimeout(timer);
+    }
+    this.boundaryTimers = [];
+    this.emit("stop");
+
     if (isBrowser) {
+      if (this.streamPlayback) {
+        this.streamPlayback.stop();
+        this.streamPlayback = null;
+        this.audio.isPlaying = false;
+        this.audio.isPaused = false;
+        return;
+      }
       // Browser environment - use HTML5 Audio element
       if (this.audio.audioElement) {
         this.audio.audioElement.pause();
@@ -799,6 +1281,129 @@ export abstract class AbstractTTSClient {
     }
   }
 
+  /**
+   * Play a synthesis stream while it is still being received.
+   * Word boundary events are scheduled from the moment the first audio is played. Engines
+   * that stream metadata may add word boundaries and speech marks while the audio is read;
+   * those are scheduled as they arrive.
+   * @param audioStream Audio stream from synthToBytestream
+   * @param text Text being spoken, used to estimate timings when there are no word boundaries
+   * @param wordBoundaries Word boundaries from synthToBytestream
+   * @returns Whether the stream was played, and a stream with the unplayed audio for buffered playback
+   */
+  private async _playStreamProgressively(
+    audioStream: ReadableStream<Uint8Array>,
+    text: string,
+    wordBoundaries: Array<{ text: string; offset: number; duration: number }>
+  ): Promise<{ played: boolean; audioStream: ReadableStream<Uint8Array> }> {
+    // Enough bytes to tell the formats apart and read a WAV header
+    const { head, stream: peeked } = await peekStream(audioStream, 44);
+
+    let startedAt: number | null = null;
+    let estimatedTimers: ReturnType<typeof setTimeout>[] = [];
+    const scheduled = new WeakSet<object>();
+
+    const schedule = (offset: number, emit: () => void, elapsed: number) => {
+      const timer = setTimeout(emit, Math.max(0, offset - elapsed));
+      this.boundaryTimers.push(timer);
+      return timer;
+    };
+
+    // Schedule the word boundaries and speech marks that have not been scheduled yet
+    const scheduleArrived = () => {
+      if (startedAt === null) {
+        return;
+      }
+      const elapsed = Date.now() - startedAt;
+
+      const arrived = wordBoundaries.filter((boundary) => !scheduled.has(boundary));
+      if (arrived.length > 0) {
+        // Real word boundaries replace estimated ones that have not fired yet
+        const replacingEstimates = estimatedTimers.length > 0;
+        for (const timer of estimatedTimers) {
+          clearTimeout(timer);
+        }
+        estimatedTimers = [];
+        this._setTimingsFromWordBoundaries(wordBoundaries);
+        for (const boundary of arrived) {
+          scheduled.add(boundary);
+          if (!replacingEstimates || boundary.offset >= elapsed) {
+            const event = {
+              text: boundary.text,
+              offset: Math.round(boundary.offset),
+              duration: Math.round(boundary.duration),
+            };
+            schedule(boundary.offset, () => this.emit("boundary", event), elapsed);
+          }
+        }
+      }
+
+      for (const { offset, emit, source } of this._getSpeechMarkEvents()) {
+        if (!scheduled.has(source)) {
+          scheduled.add(source);
+          schedule(offset, emit, elapsed);
+        }
+      }
+    };
+
+    const onStart = () => {
+      startedAt = Date.now();
+      if (wordBoundaries.length === 0) {
+        this._createEstimatedWordTimings(text);
+        estimatedTimers = this._getWordBoundariesFromTimings().map((event) =>
+          schedule(event.offset, () => this.emit("boundary", event), 0)
+        );
+      }
+      scheduleArrived();
+    };
+    const stream = peeked.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          controller.enqueue(chunk);
+          scheduleArrived();
+        },
+      })
+    );
+
+    if (isBrowser) {
+      const format = getBrowserStreamFormat(head);
+      if (!format) {
+        return { played: false, audioStream: stream };
+      }
+
+      this.audio.isPlaying = true;
+      this.audio.isPaused = false;
+      try {
+        await playAudioStreamInBrowser(stream, format, {
+          sampleRate: this.sampleRate,
+          onStart,
+          onPlayback: (playback) => {
+            this.streamPlayback = playback;
+          },
+        });
+      } finally {
+        this.streamPlayback = null;
+        this.audio.isPlaying = false;
+        this.audio.isPaused = false;
+      }
+      return { played: true, audioStream: stream };
+    }
+
+    if (isNode) {
+      const { isNodeAudioAvailable, playAudioStreamInNode } = await import(
+        "../utils/node-audio.js"
+      );
+      if (!(await isNodeAudioAvailable())) {
+        return { played: false, audioStream: stream };
+      }
+
+      await playAudioStreamInNode(stream, this.sampleRate, this.engineName, onStart);
+      return { played: true, audioStream: stream };
+    }
+
+    return { played: false, audioStream: stream };
+  }
+
   /**
    * Create estimated word timings for non-streaming engines
    * @param text Text to create timings for
@@ -824,19 +1429,114 @@ export abstract class AbstractTTSClient {
     }
   }
 
+  /**
+   * Set the internal timings from word boundaries
+   * @param wordBoundaries Word boundaries with offsets and durations in milliseconds
+   */
+  protected _setTimingsFromWordBoundaries(
+    wordBoundaries: Array<{ text: string; offset: number; duration: number }>
+  ): void {
+    this.timings = wordBoundaries.map((wb) => [
+      wb.offset / 1000,
+      (wb.offset + wb.duration) / 1000,
+      wb.text,
+    ]);
+  }
+
+  /**
+   * Convert the internal timings (seconds) to word boundaries
+   * @returns Word boundaries with offsets and durations in milliseconds
+   */
+  protected _getWordBoundariesFromTimings(): Array<{
+    text: string;
+    offset: number;
+    duration: number;
+  }> {
+    return this.timings.map(([start, end, word]) => ({
+      text: word,
+      offset: Math.round(start * 1000),
+      duration: Math.round((end - start) * 1000),
+    }));
+  }
+
+  /**
+   * Copy the sample rate, word timings and speech marks of another client, e.g. one this client
+   * delegated a request to, so playback and boundary events on this client match its audio
+   * @param source Client that produced the audio
+   */
+  protected copyPlaybackState(source: AbstractTTSClient): void {
+    this.sampleRate = source.sampleRate;
+    this.timings = [...source.timings];
+    this.speechMarks = copySpeechMarks(source.speechMarks);
+  }
+
+  /**
+   * Check whether another client, e.g. one this client delegates requests to, clones voices
+   * from reference audio
+   * @param client Client to check
+   * @returns True if the client accepts reference audio in place of a voice ID
+   */
+  protected clientAcceptsVoiceReference(client: AbstractTTSClient): boolean {
+    return client.acceptsVoiceReference;
+  }
+
+  /**
+   * Approximate visemes for engines that do not report them
+   * @param text Text being spoken, used to estimate word timings when there are no word boundaries
+   * @param wordBoundaries Word boundaries of the audio, in milliseconds
+   * @param options Synthesis options of the request
+   * @returns Estimated visemes of the common set
+   */
+  protected async _estimateVisemes(
+    text: string,
+    wordBoundaries: Array<{ text: string; offset: number; duration: number }>,
+    options?: SpeakOptions
+  ): Promise<Viseme[]> {
+    let boundaries = wordBoundaries;
+    if (boundaries.length === 0) {
+      // Same timings as playback uses when there are no word boundaries
+      this.timings = [];
+      this._createEstimatedWordTimings(text);
+      boundaries = this._getWordBoundariesFromTimings();
+    }
+
+    let phonemes: string[][] | null = null;
+    try {
+      phonemes = await this._getPhonemes(
+        boundaries.map((boundary) => boundary.text),
+        options
+      );
+    } catch (error) {
+      console.warn("Could not transcribe text, estimating visemes from spelling:", error);
+    }
+    return estimateVisemes(boundaries, phonemes ?? undefined);
+  }
+
+  /**
+   * Transcribe words to IPA phonemes for viseme estimates. Engines that can transcribe text
+   * override this; without phonemes, visemes are guessed from the spelling of each word.
+   * @param _words Words being spoken
+   * @param _options Synthesis options of the request
+   * @returns Phonemes of each word in order, or null when the engine cannot transcribe text
+   */
+  protected async _getPhonemes(
+    _words: string[],
+    _options?: SpeakOptions
+  ): Promise<string[][] | null> {
+    return null;
+  }
+
   /**
    * Fire word boundary callbacks based on timing data
    */
   protected _fireWordBoundaryCallbacks(): void {
-    if (!this.timings.length) return;
-
     // Fire boundary events for each word using the new event emitter system
-    for (const [start, end, word] of this.timings) {
-      this.emit("boundary", {
-        text: word,
-        offset: Math.round(start * 10000), // Convert to 100-nanosecond units
-        duration: Math.round((end - start) * 10000),
-      });
+    for (const event of this._getWordBoundariesFromTimings()) {
+      this.emit("boundary", event);
+    }
+
+    for (const event of this._getSpeechMarkEvents()) {
+      event.emit();
     }
   }
 
@@ -845,20 +1545,66 @@ export abstract class AbstractTTSClient {
    * This is used when we have audio playback but need to schedule callbacks
    */
   protected _scheduleWordBoundaryCallbacks(): void {
-    if (!this.timings.length) return;
-
     // Schedule boundary events for each word using the new event emitter system
-    for (const [start, end, word] of this.timings) {
-      const event = {
-        text: word,
-        offset: Math.round(start * 10000), // Convert to 100-nanosecond units
-        duration: Math.round((end - start) * 10000),
-      };
+    for (const event of this._getWordBoundariesFromTimings()) {
+      this.boundaryTimers.push(
+        setTimeout(() => {
+          this.emit("boundary", event);
+        }, event.offset)
+      );
+    }
 
-      setTimeout(() => {
-        this.emit("boundary", event);
-      }, start * 1000);
+    for (const { offset, emit } of this._getSpeechMarkEvents()) {
+      this.boundaryTimers.push(setTimeout(emit, offset));
+    }
+  }
+
+  /**
+   * Sentence, SSML mark and viseme events of the current audio, in time order
+   * @returns Offsets in milliseconds with the functions that emit the events and the reported marks
+   */
+  private _getSpeechMarkEvents(): Array<{ offset: number; emit: () => void; source: object }> {
+    const { sentences = [], marks = [], visemes = [] } = this.speechMarks;
+    return [
+      ...sentences.map((event) => ({
+        offset: event.offset,
+        emit: () => this.emit("sentence", event),
+        source: event,
+      })),
+      ...marks.map((event) => ({
+        offset: event.offset,
+        emit: () => this.emit("mark", event),
+        source: event,
+      })),
+      ...visemes.map((event) => ({
+        offset: event.offset,
+        emit: () => this.emit("viseme", event),
+        source: event,
+      })),
+    ].sort((a, b) => a.offset - b.offset);
+  }
+
+  /**
+   * Stop playback when the given signal aborts
+   * @param signal Optional AbortSignal from the speak options
+   * @returns Function that detaches the abort listener
+   */
+  protected _stopPlaybackOnAbort(signal?: AbortSignal): () => void {
+    if (!signal) {
+      return () => {};
     }
+
+    const onAbort = () => {
+      // Browser audio elements do not fire "ended" when stopped, so emit it here
+      const wasPlayingInBrowser = isBrowser && this.audio.isPlaying;
+      this.stop();
+      if (wasPlayingInBrowser) {
+        this.emit("end");
+      }
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    return () => signal.removeEventListener("abort", onAbort);
   }
 
   /**
@@ -904,26 +1650,117 @@ export abstract class AbstractTTSClient {
   // --- Event system ---
 
   /**
-   * Register a callback for an event
+   * Register a listener for an event
    * @param event Event type
-   * @param fn Callback function
+   * @param fn Listener
    */
-  on(event: TTSEventType, fn: (...args: any[]) => void): void {
-    this.callbacks[event] = this.callbacks[event] || [];
-    this.callbacks[event].push(fn);
+  on<E extends TTSEventType>(event: E, fn: TTSEventListener<E>): void {
+    const listeners: TTSEventListener<E>[] = this.callbacks[event] || [];
+    listeners.push(fn);
+    this.callbacks[event] = listeners as (typeof this.callbacks)[E];
   }
 
   /**
-   * Emit an event to all registered callbacks
+   * Register a listener that is removed after it is called once
    * @param event Event type
-   * @param args Event arguments
+   * @param fn Listener
    */
-  protected emit(event: string, ...args: any[]): void {
-    for (const fn of this.callbacks[event] || []) {
+  once<E extends TTSEventType>(event: E, fn: TTSEventListener<E>): void {
+    const wrapper: OnceListener<E> = (...args) => {
+      this.off(event, wrapper);
       fn(...args);
+    };
+    wrapper.listener = fn;
+    this.on(event, wrapper);
+  }
+
+  /**
+   * Remove a listener registered with on() or once()
+   * @param event Event type
+   * @param fn Listener to remove; when omitted, all listeners for the event are removed
+   */
+  off<E extends TTSEventType>(event: E, fn?: TTSEventListener<E>): void {
+    const listeners: TTSEventListener<E>[] | undefined = this.callbacks[event];
+    if (!listeners) {
+      return;
+    }
+    if (!fn) {
+      delete this.callbacks[event];
+      return;
+    }
+    // Remove the most recently added registration, like Node's EventEmitter
+    for (let i = listeners.length - 1; i >= 0; i--) {
+      const listener = listeners[i] as OnceListener<E>;
+      if (listener === fn || listener.listener === fn) {
+        listeners.splice(i, 1);
+        break;
+      }
     }
   }
 
+  /**
+   * Emit an event to all registered listeners
+   * @param event Event type
+   * @param args Event payload
+   */
+  protected emit<E extends TTSEventType>(event: E, ...args: TTSEventMap[E]): void {
+    const listeners: TTSEventListener<E>[] = this.callbacks[event] || [];
+    // Copy, as once() listeners remove themselves while the event is dispatched
+    for (const fn of [...listeners]) {
+      fn(...args);
+    }
+  }
+
+  /**
+   * Report an error through the "error" event, or log it when nobody is listening
+   * @param error Error to report
+   * @param context Message logged with the error when there are no listeners
+   */
+  protected _emitError(error: unknown, context: string): void {
+    if (this.callbacks.error?.length) {
+      this.emit("error", error instanceof Error ? error : new Error(String(error)));
+    } else {
+      console.error(`${context}:`, error);
+    }
+  }
+
+  /**
+   * Emit firstByte, chunk and progress events while an audio stream is read
+   * @param stream Audio stream
+   * @param startedAt Time the synthesis request was started (Date.now())
+   * @returns Stream that emits the events as it is read
+   */
+  protected _monitorAudioStream(
+    stream: ReadableStream<Uint8Array>,
+    startedAt: number
+  ): ReadableStream<Uint8Array> {
+    let bytesReceived = 0;
+    return stream.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform: (chunk, controller) => {
+          this._emitAudioReceived(chunk, bytesReceived, startedAt);
+          bytesReceived += chunk.length;
+          controller.enqueue(chunk);
+        },
+      })
+    );
+  }
+
+  /**
+   * Emit the events for a piece of received audio
+   * @param chunk Audio bytes
+   * @param bytesBefore Bytes received before this chunk
+   * @param startedAt Time the synthesis request was started (Date.now())
+   */
+  private _emitAudioReceived(chunk: Uint8Array, bytesBefore: number, startedAt: number): void {
+    const elapsedMs = Date.now() - startedAt;
+    if (bytesBefore === 0) {
+      this.emit("firstByte", { latencyMs: elapsedMs });
+    }
+    this.emit("chunk", chunk);
+    this.emit("progress", { bytesReceived: bytesBefore + chunk.length, elapsedMs });
+  }
+
   /**
    * Start playback with word boundary callbacks
    * @param text Text or SSML to speak
@@ -939,10 +1776,40 @@ export abstract class AbstractTTSClient {
     await this.speak(text, options);
 
     // Use the timings to schedule callbacks
-    for (const [start, end, word] of this.timings) {
+    for (const { text: word, offset, duration } of this._getWordBoundariesFromTimings()) {
       setTimeout(() => {
-        callback(word, start, end);
-      }, start * 1000);
+        callback(word, offset, offset + duration);
+      }, offset);
+    }
+  }
+
+  /**
+   * Play text with speakStreamed(), passing its boundary events to a word boundary callback.
+   * The listener is removed once playback ends or is stopped, so repeated calls don't pile up
+   * callbacks.
+   * @param text Text to speak
+   * @param callback Callback function for word boundaries
+   * @param options Synthesis options
+   */
+  protected async _speakStreamedWithCallbacks(
+    text: string,
+    callback: WordBoundaryCallback,
+    options?: SpeakOptions
+  ): Promise<void> {
+    const onBoundary = (wb: WordBoundary) => callback(wb.text, wb.offset, wb.offset + wb.duration);
+    const release = () => {
+      this.off("boundary", onBoundary);
+      this.off("end", release);
+      this.off("stop", release);
+    };
+    this.on("boundary", onBoundary);
+    this.on("end", release);
+    this.on("stop", release);
+    try {
+      await this.speakStreamed(text, options);
+    } catch (error) {
+      release();
+      throw error;
     }
   }
 
@@ -970,11 +1837,373 @@ export abstract class AbstractTTSClient {
 
   /**
    * Set a property value
-   * @param propertyName Property name
+   * @param propertyName Property name ("retry" updates the retry policy)
    * @param value Property value
    */
-  setProperty(propertyName: string, value: PropertyType): void {
-    this.properties[propertyName] = value;
+  setProperty(propertyName: string, value: PropertyType | RetryOptions): void {
+    if (propertyName === "retry") {
+      this.retryPolicy = resolveRetryPolicy(value as RetryOptions, this.retryPolicy);
+      return;
+    }
+    this.properties[propertyName] = value as PropertyType;
+  }
+
+  /**
+   * Get the retry policy applied to provider HTTP requests
+   * @returns Current retry policy
+   */
+  getRetryPolicy(): RetryPolicy {
+    return { ...this.retryPolicy, retryOn: [...this.retryPolicy.retryOn] };
+  }
+
+  /**
+   * Enable or disable caching of synthesis results.
+   * While a cache is set, synthToBytes() and synthToBytestream() return the cached audio and
+   * word boundaries for requests with the same engine, voice, model, options and text.
+   * @param cache Synthesis cache, or null to disable caching
+   */
+  setCache(cache: SynthesisCache | null): void {
+    this.cache = cache;
+  }
+
+  /**
+   * Get the synthesis cache
+   * @returns Cache, or null when caching is disabled
+   */
+  getCache(): SynthesisCache | null {
+    return this.cache;
+  }
+
+  /**
+   * Set the pronunciation lexicon applied before synthesis.
+   * Engines that host lexicons (Polly, and Azure for lexicons with a URI) use it natively;
+   * for the others, matching words are rewritten as `<phoneme>` or `<sub>` elements, or
+   * respelled as their alias when the engine reads neither.
+   * @param lexicon Lexicon, or null to stop applying one
+   */
+  setLexicon(lexicon: Lexicon | null): void {
+    this.lexicon = lexicon;
+  }
+
+  /**
+   * Get the pronunciation lexicon
+   * @returns Lexicon, or null when none is set
+   */
+  getLexicon(): Lexicon | null {
+    return this.lexicon;
+  }
+
+  /**
+   * Make a lexicon available to the engine itself, e.g. by uploading it.
+   * Engines with native lexicon support override this; the default rewrites the text instead.
+   * @param _lexicon Lexicon to use
+   * @returns True when the engine applies the lexicon, so the text is sent unchanged
+   */
+  protected async _prepareNativeLexicon(_lexicon: Lexicon): Promise<boolean> {
+    return false;
+  }
+
+  /**
+   * Apply the lexicon to the text of a request, using the tags the engine supports
+   * @param text Text or SSML to synthesize
+   * @param options Synthesis options
+   * @returns Text to send to the engine
+   */
+  private async _applyLexicon(text: string, options?: SpeakOptions): Promise<string> {
+    const lexicon = this.lexicon;
+    if (!lexicon || options?.rawSSML || (await this._prepareNativeLexicon(lexicon))) {
+      return text;
+    }
+
+    const { supportsSSML, unsupportedTags } = SSMLCompatibilityManager.getCapabilities(
+      this.engineName,
+      this.resolveVoiceId(options?.voice) ?? undefined
+    );
+    // Speech Markdown is converted by the engine, so only respellings can be added to it
+    const markdown = this.normalizeSpeechMarkdownOptions(text, options)?.useSpeechMarkdown;
+    const supports = (tag: string) =>
+      supportsSSML && !markdown && !unsupportedTags.includes("*") && !unsupportedTags.includes(tag);
+    return applyLexicon(text, lexicon, { phoneme: supports("phoneme"), sub: supports("sub") });
+  }
+
+  /**
+   * Warn once per class when a subclass still overrides synthToBytes() or synthToBytestream().
+   * Such overrides keep working, but skip the lexicon, cache and SSML emulation steps; engines
+   * implement _synthToBytes() and _synthToBytestream() instead.
+   */
+  private _warnAboutLegacySynthesisOverrides(): void {
+    const clientClass = this.constructor;
+    if (legacySynthesisWarnings.has(clientClass)) return;
+
+    const overridden = (["synthToBytes", "synthToBytestream"] as const).filter(
+      (method) => this[method] !== AbstractTTSClient.prototype[method]
+    );
+    if (overridden.length > 0) {
+      legacySynthesisWarnings.add(clientClass);
+      console.warn(
+        `${clientClass.name} overrides ${overridden.join(" and ")}(), which skips lexicons, ` +
+          "caching and SSML emulation. Implement _synthToBytes() and _synthToBytestream() instead."
+      );
+    }
+  }
+
+  /**
+   * Synthesize audio bytes with the engine, emulating SSML in audio mode when it is requested
+   * for an engine without SSML support: breaks become spliced silence and `<prosody rate>` is
+   * applied by time-stretching
+   * @param text Text or SSML to synthesize
+   * @param options Synthesis options
+   * @returns Audio bytes
+   */
+  private async _synthToBytesWithEmulation(
+    text: string,
+    options?: SpeakOptions
+  ): Promise<Uint8Array> {
+    const segments = this._getEmulatedSSMLSegments(text, options);
+    if (!segments) {
+      return this._synthToBytes(text, options);
+    }
+    const result = await this._synthesizeEmulatedSSML(segments, options, async (ssml, opts) => ({
+      audioBytes: await this._synthToBytes(ssml, opts),
+      wordBoundaries: [],
+    }));
+    return result.audioBytes;
+  }
+
+  /**
+   * Synthesize a byte stream with the engine, emulating SSML in audio mode when requested
+   * @param text Text or SSML to synthesize
+   * @param options Synthesis options
+   * @returns Audio stream, word boundaries and any speech marks
+   */
+  private async _synthToBytestreamWithEmulation(
+    text: string,
+    options?: SpeakOptions
+  ): Promise<BytestreamResult> {
+    const segments = this._getEmulatedSSMLSegments(text, options);
+    if (!segments) {
+      return this._synthToBytestream(text, options);
+    }
+    const { audioBytes, wordBoundaries } = await this._synthesizeEmulatedSSML(
+      segments,
+      options,
+      async (ssml, opts) => {
+        const result = await this._synthToBytestream(ssml, opts);
+        const bytes = await streamToBytes(result.audioStream);
+        // Some engines fill in word boundaries while the stream is read
+        return { audioBytes: bytes, wordBoundaries: [...result.wordBoundaries] };
+      }
+    );
+    return {
+      audioStream: new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(audioBytes);
+          controller.close();
+        },
+      }),
+      wordBoundaries,
+    };
+  }
+
+  /**
+   * Split a request into segments for audio-mode SSML emulation
+   * @param text Text or SSML to synthesize
+   * @param options Synthesis options
+   * @returns Segments, or null when the request is synthesized as is
+   */
+  private _getEmulatedSSMLSegments(
+    text: string,
+    options?: SpeakOptions
+  ): EmulatedSSMLSegment[] | null {
+    const engine = this.engineName;
+    if (
+      options?.ssmlEmulation !== "audio" ||
+      ENGINE_SSML_CAPABILITIES[engine]?.supportsSSML !== false ||
+      !this._isSSML(text)
+    ) {
+      return null;
+    }
+    return splitSSMLForAudioEmulation(text);
+  }
+
+  /**
+   * Synthesize the speech segments of an SSML document one by one, time-stretch them to their
+   * rate and join them with silence for the pauses
+   * @param segments Speech and pause segments
+   * @param options Synthesis options
+   * @param synthesize Synthesizes one speech segment with the engine
+   * @returns Joined audio and word boundaries
+   */
+  private async _synthesizeEmulatedSSML(
+    segments: EmulatedSSMLSegment[],
+    options: SpeakOptions | undefined,
+    synthesize: (
+      ssml: string,
+      options: SpeakOptions
+    ) => Promise<{ audioBytes: Uint8Array; wordBoundaries: WordBoundary[] }>
+  ): Promise<{ audioBytes: Uint8Array; wordBoundaries: WordBoundary[] }> {
+    const engine = this.engineName;
+    const { ssmlEmulation: _ssmlEmulation, ...segmentOptions } = options ?? {};
+
+    const speech: Array<{ audioBytes: Uint8Array; wordBoundaries: WordBoundary[] } | null> = [];
+    for (const segment of segments) {
+      if (segment.type === "pause") {
+        speech.push(null);
+        continue;
+      }
+      throwIfAborted(options?.signal);
+      const result = await synthesize(segment.ssml, segmentOptions);
+      if (segment.rate !== 1) {
+        try {
+          result.audioBytes = timeStretch(result.audioBytes, segment.rate, this.sampleRate);
+          result.wordBoundaries = result.wordBoundaries.map((wb) => ({
+            ...wb,
+            offset: Math.round(wb.offset / segment.rate),
+            duration: Math.round(wb.duration / segment.rate),
+          }));
+        } catch (error) {
+          console.warn(
+            `Could not apply prosody rate ${segment.rate}: ${error instanceof Error ? error.message : error}`
+          );
+        }
+      }
+      speech.push(result);
+    }
+
+    const template = speech.find((result) => result && result.audioBytes.length > 0);
+    const parts: Uint8Array[] = [];
+    const wordBoundaries: WordBoundary[] = [];
+    let start = 0; // seconds
+
+    try {
+      segments.forEach((segment, index) => {
+        const result = speech[index];
+        if (segment.type === "pause" || !result) {
+          if (template && segment.type === "pause") {
+            parts.push(
+              createSilence(template.audioBytes, segment.duration / 1000, this.sampleRate)
+            );
+            start += segment.duration / 1000;
+          }
+          return;
+        }
+        for (const wb of result.wordBoundaries) {
+          wordBoundaries.push({ ...wb, offset: wb.offset + Math.round(start * 1000) });
+        }
+        const last = result.wordBoundaries[result.wordBoundaries.length - 1];
+        start +=
+          getAudioDuration(result.audioBytes, this.sampleRate) ??
+          (last ? (last.offset + last.duration) / 1000 : 0);
+        parts.push(result.audioBytes);
+      });
+      return { audioBytes: concatAudio(parts), wordBoundaries };
+    } catch (error) {
+      throw new TTSUnsupportedFeatureError(error instanceof Error ? error.message : String(error), {
+        provider: engine,
+        feature: "ssml-emulation",
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Compute the cache key of a synthesis request
+   * @param output Kind of result being cached ("bytes" results carry no word boundaries)
+   * @param text Text or SSML to synthesize
+   * @param options Synthesis options
+   * @returns Cache key
+   */
+  private _getCacheKey(
+    output: "bytes" | "stream",
+    text: string,
+    options?: SpeakOptions
+  ): Promise<string> {
+    const { signal: _signal, outputPath: _outputPath, ...synthesisOptions } = options ?? {};
+    return createCacheKey({
+      engine: this.engineName,
+      voice: options?.voice ?? this.voiceReference ?? this.voiceId,
+      model: (options as { model?: string } | undefined)?.model ?? this._getCurrentModelId(),
+      options: {
+        ...synthesisOptions,
+        output,
+        lang: this.lang,
+        properties: this.properties,
+        lexicon: this.lexicon?.toPLS(),
+      },
+      text,
+    });
+  }
+
+  /**
+   * Perform an HTTP request, retrying transient failures according to the retry policy.
+   * Failed responses that are not retried (or that exhaust the attempts) are returned
+   * unchanged so engines keep their own error handling.
+   * @param url Request URL
+   * @param options Fetch options
+   * @returns Final response
+   */
+  protected async fetchWithRetry(url: string, options: FetchOptions = {}): Promise<FetchResponse> {
+    const provider = this.engineName;
+    const { maxAttempts } = this.retryPolicy;
+
+    for (let attempt = 1; ; attempt++) {
+      let response: FetchResponse;
+      try {
+        response = await getFetch()(url, options);
+      } catch (error) {
+        const ttsError = toTTSError(error, { provider });
+        if (attempt >= maxAttempts || !isRetryableError(ttsError, this.retryPolicy)) {
+          throw ttsError;
+        }
+        await sleep(computeRetryDelay(attempt, this.retryPolicy), options.signal);
+        continue;
+      }
+
+      if (response.ok || attempt >= maxAttempts) {
+        return response;
+      }
+
+      // Classify a copy of the response so the original body stays readable by the engine
+      const responseBody =
+        typeof (response as Partial<Response>).clone === "function"
+          ? await (response as unknown as Response)
+              .clone()
+              .text()
+              .catch(() => "")
+          : "";
+      const error = createHttpError(
+        `${provider} request failed: ${response.status}`,
+        { provider, statusCode: response.status, responseBody },
+        response.headers
+      );
+      if (!isRetryableError(error, this.retryPolicy)) {
+        return response;
+      }
+
+      // Providers send Retry-After with 429 and 503 responses
+      const retryAfterMs =
+        response.status === 429 || response.status === 503
+          ? parseRetryAfter(response.headers?.get?.("retry-after"))
+          : undefined;
+      // Release the connection of the discarded response before trying again
+      response.body?.cancel().catch(() => {});
+      await sleep(computeRetryDelay(attempt, this.retryPolicy, retryAfterMs), options.signal);
+    }
+  }
+
+  /**
+   * Perform an HTTP request that must not be sent twice, such as a POST that creates a voice.
+   * Network errors are converted to typed TTS errors, but nothing is retried.
+   * @param url Request URL
+   * @param options Fetch options
+   * @returns Response
+   */
+  protected async fetchOnce(url: string, options: FetchOptions = {}): Promise<FetchResponse> {
+    try {
+      return await getFetch()(url, options);
+    } catch (error) {
+      throw toTTSError(error, { provider: this.engineName });
+    }
   }
 
   /**
@@ -1053,7 +2282,7 @@ export abstract class AbstractTTSClient {
     error?: string;
   }> {
     const isBrowser = typeof window !== "undefined";
-    const engineName = this.constructor.name.replace("TTSClient", "").toLowerCase();
+    const engineName = this.engineName;
 
     try {
       const isValid = await this.checkCredentials();
@@ -1104,8 +2333,15 @@ export abstract class AbstractTTSClient {
     return this._models;
   }
 
+  /**
+   * Check whether a model supports a feature
+   * @param feature Feature to check
+   * @param modelId Model to check; defaults to the current model, or the first model of engines
+   *                that have no model selection
+   * @returns Whether the model supports the feature
+   */
   hasFeature(feature: ModelFeature, modelId?: string): boolean {
-    const target = modelId || this._getCurrentModelId();
+    const target = modelId || this._getCurrentModelId() || this._models[0]?.id;
     if (!target) return false;
     const model = this._models.find((m) => m.id === target);
     if (!model) return false;
@@ -1153,4 +2389,38 @@ export abstract class AbstractTTSClient {
     const voices = await this.getVoices();
     return filterByGender(voices, gender);
   }
+
+  /**
+   * Create a voice from recordings of a speaker, stored in the provider account.
+   * Engines that support voice cloning override this; the default throws.
+   * @param _options Name, samples, description and language of the voice
+   * @returns Promise resolving to the new voice; pass its id to setVoice()
+   */
+  async createClonedVoice(_options: CloneVoiceOptions): Promise<UnifiedVoice> {
+    throw this._voiceCloningUnsupported();
+  }
+
+  /**
+   * Get the cloned voices stored in the provider account
+   * @returns Promise resolving to the cloned voices
+   */
+  async listClonedVoices(): Promise<UnifiedVoice[]> {
+    throw this._voiceCloningUnsupported();
+  }
+
+  /**
+   * Delete a cloned voice from the provider account
+   * @param _voiceId ID of the cloned voice
+   */
+  async deleteClonedVoice(_voiceId: string): Promise<void> {
+    throw this._voiceCloningUnsupported();
+  }
+
+  private _voiceCloningUnsupported(): TTSUnsupportedFeatureError {
+    const provider = this.engineName;
+    return new TTSUnsupportedFeatureError(`Voice cloning is not supported by ${provider}`, {
+      provider,
+      feature: "voice-cloning",
+    });
+  }
 }
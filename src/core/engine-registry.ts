@@ -0,0 +1,202 @@
+/**
+ * Engine registry used by createTTSClient and createBrowserTTSClient
+ *
+ * Built-in engines register themselves when their module is loaded; third-party packages
+ * call registerEngine() to make their own engines available through the factories.
+ */
+
+import type { PropertyType, TTSCredentials } from "../types";
+import type { AbstractTTSClient } from "./abstract-tts";
+
+/**
+ * Credential fields an engine understands, for UIs and configuration validation
+ */
+export interface EngineCredentialsSchema {
+  /**
+   * Credential keys the engine needs to work
+   */
+  required: string[];
+
+  /**
+   * Groups of alternative credential keys: the engine needs one key of each group
+   */
+  oneOf?: string[][];
+
+  /**
+   * Credential keys the engine accepts but does not need
+   */
+  optional?: string[];
+}
+
+/**
+ * Environment a client is created for
+ */
+export interface EngineCreateOptions {
+  /**
+   * Whether the client is created through createBrowserTTSClient
+   */
+  browser?: boolean;
+}
+
+/**
+ * Environments an engine can run in
+ */
+export interface EngineCapabilities {
+  browserSupported: boolean;
+  nodeSupported: boolean;
+  needsWasm?: boolean;
+}
+
+/**
+ * Registration entry for an engine
+ */
+export interface EngineRegistration<C extends TTSCredentials = TTSCredentials> {
+  /**
+   * Create a client from credentials. Engines that create other engines (failover) should
+   * pass the options on to createRegisteredClient.
+   */
+  create: (credentials: C, options: EngineCreateOptions) => AbstractTTSClient;
+
+  /**
+   * Credential fields the engine understands
+   */
+  credentialsSchema?: EngineCredentialsSchema;
+
+  /**
+   * Environments the engine can run in
+   */
+  capabilities?: EngineCapabilities;
+
+  /**
+   * Whether the engine is available through createBrowserTTSClient
+   */
+  browser?: boolean;
+}
+
+/**
+ * Registered engine, as returned by getRegisteredEngines
+ */
+export interface RegisteredEngine extends EngineRegistration {
+  name: string;
+}
+
+const engines = new Map<string, EngineRegistration>();
+
+/**
+ * Register an engine so the factories can create it by name.
+ * Registering an existing name replaces the previous registration.
+ * @param name Engine name used with createTTSClient
+ * @param registration Engine factory and metadata
+ */
+export function registerEngine<C extends TTSCredentials = TTSCredentials>(
+  name: string,
+  registration: EngineRegistration<C>
+): void {
+  if (!name) {
+    throw new Error("Engine name must be a non-empty string");
+  }
+  if (typeof registration?.create !== "function") {
+    throw new Error(`Engine '${name}' must provide a create function`);
+  }
+  engines.set(name, registration as unknown as EngineRegistration);
+}
+
+/**
+ * Remove an engine from the registry
+ * @param name Engine name
+ * @returns True if the engine was registered
+ */
+export function unregisterEngine(name: string): boolean {
+  return engines.delete(name);
+}
+
+/**
+ * Get the registration of an engine
+ * @param name Engine name
+ * @returns Registration, or undefined when the engine is not registered
+ */
+export function getEngineRegistration(name: string): EngineRegistration | undefined {
+  return engines.get(name);
+}
+
+/**
+ * Check whether an engine is registered
+ * @param name Engine name
+ * @param options Set browser to only accept engines available in the browser factory
+ * @returns True if the engine can be created
+ */
+export function isEngineRegistered(name: string, options: EngineCreateOptions = {}): boolean {
+  const registration = engines.get(name);
+  return !!registration && (!options.browser || !!registration.browser);
+}
+
+/**
+ * List registered engines
+ * @param options Set browser to only list engines available in the browser factory
+ * @returns Registered engines in registration order
+ */
+export function getRegisteredEngines(options: EngineCreateOptions = {}): RegisteredEngine[] {
+  return Array.from(engines, ([name, registration]) => ({ name, ...registration })).filter(
+    (engine) => !options.browser || engine.browser
+  );
+}
+
+/**
+ * Apply `properties` / `propertiesJson` from the credentials to a new client
+ * @param client Client created by the registry
+ * @param credentials Credentials passed to the factory
+ */
+function applyCredentialProperties(client: AbstractTTSClient, credentials?: TTSCredentials): void {
+  if (!credentials || typeof client?.setProperty !== "function") {
+    return;
+  }
+
+  const fields: Record<string, unknown> = credentials;
+  const rawProps = fields.properties ?? fields.propertiesJson ?? fields.propertiesJSON;
+
+  let parsedProps: Record<string, unknown> | null = null;
+  if (typeof rawProps === "string") {
+    try {
+      parsedProps = JSON.parse(rawProps);
+    } catch (error) {
+      console.warn("Failed to parse properties JSON passed to factory:", error);
+    }
+  } else if (rawProps && typeof rawProps === "object") {
+    parsedProps = rawProps as Record<string, unknown>;
+  }
+
+  if (parsedProps) {
+    for (const [key, value] of Object.entries(parsedProps)) {
+      try {
+        client.setProperty(key, value as PropertyType);
+      } catch (error) {
+        console.warn(`Failed to apply property '${key}' in factory:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Create a client for a registered engine and apply the properties from its credentials
+ * @param name Engine name
+ * @param credentials Engine credentials
+ * @param options Set browser to reject engines that are not available in the browser factory
+ * @returns New client
+ */
+export function createRegisteredClient(
+  name: string,
+  credentials?: TTSCredentials,
+  options: EngineCreateOptions = {}
+): AbstractTTSClient {
+  const registration = engines.get(name);
+  if (!registration || (options.browser && !registration.browser)) {
+    throw new Error(`Engine '${name}' is not supported in the factory.`);
+  }
+
+  const client = registration.create((credentials ?? {}) as TTSCredentials, options);
+  if (!client.engineName) {
+    client.engineName = name;
+  }
+  applyCredentialProperties(client, credentials);
+  return client;
+}
@@ -0,0 +1,373 @@
+/**
+ * Typed errors raised by TTS engines
+ *
+ * Every error carries the provider, HTTP status, model and voice that were involved,
+ * so callers (retry, failover, UIs) can branch on the error class and `isRetryable`
+ * instead of parsing provider-specific message strings.
+ */
+
+/**
+ * Maximum number of characters of a provider response kept on an error
+ */
+const MAX_RESPONSE_BODY_LENGTH = 500;
+
+/**
+ * Context describing where an error happened
+ */
+export interface TTSErrorContext {
+  /**
+   * Engine that raised the error (e.g. "elevenlabs", "openai")
+   */
+  provider?: string;
+
+  /**
+   * HTTP status code returned by the provider, if any
+   */
+  statusCode?: number;
+
+  /**
+   * Model used for the request
+   */
+  model?: string | null;
+
+  /**
+   * Voice used for the request
+   */
+  voiceId?: string | null;
+
+  /**
+   * Raw response body returned by the provider (truncated when stored)
+   */
+  responseBody?: string;
+
+  /**
+   * Underlying error
+   */
+  cause?: unknown;
+}
+
+/**
+ * Options accepted by the TTSError constructor
+ */
+export interface TTSErrorOptions extends TTSErrorContext {
+  /**
+   * Whether repeating the same request may succeed
+   */
+  isRetryable?: boolean;
+}
+
+/**
+ * Truncate a provider response body so errors stay small enough to log
+ * @param body Response body
+ * @returns Truncated body, or undefined when empty
+ */
+function truncateResponseBody(body?: string): string | undefined {
+  if (!body) {
+    return undefined;
+  }
+  if (body.length <= MAX_RESPONSE_BODY_LENGTH) {
+    return body;
+  }
+  return `${body.slice(0, MAX_RESPONSE_BODY_LENGTH)}...`;
+}
+
+/**
+ * Base class for all errors raised by TTS engines
+ */
+export class TTSError extends Error {
+  /**
+   * Engine that raised the error
+   */
+  readonly provider?: string;
+
+  /**
+   * HTTP status code returned by the provider
+   */
+  readonly statusCode?: number;
+
+  /**
+   * Model used for the request
+   */
+  readonly model?: string;
+
+  /**
+   * Voice used for the request
+   */
+  readonly voiceId?: string;
+
+  /**
+   * Provider response body, truncated
+   */
+  readonly responseBody?: string;
+
+  /**
+   * Whether repeating the same request may succeed
+   */
+  readonly isRetryable: boolean;
+
+  /**
+   * Underlying error
+   */
+  readonly cause?: unknown;
+
+  constructor(message: string, options: TTSErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.provider = options.provider;
+    this.statusCode = options.statusCode;
+    this.model = options.model ?? undefined;
+    this.voiceId = options.voiceId ?? undefined;
+    this.responseBody = truncateResponseBody(options.responseBody);
+    this.isRetryable = options.isRetryable ?? false;
+    this.cause = options.cause;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Credentials are missing, invalid or lack permission (HTTP 401/403)
+ */
+export class TTSAuthError extends TTSError {
+  constructor(message: string, options: TTSErrorOptions = {}) {
+    super(message, { isRetryable: false, ...options });
+  }
+}
+
+/**
+ * The provider is throttling requests (HTTP 429)
+ */
+export class TTSRateLimitError extends TTSError {
+  /**
+   * Delay requested by the provider through the Retry-After header, in milliseconds
+   */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: TTSErrorOptions & { retryAfterMs?: number } = {}) {
+    super(message, { isRetryable: true, ...options });
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * The account has run out of credits, characters or quota (HTTP 402 or quota responses)
+ */
+export class TTSQuotaError extends TTSError {
+  constructor(message: string, options: TTSErrorOptions = {}) {
+    super(message, { isRetryable: false, ...options });
+  }
+}
+
+/**
+ * The requested voice does not exist or cannot be used with the requested model
+ */
+export class TTSInvalidVoiceError extends TTSError {
+  constructor(message: string, options: TTSErrorOptions = {}) {
+    super(message, { isRetryable: false, ...options });
+  }
+}
+
+/**
+ * The provider could not be reached or failed on its side (network failure, timeout, HTTP 5xx)
+ */
+export class TTSNetworkError extends TTSError {
+  constructor(message: string, options: TTSErrorOptions = {}) {
+    super(message, { isRetryable: true, ...options });
+  }
+}
+
+/**
+ * The engine does not support the requested feature
+ */
+export class TTSUnsupportedFeatureError extends TTSError {
+  /**
+   * Name of the unsupported feature
+   */
+  readonly feature?: string;
+
+  constructor(message: string, options: TTSErrorOptions & { feature?: string } = {}) {
+    super(message, { isRetryable: false, ...options });
+    this.feature = options.feature;
+  }
+}
+
+/**
+ * SSML input is not well-formed
+ */
+export class SSMLParseError extends TTSError {
+  /**
+   * Character offset in the input where the problem was found
+   */
+  readonly position: number;
+
+  constructor(message: string, options: TTSErrorOptions & { position: number }) {
+    super(message, { isRetryable: false, ...options });
+    this.position = options.position;
+  }
+}
+
+/**
+ * Parse a Retry-After header value (seconds or HTTP date) into milliseconds
+ * @param value Header value
+ * @returns Delay in milliseconds, or undefined when the header is missing or invalid
+ */
+export function parseRetryAfter(value?: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Read the Retry-After header from a fetch Headers object or a plain header map
+ * @param headers Response headers
+ * @returns Header value, or undefined when missing
+ */
+function readRetryAfter(headers: unknown): string | undefined {
+  if (!headers || typeof headers !== "object") {
+    return undefined;
+  }
+  if (typeof (headers as Headers).get === "function") {
+    return (headers as Headers).get("retry-after") ?? undefined;
+  }
+  const map = headers as Record<string, unknown>;
+  const value = map["retry-after"] ?? map["Retry-After"];
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Create the typed error matching a failed HTTP response
+ * @param message Error message
+ * @param context Request context; statusCode selects the error class
+ * @param headers Response headers, used to read Retry-After on 429 responses
+ * @returns Typed TTS error
+ */
+export function createHttpError(
+  message: string,
+  context: TTSErrorContext & { statusCode: number },
+  headers?: unknown
+): TTSError {
+  const { statusCode } = context;
+  const body = context.responseBody?.toLowerCase() ?? "";
+  const mentionsQuota = /quota|credit|insufficient|billing|exceeded your/.test(body);
+
+  if (statusCode === 401 || statusCode === 403) {
+    return new TTSAuthError(message, context);
+  }
+  if (statusCode === 402 || (statusCode === 429 && mentionsQuota)) {
+    return new TTSQuotaError(message, context);
+  }
+  if (statusCode === 429) {
+    return new TTSRateLimitError(message, {
+      ...context,
+      retryAfterMs: parseRetryAfter(readRetryAfter(headers)),
+    });
+  }
+  if (
+    context.voiceId &&
+    (statusCode === 404 || ((statusCode === 400 || statusCode === 422) && body.includes("voice")))
+  ) {
+    return new TTSInvalidVoiceError(message, context);
+  }
+  if (statusCode === 408 || statusCode >= 500) {
+    return new TTSNetworkError(message, context);
+  }
+  return new TTSError(message, context);
+}
+
+/**
+ * Throw the typed error matching a failed HTTP response; successful responses pass
+ * @param response Response to check
+ * @param message Error message, followed by the status text of the response
+ * @param context Request context; the status code and response body are added
+ */
+export async function throwIfHttpError(
+  response: {
+    ok: boolean;
+    status: number;
+    statusText: string;
+    headers: unknown;
+    text(): Promise<string>;
+  },
+  message: string,
+  context: TTSErrorContext = {}
+): Promise<void> {
+  if (response.ok) {
+    return;
+  }
+  const responseBody = await response.text().catch(() => "");
+  throw createHttpError(
+    `${message}: ${response.statusText}`,
+    { ...context, statusCode: response.status, responseBody },
+    response.headers
+  );
+}
+
+/**
+ * Convert an error thrown by fetch or a provider SDK into a typed TTS error.
+ * TTS errors and abort errors are returned unchanged.
+ * @param error Error to convert
+ * @param context Request context
+ * @returns Typed TTS error, or the original error when it cannot be classified
+ */
+export function toTTSError(error: unknown, context: TTSErrorContext = {}): unknown {
+  if (error instanceof TTSError) {
+    return error;
+  }
+  if (typeof error !== "object" || error === null) {
+    return error;
+  }
+
+  const err = error as {
+    name?: string;
+    message?: string;
+    code?: string;
+    status?: unknown;
+    statusCode?: unknown;
+    $metadata?: { httpStatusCode?: number };
+    headers?: unknown;
+  };
+  if (err.name === "AbortError") {
+    return error;
+  }
+
+  const message = err.message || String(error);
+  const statusCode =
+    typeof err.status === "number"
+      ? err.status
+      : typeof err.statusCode === "number"
+        ? err.statusCode
+        : err.$metadata?.httpStatusCode;
+
+  if (typeof statusCode === "number") {
+    return createHttpError(message, { ...context, statusCode, cause: error }, err.headers);
+  }
+
+  const networkCodes = [
+    "ECONNRESET",
+    "ECONNREFUSED",
+    "ENOTFOUND",
+    "ETIMEDOUT",
+    "EAI_AGAIN",
+    "EPIPE",
+  ];
+  if (
+    (err.name === "TypeError" && /fetch|network|socket|connect/i.test(message)) ||
+    err.name === "TimeoutError" ||
+    (err.code && networkCodes.includes(err.code))
+  ) {
+    return new TTSNetworkError(message, { ...context, cause: error });
+  }
+
+  return error;
+}
@@ -0,0 +1,99 @@
+/**
+ * Filesystem backend for the synthesis cache (Node.js only)
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { CacheBackend, CacheEntry, CacheLimits } from "./synthesis-cache";
+
+/**
+ * Cache backend that stores entries as files in a directory (Node.js only).
+ * Each entry is written as `<key>.bin` (audio) and `<key>.json` (word boundaries);
+ * file modification times track recency for eviction.
+ */
+export class FileSystemCacheBackend implements CacheBackend {
+  /**
+   * Create a filesystem backend
+   * @param directory Directory the entries are written to (created when needed)
+   * @param limits Size limits (defaults to 100 MB)
+   */
+  constructor(
+    private directory: string,
+    private limits: CacheLimits = { maxBytes: 100 * 1024 * 1024 }
+  ) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const audioFile = path.join(this.directory, `${key}.bin`);
+    try {
+      const [audio, meta] = await Promise.all([
+        fs.readFile(audioFile),
+        fs.readFile(path.join(this.directory, `${key}.json`), "utf-8"),
+      ]);
+      const now = new Date();
+      await fs.utimes(audioFile, now, now);
+      const { wordBoundaries, speechMarks, createdAt } = JSON.parse(meta);
+      return { audio: new Uint8Array(audio), wordBoundaries, speechMarks, createdAt };
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      path.join(this.directory, `${key}.json`),
+      JSON.stringify({
+        wordBoundaries: entry.wordBoundaries,
+        speechMarks: entry.speechMarks,
+        createdAt: entry.createdAt,
+      })
+    );
+    await fs.writeFile(path.join(this.directory, `${key}.bin`), entry.audio);
+    await this.evict();
+  }
+
+  async delete(key: string): Promise<void> {
+    await Promise.all([
+      fs.rm(path.join(this.directory, `${key}.bin`), { force: true }),
+      fs.rm(path.join(this.directory, `${key}.json`), { force: true }),
+    ]);
+  }
+
+  async clear(): Promise<void> {
+    const files = await fs.readdir(this.directory).catch(() => [] as string[]);
+    await Promise.all(
+      files
+        .filter((file) => file.endsWith(".bin"))
+        .map((file) => this.delete(file.slice(0, -".bin".length)))
+    );
+  }
+
+  /**
+   * Delete the least recently used entries until the directory is within its limits
+   */
+  private async evict(): Promise<void> {
+    const files = await fs.readdir(this.directory);
+    const entries = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".bin"))
+        .map(async (file) => {
+          const stats = await fs.stat(path.join(this.directory, file));
+          return { key: file.slice(0, -".bin".length), size: stats.size, used: stats.mtimeMs };
+        })
+    );
+    entries.sort((a, b) => a.used - b.used);
+
+    const { maxEntries = Number.POSITIVE_INFINITY, maxBytes = Number.POSITIVE_INFINITY } =
+      this.limits;
+    let count = entries.length;
+    let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of entries) {
+      if (count <= maxEntries && totalBytes <= maxBytes) {
+        break;
+      }
+      await this.delete(entry.key);
+      count--;
+      totalBytes -= entry.size;
+    }
+  }
+}
@@ -0,0 +1,401 @@
+/**
+ * Pronunciation lexicons
+ *
+ * A lexicon maps words (graphemes) to a pronunciation (a phoneme string, IPA by default) or an
+ * alias that is spoken instead. Lexicons are loaded from PLS (the W3C Pronunciation Lexicon
+ * Specification) or from a JSON map, and applied before synthesis: matching words become
+ * `<phoneme>` or `<sub>` elements, or are respelled as their alias for engines without them.
+ */
+
+import {
+  createSSMLElement,
+  findSSMLElement,
+  parseSSML,
+  type SSMLElement,
+  type SSMLNode,
+  serializeSSML,
+} from "../ssml/parser";
+import * as SSMLUtils from "./ssml-utils";
+
+const PLS_NAMESPACE = "http://www.w3.org/2005/01/pronunciation-lexicon";
+
+/**
+ * Elements whose text is never rewritten: it already has a pronunciation or isn't spoken
+ */
+const SKIPPED_ELEMENTS = new Set(["phoneme", "sub", "say-as", "mark", "desc"]);
+
+/**
+ * Pronunciation of one or more spellings of a word
+ */
+export interface LexiconEntry {
+  /**
+   * Spellings the entry applies to, matched case-sensitively as whole words
+   */
+  graphemes: string[];
+
+  /**
+   * Pronunciation in the entry's alphabet
+   */
+  phoneme?: string;
+
+  /**
+   * Phonetic alphabet of the pronunciation ("ipa", "x-sampa", ...); defaults to the lexicon's
+   */
+  alphabet?: string;
+
+  /**
+   * Text spoken instead of the word, used by engines that can't read phonemes
+   */
+  alias?: string;
+}
+
+/**
+ * Simple lexicon format: each word maps to an alias ("Lester"), an IPA pronunciation between
+ * slashes ("/ʃɪˈvɔːn/"), or an object with any of alias, ipa, phoneme and alphabet
+ */
+export type LexiconMap = Record<
+  string,
+  string | { alias?: string; ipa?: string; phoneme?: string; alphabet?: string }
+>;
+
+/**
+ * Options for creating a lexicon
+ */
+export interface LexiconOptions {
+  /**
+   * Language of the lexicon (BCP-47, default "en-US")
+   */
+  lang?: string;
+
+  /**
+   * Default phonetic alphabet of the pronunciations (default "ipa")
+   */
+  alphabet?: string;
+
+  /**
+   * Name used when the lexicon is uploaded to an engine (1-20 letters or digits).
+   * Defaults to a name derived from the content.
+   */
+  name?: string;
+
+  /**
+   * URL where the lexicon is published as PLS, for engines that fetch lexicons themselves
+   * (Azure custom lexicons)
+   */
+  uri?: string;
+}
+
+/**
+ * Tags an engine can read, deciding how matched words are rewritten
+ */
+export interface ApplyLexiconOptions {
+  /**
+   * Whether `<phoneme>` is supported
+   */
+  phoneme?: boolean;
+
+  /**
+   * Whether `<sub>` is supported
+   */
+  sub?: boolean;
+}
+
+/**
+ * Compute a short hash of text (FNV-1a, base 36)
+ */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Get the text content of an element
+ */
+function textOf(element: SSMLElement): string {
+  return element.children
+    .map((child) => (child.type === "text" ? child.value : textOf(child)))
+    .join("")
+    .trim();
+}
+
+/**
+ * Pronunciation lexicon applied to text before synthesis
+ */
+export class Lexicon {
+  /**
+   * Language of the lexicon (BCP-47)
+   */
+  readonly lang: string;
+
+  /**
+   * Default phonetic alphabet of the pronunciations
+   */
+  readonly alphabet: string;
+
+  /**
+   * URL where the lexicon is published as PLS, if any
+   */
+  readonly uri?: string;
+
+  private readonly explicitName?: string;
+  private readonly entries = new Map<string, LexiconEntry>();
+  private pattern: RegExp | null = null;
+  private pls: string | null = null;
+
+  /**
+   * Create a lexicon
+   * @param entries Pronunciations of the lexicon
+   * @param options Language, alphabet, name and URL of the lexicon
+   * @throws Error when the name is not 1-20 letters or digits
+   */
+  constructor(entries: LexiconEntry[] = [], options: LexiconOptions = {}) {
+    if (options.name !== undefined && !/^[0-9A-Za-z]{1,20}$/.test(options.name)) {
+      throw new Error(`Invalid lexicon name "${options.name}": use 1-20 letters or digits`);
+    }
+    this.lang = options.lang ?? "en-US";
+    this.alphabet = options.alphabet ?? "ipa";
+    this.uri = options.uri;
+    this.explicitName = options.name;
+    for (const entry of entries) {
+      this.add(entry);
+    }
+  }
+
+  /**
+   * Load a lexicon from PLS XML. The first pronunciation and the first alias of each lexeme
+   * are used.
+   * @param xml PLS document
+   * @param options Name and URL of the lexicon; language and alphabet default to the document's
+   * @returns The lexicon
+   * @throws SSMLParseError when the XML is not well-formed
+   * @throws Error when the document has no `<lexicon>` element
+   */
+  static fromPLS(xml: string, options: LexiconOptions = {}): Lexicon {
+    const root = findSSMLElement(parseSSML(xml), "lexicon");
+    if (!root) {
+      throw new Error("Invalid PLS lexicon: missing <lexicon> element");
+    }
+
+    const entries: LexiconEntry[] = [];
+    for (const lexeme of root.children) {
+      if (lexeme.type !== "element" || lexeme.name !== "lexeme") continue;
+      const children = lexeme.children.filter(
+        (child): child is SSMLElement => child.type === "element"
+      );
+      const phoneme = children.find((child) => child.name === "phoneme");
+      const alias = children.find((child) => child.name === "alias");
+      entries.push({
+        graphemes: children.filter((child) => child.name === "grapheme").map(textOf),
+        phoneme: phoneme && textOf(phoneme),
+        alphabet: phoneme?.attributes.alphabet,
+        alias: alias && textOf(alias),
+      });
+    }
+
+    return new Lexicon(entries, {
+      ...options,
+      lang: options.lang ?? root.attributes["xml:lang"],
+      alphabet: options.alphabet ?? root.attributes.alphabet,
+    });
+  }
+
+  /**
+   * Load a lexicon from a JSON map of words to aliases or pronunciations
+   * @param json Map, or its JSON text
+   * @param options Language, alphabet of `phoneme` values, name and URL of the lexicon
+   * @returns The lexicon
+   * @throws Error when a value is neither a string nor an object
+   */
+  static fromJSON(json: LexiconMap | string, options: LexiconOptions = {}): Lexicon {
+    const map: LexiconMap = typeof json === "string" ? JSON.parse(json) : json;
+    const entries = Object.entries(map).map(([grapheme, value]): LexiconEntry => {
+      if (typeof value === "string") {
+        const ipa = /^\/(.+)\/$/.exec(value.trim());
+        return ipa
+          ? { graphemes: [grapheme], phoneme: ipa[1], alphabet: "ipa" }
+          : { graphemes: [grapheme], alias: value };
+      }
+      if (!value || typeof value !== "object") {
+        throw new Error(`Invalid lexicon entry for "${grapheme}"`);
+      }
+      return {
+        graphemes: [grapheme],
+        phoneme: value.ipa ?? value.phoneme,
+        alphabet: value.ipa ? "ipa" : value.alphabet,
+        alias: value.alias,
+      };
+    });
+    return new Lexicon(entries, options);
+  }
+
+  /**
+   * Name of the lexicon when uploaded to an engine
+   */
+  get name(): string {
+    return this.explicitName ?? `lex${hashText(this.toPLS())}`;
+  }
+
+  /**
+   * Add a pronunciation, replacing any existing entry for the same spellings
+   * @param entry Pronunciation to add
+   */
+  add(entry: LexiconEntry): void {
+    const graphemes = entry.graphemes.map((grapheme) => grapheme.trim()).filter(Boolean);
+    if (graphemes.length === 0 || (!entry.phoneme && !entry.alias)) return;
+    const normalized: LexiconEntry = {
+      graphemes,
+      ...(entry.phoneme
+        ? { phoneme: entry.phoneme, alphabet: entry.alphabet ?? this.alphabet }
+        : {}),
+      ...(entry.alias ? { alias: entry.alias } : {}),
+    };
+    for (const grapheme of graphemes) {
+      this.entries.set(grapheme, normalized);
+    }
+    this.pattern = null;
+    this.pls = null;
+  }
+
+  /**
+   * Find the pronunciation of a word
+   * @param word Spelling of the word
+   * @returns The entry, or undefined when the word is not in the lexicon
+   */
+  lookup(word: string): LexiconEntry | undefined {
+    return this.entries.get(word) ?? this.entries.get(word.replace(/\s+/g, " "));
+  }
+
+  /**
+   * Get all entries of the lexicon
+   * @returns Entries, in the order they were added
+   */
+  getEntries(): LexiconEntry[] {
+    return [...new Set(this.entries.values())];
+  }
+
+  /**
+   * Serialize the lexicon as PLS XML. The document is kept until an entry is added.
+   * @returns PLS document
+   */
+  toPLS(): string {
+    if (this.pls) {
+      return this.pls;
+    }
+    const lexemes = this.getEntries().map((entry) =>
+      createSSMLElement("lexeme", {}, [
+        ...entry.graphemes.map((grapheme) =>
+          createSSMLElement("grapheme", {}, [{ type: "text", value: grapheme }])
+        ),
+        ...(entry.phoneme
+          ? [
+              createSSMLElement(
+                "phoneme",
+                entry.alphabet && entry.alphabet !== this.alphabet
+                  ? { alphabet: entry.alphabet }
+                  : {},
+                [{ type: "text", value: entry.phoneme }]
+              ),
+            ]
+          : []),
+        ...(entry.alias
+          ? [createSSMLElement("alias", {}, [{ type: "text", value: entry.alias }])]
+          : []),
+      ])
+    );
+    const lexicon = createSSMLElement(
+      "lexicon",
+      { version: "1.0", xmlns: PLS_NAMESPACE, alphabet: this.alphabet, "xml:lang": this.lang },
+      lexemes
+    );
+    this.pls = `<?xml version="1.0" encoding="UTF-8"?>\n${serializeSSML(lexicon)}`;
+    return this.pls;
+  }
+
+  /**
+   * Get the pattern matching any word of the lexicon, longest spellings first
+   * @returns Pattern, or null when the lexicon is empty
+   */
+  getPattern(): RegExp | null {
+    if (!this.pattern && this.entries.size > 0) {
+      const alternatives = [...this.entries.keys()]
+        .sort((a, b) => b.length - a.length)
+        .map((grapheme) => grapheme.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/ /g, "\\s+"));
+      this.pattern = new RegExp(
+        `(?<![\\p{L}\\p{N}_])(?:${alternatives.join("|")})(?![\\p{L}\\p{N}_])`,
+        "gu"
+      );
+    }
+    return this.pattern;
+  }
+}
+
+/**
+ * Rewrite the words of a lexicon in text or SSML. Words become `<phoneme>` elements when the
+ * engine reads them and the entry has a pronunciation, otherwise `<sub>` elements or plain
+ * respellings of the entry's alias. Words without a usable pronunciation are left as is, as
+ * is text inside `<phoneme>`, `<sub>` and `<say-as>`.
+ * @param text Text or SSML
+ * @param lexicon Lexicon to apply
+ * @param options Tags the engine supports (none by default)
+ * @returns The rewritten text; plain text becomes SSML only when tags were added
+ */
+export function applyLexicon(
+  text: string,
+  lexicon: Lexicon,
+  options: ApplyLexiconOptions = {}
+): string {
+  const pattern = lexicon.getPattern();
+  if (!pattern) {
+    return text;
+  }
+
+  let tagged = false;
+  const rewriteText = (value: string): SSMLNode[] => {
+    const nodes: SSMLNode[] = [];
+    let last = 0;
+    for (const match of value.matchAll(pattern)) {
+      const entry = lexicon.lookup(match[0]);
+      let replacement: SSMLNode | null = null;
+      if (entry?.phoneme && options.phoneme) {
+        replacement = createSSMLElement(
+          "phoneme",
+          { alphabet: entry.alphabet ?? lexicon.alphabet, ph: entry.phoneme },
+          [{ type: "text", value: match[0] }]
+        );
+      } else if (entry?.alias && options.sub) {
+        replacement = createSSMLElement("sub", { alias: entry.alias }, [
+          { type: "text", value: match[0] },
+        ]);
+      } else if (entry?.alias) {
+        replacement = { type: "text", value: entry.alias };
+      }
+      if (!replacement) continue;
+
+      tagged ||= replacement.type === "element";
+      nodes.push({ type: "text", value: value.slice(last, match.index) }, replacement);
+      last = (match.index ?? 0) + match[0].length;
+    }
+    nodes.push({ type: "text", value: value.slice(last) });
+    return nodes;
+  };
+  const rewrite = (nodes: SSMLNode[]): SSMLNode[] =>
+    nodes.flatMap((node) => {
+      if (node.type === "text") return rewriteText(node.value);
+      if (SKIPPED_ELEMENTS.has(node.name)) return [node];
+      return [{ ...node, children: rewrite(node.children) }];
+    });
+
+  if (SSMLUtils.isSSML(text)) {
+    return serializeSSML(rewrite(parseSSML(text, { recover: true })));
+  }
+
+  const nodes = rewrite([{ type: "text", value: text }]);
+  if (tagged) {
+    return serializeSSML(createSSMLElement("speak", {}, nodes));
+  }
+  return nodes.map((node) => (node.type === "text" ? node.value : "")).join("");
+}
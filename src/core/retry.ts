@@ -0,0 +1,152 @@
+/**
+ * Retry policy for transient provider failures
+ *
+ * Used by AbstractTTSClient.fetchWithRetry to repeat HTTP requests that failed with
+ * a retryable error (rate limiting, network failures, HTTP 5xx) using exponential
+ * backoff, honouring the Retry-After header sent with 429/503 responses.
+ */
+
+import { createAbortError } from "../utils/abort-utils";
+import { type TTSError, TTSNetworkError, TTSRateLimitError } from "./errors";
+
+/**
+ * Constructor of a TTS error class
+ */
+export type TTSErrorClass = abstract new (...args: any[]) => TTSError;
+
+/**
+ * Retry policy settings
+ */
+export interface RetryPolicy {
+  /**
+   * Total number of attempts, including the first one (1 disables retries)
+   */
+  maxAttempts: number;
+
+  /**
+   * Delay before the first retry in milliseconds; doubled on every further retry
+   */
+  baseDelayMs: number;
+
+  /**
+   * Upper bound for a single delay in milliseconds
+   */
+  maxDelayMs: number;
+
+  /**
+   * Random variation applied to each delay, as a fraction of the delay (0 to 1)
+   */
+  jitter: number;
+
+  /**
+   * Error classes that are retried
+   */
+  retryOn: TTSErrorClass[];
+}
+
+/**
+ * Retry settings accepted through credentials (`retry`) or `setProperty("retry", ...)`
+ */
+export type RetryOptions = Partial<RetryPolicy>;
+
+/**
+ * Default retry policy: three attempts for rate limit and network errors
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  jitter: 0.2,
+  retryOn: [TTSRateLimitError, TTSNetworkError],
+};
+
+/**
+ * Merge retry options into a policy, ignoring invalid values
+ * @param options Retry options
+ * @param base Policy to start from
+ * @returns Resolved retry policy
+ */
+export function resolveRetryPolicy(
+  options?: RetryOptions | null,
+  base: RetryPolicy = DEFAULT_RETRY_POLICY
+): RetryPolicy {
+  const policy: RetryPolicy = { ...base, retryOn: [...base.retryOn] };
+  if (!options || typeof options !== "object") {
+    return policy;
+  }
+
+  const isNonNegative = (value: unknown): value is number =>
+    typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+  if (isNonNegative(options.maxAttempts)) {
+    policy.maxAttempts = Math.max(1, Math.floor(options.maxAttempts));
+  }
+  if (isNonNegative(options.baseDelayMs)) {
+    policy.baseDelayMs = options.baseDelayMs;
+  }
+  if (isNonNegative(options.maxDelayMs)) {
+    policy.maxDelayMs = options.maxDelayMs;
+  }
+  if (isNonNegative(options.jitter)) {
+    policy.jitter = Math.min(1, options.jitter);
+  }
+  if (Array.isArray(options.retryOn)) {
+    policy.retryOn = [...options.retryOn];
+  }
+  return policy;
+}
+
+/**
+ * Check whether an error should be retried under a policy
+ * @param error Error raised by the attempt
+ * @param policy Retry policy
+ * @returns True if the error is an instance of one of the retryable classes
+ */
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+  return policy.retryOn.some((errorClass) => error instanceof errorClass);
+}
+
+/**
+ * Compute the delay before the next attempt
+ * @param attempt Number of the attempt that just failed (1-based)
+ * @param policy Retry policy
+ * @param retryAfterMs Delay requested by the provider through Retry-After, if any
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfterMs?: number
+): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, policy.maxDelayMs);
+  }
+
+  const delay = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  const variation = delay * policy.jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(delay + variation));
+}
+
+/**
+ * Wait for a delay, rejecting early with an AbortError if the signal is aborted
+ * @param ms Delay in milliseconds
+ * @param signal Optional abort signal
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError(signal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
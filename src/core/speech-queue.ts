@@ -0,0 +1,372 @@
+/**
+ * Speech queue
+ *
+ * Plays utterances one after another on a single TTS client. Items are ordered by priority,
+ * the next item is synthesized while the current one plays, and urgent items can interrupt
+ * the current utterance. Calling speak() directly stops whatever is playing, so apps that
+ * speak in quick succession (screen readers, AAC) should go through a queue instead.
+ */
+
+import type { SpeakOptions, WordBoundary } from "../types";
+import { streamToBytes } from "../utils/audio-input";
+import { estimateWordBoundaries } from "../utils/word-timing-estimator";
+import type { AbstractTTSClient } from "./abstract-tts";
+import * as SSMLUtils from "./ssml-utils";
+
+/**
+ * Options for a queued utterance
+ */
+export interface SpeechQueueItemOptions {
+  /**
+   * Identifier of the item (generated when omitted)
+   */
+  id?: string;
+
+  /**
+   * Higher priorities are spoken first; items of equal priority keep their order (default 0)
+   */
+  priority?: number;
+
+  /**
+   * Stop the current utterance and speak this item next
+   */
+  interrupt?: boolean;
+
+  /**
+   * Synthesis options. Cancellation is done with skip() and clear(), so there is no signal.
+   */
+  speakOptions?: Omit<SpeakOptions, "signal">;
+}
+
+/**
+ * Queued utterance
+ */
+export interface SpeechQueueItem {
+  id: string;
+  text: string;
+  priority: number;
+  speakOptions?: Omit<SpeakOptions, "signal">;
+}
+
+/**
+ * Why an item left the queue
+ */
+export type SpeechQueueEndReason = "completed" | "skipped" | "interrupted" | "cleared" | "error";
+
+/**
+ * Payloads of the events emitted by a SpeechQueue, as listener argument lists
+ */
+export interface SpeechQueueEventMap {
+  /**
+   * Items were added, removed or started
+   */
+  change: [state: { current: SpeechQueueItem | null; pending: SpeechQueueItem[] }];
+
+  /**
+   * An item started playing
+   */
+  itemStart: [item: SpeechQueueItem];
+
+  /**
+   * An item finished playing or was removed from the queue
+   */
+  itemEnd: [item: SpeechQueueItem, reason: SpeechQueueEndReason];
+
+  /**
+   * Synthesizing or playing an item failed; the queue moves on to the next item
+   */
+  error: [error: Error, item: SpeechQueueItem];
+
+  /**
+   * The last item finished and the queue is empty
+   */
+  idle: [];
+}
+
+/**
+ * Listener for a SpeechQueue event
+ */
+export type SpeechQueueListener<E extends keyof SpeechQueueEventMap> = (
+  ...args: SpeechQueueEventMap[E]
+) => void;
+
+/**
+ * Synthesized audio of an item
+ */
+interface PreparedAudio {
+  audioBytes: Uint8Array;
+  wordBoundaries: WordBoundary[];
+}
+
+/**
+ * Item with its playback state
+ */
+interface QueueEntry {
+  item: SpeechQueueItem;
+  controller: AbortController;
+  audio?: Promise<PreparedAudio>;
+  endReason?: SpeechQueueEndReason;
+}
+
+/**
+ * Queue of utterances spoken in turn by one TTS client
+ */
+export class SpeechQueue {
+  private pending: QueueEntry[] = [];
+  private current: QueueEntry | null = null;
+  private currentPrepared = false;
+  private running = false;
+  private nextId = 1;
+  private listeners: { [E in keyof SpeechQueueEventMap]?: SpeechQueueListener<E>[] } = {};
+
+  /**
+   * Create a speech queue
+   * @param client Client that synthesizes and plays the items
+   */
+  constructor(private client: AbstractTTSClient) {}
+
+  /**
+   * Add an utterance to the queue
+   * @param text Text or SSML to speak
+   * @param options Item options
+   * @returns Queued item
+   */
+  enqueue(text: string, options: SpeechQueueItemOptions = {}): SpeechQueueItem {
+    const item: SpeechQueueItem = {
+      id: options.id ?? `utterance-${this.nextId++}`,
+      text,
+      priority: options.priority ?? 0,
+      speakOptions: options.speakOptions,
+    };
+    const entry: QueueEntry = { item, controller: new AbortController() };
+
+    if (options.interrupt) {
+      this.pending.unshift(entry);
+      if (this.current) {
+        this.abort(this.current, "interrupted");
+      }
+    } else {
+      const index = this.pending.findIndex((queued) => queued.item.priority < item.priority);
+      this.pending.splice(index === -1 ? this.pending.length : index, 0, entry);
+    }
+
+    this.emitChange();
+    this.prefetchNext();
+    void this.run();
+    return item;
+  }
+
+  /**
+   * Stop the current utterance and continue with the next item
+   */
+  skip(): void {
+    if (this.current) {
+      this.abort(this.current, "skipped");
+    }
+  }
+
+  /**
+   * Stop the current utterance and remove all pending items
+   */
+  clear(): void {
+    const removed = this.pending;
+    this.pending = [];
+    for (const entry of removed) {
+      this.abort(entry, "cleared");
+      this.emit("itemEnd", entry.item, "cleared");
+    }
+    if (this.current) {
+      this.abort(this.current, "cleared");
+    }
+    this.emitChange();
+  }
+
+  /**
+   * Item that is currently being spoken
+   */
+  get currentItem(): SpeechQueueItem | null {
+    return this.current?.item ?? null;
+  }
+
+  /**
+   * Items waiting to be spoken, in order
+   */
+  get pendingItems(): SpeechQueueItem[] {
+    return this.pending.map((entry) => entry.item);
+  }
+
+  /**
+   * Register a listener for a queue event
+   * @param event Event type
+   * @param fn Listener
+   */
+  on<E extends keyof SpeechQueueEventMap>(event: E, fn: SpeechQueueListener<E>): void {
+    const listeners: SpeechQueueListener<E>[] = this.listeners[event] || [];
+    listeners.push(fn);
+    this.listeners[event] = listeners as (typeof this.listeners)[E];
+  }
+
+  /**
+   * Remove a queue event listener
+   * @param event Event type
+   * @param fn Listener to remove
+   */
+  off<E extends keyof SpeechQueueEventMap>(event: E, fn: SpeechQueueListener<E>): void {
+    const listeners: SpeechQueueListener<E>[] | undefined = this.listeners[event];
+    const index = listeners?.lastIndexOf(fn) ?? -1;
+    if (listeners && index !== -1) {
+      listeners.splice(index, 1);
+    }
+  }
+
+  private emit<E extends keyof SpeechQueueEventMap>(
+    event: E,
+    ...args: SpeechQueueEventMap[E]
+  ): void {
+    const listeners: SpeechQueueListener<E>[] = this.listeners[event] || [];
+    for (const fn of [...listeners]) {
+      fn(...args);
+    }
+  }
+
+  private emitChange(): void {
+    this.emit("change", { current: this.currentItem, pending: this.pendingItems });
+  }
+
+  /**
+   * Stop an item, recording why, and drop any audio prepared for it
+   */
+  private abort(entry: QueueEntry, reason: SpeechQueueEndReason): void {
+    entry.endReason = entry.endReason ?? reason;
+    entry.controller.abort();
+    entry.audio = undefined;
+  }
+
+  /**
+   * Speak items until the queue is empty
+   */
+  private async run(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    while (this.pending.length > 0) {
+      const entry = this.pending.shift() as QueueEntry;
+      this.current = entry;
+      this.emitChange();
+
+      let reason: SpeechQueueEndReason = "completed";
+      try {
+        const audio = await this.prepare(entry);
+        this.currentPrepared = true;
+        this.prefetchNext();
+        if (!entry.controller.signal.aborted) {
+          this.emit("itemStart", entry.item);
+          await this.play(entry, audio);
+        }
+      } catch (error) {
+        if (!entry.controller.signal.aborted) {
+          reason = "error";
+          this.reportError(error, entry.item);
+        }
+      }
+
+      this.current = null;
+      this.currentPrepared = false;
+      this.emit("itemEnd", entry.item, entry.endReason ?? reason);
+    }
+
+    this.running = false;
+    this.emitChange();
+    this.emit("idle");
+  }
+
+  /**
+   * Synthesize the next item while the current one plays. Called again whenever the head of
+   * the queue changes, so an item that moves to the front is prepared as well.
+   */
+  private prefetchNext(): void {
+    const next = this.pending[0];
+    if (this.currentPrepared && next) {
+      void this.prepare(next);
+    }
+  }
+
+  /**
+   * Start synthesizing an item, once
+   */
+  private prepare(entry: QueueEntry): Promise<PreparedAudio> {
+    if (!entry.audio) {
+      entry.audio = this.synthesize(entry);
+      // Failures are reported when the item is played
+      entry.audio.catch(() => {});
+    }
+    return entry.audio;
+  }
+
+  private async synthesize(entry: QueueEntry): Promise<PreparedAudio> {
+    const { text, speakOptions } = entry.item;
+    const result = await this.client.synthToBytestream(text, {
+      ...speakOptions,
+      signal: entry.controller.signal,
+    });
+    const audioBytes = await streamToBytes(result.audioStream);
+
+    // Some engines fill in word boundaries while the stream is read
+    let wordBoundaries = [...result.wordBoundaries];
+    if (wordBoundaries.length === 0) {
+      const plainText = SSMLUtils.isSSML(text) ? SSMLUtils.stripSSML(text) : text;
+      wordBoundaries = estimateWordBoundaries(plainText).map(({ word, start, end }) => ({
+        text: word,
+        offset: start,
+        duration: end - start,
+      }));
+    }
+    return { audioBytes, wordBoundaries };
+  }
+
+  /**
+   * Play synthesized audio, resolving when playback ends or is stopped and rejecting when it
+   * fails. Browser playback resolves speakStreamed() when it starts, so the client's events
+   * mark the end.
+   */
+  private async play(entry: QueueEntry, audio: PreparedAudio): Promise<void> {
+    let settle: (error?: Error) => void = () => {};
+    const finished = new Promise<void>((resolve, reject) => {
+      settle = (error) => (error ? reject(error) : resolve());
+    });
+    // A failure before speakStreamed() returns is thrown by speakStreamed() itself
+    finished.catch(() => {});
+
+    const onEnd = () => settle();
+    const onError = (error: Error) => settle(error);
+    const onStop = () => {
+      // Stopped on the client rather than through the queue
+      entry.endReason = entry.endReason ?? "skipped";
+      settle();
+    };
+    this.client.on("end", onEnd);
+    this.client.on("error", onError);
+    this.client.on("stop", onStop);
+    try {
+      await this.client.speakStreamed(audio, {
+        ...entry.item.speakOptions,
+        signal: entry.controller.signal,
+      });
+      await finished;
+    } finally {
+      this.client.off("end", onEnd);
+      this.client.off("error", onError);
+      this.client.off("stop", onStop);
+    }
+  }
+
+  private reportError(error: unknown, item: SpeechQueueItem): void {
+    if (this.listeners.error?.length) {
+      this.emit("error", error instanceof Error ? error : new Error(String(error)), item);
+    } else {
+      console.error(`Error speaking queued item ${item.id}:`, error);
+    }
+  }
+}
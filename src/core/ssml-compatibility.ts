@@ -8,6 +8,22 @@
  * 4. Ensuring proper SSML nesting and structure
  */
 
+import {
+  parseSSML,
+  replaceSSMLElements,
+  type SSMLElement,
+  type SSMLNode,
+  serializeSSML,
+  walkSSML,
+} from "../ssml/parser";
+import { SSMLParseError } from "./errors";
+import {
+  emulateSSMLAsText,
+  emulateSSMLElement,
+  getSSMLLanguage,
+  resolvePauseHints,
+} from "./ssml-emulation";
+
 export interface SSMLCapabilities {
   supportsSSML: boolean;
   supportLevel: "full" | "limited" | "none";
@@ -209,6 +225,94 @@ export const ENGINE_SSML_CAPABILITIES: Record<string, SSMLCapabilities> = {
     requiresNamespace: false,
     requiresVersion: false,
   },
+  cartesia: {
+    supportsSSML: false,
+    supportLevel: "none",
+    supportedTags: [],
+    unsupportedTags: ["*"],
+    requiresNamespace: false,
+    requiresVersion: false,
+  },
+  deepgram: {
+    supportsSSML: false,
+    supportLevel: "none",
+    supportedTags: [],
+    unsupportedTags: ["*"],
+    requiresNamespace: false,
+    requiresVersion: false,
+  },
+  fishaudio: {
+    supportsSSML: false,
+    supportLevel: "none",
+    supportedTags: [],
+    unsupportedTags: ["*"],
+    requiresNamespace: false,
+    requiresVersion: false,
+  },
+  gemini: {
+    supportsSSML: false,
+    supportLevel: "none",
+    supportedTags: [],
+    unsupportedTags: ["*"],
+    requiresNamespace: false,
+    requiresVersion: false,
+  },
+  hume: {
+    supportsSSML: false,
+    supportLevel: "none",
+    supportedTags: [],
+    unsupportedTags: ["*"],
+    requiresNamespace: false,
+    requiresVersion: false,
+  },
+  mistral: {
+    supportsSSML: false,
+    supportLevel: "none",
+    supportedTags: [],
+    unsupportedTags: ["*"],
+    requiresNamespace: false,
+    requiresVersion: false,
+  },
+  modelslab: {
+    supportsSSML: false,
+    supportLevel: "none",
+    supportedTags: [],
+    unsupportedTags: ["*"],
+    requiresNamespace: false,
+    requiresVersion: false,
+  },
+  murf: {
+    supportsSSML: false,
+    supportLevel: "none",
+    supportedTags: [],
+    unsupportedTags: ["*"],
+    requiresNamespace: false,
+    requiresVersion: false,
+  },
+  resemble: {
+    supportsSSML: false,
+    supportLevel: "none",
+    supportedTags: [],
+    unsupportedTags: ["*"],
+    requiresNamespace: false,
+    requiresVersion: false,
+  },
+  unrealspeech: {
+    supportsSSML: false,
+    supportLevel: "none",
+    supportedTags: [],
+    unsupportedTags: ["*"],
+    requiresNamespace: false,
+    requiresVersion: false,
+  },
+  xai: {
+    supportsSSML: false,
+    supportLevel: "none",
+    supportedTags: [],
+    unsupportedTags: ["*"],
+    requiresNamespace: false,
+    requiresVersion: false,
+  },
   sherpaonnx: {
     supportsSSML: false,
     supportLevel: "none",
@@ -385,8 +489,19 @@ export class SSMLCompatibilityManager {
     const errors: string[] = [];
     const warnings: string[] = [];
 
+    // Well-formedness: report the first syntax error, then inspect the repaired document
+    let nodes: SSMLNode[];
+    try {
+      nodes = parseSSML(ssml);
+    } catch (error) {
+      if (!(error instanceof SSMLParseError)) throw error;
+      errors.push(`Malformed SSML: ${error.message}`);
+      nodes = parseSSML(ssml, { recover: true });
+    }
+
     // Basic SSML structure validation
-    if (!ssml.trim().startsWith("<speak") || !ssml.trim().endsWith("</speak>")) {
+    const root = SSMLCompatibilityManager.getSpeakRoot(nodes);
+    if (!root) {
       errors.push("SSML must be wrapped in <speak> tags");
     }
 
@@ -406,9 +521,10 @@ export class SSMLCompatibilityManager {
         `Engine '${engine}' does not support any SSML tags. All tags will be stripped.`
       );
     } else {
+      const usedTags = new Set<string>();
+      walkSSML(nodes, (element) => usedTags.add(element.name.toLowerCase()));
       for (const unsupportedTag of capabilities.unsupportedTags) {
-        const tagRegex = new RegExp(`<${unsupportedTag}[^>]*>`, "gi");
-        if (tagRegex.test(ssml)) {
+        if (usedTags.has(unsupportedTag.toLowerCase())) {
           warnings.push(
             `Tag '<${unsupportedTag}>' is not supported by engine '${engine}' and will be removed.`
           );
@@ -417,11 +533,11 @@ export class SSMLCompatibilityManager {
     }
 
     // Check for required attributes
-    if (capabilities.requiresNamespace && !ssml.includes("xmlns=")) {
+    if (capabilities.requiresNamespace && root && !("xmlns" in root.attributes)) {
       warnings.push(`Engine '${engine}' requires xmlns attribute in <speak> tag.`);
     }
 
-    if (capabilities.requiresVersion && !ssml.includes("version=")) {
+    if (capabilities.requiresVersion && root && !("version" in root.attributes)) {
       warnings.push(`Engine '${engine}' requires version attribute in <speak> tag.`);
     }
 
@@ -434,104 +550,65 @@ export class SSMLCompatibilityManager {
 
   /**
    * Process SSML for engine compatibility
+   *
+   * The input is parsed leniently, so the result is always well-formed. Tags the engine
+   * can't read are emulated where possible (`<sub>` becomes its alias, `<say-as>` is
+   * expanded into words, `<break>` becomes punctuation) and unwrapped otherwise.
+   * `<say-as>` is expanded in the document's xml:lang, or in lang when it has none.
    */
-  static processSSMLForEngine(ssml: string, engine: string, voiceId?: string): string {
+  static processSSMLForEngine(
+    ssml: string,
+    engine: string,
+    voiceId?: string,
+    lang?: string
+  ): string {
     const capabilities = SSMLCompatibilityManager.getCapabilities(engine, voiceId);
 
-    // If engine doesn't support SSML, strip all tags
-    if (!capabilities.supportsSSML) {
-      return SSMLCompatibilityManager.stripAllSSMLTags(ssml);
+    // If engine doesn't support SSML, convert the document to plain text
+    if (!capabilities.supportsSSML || capabilities.unsupportedTags.includes("*")) {
+      return emulateSSMLAsText(ssml, lang);
     }
 
-    let processedSSML = ssml;
-
-    // Remove unsupported tags
-    if (capabilities.unsupportedTags.includes("*")) {
-      return SSMLCompatibilityManager.stripAllSSMLTags(ssml);
-    }
-    for (const unsupportedTag of capabilities.unsupportedTags) {
-      processedSSML = SSMLCompatibilityManager.removeSSMLTag(processedSSML, unsupportedTag);
-    }
+    // Emulate or remove unsupported tags
+    const unsupported = new Set(capabilities.unsupportedTags.map((tag) => tag.toLowerCase()));
+    const parsed = parseSSML(ssml, { recover: true });
+    const documentLang = getSSMLLanguage(parsed, lang);
+    const nodes = replaceSSMLElements(parsed, (element) =>
+      unsupported.has(element.name.toLowerCase())
+        ? (emulateSSMLElement(element, documentLang) ?? element.children)
+        : null
+    );
 
     // Add required attributes
-    processedSSML = SSMLCompatibilityManager.addRequiredAttributes(processedSSML, capabilities);
+    SSMLCompatibilityManager.addRequiredAttributes(nodes, capabilities);
 
-    return processedSSML;
+    return resolvePauseHints(serializeSSML(nodes));
   }
 
   /**
-   * Strip all SSML tags from text
+   * Find the <speak> element that wraps the whole document
    */
-  private static stripAllSSMLTags(ssml: string): string {
-    let result = ssml;
-
-    // Remove all SSML tags while preserving content
-    // Use a more comprehensive approach to handle nested tags
-    result = result.replace(/<speak[^>]*>/gi, "");
-    result = result.replace(/<\/speak>/gi, "");
-    result = result.replace(/<break[^>]*\/?>/gi, " ");
-
-    // Handle nested tags by repeatedly removing them
-    let previousResult = "";
-    while (result !== previousResult) {
-      previousResult = result;
-      result = result.replace(/<emphasis[^>]*>(.*?)<\/emphasis>/gis, "$1");
-      result = result.replace(/<prosody[^>]*>(.*?)<\/prosody>/gis, "$1");
-      result = result.replace(/<voice[^>]*>(.*?)<\/voice>/gis, "$1");
-      result = result.replace(/<say-as[^>]*>(.*?)<\/say-as>/gis, "$1");
-      result = result.replace(/<phoneme[^>]*>(.*?)<\/phoneme>/gis, "$1");
-      result = result.replace(/<sub[^>]*>(.*?)<\/sub>/gis, "$1");
-      result = result.replace(/<p[^>]*>(.*?)<\/p>/gis, "$1 ");
-      result = result.replace(/<s[^>]*>(.*?)<\/s>/gis, "$1 ");
-      result = result.replace(/<lang[^>]*>(.*?)<\/lang>/gis, "$1");
-      result = result.replace(/<audio[^>]*>(.*?)<\/audio>/gis, "$1");
-      result = result.replace(/<mark[^>]*\/?>/gi, "");
-
-      // Remove any remaining XML-like tags
-      result = result.replace(/<[^>]+>/g, "");
-    }
-
-    // Clean up whitespace
-    result = result.replace(/\s+/g, " ").trim();
-
-    return result;
+  private static getSpeakRoot(nodes: SSMLNode[]): SSMLElement | null {
+    const content = nodes.filter((node) => node.type === "element" || node.value.trim() !== "");
+    const [root] = content;
+    return content.length === 1 && root.type === "element" && root.name === "speak" ? root : null;
   }
 
   /**
-   * Remove specific SSML tag
+   * Add required attributes to the <speak> element
    */
-  private static removeSSMLTag(ssml: string, tagName: string): string {
-    let result = ssml;
-    // Remove self-closing tags
-    const selfClosingRegex = new RegExp(`<${tagName}[^>]*\\/>`, "gi");
-    result = result.replace(selfClosingRegex, "");
-
-    // Remove paired tags, keeping content
-    const pairedRegex = new RegExp(`<${tagName}[^>]*>(.*?)<\\/${tagName}>`, "gi");
-    result = result.replace(pairedRegex, "$1");
-
-    return result;
-  }
-
-  /**
-   * Add required attributes to SSML
-   */
-  private static addRequiredAttributes(ssml: string, capabilities: SSMLCapabilities): string {
-    let processedSSML = ssml;
-
-    // Add namespace if required
-    if (capabilities.requiresNamespace && !ssml.includes("xmlns=")) {
-      processedSSML = processedSSML.replace(
-        /<speak([^>]*)>/i,
-        '<speak$1 xmlns="http://www.w3.org/2001/10/synthesis">'
-      );
-    }
+  private static addRequiredAttributes(nodes: SSMLNode[], capabilities: SSMLCapabilities): void {
+    const root = SSMLCompatibilityManager.getSpeakRoot(nodes);
+    if (!root) return;
 
     // Add version if required
-    if (capabilities.requiresVersion && !ssml.includes("version=")) {
-      processedSSML = processedSSML.replace(/<speak([^>]*)>/i, '<speak version="1.0"$1>');
+    if (capabilities.requiresVersion && !("version" in root.attributes)) {
+      root.attributes = { version: "1.0", ...root.attributes };
     }
 
-    return processedSSML;
+    // Add namespace if required
+    if (capabilities.requiresNamespace && !("xmlns" in root.attributes)) {
+      root.attributes.xmlns = "http://www.w3.org/2001/10/synthesis";
+    }
   }
 }
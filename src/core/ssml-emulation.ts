@@ -0,0 +1,270 @@
+/**
+ * SSML emulation for engines that lack some or all SSML tags
+ *
+ * Instead of dropping a tag the engine can't read, its meaning is approximated:
+ * - `<sub alias>` is spoken as its alias
+ * - `<say-as interpret-as="characters">` is spoken as separate letters, and other `<say-as>`
+ *   types (numbers, dates, currencies, ...) are expanded into words
+ * - `<break>` becomes a punctuation hint in text, or spliced silence in audio mode
+ * - `<prosody rate>` becomes a time-stretch of the audio in audio mode
+ */
+
+import { normalizeSayAs } from "../normalization/normalizer";
+import {
+  createSSMLElement,
+  findSSMLElement,
+  parseSSML,
+  replaceSSMLElements,
+  type SSMLElement,
+  type SSMLNode,
+  serializeSSML,
+  ssmlToText,
+} from "../ssml/parser";
+
+/**
+ * Part of an SSML document synthesized on its own in audio mode
+ */
+export type EmulatedSSMLSegment =
+  | {
+      type: "speech";
+      /**
+       * SSML of the segment, without the breaks and rate changes that are emulated
+       */
+      ssml: string;
+      /**
+       * Speed factor to apply to the audio (2 = twice as fast)
+       */
+      rate: number;
+    }
+  | {
+      type: "pause";
+      /**
+       * Length of the silence in milliseconds
+       */
+      duration: number;
+    };
+
+/**
+ * Pause lengths of the break strengths, in milliseconds
+ */
+const BREAK_STRENGTHS: Record<string, number> = {
+  none: 0,
+  "x-weak": 250,
+  weak: 500,
+  medium: 750,
+  strong: 1000,
+  "x-strong": 1250,
+};
+
+/**
+ * Speed factors of the prosody rate keywords
+ */
+const RATE_KEYWORDS: Record<string, number> = {
+  "x-slow": 0.5,
+  slow: 0.75,
+  medium: 1,
+  default: 1,
+  fast: 1.5,
+  "x-fast": 2,
+};
+
+/**
+ * say-as interpretations that are read letter by letter
+ */
+const SPELLED_OUT = new Set(["characters", "spell-out", "letters", "verbatim"]);
+
+/**
+ * Placeholders for pause hints, from weakest to strongest, and the punctuation they become.
+ * Private-use characters keep them apart from the document's own punctuation until the text
+ * around them is known.
+ */
+const PAUSE_HINTS = ["\uE000", "\uE001", "\uE002"];
+const PAUSE_PUNCTUATION = [",", ".", "..."];
+const PAUSE_HINT_PATTERN = /\s*([\uE000-\uE002]+)\s*/g;
+
+/**
+ * Get the length of a `<break>` element
+ * @param element Break element
+ * @returns Pause length in milliseconds
+ */
+export function getBreakDuration(element: SSMLElement): number {
+  const time = element.attributes.time?.trim();
+  const match = time?.match(/^(\d+(?:\.\d+)?)\s*(ms|s)$/i);
+  if (match) {
+    const value = Number.parseFloat(match[1]);
+    return Math.round(match[2].toLowerCase() === "s" ? value * 1000 : value);
+  }
+  return BREAK_STRENGTHS[element.attributes.strength ?? "medium"] ?? BREAK_STRENGTHS.medium;
+}
+
+/**
+ * Convert a `<prosody rate>` value to a speed factor
+ * @param value Rate keyword, percentage ("150%", "+20%", "-10%") or number
+ * @returns Speed factor, or null when the value can't be interpreted
+ */
+export function parseProsodyRate(value?: string): number | null {
+  if (!value) return null;
+  const rate = value.trim().toLowerCase();
+  if (rate in RATE_KEYWORDS) {
+    return RATE_KEYWORDS[rate];
+  }
+  const relative = rate.match(/^([+-])(\d+(?:\.\d+)?)%$/);
+  if (relative) {
+    const change = Number.parseFloat(relative[2]) / 100;
+    return Math.max(0.1, relative[1] === "+" ? 1 + change : 1 - change);
+  }
+  const absolute = rate.match(/^(\d+(?:\.\d+)?)(%?)$/);
+  if (absolute) {
+    const factor = Number.parseFloat(absolute[1]) / (absolute[2] ? 100 : 1);
+    return factor > 0 ? factor : null;
+  }
+  return null;
+}
+
+/**
+ * Get the language of an SSML document from the xml:lang of its `<speak>` element
+ * @param nodes Parsed SSML
+ * @param fallback Language to assume when the document doesn't name one, e.g. the client's
+ * @returns Language tag, or undefined when neither gives one
+ */
+export function getSSMLLanguage(nodes: SSMLNode[], fallback?: string): string | undefined {
+  return findSSMLElement(nodes, "speak")?.attributes["xml:lang"] ?? fallback;
+}
+
+/**
+ * Emulate an element in text
+ * @param element Element the engine can't read, with its children already processed
+ * @param lang Language of the document, used to expand `<say-as>`
+ * @returns Replacement nodes, or null when the element has no text emulation
+ */
+export function emulateSSMLElement(element: SSMLElement, lang?: string): SSMLNode[] | null {
+  switch (element.name) {
+    case "sub":
+      return element.attributes.alias === undefined
+        ? null
+        : [{ type: "text", value: element.attributes.alias }];
+    case "say-as": {
+      const interpretAs = element.attributes["interpret-as"]?.toLowerCase() ?? "";
+      const text = ssmlToText(element.children);
+      if (SPELLED_OUT.has(interpretAs)) {
+        return [{ type: "text", value: [...text.replace(/\s+/g, "")].join(" ") }];
+      }
+      const words = normalizeSayAs(text, interpretAs, { format: element.attributes.format, lang });
+      return words === null ? null : [{ type: "text", value: words }];
+    }
+    case "break": {
+      const duration = getBreakDuration(element);
+      if (duration === 0) {
+        return [{ type: "text", value: " " }];
+      }
+      const strength = duration < 600 ? 0 : duration < 1000 ? 1 : 2;
+      return [{ type: "text", value: ` ${PAUSE_HINTS[strength]} ` }];
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Turn pause hints into punctuation. Hints at the start or end of the spoken text, and hints
+ * that follow punctuation, become plain spaces. Tags around the hints are ignored.
+ * @param text Text or SSML containing pause hints
+ * @returns Text with punctuation in place of the hints
+ */
+export function resolvePauseHints(text: string): string {
+  const spoken = (part: string) => part.replace(/<[^>]*>/g, "").replace(PAUSE_HINT_PATTERN, " ");
+  return text.replace(PAUSE_HINT_PATTERN, (match, hints: string, offset: number) => {
+    const before = spoken(text.slice(0, offset)).trimEnd();
+    const after = spoken(text.slice(offset + match.length)).trim();
+    if (!before || !after || /[.!?…,;:]$/.test(before)) {
+      return " ";
+    }
+    const strongest = Math.max(...[...hints].map((hint) => PAUSE_HINTS.indexOf(hint)));
+    return `${PAUSE_PUNCTUATION[strongest]} `;
+  });
+}
+
+/**
+ * Convert SSML to plain text for an engine without SSML support, emulating tags in the text
+ * @param ssml SSML text
+ * @param lang Language of documents without xml:lang, e.g. the client's language
+ * @returns Plain text
+ */
+export function emulateSSMLAsText(ssml: string, lang?: string): string {
+  const parsed = parseSSML(ssml, { recover: true });
+  const documentLang = getSSMLLanguage(parsed, lang);
+  const nodes = replaceSSMLElements(parsed, (element) => emulateSSMLElement(element, documentLang));
+  return resolvePauseHints(ssmlToText(nodes)).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Whether an element is, or contains, a break or a rate change that audio mode emulates
+ */
+function hasTimedContent(element: SSMLElement): boolean {
+  if (element.name === "break" || (element.name === "prosody" && getRate(element) !== 1)) {
+    return true;
+  }
+  return element.children.some((child) => child.type === "element" && hasTimedContent(child));
+}
+
+function getRate(element: SSMLElement): number {
+  return parseProsodyRate(element.attributes.rate) ?? 1;
+}
+
+/**
+ * Split SSML into speech and pauses for audio emulation: each speech segment is synthesized
+ * on its own at its own speed, with silence spliced in for the pauses
+ * @param ssml SSML text
+ * @returns Segments in order, or null when the document has no breaks or rate changes
+ */
+export function splitSSMLForAudioEmulation(ssml: string): EmulatedSSMLSegment[] | null {
+  const nodes = parseSSML(ssml, { recover: true });
+  const root = findSSMLElement(nodes, "speak");
+  const content = root ? root.children : nodes;
+  if (!content.some((node) => node.type === "element" && hasTimedContent(node))) {
+    return null;
+  }
+
+  const segments: EmulatedSSMLSegment[] = [];
+  let buffer: SSMLNode[] = [];
+  let bufferRate = 1;
+
+  const flush = () => {
+    if (ssmlToText(buffer)) {
+      const speak = createSSMLElement("speak", root?.attributes ?? {}, buffer);
+      segments.push({ type: "speech", ssml: serializeSSML(speak), rate: bufferRate });
+    }
+    buffer = [];
+  };
+  const append = (node: SSMLNode, rate: number) => {
+    if (rate !== bufferRate) {
+      flush();
+      bufferRate = rate;
+    }
+    buffer.push(node);
+  };
+  const visit = (children: SSMLNode[], rate: number) => {
+    for (const node of children) {
+      if (node.type === "text" || !hasTimedContent(node)) {
+        append(node, rate);
+      } else if (node.name === "break") {
+        flush();
+        const duration = getBreakDuration(node);
+        const last = segments[segments.length - 1];
+        if (last?.type === "pause") {
+          last.duration += duration;
+        } else if (duration > 0) {
+          segments.push({ type: "pause", duration });
+        }
+      } else {
+        // Unwrap the element; a rate change applies to everything inside it
+        visit(node.children, node.name === "prosody" ? rate * getRate(node) : rate);
+        append({ type: "text", value: " " }, rate);
+      }
+    }
+  };
+
+  visit(content, 1);
+  flush();
+  return segments;
+}
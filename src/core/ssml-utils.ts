@@ -1,3 +1,4 @@
+import { parseSSML, ssmlToText } from "../ssml/parser";
 import type { SpeakOptions } from "../types";
 import { SSMLCompatibilityManager } from "./ssml-compatibility.js";
 
@@ -26,10 +27,16 @@ export function validateSSMLForEngine(ssml: string, engine: string, voiceId?: st
  * @param ssml SSML text to process
  * @param engine Target TTS engine
  * @param voiceId Optional voice ID for voice-specific processing
+ * @param lang Language of documents without xml:lang (pass the client's language)
  * @returns Processed SSML compatible with the target engine
  */
-export function processSSMLForEngine(ssml: string, engine: string, voiceId?: string): string {
-  return SSMLCompatibilityManager.processSSMLForEngine(ssml, engine, voiceId);
+export function processSSMLForEngine(
+  ssml: string,
+  engine: string,
+  voiceId?: string,
+  lang?: string
+): string {
+  return SSMLCompatibilityManager.processSSMLForEngine(ssml, engine, voiceId, lang);
 }
 
 /**
@@ -38,21 +45,7 @@ export function processSSMLForEngine(ssml: string, engine: string, voiceId?: str
  * @returns Plain text without SSML tags
  */
 export function stripSSML(ssml: string): string {
-  // Simple implementation - for production, consider using a proper XML parser
-  return ssml
-    .replace(/<speak.*?>/g, "")
-    .replace(/<\/speak>/g, "")
-    .replace(/<break.*?\/>/g, " ")
-    .replace(/<emphasis.*?>(.*?)<\/emphasis>/g, "$1")
-    .replace(/<prosody.*?>(.*?)<\/prosody>/g, "$1")
-    .replace(/<voice.*?>(.*?)<\/voice>/g, "$1")
-    .replace(/<say-as.*?>(.*?)<\/say-as>/g, "$1")
-    .replace(/<phoneme.*?>(.*?)<\/phoneme>/g, "$1")
-    .replace(/<sub.*?>(.*?)<\/sub>/g, "$1")
-    .replace(/<p>(.*?)<\/p>/g, "$1 ")
-    .replace(/<s>(.*?)<\/s>/g, "$1 ")
-    .replace(/\s+/g, " ")
-    .trim();
+  return ssmlToText(parseSSML(ssml, { recover: true }));
 }
 
 /**
@@ -0,0 +1,455 @@
+/**
+ * Persistent synthesis cache
+ *
+ * Stores synthesized audio and word boundaries under a hash of the engine, voice, model,
+ * options and input text, so identical requests are served without calling the provider.
+ * Entries live in a pluggable backend: memory (LRU), IndexedDB (browser) or a directory on
+ * disk (Node, see fs-cache-backend.ts).
+ */
+
+import type { SpeechMarks, VoiceInput, WordBoundary } from "../types";
+
+/**
+ * Cached synthesis result
+ */
+export interface CacheEntry {
+  /**
+   * Audio bytes in the engine's native format
+   */
+  audio: Uint8Array;
+
+  /**
+   * Word boundaries returned with the audio (empty when the engine returned none)
+   */
+  wordBoundaries: WordBoundary[];
+
+  /**
+   * Sentence, SSML mark and viseme timings returned with the audio, if any
+   */
+  speechMarks?: SpeechMarks;
+
+  /**
+   * Time the entry was stored, in milliseconds since the epoch
+   */
+  createdAt: number;
+}
+
+/**
+ * Storage used by a SynthesisCache
+ */
+export interface CacheBackend {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Size limits of a cache backend; the least recently used entries are evicted first
+ */
+export interface CacheLimits {
+  /**
+   * Maximum number of entries
+   */
+  maxEntries?: number;
+
+  /**
+   * Maximum total size of the cached audio in bytes
+   */
+  maxBytes?: number;
+}
+
+/**
+ * Values hashed into a cache key
+ */
+export interface CacheKeyParts {
+  engine: string;
+  voice?: VoiceInput | null;
+  model?: string;
+  options?: Record<string, unknown>;
+  text: string;
+}
+
+/**
+ * Compute the cache key of a synthesis request.
+ * Options are serialised with sorted keys, so the order they were passed in does not matter.
+ * @param parts Engine, voice, model, options and text of the request
+ * @returns Hex encoded SHA-256 hash
+ */
+export async function createCacheKey(parts: CacheKeyParts): Promise<string> {
+  const source = stableStringify([
+    parts.engine,
+    parts.voice ?? "",
+    parts.model ?? "",
+    parts.options ?? {},
+    parts.text,
+  ]);
+  const subtle = (globalThis as any).crypto?.subtle as SubtleCrypto | undefined;
+
+  if (subtle) {
+    const digest = await subtle.digest("SHA-256", new TextEncoder().encode(source));
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join(
+      ""
+    );
+  }
+
+  // WebCrypto is unavailable in insecure browser contexts; fall back to a 53-bit hash
+  return fallbackHash(source);
+}
+
+/**
+ * Copy speech marks, leaving out the kinds that are missing
+ * @param speechMarks Speech marks to copy
+ * @returns Independent copy
+ */
+export function copySpeechMarks(speechMarks: SpeechMarks): SpeechMarks {
+  const copy: SpeechMarks = {};
+  if (speechMarks.sentences) copy.sentences = speechMarks.sentences.map((mark) => ({ ...mark }));
+  if (speechMarks.marks) copy.marks = speechMarks.marks.map((mark) => ({ ...mark }));
+  if (speechMarks.visemes) copy.visemes = speechMarks.visemes.map((mark) => ({ ...mark }));
+  return copy;
+}
+
+/**
+ * Serialise a value to JSON with object keys in sorted order.
+ * Functions, AbortSignals and undefined values are left out.
+ * @param value Value to serialise
+ * @returns JSON string
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (typeof item === "function") {
+      return undefined;
+    }
+    if (typeof AbortSignal !== "undefined" && item instanceof AbortSignal) {
+      return undefined;
+    }
+    if (item && typeof item === "object" && !Array.isArray(item)) {
+      return Object.fromEntries(
+        Object.keys(item)
+          .sort()
+          .map((key) => [key, item[key]])
+      );
+    }
+    return item;
+  });
+}
+
+/**
+ * Non-cryptographic string hash (cyrb53) used when WebCrypto is unavailable
+ * @param text Text to hash
+ * @returns Hex encoded hash
+ */
+function fallbackHash(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, "0");
+}
+
+/**
+ * In-memory cache backend with least-recently-used eviction
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  private entries = new Map<string, CacheEntry>();
+  private totalBytes = 0;
+
+  /**
+   * Create a memory backend
+   * @param limits Size limits (defaults to 500 entries)
+   */
+  constructor(private limits: CacheLimits = { maxEntries: 500 }) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert so the Map order tracks recency
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await this.delete(key);
+    this.entries.set(key, entry);
+    this.totalBytes += entry.audio.byteLength;
+
+    const { maxEntries = Number.POSITIVE_INFINITY, maxBytes = Number.POSITIVE_INFINITY } =
+      this.limits;
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= maxEntries && this.totalBytes <= maxBytes) {
+        break;
+      }
+      await this.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.totalBytes -= entry.audio.byteLength;
+      this.entries.delete(key);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+}
+
+/**
+ * Cache backend that stores entries in IndexedDB (browser only)
+ */
+export class IndexedDBCacheBackend implements CacheBackend {
+  private db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Create an IndexedDB backend
+   * @param databaseName Name of the IndexedDB database
+   * @param limits Size limits (defaults to 100 MB)
+   */
+  constructor(
+    private databaseName = "js-tts-wrapper-cache",
+    private limits: CacheLimits = { maxBytes: 100 * 1024 * 1024 }
+  ) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const store = await this.store("readwrite");
+    const record = await requestToPromise<any>(store.get(key));
+    if (!record) {
+      return undefined;
+    }
+    store.put({ ...record, usedAt: Date.now() });
+    return {
+      audio: new Uint8Array(record.audio),
+      wordBoundaries: record.wordBoundaries,
+      speechMarks: record.speechMarks,
+      createdAt: record.createdAt,
+    };
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const store = await this.store("readwrite");
+    await requestToPromise(
+      store.put({
+        key,
+        audio: entry.audio,
+        wordBoundaries: entry.wordBoundaries,
+        speechMarks: entry.speechMarks,
+        createdAt: entry.createdAt,
+        usedAt: Date.now(),
+        size: entry.audio.byteLength,
+      })
+    );
+    await this.evict();
+  }
+
+  async delete(key: string): Promise<void> {
+    await requestToPromise((await this.store("readwrite")).delete(key));
+  }
+
+  async clear(): Promise<void> {
+    await requestToPromise((await this.store("readwrite")).clear());
+  }
+
+  /**
+   * Delete the least recently used entries until the database is within its limits
+   */
+  private async evict(): Promise<void> {
+    const store = await this.store("readwrite");
+    const records = await requestToPromise<any[]>(store.index("usedAt").getAll());
+
+    const { maxEntries = Number.POSITIVE_INFINITY, maxBytes = Number.POSITIVE_INFINITY } =
+      this.limits;
+    let count = records.length;
+    let totalBytes = records.reduce((sum, record) => sum + record.size, 0);
+    for (const record of records) {
+      if (count <= maxEntries && totalBytes <= maxBytes) {
+        break;
+      }
+      store.delete(record.key);
+      count--;
+      totalBytes -= record.size;
+    }
+  }
+
+  /**
+   * Open a transaction on the entry store
+   * @param mode Transaction mode
+   * @returns Object store
+   */
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    if (!this.db) {
+      const indexedDB = (globalThis as any).indexedDB as IDBFactory | undefined;
+      if (!indexedDB) {
+        throw new Error("IndexedDB is not available in this environment");
+      }
+      const request = indexedDB.open(this.databaseName, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore("entries", { keyPath: "key" });
+        store.createIndex("usedAt", "usedAt");
+      };
+      this.db = requestToPromise(request);
+    }
+    return (await this.db).transaction("entries", mode).objectStore("entries");
+  }
+}
+
+/**
+ * Wait for an IndexedDB request to complete
+ * @param request IndexedDB request
+ * @returns Promise resolving to the request result
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Options for a SynthesisCache
+ */
+export interface SynthesisCacheOptions extends CacheLimits {
+  /**
+   * Storage backend. Defaults to a MemoryCacheBackend using maxEntries / maxBytes.
+   */
+  backend?: CacheBackend;
+
+  /**
+   * Time to live of an entry in milliseconds. Entries never expire by default.
+   */
+  ttlMs?: number;
+}
+
+/**
+ * Synthesis cache used by AbstractTTSClient.
+ * Pass it as the `cache` credential or with setCache() to serve repeated requests from
+ * the cache. Backend errors are logged and treated as cache misses, so a broken cache never
+ * stops synthesis.
+ */
+export class SynthesisCache {
+  private backend: CacheBackend;
+  private ttlMs: number;
+
+  /**
+   * Create a synthesis cache
+   * @param options Backend, TTL and size limits
+   */
+  constructor(options: SynthesisCacheOptions = {}) {
+    const { backend, ttlMs, ...limits } = options;
+    this.backend =
+      backend ?? new MemoryCacheBackend(Object.keys(limits).length ? limits : undefined);
+    this.ttlMs = ttlMs ?? Number.POSITIVE_INFINITY;
+  }
+
+  /**
+   * Look up an entry
+   * @param key Cache key from createCacheKey
+   * @returns Entry, or undefined when it is missing or expired
+   */
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      const entry = await this.backend.get(key);
+      if (entry && Date.now() - entry.createdAt > this.ttlMs) {
+        await this.backend.delete(key);
+        return undefined;
+      }
+      return entry;
+    } catch (error) {
+      console.warn("Synthesis cache lookup failed:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Store audio with its word boundaries and speech marks
+   * @param key Cache key from createCacheKey
+   * @param audio Audio bytes
+   * @param wordBoundaries Word boundaries returned with the audio
+   * @param speechMarks Sentence, SSML mark and viseme timings returned with the audio
+   */
+  async set(
+    key: string,
+    audio: Uint8Array,
+    wordBoundaries: WordBoundary[] = [],
+    speechMarks: SpeechMarks = {}
+  ): Promise<void> {
+    try {
+      await this.backend.set(key, {
+        audio,
+        wordBoundaries: wordBoundaries.map((boundary) => ({ ...boundary })),
+        speechMarks: copySpeechMarks(speechMarks),
+        createdAt: Date.now(),
+      });
+    } catch (error) {
+      console.warn("Synthesis cache write failed:", error);
+    }
+  }
+
+  /**
+   * Remove an entry
+   * @param key Cache key
+   */
+  async delete(key: string): Promise<void> {
+    await this.backend.delete(key);
+  }
+
+  /**
+   * Remove all entries
+   */
+  async clear(): Promise<void> {
+    await this.backend.clear();
+  }
+
+  /**
+   * Pass a synthesis stream through, storing its audio once it has been read to the end.
+   * Streams that are cancelled or fail are not stored.
+   * @param key Cache key
+   * @param stream Audio stream from the engine
+   * @param wordBoundaries Word boundaries returned with the stream (read when the stream ends)
+   * @param speechMarks Speech marks returned with the stream (read when the stream ends)
+   * @returns Stream with the same content
+   */
+  storeStream(
+    key: string,
+    stream: ReadableStream<Uint8Array>,
+    wordBoundaries: WordBoundary[],
+    speechMarks: SpeechMarks = {}
+  ): ReadableStream<Uint8Array> {
+    const reader = stream.getReader();
+    const chunks: Uint8Array[] = [];
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            const audio = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+            let offset = 0;
+            for (const chunk of chunks) {
+              audio.set(chunk, offset);
+              offset += chunk.length;
+            }
+            await this.set(key, audio, wordBoundaries, speechMarks);
+            controller.close();
+            return;
+          }
+          chunks.push(value);
+          controller.enqueue(value);
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      cancel: (reason) => reader.cancel(reason),
+    });
+  }
+}
@@ -0,0 +1,348 @@
+/**
+ * Split long text or SSML into chunks that fit an engine's per-request character limit
+ *
+ * Plain text is split on paragraph and sentence boundaries. SSML is split on element
+ * boundaries (preferring `<p>` and `<s>`), and every chunk is wrapped in the original
+ * `<speak>` tag together with any enclosing elements, so each chunk stays valid SSML.
+ */
+
+import { isSSML } from "./ssml-utils";
+
+/**
+ * Sentence ending: terminal punctuation (optionally followed by closing quotes/brackets)
+ * and whitespace
+ */
+const SENTENCE_END = /(?<=[.!?。！？…]["'”’)\]]*)\s+/;
+
+/**
+ * Clause ending, used when a single sentence is longer than the limit
+ */
+const CLAUSE_END = /(?<=[,;:、，；])\s+/;
+
+/**
+ * Split text or SSML into chunks of at most `maxLength` characters
+ * @param text Plain text or SSML
+ * @param maxLength Maximum chunk length in characters
+ * @returns Chunks in reading order
+ */
+export function splitTextIntoChunks(text: string, maxLength: number): string[] {
+  if (!(maxLength > 0)) {
+    throw new Error("maxLength must be a positive number");
+  }
+  if (text.length <= maxLength) {
+    return [text];
+  }
+  return isSSML(text) ? splitSSML(text.trim(), maxLength) : splitPlainText(text, maxLength);
+}
+
+/**
+ * Collect text fragments, such as LLM tokens, into sentences.
+ * A sentence is complete once the whitespace after its terminal punctuation (or a paragraph
+ * break) has arrived; the remaining text is yielded when the fragments end.
+ * @param fragments Text fragments in order
+ * @returns Async generator of trimmed sentences
+ */
+export async function* bufferSentences(fragments: AsyncIterable<string>): AsyncGenerator<string> {
+  const boundary = new RegExp(`${SENTENCE_END.source}|\\n\\s*\\n`);
+  let buffer = "";
+
+  for await (const fragment of fragments) {
+    buffer += fragment;
+    let match = boundary.exec(buffer);
+    while (match) {
+      const sentence = buffer.slice(0, match.index).trim();
+      buffer = buffer.slice(match.index + match[0].length);
+      if (sentence) {
+        yield sentence;
+      }
+      match = boundary.exec(buffer);
+    }
+  }
+
+  const rest = buffer.trim();
+  if (rest) {
+    yield rest;
+  }
+}
+
+/**
+ * Split plain text on paragraphs, then sentences, then clauses and words
+ * @param text Plain text
+ * @param maxLength Maximum chunk length
+ * @returns Chunks
+ */
+function splitPlainText(text: string, maxLength: number): string[] {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+  const pieces = paragraphs.flatMap((paragraph) =>
+    (paragraph.length <= maxLength ? [paragraph] : splitSentences(paragraph, maxLength)).map(
+      (piece, index) => ({ piece, separator: index === 0 ? "\n\n" : " " })
+    )
+  );
+
+  // Keep paragraph breaks inside a chunk; join sentences with a space
+  const chunks: string[] = [];
+  let current = "";
+  for (const { piece, separator } of pieces) {
+    const candidate = current ? `${current}${separator}${piece}` : piece;
+    if (candidate.length <= maxLength) {
+      current = candidate;
+    } else {
+      if (current) {
+        chunks.push(current);
+      }
+      current = piece;
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Split a paragraph into sentence-sized pieces of at most `maxLength` characters
+ * @param text Paragraph
+ * @param maxLength Maximum piece length
+ * @returns Pieces
+ */
+function splitSentences(text: string, maxLength: number): string[] {
+  return text
+    .split(SENTENCE_END)
+    .flatMap((sentence) =>
+      sentence.length <= maxLength ? [sentence] : splitByPattern(sentence, CLAUSE_END, maxLength)
+    )
+    .flatMap((piece) => (piece.length <= maxLength ? [piece] : splitWords(piece, maxLength)));
+}
+
+/**
+ * Split on a separator pattern and pack the parts into pieces of at most `maxLength`
+ * @param text Text to split
+ * @param pattern Separator
+ * @param maxLength Maximum piece length
+ * @returns Pieces (a part longer than maxLength is returned on its own)
+ */
+function splitByPattern(text: string, pattern: RegExp, maxLength: number): string[] {
+  return pack(text.split(pattern), " ", maxLength);
+}
+
+/**
+ * Split on whitespace, cutting words that are longer than `maxLength`
+ * @param text Text to split
+ * @param maxLength Maximum piece length
+ * @returns Pieces
+ */
+function splitWords(text: string, maxLength: number): string[] {
+  const words = text.split(/\s+/).flatMap((word) => {
+    const parts: string[] = [];
+    for (let i = 0; i < word.length; i += maxLength) {
+      parts.push(word.slice(i, i + maxLength));
+    }
+    return parts;
+  });
+  return pack(words, " ", maxLength);
+}
+
+/**
+ * Greedily join parts into pieces of at most `maxLength` characters
+ * @param parts Parts in order
+ * @param separator Separator placed between joined parts
+ * @param maxLength Maximum piece length
+ * @returns Pieces
+ */
+function pack(parts: string[], separator: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+  for (const part of parts.filter(Boolean)) {
+    const candidate = current ? `${current}${separator}${part}` : part;
+    if (candidate.length <= maxLength || !current) {
+      current = candidate;
+    } else {
+      pieces.push(current);
+      current = part;
+    }
+  }
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+/**
+ * Top-level node of an SSML fragment
+ */
+interface SSMLNode {
+  /**
+   * Full markup of the node
+   */
+  markup: string;
+
+  /**
+   * Opening tag, for elements with content
+   */
+  open?: string;
+
+  /**
+   * Closing tag, for elements with content
+   */
+  close?: string;
+
+  /**
+   * Inner markup, for elements with content
+   */
+  inner?: string;
+}
+
+/**
+ * Split an SSML document, keeping the `<speak>` wrapper on every chunk
+ * @param ssml SSML document
+ * @param maxLength Maximum chunk length
+ * @returns SSML chunks
+ */
+function splitSSML(ssml: string, maxLength: number): string[] {
+  const open = ssml.match(/^<speak\b[^>]*>/)?.[0] ?? "<speak>";
+  const inner = ssml.slice(open.length, ssml.length - "</speak>".length);
+  return splitSSMLContent(inner, open, "</speak>", maxLength);
+}
+
+/**
+ * Split SSML content that will be wrapped in the given tags
+ * @param content Inner markup
+ * @param open Opening tags wrapped around every chunk
+ * @param close Closing tags wrapped around every chunk
+ * @param maxLength Maximum chunk length, including the wrapping tags
+ * @returns Wrapped chunks
+ */
+function splitSSMLContent(
+  content: string,
+  open: string,
+  close: string,
+  maxLength: number
+): string[] {
+  const budget = maxLength - open.length - close.length;
+  if (budget <= 0) {
+    throw new Error(`maxLength ${maxLength} is too small for the SSML markup`);
+  }
+
+  const chunks: string[] = [];
+  let current = "";
+  const flush = () => {
+    if (current.trim()) {
+      chunks.push(`${open}${current.trim()}${close}`);
+    }
+    current = "";
+  };
+
+  for (const node of parseSSMLNodes(content)) {
+    if (current.length + node.markup.length <= budget) {
+      current += node.markup;
+      continue;
+    }
+    flush();
+
+    if (node.markup.length <= budget) {
+      current = node.markup;
+    } else if (node.open && node.close && node.inner !== undefined) {
+      // Split inside the element and repeat its tags around each part
+      chunks.push(
+        ...splitSSMLContent(node.inner, `${open}${node.open}`, `${node.close}${close}`, maxLength)
+      );
+    } else if (node.open) {
+      throw new Error(`SSML element is longer than maxLength ${maxLength}: ${node.open}`);
+    } else {
+      // Plain text between elements
+      for (const piece of splitSentences(node.markup.trim(), budget)) {
+        chunks.push(`${open}${piece}${close}`);
+      }
+    }
+  }
+  flush();
+  return chunks;
+}
+
+/**
+ * Parse SSML content into its top-level text runs and elements.
+ * Text is further split into sentences, so it can be divided between chunks.
+ * @param content Inner markup
+ * @returns Top-level nodes
+ */
+function parseSSMLNodes(content: string): SSMLNode[] {
+  const nodes: SSMLNode[] = [];
+  const tag = /<(\/?)([\w:-]+)[^>]*?(\/?)>/g;
+  let index = 0;
+
+  while (index < content.length) {
+    tag.lastIndex = index;
+    const match = tag.exec(content);
+    const textEnd = match ? match.index : content.length;
+
+    if (textEnd > index) {
+      // Split text runs into sentences, keeping the whitespace with the sentence before it
+      const text = content.slice(index, textEnd);
+      const sentences = text.split(new RegExp(`(${SENTENCE_END.source})`));
+      for (let i = 0; i < sentences.length; i += 2) {
+        const markup = sentences[i] + (sentences[i + 1] ?? "");
+        if (markup) {
+          nodes.push({ markup });
+        }
+      }
+    }
+    if (!match) {
+      break;
+    }
+
+    const [openTag, isClosing, name, selfClosing] = match;
+    if (isClosing) {
+      // Stray closing tag; keep it as text so no markup is lost
+      nodes.push({ markup: openTag });
+      index = match.index + openTag.length;
+      continue;
+    }
+    if (selfClosing) {
+      nodes.push({ markup: openTag, open: openTag });
+      index = match.index + openTag.length;
+      continue;
+    }
+
+    // Find the matching closing tag, accounting for nested elements of the same name
+    const end = findClosingTag(content, name, match.index + openTag.length);
+    const closeTag = `</${name}>`;
+    nodes.push({
+      markup: content.slice(match.index, end + closeTag.length),
+      open: openTag,
+      close: closeTag,
+      inner: content.slice(match.index + openTag.length, end),
+    });
+    index = end + closeTag.length;
+  }
+
+  return nodes;
+}
+
+/**
+ * Find the closing tag of an element
+ * @param content Markup
+ * @param name Element name
+ * @param from Index just after the opening tag
+ * @returns Index of the closing tag
+ */
+function findClosingTag(content: string, name: string, from: number): number {
+  const tags = new RegExp(`<(/?)${name}\\b[^>]*?(/?)>`, "g");
+  tags.lastIndex = from;
+  let depth = 1;
+  let match = tags.exec(content);
+  while (match) {
+    if (match[1]) {
+      depth--;
+      if (depth === 0) {
+        return match.index;
+      }
+    } else if (!match[2]) {
+      depth++;
+    }
+    match = tags.exec(content);
+  }
+  throw new Error(`Unclosed SSML element <${name}>`);
+}
@@ -0,0 +1,315 @@
+/**
+ * Visemes
+ *
+ * Engines describe mouth shapes in their own symbols (Azure uses viseme IDs, Polly uses
+ * phoneme-like letters). They are all mapped to the 22 visemes of Microsoft SAPI, which Azure
+ * also uses, so one avatar rig works with every engine. Engines without viseme output get an
+ * estimate from the phonemes of each word, spread over its word boundary: eSpeak's IPA where
+ * the engine can transcribe text, otherwise phonemes guessed from the spelling (English only).
+ */
+
+import type { Viseme, VisemeShape, WordBoundary } from "../types";
+
+/**
+ * Shapes of the common viseme set, indexed by viseme ID.
+ * Each shape is named after the first phoneme of its group.
+ */
+export const VISEME_SHAPES: readonly VisemeShape[] = [
+  "sil", // 0: silence
+  "ae", // 1: æ ə ʌ
+  "aa", // 2: ɑ
+  "ao", // 3: ɔ
+  "eh", // 4: ɛ ʊ eɪ
+  "er", // 5: ɝ
+  "iy", // 6: j i ɪ
+  "uw", // 7: w u
+  "ow", // 8: o
+  "aw", // 9: aʊ
+  "oy", // 10: ɔɪ
+  "ay", // 11: aɪ
+  "h", // 12: h
+  "r", // 13: ɹ
+  "l", // 14: l
+  "s", // 15: s z
+  "sh", // 16: ʃ tʃ dʒ ʒ
+  "th", // 17: θ ð
+  "f", // 18: f v
+  "d", // 19: t d n
+  "k", // 20: k g ŋ
+  "p", // 21: p b m
+];
+
+/**
+ * Polly viseme symbols and their viseme IDs
+ */
+const POLLY_VISEMES: Record<string, number> = {
+  sil: 0,
+  "@": 1,
+  a: 2,
+  O: 3,
+  e: 4,
+  E: 5,
+  i: 6,
+  u: 7,
+  o: 8,
+  r: 13,
+  s: 15,
+  S: 16,
+  T: 17,
+  f: 18,
+  t: 19,
+  k: 20,
+  p: 21,
+};
+
+/**
+ * IPA phonemes and their viseme IDs, following the groups of VISEME_SHAPES.
+ * Diphthongs and affricates are listed as single phonemes.
+ */
+const PHONEME_VISEMES: Record<string, number> = {
+  æ: 1,
+  ə: 1,
+  ʌ: 1,
+  ɐ: 1,
+  a: 2,
+  ɑ: 2,
+  ɒ: 3,
+  ɔ: 3,
+  ɛ: 4,
+  e: 4,
+  ʊ: 4,
+  eɪ: 4,
+  ɜ: 5,
+  ɝ: 5,
+  ɚ: 5,
+  j: 6,
+  i: 6,
+  ɪ: 6,
+  ɨ: 6,
+  y: 6,
+  w: 7,
+  u: 7,
+  ʉ: 7,
+  o: 8,
+  oʊ: 8,
+  əʊ: 8,
+  aʊ: 9,
+  ɔɪ: 10,
+  aɪ: 11,
+  h: 12,
+  ɹ: 13,
+  r: 13,
+  ɾ: 19,
+  l: 14,
+  ɫ: 14,
+  s: 15,
+  z: 15,
+  ʃ: 16,
+  ʒ: 16,
+  tʃ: 16,
+  dʒ: 16,
+  θ: 17,
+  ð: 17,
+  f: 18,
+  v: 18,
+  t: 19,
+  d: 19,
+  n: 19,
+  k: 20,
+  g: 20,
+  ɡ: 20,
+  ŋ: 20,
+  x: 20,
+  p: 21,
+  b: 21,
+  m: 21,
+};
+
+/**
+ * Spellings and the IPA phonemes they are usually pronounced with, longest first.
+ * A rough English grapheme-to-phoneme fallback for engines that cannot transcribe text.
+ */
+const SPELLING_PHONEMES: Array<[string, string[]]> = [
+  ["tch", ["tʃ"]],
+  ["igh", ["aɪ"]],
+  ["sh", ["ʃ"]],
+  ["ch", ["tʃ"]],
+  ["th", ["θ"]],
+  ["ph", ["f"]],
+  ["ng", ["ŋ"]],
+  ["ck", ["k"]],
+  ["qu", ["k", "w"]],
+  ["wh", ["w"]],
+  ["gh", []],
+  ["ee", ["i"]],
+  ["ea", ["i"]],
+  ["ie", ["i"]],
+  ["oo", ["u"]],
+  ["ou", ["aʊ"]],
+  ["ow", ["aʊ"]],
+  ["oi", ["ɔɪ"]],
+  ["oy", ["ɔɪ"]],
+  ["ai", ["eɪ"]],
+  ["ay", ["eɪ"]],
+  ["ey", ["eɪ"]],
+  ["au", ["ɔ"]],
+  ["aw", ["ɔ"]],
+  ["oa", ["o"]],
+  ["er", ["ɝ"]],
+  ["ir", ["ɝ"]],
+  ["ur", ["ɝ"]],
+  ["ar", ["ɑ"]],
+  ["or", ["ɔ"]],
+  ["a", ["æ"]],
+  ["e", ["ɛ"]],
+  ["i", ["ɪ"]],
+  ["o", ["o"]],
+  ["u", ["ʌ"]],
+  ["y", ["i"]],
+  ["b", ["b"]],
+  ["m", ["m"]],
+  ["p", ["p"]],
+  ["d", ["d"]],
+  ["n", ["n"]],
+  ["t", ["t"]],
+  ["f", ["f"]],
+  ["v", ["v"]],
+  ["c", ["k"]],
+  ["g", ["g"]],
+  ["k", ["k"]],
+  ["q", ["k"]],
+  ["x", ["k", "s"]],
+  ["s", ["s"]],
+  ["z", ["z"]],
+  ["j", ["dʒ"]],
+  ["h", ["h"]],
+  ["r", ["ɹ"]],
+  ["l", ["l"]],
+  ["w", ["w"]],
+];
+
+/**
+ * Create a viseme of the common set
+ * @param id Viseme ID (0-21)
+ * @param offset Time offset in milliseconds
+ * @returns Viseme with its shape
+ */
+export function createViseme(id: number, offset: number): Viseme {
+  return { id, offset, shape: VISEME_SHAPES[id] ?? "sil" };
+}
+
+/**
+ * Map an Amazon Polly viseme speech mark to the common set
+ * @param value Polly viseme symbol
+ * @param offset Time offset in milliseconds
+ * @returns Viseme of the common set (silence for unknown symbols)
+ */
+export function visemeFromPolly(value: string, offset: number): Viseme {
+  return createViseme(POLLY_VISEMES[value] ?? 0, offset);
+}
+
+/**
+ * Split IPA into phonemes, dropping stress, length and other marks that do not change the
+ * mouth shape
+ * @param ipa IPA transcription, optionally with phonemes separated by "_" (as eSpeak writes them)
+ * @returns Phonemes in order
+ */
+export function splitPhonemes(ipa: string): string[] {
+  const symbols = ipa.normalize("NFC").replace(/[ˈˌːˑ\u0361\u035C\u200D]/g, "");
+  const phonemes: string[] = [];
+
+  let index = 0;
+  while (index < symbols.length) {
+    const pair = symbols.slice(index, index + 2);
+    if (pair.length === 2 && PHONEME_VISEMES[pair] !== undefined) {
+      phonemes.push(pair);
+      index += 2;
+    } else {
+      if (/\S/.test(symbols[index]) && symbols[index] !== "_") {
+        phonemes.push(symbols[index]);
+      }
+      index++;
+    }
+  }
+
+  return phonemes;
+}
+
+/**
+ * Map phonemes to viseme IDs
+ * @param phonemes IPA phonemes, as returned by splitPhonemes
+ * @returns Viseme IDs in order, with repeated shapes merged (unknown phonemes are skipped)
+ */
+export function phonemesToVisemeIds(phonemes: string[]): number[] {
+  const ids: number[] = [];
+  for (const phoneme of phonemes) {
+    const id = PHONEME_VISEMES[phoneme];
+    if (id !== undefined && ids[ids.length - 1] !== id) {
+      ids.push(id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Guess the phonemes of a word from its spelling. This is a fallback for engines that cannot
+ * transcribe text: it only knows common English spellings.
+ * @param word Word to transcribe
+ * @returns IPA phonemes in order
+ */
+function spellingToPhonemes(word: string): string[] {
+  // A final silent "e" ("make", "hope") does not move the mouth
+  const letters = word
+    .toLowerCase()
+    .replace(/[^a-z]/g, "")
+    .replace(/([aeiouy][^aeiouy])e$/, "$1");
+  const phonemes: string[] = [];
+
+  let index = 0;
+  while (index < letters.length) {
+    const rule = SPELLING_PHONEMES.find(([spelling]) => letters.startsWith(spelling, index));
+    if (!rule) {
+      index++;
+      continue;
+    }
+    phonemes.push(...rule[1]);
+    index += rule[0].length;
+  }
+
+  return phonemes;
+}
+
+/**
+ * Estimate visemes from word boundaries
+ *
+ * The visemes of each word come from its phonemes and are spread evenly over the word.
+ * Words without phonemes (or all words, when none are given) fall back to phonemes guessed
+ * from their spelling, which is only tuned for English. The mouth closes between words that
+ * are not adjacent and after the last word.
+ *
+ * @param wordBoundaries Word boundaries with times in milliseconds
+ * @param phonemes IPA phonemes of each word, in the same order as the word boundaries
+ * @returns Estimated visemes in time order
+ */
+export function estimateVisemes(wordBoundaries: WordBoundary[], phonemes?: string[][]): Viseme[] {
+  const visemes: Viseme[] = [];
+
+  wordBoundaries.forEach((boundary, index) => {
+    const wordPhonemes = phonemes?.[index]?.length
+      ? phonemes[index]
+      : spellingToPhonemes(boundary.text);
+    const ids = phonemesToVisemeIds(wordPhonemes);
+    const step = ids.length > 0 ? boundary.duration / ids.length : 0;
+    ids.forEach((id, position) => {
+      visemes.push(createViseme(id, Math.round(boundary.offset + position * step)));
+    });
+
+    const end = boundary.offset + boundary.duration;
+    const next = wordBoundaries[index + 1];
+    if (ids.length > 0 && (!next || next.offset > end)) {
+      visemes.push(createViseme(0, Math.round(end)));
+    }
+  });
+
+  return visemes;
+}
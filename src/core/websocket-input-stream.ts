@@ -0,0 +1,228 @@
+/**
+ * WebSocket input streams
+ *
+ * Engines with a streaming-input WebSocket (ElevenLabs, Cartesia) take text in fragments and
+ * send audio back while more text is written. This base class handles what they have in
+ * common: the audio stream, closing and aborting, and failing the stream when the connection
+ * drops. Subclasses build the messages of their service and handle its replies.
+ */
+
+import type { WordBoundary } from "../types";
+import { createAbortError } from "../utils/abort-utils";
+import { WEBSOCKET_OPEN, type WebSocketLike } from "../utils/websocket";
+import { TTSError, TTSNetworkError } from "./errors";
+
+/**
+ * Service an input stream talks to
+ */
+export interface InputStreamService {
+  /**
+   * Display name used in error messages, e.g. "ElevenLabs"
+   */
+  name: string;
+
+  /**
+   * Provider reported with errors, e.g. "elevenlabs"
+   */
+  provider: string;
+}
+
+/**
+ * Text input stream over an open TTS WebSocket
+ */
+export abstract class WebSocketInputStream {
+  /**
+   * Audio received so far, ending after close()
+   */
+  readonly audioStream: ReadableStream<Uint8Array>;
+
+  /**
+   * Word boundaries of the audio received so far, in milliseconds
+   */
+  readonly wordBoundaries: WordBoundary[] = [];
+
+  /**
+   * Whether no more text can be written
+   */
+  protected closed = false;
+
+  /**
+   * Whether the audio stream has ended
+   */
+  protected finished = false;
+
+  private done: Promise<void>;
+  private resolveDone: () => void = () => {};
+  private rejectDone: (error: Error) => void = () => {};
+  private controller!: ReadableStreamDefaultController<Uint8Array>;
+
+  /**
+   * Create an input stream on an open connection
+   * @param socket Open WebSocket
+   * @param service Service the socket is connected to
+   * @param signal Optional AbortSignal that ends the stream
+   */
+  constructor(
+    protected socket: WebSocketLike,
+    protected service: InputStreamService,
+    signal?: AbortSignal
+  ) {
+    this.done = new Promise<void>((resolve, reject) => {
+      this.resolveDone = resolve;
+      this.rejectDone = reject;
+    });
+    // Failures are reported through audioStream as well
+    this.done.catch(() => {});
+
+    this.audioStream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this.controller = controller;
+      },
+      cancel: () => {
+        this.finished = true;
+        this.closed = true;
+        this.resolveDone();
+        socket.close();
+      },
+    });
+
+    socket.onmessage = ({ data }) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(String(data));
+      } catch (error) {
+        console.error(`Error parsing ${service.name} message:`, error);
+        return;
+      }
+      this.handleMessage(message);
+    };
+
+    socket.onerror = () => {
+      this.finish(
+        new TTSNetworkError(`${service.name} WebSocket connection failed`, {
+          provider: service.provider,
+        })
+      );
+    };
+
+    socket.onclose = ({ code, reason }) => this.handleClose(code, reason);
+
+    signal?.addEventListener("abort", () => this.handleAbort(signal), { once: true });
+  }
+
+  /**
+   * Send a text fragment. Fragments are joined as they are, so keep the spaces between words.
+   * @param text Text fragment
+   */
+  write(text: string): void {
+    if (this.closed) {
+      throw new Error(`Cannot write to a closed ${this.service.name} input stream`);
+    }
+    // An empty text message would end the stream
+    if (text) {
+      this.send(this.createTextMessage(text, false));
+    }
+  }
+
+  /**
+   * End the stream. The remaining text is synthesized before audioStream ends.
+   * @returns Promise resolving once the last audio has been received
+   */
+  close(): Promise<void> {
+    if (!this.closed) {
+      this.closed = true;
+      try {
+        this.send(this.createTextMessage("", true));
+      } catch (error) {
+        this.finish(error as Error);
+      }
+    }
+    return this.done;
+  }
+
+  /**
+   * Close the connection without synthesizing the remaining text; audioStream fails with the reason
+   * @param reason Why the stream was aborted
+   */
+  abort(reason?: unknown): void {
+    this.finish(
+      reason instanceof Error ? reason : new Error(String(reason ?? "Input stream aborted"))
+    );
+  }
+
+  /**
+   * Create the message that sends a text fragment
+   * @param text Text fragment (empty for the last message)
+   * @param last Whether the message ends the stream
+   * @returns Message to send as JSON
+   */
+  protected abstract createTextMessage(text: string, last: boolean): Record<string, unknown>;
+
+  /**
+   * Handle a message from the service
+   * @param message Parsed JSON message
+   */
+  protected abstract handleMessage(message: unknown): void;
+
+  /**
+   * Handle the connection closing. A close before the stream has finished is an error.
+   * @param code Close code
+   * @param reason Close reason
+   */
+  protected handleClose(code: number, reason: string): void {
+    this.finish(
+      new TTSError(
+        `${this.service.name} closed the WebSocket (code ${code}${reason ? `: ${reason}` : ""})`,
+        { provider: this.service.provider, responseBody: reason || undefined }
+      )
+    );
+  }
+
+  /**
+   * Handle the AbortSignal of the stream
+   * @param signal Aborted signal
+   */
+  protected handleAbort(signal: AbortSignal): void {
+    this.finish(createAbortError(signal));
+  }
+
+  /**
+   * Add audio to audioStream, unless it has ended
+   * @param audio Audio bytes
+   */
+  protected enqueue(audio: Uint8Array): void {
+    if (!this.finished) {
+      this.controller.enqueue(audio);
+    }
+  }
+
+  /**
+   * End audioStream and close the connection
+   * @param error Error to fail the stream with; the stream ends normally without one
+   */
+  protected finish(error?: Error): void {
+    if (this.finished) return;
+    this.finished = true;
+    this.closed = true;
+    if (error) {
+      this.controller.error(error);
+      this.rejectDone(error);
+    } else {
+      this.controller.close();
+      this.resolveDone();
+    }
+    this.socket.close();
+  }
+
+  /**
+   * Send a message on the connection
+   * @param message Message to send as JSON
+   * @throws Error when the connection is not open
+   */
+  protected send(message: Record<string, unknown>): void {
+    if (this.socket.readyState !== WEBSOCKET_OPEN) {
+      throw new Error(`Cannot send to ${this.service.name}: the WebSocket is not open`);
+    }
+    this.socket.send(JSON.stringify(message));
+  }
+}
@@ -1,7 +1,31 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { createHttpError, TTSError, TTSNetworkError } from "../core/errors";
+import type { Lexicon } from "../core/lexicon";
 import * as SSMLUtils from "../core/ssml-utils";
+import { createViseme } from "../core/visemes";
 import * as SpeechMarkdown from "../markdown/converter";
-import type { SpeakOptions, TTSCredentials, UnifiedVoice, WordBoundaryCallback } from "../types";
+import {
+  createSSMLElement,
+  findSSMLElement,
+  parseSSML,
+  type SSMLElement,
+  serializeSSML,
+  walkSSML,
+} from "../ssml/parser";
+import type {
+  SentenceBoundary,
+  SpeakOptions,
+  SpeechMarks,
+  SSMLMark,
+  TTSCredentials,
+  UnifiedVoice,
+  Viseme,
+  WordBoundary,
+  WordBoundaryCallback,
+} from "../types";
+import { abortableStream, raceWithAbort } from "../utils/abort-utils";
+import { loadWebSocket, openWebSocket, type WebSocketLike } from "../utils/websocket";
 
 // SDK will be loaded dynamically
 
@@ -11,14 +35,87 @@ import type { SpeakOptions, TTSCredentials, UnifiedVoice, WordBoundaryCallback }
 export interface AzureTTSCredentials extends TTSCredentials {
   subscriptionKey: string;
   region: string;
+  /**
+   * WebSocket endpoint for synthesis (defaults to
+   * wss://{region}.tts.speech.microsoft.com/cognitiveservices/websocket/v1)
+   */
+  websocketEndpoint?: string;
+}
+
+/**
+ * Metadata message of the Azure WebSocket protocol (offsets and durations in 100-nanosecond ticks)
+ */
+interface AzureMetadata {
+  Type: string;
+  Data: {
+    Offset: number;
+    Duration?: number;
+    text?: { Text: string };
+    VisemeId?: number;
+    Bookmark?: string;
+  };
+}
+
+/**
+ * Create a text message of the Azure WebSocket protocol
+ * @param path Message path, e.g. "ssml"
+ * @param requestId Request ID shared by all messages of one synthesis
+ * @param contentType Content type of the body
+ * @param body Message body
+ * @returns Headers and body separated by a blank line
+ */
+function createAzureMessage(
+  path: string,
+  requestId: string,
+  contentType: string,
+  body: string
+): string {
+  return [
+    `Path: ${path}`,
+    `X-RequestId: ${requestId}`,
+    `X-Timestamp: ${new Date().toISOString()}`,
+    `Content-Type: ${contentType}`,
+    "",
+    body,
+  ].join("\r\n");
+}
+
+/**
+ * Parse the headers of an Azure WebSocket message
+ * @param text Header lines
+ * @returns Headers with lower-case names
+ */
+function parseAzureHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split("\r\n")) {
+    const separator = line.indexOf(":");
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+    }
+  }
+  return headers;
+}
+
+/**
+ * Create a request ID (32 hex digits, as the service expects)
+ * @returns Request ID
+ */
+function createRequestId(): string {
+  if (typeof globalThis.crypto?.randomUUID === "function") {
+    return globalThis.crypto.randomUUID().replace(/-/g, "");
+  }
+  return Array.from({ length: 32 }, () => Math.floor(Math.random() * 16).toString(16)).join("");
 }
 
 /**
  * Azure TTS Client
  */
 export class AzureTTSClient extends AbstractTTSClient {
+  readonly engineName = "azure";
+
   private subscriptionKey: string;
   private region: string;
+  private websocketEndpoint: string;
   private sdk: any = null; // Store loaded SDK instance
   private sdkLoadingPromise: Promise<any> | null = null; // Track loading
 
@@ -28,10 +125,15 @@ export class AzureTTSClient extends AbstractTTSClient {
    */
   constructor(credentials: AzureTTSCredentials) {
     super(credentials);
-    this._models = [{ id: "azure", features: ["streaming", "ssml", "word-boundary-events"] }];
+    this._models = [
+      { id: "azure", features: ["streaming", "ssml", "word-boundary-events", "visemes"] },
+    ];
     // Type assertion is safe here due to the AzureTTSCredentials interface
     this.subscriptionKey = credentials.subscriptionKey as string;
     this.region = credentials.region as string;
+    this.websocketEndpoint =
+      credentials.websocketEndpoint ||
+      `wss://${this.region}.tts.speech.microsoft.com/cognitiveservices/websocket/v1`;
 
     // Set a default voice for Azure TTS
     this.voiceId = "en-US-AriaNeural";
@@ -71,7 +173,7 @@ export class AzureTTSClient extends AbstractTTSClient {
    */
   protected async _getVoices(): Promise<any[]> {
     try {
-      const response = await fetch(
+      const response = await this.fetchWithRetry(
         `https://${this.region}.tts.speech.microsoft.com/cognitiveservices/voices/list`,
         {
           method: "GET",
@@ -82,7 +184,10 @@ export class AzureTTSClient extends AbstractTTSClient {
       );
 
       if (!response.ok) {
-        throw new Error(`Failed to fetch voices: ${response.statusText}`);
+        throw createHttpError(`Failed to fetch voices: ${response.statusText}`, {
+          provider: "azure",
+          statusCode: response.status,
+        });
       }
 
       return await response.json();
@@ -120,14 +225,14 @@ export class AzureTTSClient extends AbstractTTSClient {
    * @param options Synthesis options
    * @returns Promise resolving to audio bytes
    */
-  async synthToBytes(text: string, options?: AzureTTSOptions): Promise<Uint8Array> {
+  protected async _synthToBytes(text: string, options?: AzureTTSOptions): Promise<Uint8Array> {
     const ssml = await this.prepareSSML(text, options);
     console.debug(
-      `${this.constructor.name}.synthToBytes - TTS text ${ssml}, Options: ${JSON.stringify(options)}`
+      `${this.engineName}.synthToBytes - TTS text ${ssml}, Options: ${JSON.stringify(options)}`
     );
 
     try {
-      const response = await fetch(
+      const response = await this.fetchWithRetry(
         `https://${this.region}.tts.speech.microsoft.com/cognitiveservices/v1`,
         {
           method: "POST",
@@ -141,11 +246,22 @@ export class AzureTTSClient extends AbstractTTSClient {
             "User-Agent": "js-tts-wrapper",
           },
           body: ssml,
+          signal: options?.signal,
         }
       );
 
       if (!response.ok) {
-        throw new Error(`Failed to synthesize speech: ${response.statusText}`);
+        const errorText = await response.text().catch(() => "");
+        throw createHttpError(
+          `Failed to synthesize speech: ${response.statusText}`,
+          {
+            provider: "azure",
+            statusCode: response.status,
+            voiceId: this.resolveVoiceId(options?.voice),
+            responseBody: errorText,
+          },
+          response.headers
+        );
       }
 
       const arrayBuffer = await response.arrayBuffer();
@@ -158,35 +274,235 @@ export class AzureTTSClient extends AbstractTTSClient {
 
   /**
    * Synthesize text to a byte stream with word boundary information
+   *
+   * Word boundaries, bookmarks and visemes come from the Azure WebSocket protocol. The Speech
+   * SDK is used where no WebSocket implementation is available, and the REST API (which has no
+   * word boundaries) when word boundaries are not requested.
    * @param text Text or SSML to synthesize
    * @param options Synthesis options
-   * @returns Promise resolving to an object containing the audio stream and word boundary information
+   * @returns Promise resolving to an object containing the audio stream, word boundary information
+   *          and speech marks
    */
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options?: AzureTTSOptions
-  ): Promise<{
-    audioStream: ReadableStream<Uint8Array>;
-    wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
-  }> {
+  ): Promise<
+    {
+      audioStream: ReadableStream<Uint8Array>;
+      wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
+    } & SpeechMarks
+  > {
     const ssml = await this.prepareSSML(text, options);
     const useWordBoundary = options?.useWordBoundary !== false; // Default to true
 
-    // Attempt to load SDK (Node or Browser) if word boundaries requested
-    let sdkInstance: any = null;
     if (useWordBoundary) {
-      sdkInstance = await this.loadSDK();
-    }
+      if (await loadWebSocket()) {
+        return this.synthToBytestreamWithWebSocket(ssml, options);
+      }
 
-    // If the SDK is available and word boundary information is requested, use the SDK
-    if (sdkInstance && useWordBoundary) {
-      return this.synthToBytestreamWithSDK(ssml, options, sdkInstance);
+      // Attempt to load SDK (Node or Browser)
+      const sdkInstance = await this.loadSDK();
+      if (sdkInstance) {
+        return this.synthToBytestreamWithSDK(ssml, options, sdkInstance);
+      }
     }
 
     // Otherwise, fall back to the REST API (which doesn't provide word boundaries)
     return this.synthToBytestreamWithREST(ssml, options);
   }
 
+  /**
+   * Synthesize speech over the Azure WebSocket protocol
+   *
+   * The audio stream is returned as soon as the request is sent. Word boundaries, sentences,
+   * bookmarks and visemes are added to the returned arrays as their metadata messages arrive,
+   * which is ahead of the audio they describe.
+   * @param ssml SSML to synthesize
+   * @param options Synthesis options
+   * @returns Promise resolving to the audio stream with word boundaries and speech marks
+   */
+  private async synthToBytestreamWithWebSocket(
+    ssml: string,
+    options?: AzureTTSOptions
+  ): Promise<{
+    audioStream: ReadableStream<Uint8Array>;
+    wordBoundaries: WordBoundary[];
+    sentences: SentenceBoundary[];
+    marks: SSMLMark[];
+    visemes: Viseme[];
+  }> {
+    const connectionId = createRequestId();
+    const url = `${this.websocketEndpoint}?Ocp-Apim-Subscription-Key=${encodeURIComponent(
+      this.subscriptionKey
+    )}&X-ConnectionId=${connectionId}`;
+    const context = { provider: "azure", voiceId: this.resolveVoiceId(options?.voice) };
+
+    let socket: WebSocketLike;
+    try {
+      socket = await openWebSocket(url, options?.signal);
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      const statusMatch = /Unexpected server response: (\d{3})/.exec(message);
+      throw statusMatch
+        ? createHttpError(`Failed to connect to Azure: ${message}`, {
+            ...context,
+            statusCode: Number(statusMatch[1]),
+          })
+        : new TTSNetworkError(`Failed to connect to Azure: ${message}`, {
+            ...context,
+            cause: error,
+          });
+    }
+
+    const requestId = createRequestId();
+    const wordBoundaries: WordBoundary[] = [];
+    const sentences: SentenceBoundary[] = [];
+    const marks: SSMLMark[] = [];
+    const visemes: Viseme[] = [];
+
+    const handleMetadata = (metadata: AzureMetadata[]) => {
+      for (const { Type, Data } of metadata) {
+        // Convert 100-nanosecond ticks to milliseconds
+        const offset = Data.Offset / 10000;
+        const duration = (Data.Duration ?? 0) / 10000;
+        if (Type === "WordBoundary" && Data.text) {
+          wordBoundaries.push({ text: Data.text.Text, offset, duration });
+        } else if (Type === "SentenceBoundary" && Data.text) {
+          sentences.push({ text: Data.text.Text, offset });
+        } else if (Type === "Bookmark" && Data.Bookmark !== undefined) {
+          marks.push({ name: Data.Bookmark, offset });
+        } else if (Type === "Viseme" && Data.VisemeId !== undefined) {
+          // Azure viseme IDs are the common viseme set
+          visemes.push(createViseme(Data.VisemeId, offset));
+        }
+      }
+    };
+
+    let finished = false;
+    const audioStream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        const finish = (error?: Error) => {
+          if (finished) return;
+          finished = true;
+          if (error) {
+            controller.error(error);
+          } else {
+            controller.close();
+          }
+          socket.close();
+        };
+
+        socket.onmessage = ({ data }) => {
+          if (typeof data === "string") {
+            const separator = data.indexOf("\r\n\r\n");
+            const headers = parseAzureHeaders(separator >= 0 ? data.slice(0, separator) : data);
+            const body = separator >= 0 ? data.slice(separator + 4) : "";
+            if (headers["x-requestid"] && headers["x-requestid"] !== requestId) return;
+
+            if (headers.path === "audio.metadata") {
+              try {
+                handleMetadata(JSON.parse(body).Metadata ?? []);
+              } catch (error) {
+                console.error("Error parsing Azure metadata:", error);
+              }
+            } else if (headers.path === "turn.end") {
+              finish();
+            }
+            return;
+          }
+
+          // Binary messages: a 2-byte big-endian header length, the headers, then the audio
+          const bytes = new Uint8Array(data as ArrayBuffer);
+          if (bytes.length < 2) return;
+          const headerLength = (bytes[0] << 8) | bytes[1];
+          const headers = parseAzureHeaders(
+            new TextDecoder().decode(bytes.subarray(2, 2 + headerLength))
+          );
+          const audio = bytes.slice(2 + headerLength);
+          if (headers.path === "audio" && audio.length > 0 && !finished) {
+            controller.enqueue(audio);
+          }
+        };
+
+        socket.onerror = () => {
+          finish(new TTSNetworkError("Azure WebSocket connection failed", context));
+        };
+
+        // The service closes the connection with a reason when the request is invalid
+        socket.onclose = ({ code, reason }) => {
+          finish(
+            new TTSError(
+              `Azure closed the WebSocket before synthesis finished (code ${code}${
+                reason ? `: ${reason}` : ""
+              })`,
+              { ...context, responseBody: reason || undefined }
+            )
+          );
+        };
+      },
+      cancel: () => {
+        finished = true;
+        socket.close();
+      },
+    });
+
+    const outputFormat =
+      options?.format === "mp3" ? "audio-24khz-96kbitrate-mono-mp3" : "riff-24khz-16bit-mono-pcm";
+    socket.send(
+      createAzureMessage(
+        "speech.config",
+        requestId,
+        "application/json",
+        JSON.stringify({
+          context: {
+            system: {
+              name: "SpeechSDK",
+              version: "1.0.0",
+              build: "JavaScript",
+              lang: "JavaScript",
+            },
+            os: { platform: "js-tts-wrapper", name: "js-tts-wrapper", version: "1.0.0" },
+          },
+        })
+      )
+    );
+    socket.send(
+      createAzureMessage(
+        "synthesis.context",
+        requestId,
+        "application/json",
+        JSON.stringify({
+          synthesis: {
+            audio: {
+              metadataOptions: {
+                bookmarkEnabled: true,
+                punctuationBoundaryEnabled: false,
+                sentenceBoundaryEnabled: true,
+                sessionEndEnabled: true,
+                visemeEnabled: true,
+                wordBoundaryEnabled: true,
+              },
+              outputFormat,
+            },
+            language: { autoDetection: false },
+          },
+        })
+      )
+    );
+    socket.send(createAzureMessage("ssml", requestId, "application/ssml+xml", ssml));
+
+    return {
+      audioStream: abortableStream(audioStream, options?.signal),
+      wordBoundaries,
+      sentences,
+      marks,
+      visemes,
+    };
+  }
+
   /**
    * Load the Microsoft Speech SDK dynamically.
    * @returns A promise resolving to the SDK module, or null if loading fails or not applicable.
@@ -268,6 +584,7 @@ export class AzureTTSClient extends AbstractTTSClient {
   ): Promise<{
     audioStream: ReadableStream<Uint8Array>;
     wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
+    visemes: Viseme[];
   }> {
     try {
       if (!sdkInstance) {
@@ -294,20 +611,30 @@ export class AzureTTSClient extends AbstractTTSClient {
       // Create a synthesizer
       const synthesizer = new sdkInstance.SpeechSynthesizer(speechConfig);
 
-      // Create a promise that will resolve with the audio data and word boundaries
-      return new Promise((resolve, reject) => {
+      // Create a promise that will resolve with the audio data, word boundaries and visemes
+      const synthesis = new Promise<{
+        audioStream: ReadableStream<Uint8Array>;
+        wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
+        visemes: Viseme[];
+      }>((resolve, reject) => {
         const wordBoundaries: Array<{ text: string; offset: number; duration: number }> = [];
+        const visemes: Viseme[] = [];
         const audioChunks: Uint8Array[] = [];
 
         // Set up the word boundary event handler
         synthesizer.wordBoundary = (_s: any, e: any) => {
           wordBoundaries.push({
             text: e.text,
-            offset: e.audioOffset / 10000, // Convert to milliseconds
-            duration: 0, // Duration is not provided by the SDK
+            offset: e.audioOffset / 10000, // Convert 100-nanosecond ticks to milliseconds
+            duration: 0, // Filled in from the next word's offset below
           });
         };
 
+        // Azure viseme IDs are the common viseme set
+        synthesizer.visemeReceived = (_s: any, e: any) => {
+          visemes.push(createViseme(e.visemeId, e.audioOffset / 10000));
+        };
+
         // Set up the synthesizing event handler to collect audio chunks
         synthesizer.synthesizing = (_s: unknown, e: any) => {
           if (e.result.reason === sdkInstance.ResultReason.SynthesizingAudio) {
@@ -352,9 +679,22 @@ export class AzureTTSClient extends AbstractTTSClient {
               resolve({
                 audioStream: stream,
                 wordBoundaries,
+                visemes,
               });
             } else {
-              reject(new Error(`Synthesis failed: ${result.errorDetails}`));
+              // The SDK reports HTTP failures as text, e.g. "Authentication error (401)"
+              const statusMatch = /\((\d{3})\)/.exec(result.errorDetails || "");
+              const message = `Synthesis failed: ${result.errorDetails}`;
+              const context = {
+                provider: "azure",
+                voiceId: this.resolveVoiceId(options?.voice),
+                responseBody: result.errorDetails,
+              };
+              reject(
+                statusMatch
+                  ? createHttpError(message, { ...context, statusCode: Number(statusMatch[1]) })
+                  : new TTSError(message, context)
+              );
             }
           },
           (error: any) => {
@@ -364,6 +704,9 @@ export class AzureTTSClient extends AbstractTTSClient {
           }
         );
       });
+
+      // Closing the synthesizer cancels the in-flight synthesis when the caller aborts
+      return await raceWithAbort(synthesis, options?.signal, () => synthesizer.close());
     } catch (error) {
       console.error("Error synthesizing speech with SDK:", error);
       throw error;
@@ -387,7 +730,7 @@ export class AzureTTSClient extends AbstractTTSClient {
       // Use the standard endpoint
       const endpoint = `https://${this.region}.tts.speech.microsoft.com/cognitiveservices/v1`;
 
-      const response = await fetch(endpoint, {
+      const response = await this.fetchWithRetry(endpoint, {
         method: "POST",
         headers: {
           "Ocp-Apim-Subscription-Key": this.subscriptionKey,
@@ -399,17 +742,28 @@ export class AzureTTSClient extends AbstractTTSClient {
           "User-Agent": "js-tts-wrapper",
         },
         body: ssml,
+        signal: options?.signal,
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to synthesize speech: ${response.statusText}`);
+        const errorText = await response.text().catch(() => "");
+        throw createHttpError(
+          `Failed to synthesize speech: ${response.statusText}`,
+          {
+            provider: "azure",
+            statusCode: response.status,
+            voiceId: this.resolveVoiceId(options?.voice),
+            responseBody: errorText,
+          },
+          response.headers
+        );
       }
 
       // No word boundary information is available with the REST API
       const wordBoundaries: Array<{ text: string; offset: number; duration: number }> = [];
 
       return {
-        audioStream: response.body as ReadableStream<Uint8Array>,
+        audioStream: abortableStream(response.body as ReadableStream<Uint8Array>, options?.signal),
         wordBoundaries,
       };
     } catch (error) {
@@ -433,15 +787,11 @@ export class AzureTTSClient extends AbstractTTSClient {
     if (this.sdk) {
       await this.startPlaybackWithCallbacksSDK(text, callback, options);
     } else {
-      // Fall back to the abstract implementation
-      // Register the callback
-      this.on("boundary", callback);
-
-      // Enable word boundary information
-      const enhancedOptions = { ...options, useWordBoundary: true };
-
-      // Start playback with word boundary information
-      await this.speakStreamed(text, enhancedOptions);
+      // Fall back to the abstract implementation with word boundary information
+      await this._speakStreamedWithCallbacks(text, callback, {
+        ...options,
+        useWordBoundary: true,
+      });
     }
   }
 
@@ -488,16 +838,25 @@ export class AzureTTSClient extends AbstractTTSClient {
       // Set up the word boundary event handler
       synthesizer.wordBoundary = (_s: any, e: any) => {
         // Call the callback with the word boundary information
-        const offset = e.audioOffset / 10000; // Convert to milliseconds
-        const duration = 500; // Estimate 500ms for each word
+        const offset = e.audioOffset / 10000; // Convert 100-nanosecond ticks to milliseconds
+        const duration = e.duration ? e.duration / 10000 : 500; // Estimate 500ms if missing
 
-        // Store the word boundary information for internal use
-        this.timings.push([offset, offset + duration, e.text]);
+        // Store the word boundary information for internal use (timings are in seconds)
+        this.timings.push([offset / 1000, (offset + duration) / 1000, e.text]);
 
         // Call the callback with the word boundary information
         callback(e.text, offset, offset + duration);
       };
 
+      // Forward SSML <mark> elements as they are reached
+      synthesizer.bookmarkReached = (_s: any, e: any) => {
+        this.emit("mark", { name: e.text, offset: e.audioOffset / 10000 });
+      };
+
+      synthesizer.visemeReceived = (_s: any, e: any) => {
+        this.emit("viseme", createViseme(e.visemeId, e.audioOffset / 10000));
+      };
+
       // Set up the synthesis completed event handler
       synthesizer.synthesisCompleted = (_s: any, _e: any) => {
         // Emit the end event
@@ -524,6 +883,17 @@ export class AzureTTSClient extends AbstractTTSClient {
     }
   }
 
+  /**
+   * Use lexicons published at a URL as Azure custom lexicons; others are applied to the text.
+   * Azure only reads lexicons from a URL and has no API to upload one, so nothing is uploaded:
+   * callers host the PLS file (e.g. the output of toPLS() in Blob Storage) and pass its `uri`.
+   * @param lexicon Lexicon to use
+   * @returns True when the lexicon has a URI
+   */
+  protected async _prepareNativeLexicon(lexicon: Lexicon): Promise<boolean> {
+    return Boolean(lexicon.uri);
+  }
+
   /**
    * Prepare SSML for synthesis
    * @param text Text or SSML to prepare
@@ -538,7 +908,7 @@ export class AzureTTSClient extends AbstractTTSClient {
       // Ensure text is wrapped in SSML
       let ssml = SSMLUtils.isSSML(text) ? text : SSMLUtils.wrapWithSpeakTags(text);
       // Only ensure Azure structure (add namespaces if needed)
-      ssml = this.ensureAzureSSMLStructure(ssml, options?.voice || this.voiceId, options);
+      ssml = this.ensureAzureSSMLStructure(ssml, this.resolveVoiceId(options?.voice), options);
       return ssml;
     }
 
@@ -554,10 +924,10 @@ export class AzureTTSClient extends AbstractTTSClient {
     let ssml = SSMLUtils.isSSML(text) ? text : SSMLUtils.wrapWithSpeakTags(text);
 
     // Use voice from options or the default voice
-    const voiceId = options?.voice || this.voiceId;
+    const voiceId = this.resolveVoiceId(options?.voice);
 
     // Process and structure SSML first so required attributes are present before validation
-    ssml = SSMLUtils.processSSMLForEngine(ssml, "azure", voiceId || undefined);
+    ssml = SSMLUtils.processSSMLForEngine(ssml, "azure", voiceId || undefined, this.lang);
     ssml = this.ensureAzureSSMLStructure(ssml, voiceId, options);
 
     // Validate after processing so warnings reflect what Azure actually receives
@@ -567,7 +937,10 @@ export class AzureTTSClient extends AbstractTTSClient {
     }
     if (!validation.isValid) {
       console.error("Azure SSML validation errors:", validation.errors);
-      throw new Error(`Invalid SSML for Azure: ${validation.errors.join(", ")}`);
+      throw new TTSError(`Invalid SSML for Azure: ${validation.errors.join(", ")}`, {
+        provider: "azure",
+        voiceId,
+      });
     }
 
     return ssml;
@@ -585,33 +958,43 @@ export class AzureTTSClient extends AbstractTTSClient {
     voiceId?: string | null,
     options?: AzureTTSOptions
   ): string {
-    // Check if SSML contains mstts-specific tags
-    const hasMsttsContent = /mstts:/.test(ssml);
-
-    // Ensure required attributes are present
-    if (!ssml.includes("version=")) {
-      ssml = ssml.replace("<speak", '<speak version="1.0"');
-    }
-    if (!ssml.includes("xmlns=")) {
-      ssml = ssml.replace("<speak", '<speak xmlns="http://www.w3.org/2001/10/synthesis"');
-    }
-    // Add mstts namespace if content contains mstts tags
-    if (hasMsttsContent && !ssml.includes("xmlns:mstts=")) {
-      ssml = ssml.replace("<speak", '<speak xmlns:mstts="https://www.w3.org/2001/mstts"');
-    }
-    if (!ssml.includes("xml:lang=")) {
-      ssml = ssml.replace("<speak", `<speak xml:lang="${this.lang}"`);
+    const nodes = parseSSML(ssml, { recover: true });
+    let speak = findSSMLElement(nodes, "speak");
+    if (!speak) {
+      speak = createSSMLElement("speak", {}, nodes.splice(0));
+      nodes.push(speak);
     }
 
-    // Add voice selection if a voice is set and not already present
-    if (voiceId && !ssml.includes("<voice")) {
-      // Extract content between speak tags
-      const speakMatch = ssml.match(/<speak[^>]*>(.*?)<\/speak>/s);
-      if (speakMatch) {
-        const content = speakMatch[1].trim();
-        const speakTag = ssml.substring(0, ssml.indexOf(">") + 1);
-        ssml = `${speakTag}<voice name="${voiceId}">${content}</voice></speak>`;
+    // Check if SSML contains mstts-specific tags or attributes
+    let hasMsttsContent = false;
+    walkSSML(nodes, (element) => {
+      if (
+        element.name.startsWith("mstts:") ||
+        Object.keys(element.attributes).some((name) => name.startsWith("mstts:"))
+      ) {
+        hasMsttsContent = true;
       }
+    });
+
+    // Ensure required attributes are present, keeping any that are already set
+    speak.attributes = {
+      version: "1.0",
+      xmlns: "http://www.w3.org/2001/10/synthesis",
+      // Add mstts namespace if content contains mstts tags
+      ...(hasMsttsContent ? { "xmlns:mstts": "https://www.w3.org/2001/mstts" } : {}),
+      "xml:lang": this.lang,
+      ...speak.attributes,
+    };
+
+    // Add voice selection if a voice is set and not already present
+    const voices: SSMLElement[] = [];
+    walkSSML(nodes, (element) => {
+      if (element.name === "voice") voices.push(element);
+    });
+    if (voiceId && voices.length === 0) {
+      const voice = createSSMLElement("voice", { name: voiceId }, speak.children);
+      speak.children = [voice];
+      voices.push(voice);
     }
 
     // Build prosody attributes by merging this.properties defaults with per-call options.
@@ -643,32 +1026,29 @@ export class AzureTTSClient extends AbstractTTSClient {
         volume !== DEFAULT_VOLUME;
 
       if (hasNonDefaultProsody) {
-        const attrs: string[] = [];
-        if (rate && rate !== DEFAULT_RATE) attrs.push(`rate="${rate}"`);
-        if (pitch && pitch !== DEFAULT_PITCH) attrs.push(`pitch="${pitch}"`);
-        if (volume !== DEFAULT_VOLUME) attrs.push(`volume="${volume}"`);
+        const attributes: Record<string, string> = {};
+        if (rate && rate !== DEFAULT_RATE) attributes.rate = rate;
+        if (pitch && pitch !== DEFAULT_PITCH) attributes.pitch = pitch;
+        if (volume !== DEFAULT_VOLUME) attributes.volume = String(volume);
 
         // <prosody> must be nested inside <voice>, not as a direct child of <speak>.
         // Azure rejects: Node [speak] should not contain node [prosody] with type [Others].
-        if (ssml.includes("<voice")) {
-          const match = ssml.match(/<voice[^>]*>(.*?)<\/voice>/s);
-          if (match) {
-            const content = match[1];
-            const prosodyContent = `<prosody ${attrs.join(" ")}>${content}</prosody>`;
-            ssml = ssml.replace(content, prosodyContent);
-          }
-        } else {
-          const match = ssml.match(/<speak[^>]*>(.*?)<\/speak>/s);
-          if (match) {
-            const content = match[1];
-            const prosodyContent = `<prosody ${attrs.join(" ")}>${content}</prosody>`;
-            ssml = ssml.replace(content, prosodyContent);
-          }
+        for (const parent of voices.length > 0 ? voices : [speak]) {
+          parent.children = [createSSMLElement("prosody", { ...attributes }, parent.children)];
         }
       }
     }
 
-    return ssml;
+    // Reference a custom lexicon published at a URL; <lexicon> must be the first child of
+    // <voice> (or <speak> when there is no voice)
+    const lexiconUri = options?.rawSSML ? undefined : this.lexicon?.uri;
+    if (lexiconUri) {
+      for (const parent of voices.length > 0 ? voices : [speak]) {
+        parent.children = [createSSMLElement("lexicon", { uri: lexiconUri }), ...parent.children];
+      }
+    }
+
+    return serializeSSML(nodes);
   }
 }
 
@@ -678,3 +1058,10 @@ export class AzureTTSClient extends AbstractTTSClient {
 export interface AzureTTSOptions extends SpeakOptions {
   format?: "mp3" | "wav"; // Define formats supported by this client logic
 }
+
+registerEngine("azure", {
+  create: (credentials: AzureTTSCredentials) => new AzureTTSClient(credentials),
+  credentialsSchema: { required: ["subscriptionKey", "region"] },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
@@ -1,11 +1,31 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { createHttpError, TTSError, TTSNetworkError, throwIfHttpError } from "../core/errors";
 import * as SSMLUtils from "../core/ssml-utils";
+import { WebSocketInputStream } from "../core/websocket-input-stream";
 import * as SpeechMarkdown from "../markdown/converter";
-import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
-import { getFetch } from "../utils/fetch-utils";
+import type {
+  CloneVoiceOptions,
+  SpeakOptions,
+  TextStreamInput,
+  TextStreamSynthesisResult,
+  TTSCredentials,
+  UnifiedVoice,
+  VoiceInput,
+  VoiceReference,
+} from "../types";
+import { abortableStream, isAbortError } from "../utils/abort-utils";
+import { createWavStreamHeader } from "../utils/audio-concat";
+import { loadVoiceReference, loadVoiceSamples } from "../utils/audio-input";
+import { base64ToUint8Array } from "../utils/base64-utils";
 import { toIso639_3, toLanguageDisplay } from "../utils/language-utils";
-
-const fetch = getFetch();
+import { iterateStream } from "../utils/stream-utils";
+import {
+  loadWebSocket,
+  openWebSocket,
+  WEBSOCKET_OPEN,
+  type WebSocketLike,
+} from "../utils/websocket";
 
 const AUDIO_TAG_REGEX = /\[[^\]]+\]/g;
 
@@ -72,15 +92,33 @@ const CARTESIA_EMOTIONS = [
   "trust",
 ];
 
+/**
+ * Message of the Cartesia TTS WebSocket (timestamps in seconds from the start of the context)
+ */
+interface CartesiaWebSocketMessage {
+  type: "chunk" | "timestamps" | "done" | "error" | "flush_done";
+  context_id?: string;
+  data?: string;
+  word_timestamps?: { words: string[]; start: number[]; end: number[] };
+  error?: string;
+  status_code?: number;
+}
+
 export interface CartesiaTTSOptions extends SpeakOptions {
   model?: string;
-  voice?: string;
+  voice?: VoiceInput;
   format?: "mp3" | "wav" | "ogg" | "opus" | "aac" | "flac" | "pcm";
   outputDir?: string;
   outputFile?: string;
   returnWordBoundaries?: boolean;
   onEnd?: () => void;
   providerOptions?: Record<string, unknown>;
+  /**
+   * How synthToBytestream() reaches Cartesia. "websocket" (the default) returns word
+   * timestamps and falls back to HTTP for compressed formats or when no WebSocket
+   * implementation is available; "http" always uses the /tts/bytes endpoint.
+   */
+  transport?: "websocket" | "http";
 }
 
 export interface CartesiaTTSCredentials extends TTSCredentials {
@@ -92,10 +130,14 @@ export interface CartesiaTTSCredentials extends TTSCredentials {
 }
 
 export class CartesiaTTSClient extends AbstractTTSClient {
+  readonly engineName = "cartesia";
+
   private apiKey: string;
   private baseUrl: string;
   private model: string;
   private outputFormat: Record<string, unknown>;
+  protected acceptsVoiceReference = true;
+  private referenceEmbeddings = new WeakMap<VoiceReference, number[]>();
 
   constructor(credentials: CartesiaTTSCredentials = {}) {
     super(credentials);
@@ -109,8 +151,20 @@ export class CartesiaTTSClient extends AbstractTTSClient {
       sample_rate: 44100,
     };
     this._models = [
-      { id: "sonic-3", features: ["streaming", "audio-tags", "inline-voice-cloning"] },
-      { id: "sonic-2", features: ["streaming"] },
+      {
+        id: "sonic-3",
+        features: [
+          "streaming",
+          "audio-tags",
+          "inline-voice-cloning",
+          "voice-cloning",
+          "word-boundary-events",
+        ],
+      },
+      {
+        id: "sonic-2",
+        features: ["streaming", "inline-voice-cloning", "voice-cloning", "word-boundary-events"],
+      },
     ];
     this.sampleRate = 44100;
 
@@ -168,11 +222,16 @@ export class CartesiaTTSClient extends AbstractTTSClient {
 
     if (options?.useSpeechMarkdown && SpeechMarkdown.isSpeechMarkdown(processedText)) {
       const ssml = await SpeechMarkdown.toSSML(processedText, "w3c");
-      processedText = SSMLUtils.stripSSML(ssml);
+      processedText = SSMLUtils.processSSMLForEngine(ssml, "cartesia", undefined, this.lang);
     }
 
     if (SSMLUtils.isSSML(processedText)) {
-      processedText = SSMLUtils.stripSSML(processedText);
+      processedText = SSMLUtils.processSSMLForEngine(
+        processedText,
+        "cartesia",
+        undefined,
+        this.lang
+      );
     }
 
     processedText = this.processAudioTags(processedText);
@@ -183,10 +242,6 @@ export class CartesiaTTSClient extends AbstractTTSClient {
     this.model = model;
   }
 
-  setVoice(voiceId: string): void {
-    this.voiceId = voiceId;
-  }
-
   getProperty(property: string): any {
     switch (property) {
       case "model":
@@ -220,7 +275,7 @@ export class CartesiaTTSClient extends AbstractTTSClient {
   async checkCredentials(): Promise<boolean> {
     if (!this.apiKey) return false;
     try {
-      const response = await fetch(`${this.baseUrl}/voices`, {
+      const response = await this.fetchWithRetry(`${this.baseUrl}/voices`, {
         method: "GET",
         headers: {
           "X-API-Key": this.apiKey,
@@ -239,7 +294,7 @@ export class CartesiaTTSClient extends AbstractTTSClient {
 
   protected async _getVoices(): Promise<any[]> {
     try {
-      const response = await fetch(`${this.baseUrl}/voices`, {
+      const response = await this.fetchWithRetry(`${this.baseUrl}/voices`, {
         method: "GET",
         headers: {
           "X-API-Key": this.apiKey,
@@ -275,19 +330,120 @@ export class CartesiaTTSClient extends AbstractTTSClient {
     }));
   }
 
-  async synthToBytes(text: string, options: CartesiaTTSOptions = {}): Promise<Uint8Array> {
+  /**
+   * Get the voice field of a request: a voice ID, or the embedding of reference audio.
+   * Embeddings come from the clip cloning endpoint, which does not store a voice, and are
+   * reused while the same reference object is used.
+   * @param voice Voice option of the request
+   * @returns Voice field of the request body
+   */
+  private async resolveVoice(voice?: VoiceInput): Promise<Record<string, unknown>> {
+    const reference = this.resolveVoiceReference(voice);
+    if (!reference) {
+      return { mode: "id", id: this.resolveVoiceId(voice) || "694f938dd2a74762ba554ff8e2a9d786" };
+    }
+
+    let embedding = this.referenceEmbeddings.get(reference);
+    if (!embedding) {
+      const { audioBytes, mimeType } = await loadVoiceReference(reference);
+      const form = new FormData();
+      form.append("clip", new Blob([audioBytes as BlobPart], { type: mimeType }), "reference");
+
+      const response = await this.fetchWithRetry(`${this.baseUrl}/voices/clone/clip`, {
+        method: "POST",
+        headers: { "X-API-Key": this.apiKey, "Cartesia-Version": "2025-04-16" },
+        body: form,
+      });
+      await throwIfHttpError(response, "Failed to embed reference audio", { provider: "cartesia" });
+
+      embedding = (await response.json()).embedding as number[];
+      this.referenceEmbeddings.set(reference, embedding);
+    }
+    return { mode: "embedding", embedding };
+  }
+
+  /**
+   * Clone a voice from a recording of a speaker.
+   * Cartesia clones from a single clip, so only the first sample is used.
+   * @param options Name, samples, description and language of the voice
+   * @returns Promise resolving to the new voice
+   */
+  async createClonedVoice(options: CloneVoiceOptions): Promise<UnifiedVoice> {
+    if (options.samples.length > 1) {
+      console.warn("Cartesia clones from a single clip; only the first sample is used");
+    }
+    const [{ blob, filename }] = await loadVoiceSamples(options.samples.slice(0, 1));
+
+    const form = new FormData();
+    form.append("clip", blob, filename);
+    form.append("name", options.name);
+    form.append("language", options.language?.split("-")[0] || "en");
+    if (options.description) {
+      form.append("description", options.description);
+    }
+
+    const response = await this.fetchOnce(`${this.baseUrl}/voices/clone`, {
+      method: "POST",
+      headers: { "X-API-Key": this.apiKey, "Cartesia-Version": "2025-04-16" },
+      body: form,
+    });
+    await throwIfHttpError(response, "Failed to create cloned voice", { provider: "cartesia" });
+
+    const [voice] = await this._mapVoicesToUnified([await response.json()]);
+    return voice;
+  }
+
+  /**
+   * Get the voices owned by the account
+   * @returns Promise resolving to the cloned voices
+   */
+  async listClonedVoices(): Promise<UnifiedVoice[]> {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/voices?is_owner=true`, {
+      method: "GET",
+      headers: { "X-API-Key": this.apiKey, "Cartesia-Version": "2025-04-16" },
+    });
+    await throwIfHttpError(response, "Failed to list cloned voices", { provider: "cartesia" });
+
+    const data = await response.json();
+    const voices: any[] = Array.isArray(data) ? data : (data.data ?? []);
+    return this._mapVoicesToUnified(voices.filter((voice) => voice.is_owner !== false));
+  }
+
+  /**
+   * Delete a cloned voice
+   * @param voiceId ID of the cloned voice
+   */
+  async deleteClonedVoice(voiceId: string): Promise<void> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/voices/${encodeURIComponent(voiceId)}`,
+      {
+        method: "DELETE",
+        headers: { "X-API-Key": this.apiKey, "Cartesia-Version": "2025-04-16" },
+      }
+    );
+    await throwIfHttpError(response, "Failed to delete cloned voice", {
+      provider: "cartesia",
+      voiceId,
+    });
+  }
+
+  protected async _synthToBytes(
+    text: string,
+    options: CartesiaTTSOptions = {}
+  ): Promise<Uint8Array> {
     const preparedText = await this.prepareText(text, options);
-    const voiceId = options.voice || this.voiceId || "694f938dd2a74762ba554ff8e2a9d786";
+    const voice = await this.resolveVoice(options.voice);
+    const voiceId = voice.id as string | undefined;
 
     const body: Record<string, unknown> = {
       output_format: this.outputFormat,
       ...options.providerOptions,
       model_id: options.model || this.model,
       transcript: preparedText,
-      voice: { mode: "id", id: voiceId },
+      voice,
     };
 
-    const response = await fetch(`${this.baseUrl}/tts/bytes`, {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/tts/bytes`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -295,12 +451,21 @@ export class CartesiaTTSClient extends AbstractTTSClient {
         "Cartesia-Version": "2025-04-16",
       },
       body: JSON.stringify(body),
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(
-        `Cartesia API error: ${response.status} ${response.statusText} - ${errorText}`
+      throw createHttpError(
+        `Cartesia API error: ${response.status} ${response.statusText} - ${errorText}`,
+        {
+          provider: "cartesia",
+          statusCode: response.status,
+          model: options.model || this.model,
+          voiceId,
+          responseBody: errorText,
+        },
+        response.headers
       );
     }
 
@@ -309,7 +474,16 @@ export class CartesiaTTSClient extends AbstractTTSClient {
     return new Uint8Array(arrayBuffer);
   }
 
-  async synthToBytestream(
+  /**
+   * Synthesize text to a byte stream.
+   * Uses the WebSocket API, which reports word timestamps, unless the transport option is
+   * "http", word boundaries are turned off, a compressed format is requested or no WebSocket
+   * implementation is available; otherwise the bytes endpoint (no word boundaries).
+   * @param text Text to synthesize
+   * @param options Synthesis options
+   * @returns Promise resolving to the audio stream and word boundaries
+   */
+  protected async _synthToBytestream(
     text: string,
     options: CartesiaTTSOptions = {}
   ): Promise<{
@@ -317,17 +491,35 @@ export class CartesiaTTSClient extends AbstractTTSClient {
     wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
   }> {
     const preparedText = await this.prepareText(text, options);
-    const voiceId = options.voice || this.voiceId || "694f938dd2a74762ba554ff8e2a9d786";
+
+    // The WebSocket API only returns raw PCM, which is sent as WAV
+    const pcmCompatible =
+      (!options.format || options.format === "wav" || options.format === "pcm") &&
+      this.outputFormat.container !== "mp3";
+    if (
+      options.transport !== "http" &&
+      options.useWordBoundary !== false &&
+      pcmCompatible &&
+      (await loadWebSocket())
+    ) {
+      const input = await this.createInputStream(options);
+      input.write(preparedText);
+      input.close().catch(() => {});
+      return { audioStream: input.audioStream, wordBoundaries: input.wordBoundaries };
+    }
+
+    const voice = await this.resolveVoice(options.voice);
+    const voiceId = voice.id as string | undefined;
 
     const body: Record<string, unknown> = {
       output_format: this.outputFormat,
       ...options.providerOptions,
       model_id: options.model || this.model,
       transcript: preparedText,
-      voice: { mode: "id", id: voiceId },
+      voice,
     };
 
-    const response = await fetch(`${this.baseUrl}/tts/bytes`, {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/tts/bytes`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -335,12 +527,21 @@ export class CartesiaTTSClient extends AbstractTTSClient {
         "Cartesia-Version": "2025-04-16",
       },
       body: JSON.stringify(body),
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(
-        `Cartesia API error: ${response.status} ${response.statusText} - ${errorText}`
+      throw createHttpError(
+        `Cartesia API error: ${response.status} ${response.statusText} - ${errorText}`,
+        {
+          provider: "cartesia",
+          statusCode: response.status,
+          model: options.model || this.model,
+          voiceId,
+          responseBody: errorText,
+        },
+        response.headers
       );
     }
 
@@ -353,9 +554,170 @@ export class CartesiaTTSClient extends AbstractTTSClient {
           controller.close();
         },
       });
-      return { audioStream: readableStream, wordBoundaries: [] };
+      return { audioStream: abortableStream(readableStream, options.signal), wordBoundaries: [] };
+    }
+
+    return { audioStream: abortableStream(response.body, options.signal), wordBoundaries: [] };
+  }
+
+  /**
+   * Open a WebSocket context for text that arrives in fragments, such as LLM tokens.
+   * Each fragment continues the same context, so the audio stays prosodically continuous.
+   * Fragments are sent as they are (SSML and audio tags are not converted).
+   * @param options Synthesis options
+   * @returns Promise resolving to the input stream once the connection is open
+   */
+  async createInputStream(options: CartesiaTTSOptions = {}): Promise<CartesiaInputStream> {
+    const voice = await this.resolveVoice(options.voice);
+    const voiceId = voice.id as string | undefined;
+    const model = options.model || this.model;
+    const sampleRate = Number(this.outputFormat.sample_rate) || this.sampleRate;
+    const query = new URLSearchParams({ api_key: this.apiKey, cartesia_version: "2025-04-16" });
+    const url = `${this.baseUrl.replace(/^http/, "ws")}/tts/websocket?${query}`;
+
+    let socket: WebSocketLike;
+    try {
+      socket = await openWebSocket(url, options.signal);
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      const statusMatch = /Unexpected server response: (\d{3})/.exec(message);
+      const context = { provider: "cartesia", model, voiceId, cause: error };
+      throw statusMatch
+        ? createHttpError(`Failed to connect to Cartesia: ${message}`, {
+            ...context,
+            statusCode: Number(statusMatch[1]),
+          })
+        : new TTSNetworkError(`Failed to connect to Cartesia: ${message}`, context);
+    }
+
+    return new CartesiaInputStream(
+      socket,
+      {
+        ...options.providerOptions,
+        model_id: model,
+        voice,
+        output_format: { container: "raw", encoding: "pcm_s16le", sample_rate: sampleRate },
+        add_timestamps: true,
+      },
+      sampleRate,
+      options.signal
+    );
+  }
+
+  /**
+   * Synthesize text that arrives in fragments as continuations of one WebSocket context
+   * @param textStream Text fragments
+   * @param options Synthesis options
+   * @returns Promise resolving to the audio stream and the word boundaries filled in as it arrives
+   */
+  async synthFromTextStream(
+    textStream: TextStreamInput,
+    options: CartesiaTTSOptions = {}
+  ): Promise<TextStreamSynthesisResult> {
+    if (!(await loadWebSocket())) {
+      return super.synthFromTextStream(textStream, options);
+    }
+    const input = await this.createInputStream(options);
+
+    // Send the fragments while the caller reads the audio
+    (async () => {
+      try {
+        for await (const fragment of iterateStream(textStream)) {
+          input.write(fragment);
+        }
+        await input.close();
+      } catch (error) {
+        input.abort(error);
+      }
+    })();
+
+    return { audioStream: input.audioStream, wordBoundaries: input.wordBoundaries };
+  }
+}
+
+/**
+ * Text input stream of one Cartesia WebSocket context
+ *
+ * Every fragment written continues the context, and the audio is read from audioStream (as a
+ * 16-bit WAV stream) while text is still being written. Word boundaries are filled in from the
+ * word timestamps as they arrive.
+ */
+export class CartesiaInputStream extends WebSocketInputStream {
+  /**
+   * ID of the context on the connection
+   */
+  readonly contextId: string;
+
+  /**
+   * Create an input stream on an open connection (see CartesiaTTSClient.createInputStream)
+   * @param socket Open TTS WebSocket
+   * @param request Generation request fields sent with every fragment
+   * @param sampleRate Sample rate of the audio
+   * @param signal Optional AbortSignal that cancels the context
+   */
+  constructor(
+    socket: WebSocketLike,
+    private request: Record<string, unknown>,
+    sampleRate: number,
+    signal?: AbortSignal
+  ) {
+    super(socket, { name: "Cartesia", provider: "cartesia" }, signal);
+    this.contextId =
+      typeof globalThis.crypto?.randomUUID === "function"
+        ? globalThis.crypto.randomUUID()
+        : `context-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    this.enqueue(createWavStreamHeader(sampleRate));
+  }
+
+  protected createTextMessage(text: string, last: boolean): Record<string, unknown> {
+    return { ...this.request, context_id: this.contextId, transcript: text, continue: !last };
+  }
+
+  protected handleMessage(message: CartesiaWebSocketMessage): void {
+    if (message.context_id && message.context_id !== this.contextId) return;
+
+    if (message.type === "chunk" && message.data) {
+      this.enqueue(base64ToUint8Array(message.data));
+    } else if (message.type === "timestamps" && message.word_timestamps) {
+      const { words, start, end } = message.word_timestamps;
+      words.forEach((word, index) => {
+        this.wordBoundaries.push({
+          text: word,
+          offset: Math.round(start[index] * 1000),
+          duration: Math.round((end[index] - start[index]) * 1000),
+        });
+      });
+    } else if (message.type === "done") {
+      this.finish();
+    } else if (message.type === "error") {
+      const errorMessage = `Cartesia API error: ${message.error ?? "unknown error"}`;
+      const context = {
+        provider: "cartesia",
+        model: this.request.model_id as string,
+        responseBody: JSON.stringify(message),
+      };
+      this.finish(
+        message.status_code
+          ? createHttpError(errorMessage, { ...context, statusCode: message.status_code })
+          : new TTSError(errorMessage, context)
+      );
     }
+  }
 
-    return { audioStream: response.body, wordBoundaries: [] };
+  protected handleAbort(signal: AbortSignal): void {
+    if (this.socket.readyState === WEBSOCKET_OPEN) {
+      this.send({ context_id: this.contextId, cancel: true });
+    }
+    super.handleAbort(signal);
   }
 }
+
+registerEngine("cartesia", {
+  create: (credentials: CartesiaTTSCredentials) => new CartesiaTTSClient(credentials),
+  credentialsSchema: { required: ["apiKey"], optional: ["baseURL", "model"] },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
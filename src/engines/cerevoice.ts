@@ -1,8 +1,10 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { createHttpError, TTSAuthError } from "../core/errors";
 import * as SSMLUtils from "../core/ssml-utils";
 import * as SpeechMarkdown from "../markdown/converter";
 import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
-import { getFetch } from "../utils/fetch-utils";
+import { abortableStream } from "../utils/abort-utils";
 import { toIso639_3, toLanguageDisplay } from "../utils/language-utils";
 
 export interface CereVoiceTTSCredentials extends TTSCredentials {
@@ -49,6 +51,8 @@ const TOKEN_EXPIRY_BUFFER_MS = 60 * 1000;
 const SUPPORTED_AUDIO_FORMATS = new Set(["wav", "mp3", "ogg"]);
 
 export class CereVoiceTTSClient extends AbstractTTSClient {
+  readonly engineName = "cerevoice";
+
   private email: string;
   private password: string;
   private accessToken: string;
@@ -130,13 +134,6 @@ export class CereVoiceTTSClient extends AbstractTTSClient {
     }
   }
 
-  setVoice(voiceId: string, lang?: string): void {
-    this.voiceId = voiceId;
-    if (lang) {
-      this.lang = lang;
-    }
-  }
-
   getProperty(property: string): any {
     switch (property) {
       case "voice":
@@ -259,20 +256,16 @@ export class CereVoiceTTSClient extends AbstractTTSClient {
     });
   }
 
-  async synthToBytes(text: string, options: CereVoiceTTSOptions = {}): Promise<Uint8Array> {
+  protected async _synthToBytes(text: string, options: CereVoiceTTSOptions = {}): Promise<Uint8Array> {
     const prepared = await this.prepareInput(text, options);
     const wantsMetadata = this.shouldRequestMetadata(options);
     const response = await this.requestSynthesis(prepared, options, wantsMetadata);
     const audioBytes = new Uint8Array(await response.arrayBuffer());
 
     if (wantsMetadata) {
-      const wordBoundaries = await this.getWordBoundariesFromResponse(response);
+      const wordBoundaries = await this.getWordBoundariesFromResponse(response, options.signal);
       if (wordBoundaries.length > 0) {
-        this.timings = wordBoundaries.map((wb) => [
-          wb.offset / 10000,
-          (wb.offset + wb.duration) / 10000,
-          wb.text,
-        ]);
+        this._setTimingsFromWordBoundaries(wordBoundaries);
       }
     } else {
       this._createEstimatedWordTimings(prepared.plainText);
@@ -281,7 +274,7 @@ export class CereVoiceTTSClient extends AbstractTTSClient {
     return audioBytes;
   }
 
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options: CereVoiceTTSOptions = {}
   ): Promise<{
@@ -291,19 +284,17 @@ export class CereVoiceTTSClient extends AbstractTTSClient {
     const prepared = await this.prepareInput(text, options);
     const wantsMetadata = this.shouldRequestMetadata(options);
     const response = await this.requestSynthesis(prepared, options, wantsMetadata);
-    const wordBoundaries = wantsMetadata ? await this.getWordBoundariesFromResponse(response) : [];
+    const wordBoundaries = wantsMetadata
+      ? await this.getWordBoundariesFromResponse(response, options.signal)
+      : [];
 
     if (wordBoundaries.length > 0) {
-      this.timings = wordBoundaries.map((wb) => [
-        wb.offset / 10000,
-        (wb.offset + wb.duration) / 10000,
-        wb.text,
-      ]);
+      this._setTimingsFromWordBoundaries(wordBoundaries);
     }
 
     if (response.body) {
       return {
-        audioStream: response.body,
+        audioStream: abortableStream(response.body, options.signal),
         wordBoundaries,
       };
     }
@@ -317,7 +308,7 @@ export class CereVoiceTTSClient extends AbstractTTSClient {
     });
 
     return {
-      audioStream,
+      audioStream: abortableStream(audioStream, options.signal),
       wordBoundaries,
     };
   }
@@ -330,7 +321,7 @@ export class CereVoiceTTSClient extends AbstractTTSClient {
     const audioFormat = this.resolveAudioFormat(options);
     const providerOptions = options.providerOptions || {};
     const url = this.buildUrl("/speak", {
-      voice: options.voice || this.voiceId || undefined,
+      voice: this.resolveVoiceId(options.voice) || undefined,
       audio_format: audioFormat,
       sample_rate: options.sampleRate || this.outputSampleRate,
       language: options.language || this.language,
@@ -346,12 +337,20 @@ export class CereVoiceTTSClient extends AbstractTTSClient {
         "Content-Type": prepared.contentType,
       },
       body: prepared.body,
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const errorText = await this.safeReadErrorText(response);
-      throw new Error(
-        `CereVoice API error: ${response.status} ${response.statusText}${errorText ? ` - ${errorText}` : ""}`
+      throw createHttpError(
+        `CereVoice API error: ${response.status} ${response.statusText}${errorText ? ` - ${errorText}` : ""}`,
+        {
+          provider: "cerevoice",
+          statusCode: response.status,
+          voiceId: this.resolveVoiceId(options.voice),
+          responseBody: errorText,
+        },
+        response.headers
       );
     }
 
@@ -431,20 +430,24 @@ export class CereVoiceTTSClient extends AbstractTTSClient {
     return Boolean(options.useWordBoundary || options.metadata || this.metadata);
   }
 
-  private async getWordBoundariesFromResponse(response: {
-    headers?: Headers;
-  }): Promise<WordBoundaryResult> {
+  private async getWordBoundariesFromResponse(
+    response: {
+      headers?: Headers;
+    },
+    signal?: AbortSignal
+  ): Promise<WordBoundaryResult> {
     const metadataUrl = this.getHeader(response.headers, "X-CereVoice-Metadata");
     if (!metadataUrl) {
       return [];
     }
 
     try {
-      const metadataResponse = await getFetch()(metadataUrl, {
+      const metadataResponse = await this.fetchWithRetry(metadataUrl, {
         method: "GET",
         headers: {
           Accept: "text/xml, application/xml, text/plain",
         },
+        signal,
       });
 
       if (!metadataResponse.ok) {
@@ -509,7 +512,7 @@ export class CereVoiceTTSClient extends AbstractTTSClient {
       }
 
       const next = wordBoundaries[index + 1];
-      const fallbackDuration = next ? Math.max(next.offset - boundary.offset, 0) : 5000;
+      const fallbackDuration = next ? Math.max(next.offset - boundary.offset, 0) : 500;
 
       return {
         ...boundary,
@@ -552,8 +555,8 @@ export class CereVoiceTTSClient extends AbstractTTSClient {
 
     return {
       text: name,
-      offset: Math.round(startSeconds * 10000),
-      duration: Math.round((endSeconds - startSeconds) * 10000),
+      offset: Math.round(startSeconds * 1000),
+      duration: Math.round((endSeconds - startSeconds) * 1000),
     };
   }
 
@@ -563,11 +566,12 @@ export class CereVoiceTTSClient extends AbstractTTSClient {
       method?: string;
       headers?: Record<string, string>;
       body?: string | ArrayBuffer | Uint8Array;
+      signal?: AbortSignal;
     } = {},
     retry = true
   ) {
     const token = await this.ensureAccessToken();
-    const response = await getFetch()(url, {
+    const response = await this.fetchWithRetry(url, {
       ...options,
       headers: {
         ...(options.headers || {}),
@@ -577,7 +581,7 @@ export class CereVoiceTTSClient extends AbstractTTSClient {
 
     if (response.status === 401 && retry) {
       const refreshedToken = await this.ensureAccessToken(true);
-      return getFetch()(url, {
+      return this.fetchWithRetry(url, {
         ...options,
         headers: {
           ...(options.headers || {}),
@@ -600,13 +604,17 @@ export class CereVoiceTTSClient extends AbstractTTSClient {
         return this.accessToken;
       } catch {
         if (!this.email || !this.password) {
-          throw new Error("CereVoice refresh token is invalid or expired");
+          throw new TTSAuthError("CereVoice refresh token is invalid or expired", {
+            provider: "cerevoice",
+          });
         }
       }
     }
 
     if (!this.email || !this.password) {
-      throw new Error("CereVoice email and password are required for authentication");
+      throw new TTSAuthError("CereVoice email and password are required for authentication", {
+        provider: "cerevoice",
+      });
     }
 
     await this.login();
@@ -614,7 +622,7 @@ export class CereVoiceTTSClient extends AbstractTTSClient {
   }
 
   private async login(): Promise<void> {
-    const response = await getFetch()(this.buildUrl("/auth"), {
+    const response = await this.fetchWithRetry(this.buildUrl("/auth"), {
       method: "GET",
       headers: {
         Authorization: `Basic ${this.encodeBasicCredentials(`${this.email}:${this.password}`)}`,
@@ -623,14 +631,23 @@ export class CereVoiceTTSClient extends AbstractTTSClient {
 
     if (!response.ok) {
       const errorText = await this.safeReadErrorText(response);
-      throw new Error(
-        `CereVoice auth error: ${response.status} ${response.statusText}${errorText ? ` - ${errorText}` : ""}`
-      );
+      const message = `CereVoice auth error: ${response.status} ${response.statusText}${errorText ? ` - ${errorText}` : ""}`;
+      const context = {
+        provider: "cerevoice",
+        statusCode: response.status,
+        responseBody: errorText,
+      };
+      // Server failures are retryable; anything else means the credentials were rejected
+      throw response.status >= 500
+        ? createHttpError(message, context)
+        : new TTSAuthError(message, context);
     }
 
     const data = (await response.json()) as { access_token?: string; refresh_token?: string };
     if (!data.access_token) {
-      throw new Error("CereVoice auth response did not include an access token");
+      throw new TTSAuthError("CereVoice auth response did not include an access token", {
+        provider: "cerevoice",
+      });
     }
 
     this.accessToken = data.access_token;
@@ -639,7 +656,7 @@ export class CereVoiceTTSClient extends AbstractTTSClient {
   }
 
   private async refreshAccessToken(): Promise<void> {
-    const response = await getFetch()(
+    const response = await this.fetchWithRetry(
       this.buildUrl("/auth/refresh", { refresh_token: this.refreshToken }),
       {
         method: "GET",
@@ -648,14 +665,23 @@ export class CereVoiceTTSClient extends AbstractTTSClient {
 
     if (!response.ok) {
       const errorText = await this.safeReadErrorText(response);
-      throw new Error(
-        `CereVoice refresh error: ${response.status} ${response.statusText}${errorText ? ` - ${errorText}` : ""}`
-      );
+      const message = `CereVoice refresh error: ${response.status} ${response.statusText}${errorText ? ` - ${errorText}` : ""}`;
+      const context = {
+        provider: "cerevoice",
+        statusCode: response.status,
+        responseBody: errorText,
+      };
+      // Server failures are retryable; anything else means the credentials were rejected
+      throw response.status >= 500
+        ? createHttpError(message, context)
+        : new TTSAuthError(message, context);
     }
 
     const data = (await response.json()) as { access_token?: string };
     if (!data.access_token) {
-      throw new Error("CereVoice refresh response did not include an access token");
+      throw new TTSAuthError("CereVoice refresh response did not include an access token", {
+        provider: "cerevoice",
+      });
     }
 
     this.accessToken = data.access_token;
@@ -764,3 +790,13 @@ export class CereVoiceTTSClient extends AbstractTTSClient {
     }
   }
 }
+
+registerEngine("cerevoice", {
+  create: (credentials: CereVoiceTTSCredentials) => new CereVoiceTTSClient(credentials),
+  credentialsSchema: {
+    required: ["email", "password"],
+    optional: ["accessToken", "refreshToken", "baseURL", "voice", "sampleRate", "audioFormat"],
+  },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
@@ -1,12 +1,12 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { createHttpError } from "../core/errors";
 import * as SSMLUtils from "../core/ssml-utils";
 import * as SpeechMarkdown from "../markdown/converter";
 import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
-import { getFetch } from "../utils/fetch-utils";
+import { abortableStream } from "../utils/abort-utils";
 import { toIso639_3, toLanguageDisplay } from "../utils/language-utils";
 
-const fetch = getFetch();
-
 export interface DeepgramTTSOptions extends SpeakOptions {
   model?: string;
   voice?: string;
@@ -27,6 +27,8 @@ export interface DeepgramTTSCredentials extends TTSCredentials {
 }
 
 export class DeepgramTTSClient extends AbstractTTSClient {
+  readonly engineName = "deepgram";
+
   private apiKey: string;
   private baseUrl: string;
   private model: string;
@@ -70,6 +72,7 @@ export class DeepgramTTSClient extends AbstractTTSClient {
     this.baseUrl = credentials.baseURL || "https://api.deepgram.com/v1";
     this.model = (credentials as any).model || "aura-2";
     this.voiceId = "aura-2-apollo-en";
+    this.maxTextLength = 2000;
 
     this._models = [
       { id: "aura-2", features: ["streaming"] },
@@ -109,11 +112,16 @@ export class DeepgramTTSClient extends AbstractTTSClient {
 
     if (options?.useSpeechMarkdown && SpeechMarkdown.isSpeechMarkdown(processedText)) {
       const ssml = await SpeechMarkdown.toSSML(processedText, "w3c");
-      processedText = SSMLUtils.stripSSML(ssml);
+      processedText = SSMLUtils.processSSMLForEngine(ssml, "deepgram", undefined, this.lang);
     }
 
     if (SSMLUtils.isSSML(processedText)) {
-      processedText = SSMLUtils.stripSSML(processedText);
+      processedText = SSMLUtils.processSSMLForEngine(
+        processedText,
+        "deepgram",
+        undefined,
+        this.lang
+      );
     }
 
     return processedText;
@@ -123,10 +131,6 @@ export class DeepgramTTSClient extends AbstractTTSClient {
     this.model = model;
   }
 
-  setVoice(voiceId: string): void {
-    this.voiceId = voiceId;
-  }
-
   getProperty(property: string): any {
     switch (property) {
       case "model":
@@ -155,7 +159,7 @@ export class DeepgramTTSClient extends AbstractTTSClient {
   async checkCredentials(): Promise<boolean> {
     if (!this.apiKey) return false;
     try {
-      const response = await fetch(`${this.baseUrl}/voices`, {
+      const response = await this.fetchWithRetry(`${this.baseUrl}/voices`, {
         method: "GET",
         headers: {
           Authorization: `Token ${this.apiKey}`,
@@ -191,10 +195,10 @@ export class DeepgramTTSClient extends AbstractTTSClient {
     }));
   }
 
-  async synthToBytes(text: string, options: DeepgramTTSOptions = {}): Promise<Uint8Array> {
+  protected async _synthToBytes(text: string, options: DeepgramTTSOptions = {}): Promise<Uint8Array> {
     const preparedText = await this.prepareText(text, options);
 
-    const voiceParam = options.voice || this.voiceId || "aura-2-apollo-en";
+    const voiceParam = this.resolveVoiceId(options.voice) || "aura-2-apollo-en";
     const modelParam = `${options.model || this.model}-${voiceParam}`;
     const url = `${this.baseUrl}/speak?model=${encodeURIComponent(modelParam)}`;
 
@@ -203,19 +207,28 @@ export class DeepgramTTSClient extends AbstractTTSClient {
       text: preparedText,
     };
 
-    const response = await fetch(url, {
+    const response = await this.fetchWithRetry(url, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         Authorization: `Token ${this.apiKey}`,
       },
       body: JSON.stringify(body),
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(
-        `Deepgram API error: ${response.status} ${response.statusText} - ${errorText}`
+      throw createHttpError(
+        `Deepgram API error: ${response.status} ${response.statusText} - ${errorText}`,
+        {
+          provider: "deepgram",
+          statusCode: response.status,
+          model: modelParam,
+          voiceId: voiceParam,
+          responseBody: errorText,
+        },
+        response.headers
       );
     }
 
@@ -224,7 +237,7 @@ export class DeepgramTTSClient extends AbstractTTSClient {
     return new Uint8Array(arrayBuffer);
   }
 
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options: DeepgramTTSOptions = {}
   ): Promise<{
@@ -233,7 +246,7 @@ export class DeepgramTTSClient extends AbstractTTSClient {
   }> {
     const preparedText = await this.prepareText(text, options);
 
-    const voiceParam = options.voice || this.voiceId || "aura-2-apollo-en";
+    const voiceParam = this.resolveVoiceId(options.voice) || "aura-2-apollo-en";
     const modelParam = `${options.model || this.model}-${voiceParam}`;
     const url = `${this.baseUrl}/speak?model=${encodeURIComponent(modelParam)}`;
 
@@ -242,19 +255,28 @@ export class DeepgramTTSClient extends AbstractTTSClient {
       text: preparedText,
     };
 
-    const response = await fetch(url, {
+    const response = await this.fetchWithRetry(url, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         Authorization: `Token ${this.apiKey}`,
       },
       body: JSON.stringify(body),
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(
-        `Deepgram API error: ${response.status} ${response.statusText} - ${errorText}`
+      throw createHttpError(
+        `Deepgram API error: ${response.status} ${response.statusText} - ${errorText}`,
+        {
+          provider: "deepgram",
+          statusCode: response.status,
+          model: modelParam,
+          voiceId: voiceParam,
+          responseBody: errorText,
+        },
+        response.headers
       );
     }
 
@@ -267,9 +289,16 @@ export class DeepgramTTSClient extends AbstractTTSClient {
           controller.close();
         },
       });
-      return { audioStream: readableStream, wordBoundaries: [] };
+      return { audioStream: abortableStream(readableStream, options.signal), wordBoundaries: [] };
     }
 
-    return { audioStream: response.body, wordBoundaries: [] };
+    return { audioStream: abortableStream(response.body, options.signal), wordBoundaries: [] };
   }
 }
+
+registerEngine("deepgram", {
+  create: (credentials: DeepgramTTSCredentials) => new DeepgramTTSClient(credentials),
+  credentialsSchema: { required: ["apiKey"], optional: ["baseURL", "model"] },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
@@ -1,11 +1,24 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { createHttpError, TTSError, TTSNetworkError, throwIfHttpError } from "../core/errors";
+import * as SSMLUtils from "../core/ssml-utils";
+import { WebSocketInputStream } from "../core/websocket-input-stream";
 import * as SpeechMarkdown from "../markdown/converter";
-import type { SpeakOptions, TTSCredentials, UnifiedVoice, WordBoundaryCallback } from "../types";
+import type {
+  CloneVoiceOptions,
+  SpeakOptions,
+  TextStreamInput,
+  TextStreamSynthesisResult,
+  TTSCredentials,
+  UnifiedVoice,
+  WordBoundary,
+  WordBoundaryCallback,
+} from "../types";
+import { abortableStream, isAbortError } from "../utils/abort-utils";
+import { loadVoiceSamples } from "../utils/audio-input";
 import { base64ToUint8Array } from "../utils/base64-utils";
-import { getFetch } from "../utils/fetch-utils";
-
-// Get the fetch implementation for the current environment
-const fetch = getFetch();
+import { iterateStream } from "../utils/stream-utils";
+import { openWebSocket, type WebSocketLike } from "../utils/websocket";
 
 /**
  * Extended options for ElevenLabs TTS.
@@ -69,10 +82,38 @@ export interface ElevenLabsTimestampResponse {
   normalized_alignment?: ElevenLabsAlignment;
 }
 
+/**
+ * Options for ElevenLabs input streaming
+ */
+export interface ElevenLabsInputStreamOptions extends ElevenLabsTTSOptions {
+  /**
+   * Characters to buffer before each generation, e.g. [120, 160, 250, 290] (the service default)
+   */
+  chunkLengthSchedule?: number[];
+}
+
+/**
+ * Message of the stream-input WebSocket (times in milliseconds, relative to the audio chunk)
+ */
+interface ElevenLabsStreamMessage {
+  audio?: string | null;
+  isFinal?: boolean | null;
+  alignment?: {
+    chars: string[];
+    charStartTimesMs: number[];
+    charsDurationsMs?: number[];
+    charDurationsMs?: number[];
+  } | null;
+  error?: string;
+  message?: string;
+}
+
 /**
  * ElevenLabs TTS client
  */
 export class ElevenLabsTTSClient extends AbstractTTSClient {
+  readonly engineName = "elevenlabs";
+
   private static readonly MODEL_V3 = "eleven_v3";
   private static readonly DEFAULT_MODEL = "eleven_multilingual_v2";
   /**
@@ -106,6 +147,7 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
    */
   constructor(credentials: ElevenLabsCredentials = {}) {
     super(credentials);
+    this.maxTextLength = 5000;
     this._models = [
       {
         id: "eleven_v3",
@@ -113,29 +155,55 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
           "streaming",
           "audio-tags",
           "inline-voice-cloning",
+          "voice-cloning",
           "word-boundary-events",
           "character-boundary-events",
         ],
       },
       {
         id: "eleven_turbo_v2_5",
-        features: ["streaming", "word-boundary-events", "character-boundary-events"],
+        features: [
+          "streaming",
+          "voice-cloning",
+          "word-boundary-events",
+          "character-boundary-events",
+        ],
       },
       {
         id: "eleven_turbo_v2",
-        features: ["streaming", "word-boundary-events", "character-boundary-events"],
+        features: [
+          "streaming",
+          "voice-cloning",
+          "word-boundary-events",
+          "character-boundary-events",
+        ],
       },
       {
         id: "eleven_monolingual_v1",
-        features: ["streaming", "word-boundary-events", "character-boundary-events"],
+        features: [
+          "streaming",
+          "voice-cloning",
+          "word-boundary-events",
+          "character-boundary-events",
+        ],
       },
       {
         id: "eleven_multilingual_v1",
-        features: ["streaming", "word-boundary-events", "character-boundary-events"],
+        features: [
+          "streaming",
+          "voice-cloning",
+          "word-boundary-events",
+          "character-boundary-events",
+        ],
       },
       {
         id: "eleven_multilingual_v2",
-        features: ["streaming", "word-boundary-events", "character-boundary-events"],
+        features: [
+          "streaming",
+          "voice-cloning",
+          "word-boundary-events",
+          "character-boundary-events",
+        ],
       },
     ];
     this.apiKey = credentials.apiKey || process.env.ELEVENLABS_API_KEY || "";
@@ -418,7 +486,10 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
         body: JSON.stringify(payload),
       } as const;
 
-      const response = await fetch(`${this.baseUrl}/text-to-speech/${voiceId}`, requestOptions);
+      const response = await this.fetchWithRetry(
+        `${this.baseUrl}/text-to-speech/${voiceId}`,
+        requestOptions
+      );
       if (!response.ok) {
         const errorText = await response.text();
         const lower = (errorText || "").toLowerCase();
@@ -488,8 +559,8 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
     try {
       const headers = { "xi-api-key": this.apiKey };
       const [voicesResp, modelsResp] = await Promise.all([
-        fetch(`${this.baseUrl}/voices`, { method: "GET", headers }),
-        fetch(`${this.baseUrl}/models`, { method: "GET", headers }),
+        this.fetchWithRetry(`${this.baseUrl}/voices`, { method: "GET", headers }),
+        this.fetchWithRetry(`${this.baseUrl}/models`, { method: "GET", headers }),
       ]);
 
       if (!voicesResp.ok) {
@@ -497,7 +568,11 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
         console.error(
           `ElevenLabs API error: ${voicesResp.status} ${voicesResp.statusText}\nResponse: ${errorText}`
         );
-        throw new Error(`Failed to get voices: ${voicesResp.statusText}`);
+        throw createHttpError(`Failed to get voices: ${voicesResp.statusText}`, {
+          provider: "elevenlabs",
+          statusCode: voicesResp.status,
+          responseBody: errorText,
+        });
       }
 
       const voiceData = await voicesResp.json();
@@ -524,9 +599,14 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
       processedText = ssml;
     }
 
-    // If text is SSML, strip the tags as ElevenLabs doesn't support SSML
+    // If text is SSML, convert it to plain text as ElevenLabs doesn't support SSML
     if (this._isSSML(processedText)) {
-      processedText = this._stripSSML(processedText);
+      processedText = SSMLUtils.processSSMLForEngine(
+        processedText,
+        "elevenlabs",
+        undefined,
+        this.lang
+      );
     }
 
     // Process audio tags based on model
@@ -568,10 +648,10 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
    * @param options Synthesis options
    * @returns Promise resolving to audio bytes
    */
-  async synthToBytes(text: string, options?: ElevenLabsTTSOptions): Promise<Uint8Array> {
+  protected async _synthToBytes(text: string, options?: ElevenLabsTTSOptions): Promise<Uint8Array> {
     try {
       // Use voice from options or the default voice
-      const voiceId = options?.voice || this.voiceId || "21m00Tcm4TlvDq8ikWAM"; // Default voice (Rachel)
+      const voiceId = this.resolveVoiceId(options?.voice) || "21m00Tcm4TlvDq8ikWAM"; // Default voice (Rachel)
 
       // Prepare text for synthesis (strip SSML tags)
       const preparedText = await this.prepareText(text, options);
@@ -597,11 +677,7 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
           );
 
           // Store timing data for word boundary events
-          this.timings = wordBoundaries.map((wb) => [
-            wb.offset / 10000, // Convert from 100-nanosecond units to seconds
-            (wb.offset + wb.duration) / 10000,
-            wb.text,
-          ]);
+          this._setTimingsFromWordBoundaries(wordBoundaries);
         }
       } else {
         // Use the regular endpoint (no timing data)
@@ -613,20 +689,30 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
             "xi-api-key": this.apiKey,
           },
           body: JSON.stringify(payload),
+          signal: options?.signal,
         };
 
-        const response = await fetch(`${this.baseUrl}/text-to-speech/${voiceId}`, requestOptions);
+        const response = await this.fetchWithRetry(
+          `${this.baseUrl}/text-to-speech/${voiceId}`,
+          requestOptions
+        );
 
         if (!response.ok) {
           const errorText = await response.text();
           console.error(
             `ElevenLabs API error: ${response.status} ${response.statusText}\nResponse: ${errorText}`
           );
-          const err = new Error(
-            `Failed to synthesize speech: ${response.status} ${response.statusText} - ${errorText}`
+          throw createHttpError(
+            `Failed to synthesize speech: ${response.status} ${response.statusText} - ${errorText}`,
+            {
+              provider: "elevenlabs",
+              statusCode: response.status,
+              model: payload.model_id as string,
+              voiceId,
+              responseBody: errorText,
+            },
+            response.headers
           );
-          (err as any).status = response.status;
-          throw err;
         }
 
         const arrayBuffer = await response.arrayBuffer();
@@ -654,7 +740,7 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
    * @param options Synthesis options
    * @returns Promise resolving to an object containing the audio stream and word boundaries array
    */
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options?: ElevenLabsTTSOptions
   ): Promise<{
@@ -663,7 +749,7 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
   }> {
     try {
       // Use voice from options or the default voice
-      const voiceId = options?.voice || this.voiceId || "21m00Tcm4TlvDq8ikWAM"; // Default voice (Rachel)
+      const voiceId = this.resolveVoiceId(options?.voice) || "21m00Tcm4TlvDq8ikWAM"; // Default voice (Rachel)
 
       // Prepare text for synthesis (strip SSML tags)
       const preparedText = await this.prepareText(text, options);
@@ -707,9 +793,10 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
             "xi-api-key": this.apiKey,
           },
           body: JSON.stringify(payload),
+          signal: options?.signal,
         };
 
-        const response = await fetch(
+        const response = await this.fetchWithRetry(
           `${this.baseUrl}/text-to-speech/${voiceId}/stream`,
           requestOptions
         );
@@ -719,11 +806,17 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
           console.error(
             `ElevenLabs API error: ${response.status} ${response.statusText}\nResponse: ${errorText}`
           );
-          const err = new Error(
-            `Failed to synthesize speech stream: ${response.status} ${response.statusText} - ${errorText}`
+          throw createHttpError(
+            `Failed to synthesize speech stream: ${response.status} ${response.statusText} - ${errorText}`,
+            {
+              provider: "elevenlabs",
+              statusCode: response.status,
+              model: payload.model_id as string,
+              voiceId,
+              responseBody: errorText,
+            },
+            response.headers
           );
-          (err as any).status = response.status;
-          throw err;
         }
 
         if (response.body) {
@@ -763,7 +856,7 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
         }
       }
 
-      return { audioStream, wordBoundaries };
+      return { audioStream: abortableStream(audioStream, options?.signal), wordBoundaries };
     } catch (error) {
       console.error("Error synthesizing speech stream:", error);
       throw error;
@@ -790,9 +883,10 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
         "xi-api-key": this.apiKey,
       },
       body: JSON.stringify(payload),
+      signal: options?.signal,
     };
 
-    const response = await fetch(
+    const response = await this.fetchWithRetry(
       `${this.baseUrl}/text-to-speech/${voiceId}/with-timestamps`,
       requestOptions
     );
@@ -802,11 +896,17 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
       console.error(
         `ElevenLabs API error: ${response.status} ${response.statusText}\nResponse: ${errorText}`
       );
-      const err = new Error(
-        `Failed to synthesize speech with timestamps: ${response.status} ${response.statusText} - ${errorText}`
+      throw createHttpError(
+        `Failed to synthesize speech with timestamps: ${response.status} ${response.statusText} - ${errorText}`,
+        {
+          provider: "elevenlabs",
+          statusCode: response.status,
+          model: payload.model_id as string,
+          voiceId,
+          responseBody: errorText,
+        },
+        response.headers
       );
-      (err as any).status = response.status;
-      throw err;
     }
 
     return (await response.json()) as ElevenLabsTimestampResponse;
@@ -854,8 +954,8 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
 
         wordBoundaries.push({
           text: wordInfo.word,
-          offset: Math.round(startTime * 10000), // Convert to 100-nanosecond units
-          duration: Math.round((endTime - startTime) * 10000),
+          offset: Math.round(startTime * 1000), // Convert seconds to milliseconds
+          duration: Math.round((endTime - startTime) * 1000),
         });
       }
     }
@@ -863,6 +963,86 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
     return wordBoundaries;
   }
 
+  /**
+   * Open an input stream for text that arrives in fragments, such as LLM tokens.
+   * Uses the stream-input WebSocket, so synthesis starts before the full text is known.
+   * Fragments are sent as plain text (SSML and Speech Markdown are not converted).
+   * @param options Synthesis options
+   * @returns Promise resolving to the input stream once the connection is open
+   */
+  async createInputStream(options?: ElevenLabsInputStreamOptions): Promise<ElevenLabsInputStream> {
+    const voiceId = this.resolveVoiceId(options?.voice) || "21m00Tcm4TlvDq8ikWAM"; // Default voice (Rachel)
+    const payload = this.buildRequestPayload("", options);
+    const outputFormat = payload.output_format as string;
+
+    const query = new URLSearchParams({
+      model_id: payload.model_id as string,
+      output_format: outputFormat,
+    });
+    if (options?.languageCode) query.set("language_code", options.languageCode);
+    if (options?.seed !== undefined) query.set("seed", String(options.seed));
+    if (options?.applyTextNormalization) {
+      query.set("apply_text_normalization", options.applyTextNormalization);
+    }
+    const url = `${this.baseUrl.replace(/^http/, "ws")}/text-to-speech/${voiceId}/stream-input?${query}`;
+
+    let socket: WebSocketLike;
+    try {
+      socket = await openWebSocket(url, options?.signal);
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      throw new TTSNetworkError(
+        `Failed to connect to ElevenLabs: ${error instanceof Error ? error.message : String(error)}`,
+        { provider: "elevenlabs", model: payload.model_id as string, voiceId, cause: error }
+      );
+    }
+
+    const inputStream = new ElevenLabsInputStream(socket, outputFormat, options?.signal);
+
+    // The first message opens the stream; browsers cannot send the API key as a header
+    socket.send(
+      JSON.stringify({
+        text: " ",
+        voice_settings: payload.voice_settings,
+        xi_api_key: this.apiKey,
+        ...(options?.chunkLengthSchedule
+          ? { generation_config: { chunk_length_schedule: options.chunkLengthSchedule } }
+          : {}),
+      })
+    );
+
+    return inputStream;
+  }
+
+  /**
+   * Synthesize text that arrives in fragments over an input stream (see createInputStream)
+   * @param textStream Text fragments
+   * @param options Synthesis options
+   * @returns Promise resolving to the audio stream and the word boundaries filled in as it arrives
+   */
+  async synthFromTextStream(
+    textStream: TextStreamInput,
+    options?: ElevenLabsInputStreamOptions
+  ): Promise<TextStreamSynthesisResult> {
+    const input = await this.createInputStream(options);
+
+    // Send the fragments while the caller reads the audio
+    (async () => {
+      try {
+        for await (const fragment of iterateStream(textStream)) {
+          input.write(fragment);
+        }
+        await input.close();
+      } catch (error) {
+        input.abort(error);
+      }
+    })();
+
+    return { audioStream: input.audioStream, wordBoundaries: input.wordBoundaries };
+  }
+
   /**
    * Start playback with word boundary callbacks
    * @param text Text to speak
@@ -874,17 +1054,9 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
     callback: WordBoundaryCallback,
     options?: ElevenLabsTTSOptions
   ): Promise<void> {
-    // Register the callback
-    this.on("boundary", callback);
-
     // Enable timestamps for better word boundary accuracy
-    const enhancedOptions = {
-      ...options,
-      useTimestamps: true,
-    };
-
-    // Start playback
-    await this.speakStreamed(text, enhancedOptions);
+    const enhancedOptions: ElevenLabsTTSOptions = { ...options, useTimestamps: true };
+    await this._speakStreamedWithCallbacks(text, callback, enhancedOptions);
   }
 
   /**
@@ -922,7 +1094,7 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
    */
   async getVoice(voiceId: string): Promise<UnifiedVoice | null> {
     try {
-      const response = await fetch(`${this.baseUrl}/voices/${voiceId}`, {
+      const response = await this.fetchWithRetry(`${this.baseUrl}/voices/${voiceId}`, {
         method: "GET",
         headers: {
           "xi-api-key": this.apiKey,
@@ -937,7 +1109,12 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
         console.error(
           `ElevenLabs API error: ${response.status} ${response.statusText}\nResponse: ${errorText}`
         );
-        throw new Error(`Failed to get voice: ${response.statusText}`);
+        throw createHttpError(`Failed to get voice: ${response.statusText}`, {
+          provider: "elevenlabs",
+          statusCode: response.status,
+          voiceId,
+          responseBody: errorText,
+        });
       }
 
       const voice = await response.json();
@@ -969,6 +1146,79 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
     }
   }
 
+  /**
+   * Create an instant voice clone from recordings of a speaker
+   * @param options Name, samples, description and language of the voice
+   * @returns Promise resolving to the new voice
+   */
+  async createClonedVoice(options: CloneVoiceOptions): Promise<UnifiedVoice> {
+    const form = new FormData();
+    form.append("name", options.name);
+    for (const { blob, filename } of await loadVoiceSamples(options.samples)) {
+      form.append("files", blob, filename);
+    }
+    if (options.description) {
+      form.append("description", options.description);
+    }
+    if (options.language) {
+      form.append("labels", JSON.stringify({ language: options.language }));
+    }
+
+    const response = await this.fetchOnce(`${this.baseUrl}/voices/add`, {
+      method: "POST",
+      headers: { "xi-api-key": this.apiKey },
+      body: form,
+    });
+    await throwIfHttpError(response, "Failed to create cloned voice", { provider: "elevenlabs" });
+
+    const { voice_id } = await response.json();
+    const [voice] = await this._mapVoicesToUnified([
+      {
+        voice_id,
+        name: options.name,
+        _resolvedLanguages: options.language
+          ? [{ language_id: options.language, name: options.language }]
+          : [],
+      },
+    ]);
+    return voice;
+  }
+
+  /**
+   * Get the instant and professional voice clones of the account
+   * @returns Promise resolving to the cloned voices
+   */
+  async listClonedVoices(): Promise<UnifiedVoice[]> {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/voices`, {
+      method: "GET",
+      headers: { "xi-api-key": this.apiKey },
+    });
+    await throwIfHttpError(response, "Failed to list cloned voices", { provider: "elevenlabs" });
+
+    const { voices } = await response.json();
+    return this._mapVoicesToUnified(
+      (voices ?? []).filter((voice: any) => ["cloned", "professional"].includes(voice.category))
+    );
+  }
+
+  /**
+   * Delete a cloned voice
+   * @param voiceId ID of the cloned voice
+   */
+  async deleteClonedVoice(voiceId: string): Promise<void> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/voices/${encodeURIComponent(voiceId)}`,
+      {
+        method: "DELETE",
+        headers: { "xi-api-key": this.apiKey },
+      }
+    );
+    await throwIfHttpError(response, "Failed to delete cloned voice", {
+      provider: "elevenlabs",
+      voiceId,
+    });
+  }
+
   /**
    * Convert MP3 audio data to WAV format using the audio converter utility
    * @param mp3Data MP3 audio data from ElevenLabs
@@ -992,3 +1242,157 @@ export class ElevenLabsTTSClient extends AbstractTTSClient {
     }
   }
 }
+
+/**
+ * Text input stream of the ElevenLabs stream-input WebSocket
+ *
+ * Text written with write() is synthesized once ElevenLabs has buffered enough of it, or
+ * straight away after flush(). Audio can be read from audioStream while text is still being
+ * written. The word boundaries and character alignment are filled in as the audio arrives.
+ */
+export class ElevenLabsInputStream extends WebSocketInputStream {
+  /**
+   * Character alignment of the audio received so far, in seconds from the start of the stream
+   */
+  readonly alignment: ElevenLabsAlignment = {
+    characters: [],
+    character_start_times_seconds: [],
+    character_end_times_seconds: [],
+  };
+
+  /**
+   * Start time of the next audio chunk, in milliseconds
+   */
+  private chunkStart = 0;
+  private currentWord: WordBoundary | null = null;
+
+  /**
+   * Sample rate of raw PCM output, whose chunk durations can be computed from their size
+   */
+  private pcmSampleRate: number | null;
+
+  /**
+   * Create an input stream on an open connection (see ElevenLabsTTSClient.createInputStream)
+   * @param socket Open stream-input WebSocket
+   * @param outputFormat Output format of the audio, e.g. mp3_44100_128
+   * @param signal Optional AbortSignal that closes the connection
+   */
+  constructor(socket: WebSocketLike, outputFormat: string, signal?: AbortSignal) {
+    super(socket, { name: "ElevenLabs", provider: "elevenlabs" }, signal);
+    const pcmMatch = /^pcm_(\d+)$/.exec(outputFormat);
+    this.pcmSampleRate = pcmMatch ? Number(pcmMatch[1]) : null;
+  }
+
+  /**
+   * Synthesize the buffered text now instead of waiting for more, e.g. at the end of a reply.
+   * The stream stays open for more text.
+   */
+  flush(): void {
+    if (this.closed) {
+      throw new Error("Cannot flush a closed ElevenLabs input stream");
+    }
+    this.send({ text: " ", flush: true });
+  }
+
+  protected createTextMessage(text: string): Record<string, unknown> {
+    // The empty text of the last message ends the stream
+    return { text };
+  }
+
+  protected handleMessage(message: ElevenLabsStreamMessage): void {
+    if (message.error) {
+      this.finish(
+        new TTSError(`ElevenLabs input stream failed: ${message.message || message.error}`, {
+          provider: "elevenlabs",
+          responseBody: JSON.stringify(message),
+        })
+      );
+      return;
+    }
+
+    if (message.audio && !this.finished) {
+      const audio = base64ToUint8Array(message.audio);
+      this.enqueue(audio);
+      this.addAlignment(message.alignment, audio.length);
+    }
+    if (message.isFinal) {
+      this.finish();
+    }
+  }
+
+  protected handleClose(code: number, reason: string): void {
+    // The service closes the connection after the last audio of a closed stream
+    if (this.closed && code === 1000) {
+      this.finish();
+      return;
+    }
+    super.handleClose(code, reason);
+  }
+
+  protected finish(error?: Error): void {
+    if (!this.finished) {
+      this.endWord();
+    }
+    super.finish(error);
+  }
+
+  /**
+   * Add the character alignment of an audio chunk
+   * @param alignment Alignment relative to the chunk, if the service sent one
+   * @param byteLength Size of the audio chunk
+   */
+  private addAlignment(alignment: ElevenLabsStreamMessage["alignment"], byteLength: number): void {
+    const chunkStart = this.chunkStart;
+    let chunkEnd = chunkStart;
+
+    if (alignment) {
+      const durations = alignment.charsDurationsMs ?? alignment.charDurationsMs ?? [];
+      alignment.chars.forEach((character, index) => {
+        const start = chunkStart + alignment.charStartTimesMs[index];
+        const end = start + (durations[index] ?? 0);
+        chunkEnd = Math.max(chunkEnd, end);
+
+        this.alignment.characters.push(character);
+        this.alignment.character_start_times_seconds.push(start / 1000);
+        this.alignment.character_end_times_seconds.push(end / 1000);
+
+        if (/\s/.test(character)) {
+          this.endWord();
+        } else if (this.currentWord) {
+          this.currentWord.text += character;
+          this.currentWord.duration = Math.round(end - this.currentWord.offset);
+        } else {
+          this.currentWord = {
+            text: character,
+            offset: Math.round(start),
+            duration: Math.round(end - start),
+          };
+        }
+      });
+    }
+
+    // 16-bit mono PCM chunks have an exact duration; otherwise the next chunk starts where
+    // the speech of this one ends
+    this.chunkStart =
+      this.pcmSampleRate !== null
+        ? chunkStart + (byteLength / 2 / this.pcmSampleRate) * 1000
+        : chunkEnd;
+  }
+
+  /**
+   * Add the word being aligned to the word boundaries
+   */
+  private endWord(): void {
+    if (this.currentWord) {
+      this.wordBoundaries.push(this.currentWord);
+      this.currentWord = null;
+    }
+  }
+}
+
+registerEngine("elevenlabs", {
+  create: (credentials: ElevenLabsCredentials) => new ElevenLabsTTSClient(credentials),
+  credentialsSchema: { required: ["apiKey"], optional: ["model", "modelId", "outputFormat"] },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
@@ -1,5 +1,8 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
-import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
+import { registerEngine } from "../core/engine-registry";
+import { TTSError } from "../core/errors";
+import type { SpeakOptions, TTSCredentials, UnifiedVoice, Viseme } from "../types";
+import { abortableStream, throwIfAborted } from "../utils/abort-utils";
 
 // Function to detect if we're in a browser environment
 function isBrowser(): boolean {
@@ -18,6 +21,8 @@ function runtimeImport(specifier: string): Promise<any> {
  * For Node.js-only environments with better performance, use EspeakNodeTTSClient instead.
  */
 export class EspeakBrowserTTSClient extends AbstractTTSClient {
+  readonly engineName = "espeak-wasm";
+
   private nodeClient?: any;
   private meSpeak: any | null = null;
   private meSpeakReady = false;
@@ -25,13 +30,15 @@ export class EspeakBrowserTTSClient extends AbstractTTSClient {
   constructor(credentials: TTSCredentials = {}) {
     super(credentials);
 
+    this._models = [{ id: "espeak-wasm", features: ["open-source", "visemes"] }];
+
     // Set a default voice for eSpeak TTS
     this.voiceId = "en"; // Default English voice
 
     // In Node.js environments, we'll lazily load the Node client when needed to avoid bundling it in browsers.
   }
 
-  async synthToBytes(text: string, options?: SpeakOptions): Promise<Uint8Array> {
+  protected async _synthToBytes(text: string, options?: SpeakOptions): Promise<Uint8Array> {
     // Node.js: delegate to Node client
     if (!isBrowser()) {
       if (!this.nodeClient) {
@@ -46,7 +53,8 @@ export class EspeakBrowserTTSClient extends AbstractTTSClient {
     await this.ensureMeSpeakLoaded();
 
     const meSpeak = this.meSpeak;
-    if (!meSpeak) throw new Error("eSpeak-WASM: meSpeak failed to load");
+    if (!meSpeak)
+      throw new TTSError("eSpeak-WASM: meSpeak failed to load", { provider: "espeak-wasm" });
 
     const voiceId = (this.voiceId || "en").toLowerCase();
     // pick meSpeak voice payload (limited set to keep bundle small)
@@ -85,7 +93,9 @@ export class EspeakBrowserTTSClient extends AbstractTTSClient {
       speed,
       pitch,
     });
-    if (!arr || !arr.length) throw new Error("eSpeak-WASM: synthesis failed");
+    if (!arr || !arr.length) {
+      throw new TTSError("eSpeak-WASM: synthesis failed", { provider: "espeak-wasm", voiceId });
+    }
     return new Uint8Array(arr);
   }
 
@@ -144,14 +154,17 @@ export class EspeakBrowserTTSClient extends AbstractTTSClient {
    * @param options Synthesis options
    * @returns Promise resolving to an object containing the audio stream and an empty word boundaries array.
    */
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options?: SpeakOptions
   ): Promise<{
     audioStream: ReadableStream<Uint8Array>;
     wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
+    visemes: Viseme[];
   }> {
-    const audioBytes = await this.synthToBytes(text, options);
+    throwIfAborted(options?.signal);
+    const audioBytes = await this._synthToBytes(text, options);
+    throwIfAborted(options?.signal);
 
     // Generate word boundaries if requested
     let wordBoundaries: Array<{ text: string; offset: number; duration: number }> = [];
@@ -161,11 +174,7 @@ export class EspeakBrowserTTSClient extends AbstractTTSClient {
       this._createEstimatedWordTimings(text);
 
       // Convert internal timings to word boundary format
-      wordBoundaries = this.timings.map(([start, end, word]) => ({
-        text: word,
-        offset: Math.round(start * 10000), // Convert to 100-nanosecond units
-        duration: Math.round((end - start) * 10000),
-      }));
+      wordBoundaries = this._getWordBoundariesFromTimings();
     }
 
     // "Fake" streaming by wrapping full audio in a ReadableStream
@@ -176,7 +185,11 @@ export class EspeakBrowserTTSClient extends AbstractTTSClient {
       },
     });
 
-    return { audioStream, wordBoundaries };
+    return {
+      audioStream: abortableStream(audioStream, options?.signal),
+      wordBoundaries,
+      visemes: await this._estimateVisemes(text, wordBoundaries),
+    };
   }
 
   /**
@@ -286,3 +299,10 @@ export class EspeakBrowserTTSClient extends AbstractTTSClient {
 
 // Backward compatibility export
 export { EspeakBrowserTTSClient as EspeakWasmTTSClient };
+
+registerEngine("espeak-wasm", {
+  create: (credentials: TTSCredentials) => new EspeakBrowserTTSClient(credentials),
+  credentialsSchema: { required: [] },
+  capabilities: { browserSupported: true, nodeSupported: true, needsWasm: true },
+  browser: true,
+});
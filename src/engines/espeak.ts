@@ -1,7 +1,11 @@
 import { createRequire } from "node:module";
 import path from "node:path";
 import { AbstractTTSClient } from "../core/abstract-tts";
-import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
+import { registerEngine } from "../core/engine-registry";
+import { TTSError } from "../core/errors";
+import { splitPhonemes } from "../core/visemes";
+import type { SpeakOptions, TTSCredentials, UnifiedVoice, Viseme } from "../types";
+import { abortableStream, throwIfAborted } from "../utils/abort-utils";
 
 // Dynamic text2wav module - will be loaded when needed
 let text2wav: any = null;
@@ -90,6 +94,62 @@ async function loadText2Wav() {
   }
 }
 
+// eSpeak NG program bundled with text2wav, used for phonemes
+let espeakNg: any = null;
+
+async function loadEspeakNg() {
+  if (espeakNg) return espeakNg;
+
+  // Loading text2wav checks the package is installed and sets up loading its WASM
+  await loadText2Wav();
+  try {
+    espeakNg = await import("text2wav/lib/espeak-ng.js" as any);
+  } catch (_importError) {
+    const requireFromCwd = createRequire(path.join(process.cwd(), "noop.js"));
+    espeakNg = await import(requireFromCwd.resolve("text2wav/lib/espeak-ng.js"));
+  }
+  if (espeakNg?.default) {
+    espeakNg = espeakNg.default;
+  }
+  return espeakNg;
+}
+
+/**
+ * Transcribe words to IPA with eSpeak NG. Each word is sent as its own clause, so eSpeak writes
+ * the phonemes of each word on its own line.
+ * @param words Words to transcribe
+ * @param voice eSpeak voice that sets the pronunciation rules
+ * @returns Phonemes of each word, or null when the lines do not match the words
+ */
+async function transcribeWords(words: string[], voice: string): Promise<string[][] | null> {
+  const run = await loadEspeakNg();
+  const output = await new Promise<string>((resolve, reject) => {
+    const Module: any = {
+      arguments: [
+        words.map((word) => `${word}.`).join("\n"),
+        "-q",
+        "--ipa",
+        "--sep=_",
+        "--phonout=ipa.txt",
+        "-v",
+        voice,
+      ],
+      print: () => {},
+      printErr: () => {},
+      // eSpeak exits without running postRun when it fails, e.g. for an unknown voice
+      quit: (status: number) => reject(new Error(`eSpeak NG exited with status ${status}`)),
+      postRun() {
+        Module.FS.unmount("/usr/share");
+        resolve(new TextDecoder().decode(Module.FS.root.contents["ipa.txt"].contents));
+      },
+    };
+    run(Module);
+  });
+
+  const lines = output.replace(/\n$/, "").split("\n");
+  return lines.length === words.length ? lines.map(splitPhonemes) : null;
+}
+
 // text2wav options interface
 interface Text2WavOptions {
   voice?: string;
@@ -112,10 +172,12 @@ interface Text2WavOptions {
  * For browser environments, use EspeakBrowserTTSClient instead.
  */
 export class EspeakNodeTTSClient extends AbstractTTSClient {
+  readonly engineName = "espeak";
+
   constructor(credentials: TTSCredentials = {}) {
     super(credentials);
 
-    this._models = [{ id: "espeak-ng", features: ["open-source"] }];
+    this._models = [{ id: "espeak-ng", features: ["open-source", "visemes"] }];
 
     // Set a default voice for eSpeak TTS
     this.voiceId = "en"; // Default English voice
@@ -142,7 +204,7 @@ export class EspeakNodeTTSClient extends AbstractTTSClient {
    * @param options Synthesis options
    * @returns Promise resolving to audio bytes
    */
-  async synthToBytes(text: string, options?: SpeakOptions): Promise<Uint8Array> {
+  protected async _synthToBytes(text: string, options?: SpeakOptions): Promise<Uint8Array> {
     try {
       // Load the text2wav module
       const text2wavModule = await loadText2Wav();
@@ -151,7 +213,7 @@ export class EspeakNodeTTSClient extends AbstractTTSClient {
       const text2wavOptions: Text2WavOptions = {};
 
       // Use voice from options or the default voice
-      const voiceId = options?.voice || this.voiceId || "en";
+      const voiceId = this.resolveVoiceId(options?.voice) || "en";
       text2wavOptions.voice = voiceId;
 
       // Map other options to text2wav format
@@ -180,8 +242,9 @@ export class EspeakNodeTTSClient extends AbstractTTSClient {
       return audioBuffer;
     } catch (err) {
       console.error("eSpeak TTS synthesis error:", err);
-      throw new Error(
-        `Failed to synthesize speech with eSpeak: ${err instanceof Error ? err.message : String(err)}`
+      throw new TTSError(
+        `Failed to synthesize speech with eSpeak: ${err instanceof Error ? err.message : String(err)}`,
+        { provider: "espeak", voiceId: this.resolveVoiceId(options?.voice), cause: err }
       );
     }
   }
@@ -192,14 +255,17 @@ export class EspeakNodeTTSClient extends AbstractTTSClient {
    * @param options Synthesis options
    * @returns Promise resolving to an object containing the audio stream and an empty word boundaries array.
    */
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options?: SpeakOptions
   ): Promise<{
     audioStream: ReadableStream<Uint8Array>;
     wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
+    visemes: Viseme[];
   }> {
-    const audioBytes = await this.synthToBytes(text, options);
+    throwIfAborted(options?.signal);
+    const audioBytes = await this._synthToBytes(text, options);
+    throwIfAborted(options?.signal);
 
     // Generate word boundaries if requested
     let wordBoundaries: Array<{ text: string; offset: number; duration: number }> = [];
@@ -209,11 +275,7 @@ export class EspeakNodeTTSClient extends AbstractTTSClient {
       this._createEstimatedWordTimings(text);
 
       // Convert internal timings to word boundary format
-      wordBoundaries = this.timings.map(([start, end, word]) => ({
-        text: word,
-        offset: Math.round(start * 10000), // Convert to 100-nanosecond units
-        duration: Math.round((end - start) * 10000),
-      }));
+      wordBoundaries = this._getWordBoundariesFromTimings();
     }
 
     // "Fake" streaming by wrapping full audio in a ReadableStream
@@ -224,7 +286,27 @@ export class EspeakNodeTTSClient extends AbstractTTSClient {
       },
     });
 
-    return { audioStream, wordBoundaries };
+    return {
+      audioStream: abortableStream(audioStream, options?.signal),
+      wordBoundaries,
+      visemes: await this._estimateVisemes(text, wordBoundaries, options),
+    };
+  }
+
+  /**
+   * Transcribe words to IPA with eSpeak NG for viseme estimates
+   * @param words Words being spoken
+   * @param options Synthesis options, for the voice
+   * @returns Phonemes of each word, or null when eSpeak's output does not line up with the words
+   */
+  protected async _getPhonemes(
+    words: string[],
+    options?: SpeakOptions
+  ): Promise<string[][] | null> {
+    if (words.length === 0) {
+      return [];
+    }
+    return transcribeWords(words, this.resolveVoiceId(options?.voice) || "en");
   }
 
   // TODO: Add voice/language/rate/pitch options, browser WASM loader, etc.
@@ -285,3 +367,10 @@ export class EspeakNodeTTSClient extends AbstractTTSClient {
 
 // Backward compatibility export
 export { EspeakNodeTTSClient as EspeakTTSClient };
+
+registerEngine("espeak", {
+  create: (credentials: TTSCredentials) => new EspeakNodeTTSClient(credentials),
+  credentialsSchema: { required: [] },
+  capabilities: { browserSupported: false, nodeSupported: true },
+  browser: false,
+});
@@ -0,0 +1,407 @@
+import { AbstractTTSClient } from "../core/abstract-tts";
+import {
+  createRegisteredClient,
+  type EngineCreateOptions,
+  registerEngine,
+} from "../core/engine-registry";
+import {
+  TTSAuthError,
+  TTSError,
+  TTSQuotaError,
+  TTSUnsupportedFeatureError,
+  toTTSError,
+} from "../core/errors";
+import type { Lexicon } from "../core/lexicon";
+import type { RetryOptions } from "../core/retry";
+import type { SynthesisCache } from "../core/synthesis-cache";
+import type {
+  PropertyType,
+  SpeakOptions,
+  TTSCredentials,
+  UnifiedVoice,
+  VoiceInput,
+} from "../types";
+import { isAbortError, throwIfAborted } from "../utils/abort-utils";
+
+/**
+ * Engine entry of a failover client: a configured client, or a registered engine name
+ * with its credentials
+ */
+export type FailoverEngineConfig =
+  | AbstractTTSClient
+  | { engine: string; credentials?: TTSCredentials };
+
+/**
+ * Failover TTS credentials
+ */
+export interface FailoverTTSCredentials extends TTSCredentials {
+  /**
+   * Engines, in the order they should be tried
+   */
+  engines: FailoverEngineConfig[];
+
+  /**
+   * Decide whether an error moves the request to the next engine.
+   * Defaults to retryable errors (rate limits, network failures, 5xx), auth/quota errors and
+   * reference audio the engine cannot clone a voice from.
+   */
+  shouldFailover?: (error: unknown, engine: AbstractTTSClient) => boolean;
+}
+
+/**
+ * Details passed to failover listeners when an engine is skipped
+ */
+export interface FailoverEvent {
+  /**
+   * Engine that failed
+   */
+  from: AbstractTTSClient;
+
+  /**
+   * Engine that will be tried next
+   */
+  to: AbstractTTSClient;
+
+  /**
+   * Error raised by the failing engine
+   */
+  error: unknown;
+
+  /**
+   * Voice that will be requested from the next engine, if one was mapped
+   */
+  voice?: VoiceInput;
+}
+
+/**
+ * Default failover rule: move on for errors a different provider may not hit
+ * @param error Error raised by an engine
+ * @returns True if the next engine should be tried
+ */
+function isFailoverError(error: unknown): boolean {
+  return (
+    error instanceof TTSAuthError ||
+    error instanceof TTSQuotaError ||
+    (error instanceof TTSUnsupportedFeatureError && error.feature === "inline-voice-cloning") ||
+    (error instanceof TTSError && error.isRetryable)
+  );
+}
+
+/**
+ * Pick the voice of a voice list closest to a reference voice.
+ * Prefers the same locale and gender, then the same locale, then the same base language.
+ * @param voices Candidate voices
+ * @param reference Voice to match
+ * @returns Closest voice, or undefined when no voice shares the language
+ */
+export function findClosestVoice(
+  voices: UnifiedVoice[],
+  reference: Pick<UnifiedVoice, "languageCodes" | "gender">
+): UnifiedVoice | undefined {
+  const locales = reference.languageCodes.map((lang) => lang.bcp47.toLowerCase());
+  const languages = locales.map((locale) => locale.split("-")[0]);
+  const sameGender = (voice: UnifiedVoice) =>
+    !reference.gender || reference.gender === "Unknown" || voice.gender === reference.gender;
+  const hasLocale = (voice: UnifiedVoice) =>
+    voice.languageCodes.some((lang) => locales.includes(lang.bcp47.toLowerCase()));
+  const hasLanguage = (voice: UnifiedVoice) =>
+    voice.languageCodes.some((lang) => languages.includes(lang.bcp47.toLowerCase().split("-")[0]));
+
+  return (
+    voices.find((voice) => hasLocale(voice) && sameGender(voice)) ??
+    voices.find(hasLocale) ??
+    voices.find((voice) => hasLanguage(voice) && sameGender(voice)) ??
+    voices.find(hasLanguage)
+  );
+}
+
+/**
+ * Failover TTS client
+ *
+ * Wraps an ordered list of configured clients behind a single client. Each request goes to
+ * the first engine; when it fails with a retryable, auth or quota error the request moves
+ * to the next engine, with the requested voice mapped to that engine's closest voice by
+ * language and gender. Playback and events are handled by this client, so listeners keep
+ * working whichever engine produced the audio.
+ */
+export class FailoverTTSClient extends AbstractTTSClient {
+  readonly engineName = "failover";
+
+  private engines: AbstractTTSClient[];
+  private shouldFailover: (error: unknown, engine: AbstractTTSClient) => boolean;
+  private voiceCache = new Map<AbstractTTSClient, Promise<UnifiedVoice[]>>();
+  private failoverListeners: Array<(event: FailoverEvent) => void> = [];
+  private lastEngine: AbstractTTSClient | null = null;
+
+  /**
+   * Create a new failover client
+   * @param credentials Ordered engines and an optional failover rule
+   * @param options Environment to create engines given by name for (set browser to only
+   *   accept engines available through createBrowserTTSClient)
+   */
+  constructor(credentials: FailoverTTSCredentials, options: EngineCreateOptions = {}) {
+    super(credentials);
+
+    if (!credentials?.engines?.length) {
+      throw new TTSError("FailoverTTSClient requires at least one engine", {
+        provider: "failover",
+      });
+    }
+
+    this.engines = credentials.engines.map((entry) =>
+      "engine" in entry && typeof entry.engine === "string"
+        ? createRegisteredClient(entry.engine, entry.credentials, options)
+        : (entry as AbstractTTSClient)
+    );
+    this.shouldFailover = credentials.shouldFailover ?? isFailoverError;
+    // Reference audio is accepted when an engine can clone from it; the others fail over
+    this.acceptsVoiceReference = this.engines.some((engine) =>
+      this.clientAcceptsVoiceReference(engine)
+    );
+    this.capabilities = {
+      browserSupported: this.engines.some((engine) => engine.capabilities.browserSupported),
+      nodeSupported: this.engines.some((engine) => engine.capabilities.nodeSupported),
+      needsWasm: this.engines.some((engine) => engine.capabilities.needsWasm),
+    };
+    // The base constructor runs before the engines exist, so the cache is passed on here
+    if (credentials.cache) {
+      this.setCache(credentials.cache as SynthesisCache);
+    }
+  }
+
+  /**
+   * Get the wrapped engines in failover order
+   * @returns Configured clients
+   */
+  getEngines(): AbstractTTSClient[] {
+    return [...this.engines];
+  }
+
+  /**
+   * Get the engine that served the most recent request
+   * @returns Client, or null before the first successful request
+   */
+  getActiveEngine(): AbstractTTSClient | null {
+    return this.lastEngine;
+  }
+
+  /**
+   * Register a listener called whenever a request moves to the next engine
+   * @param listener Failover listener
+   */
+  onFailover(listener: (event: FailoverEvent) => void): void {
+    this.failoverListeners.push(listener);
+  }
+
+  /**
+   * Get the voices of all engines
+   * Engines whose voice list cannot be loaded are skipped.
+   * @returns Promise resolving to the combined voice list
+   */
+  protected async _getVoices(): Promise<UnifiedVoice[]> {
+    const results = await Promise.all(this.engines.map((engine) => this.loadVoices(engine)));
+    return results.flat();
+  }
+
+  /**
+   * Synthesize text to audio bytes, failing over between engines
+   * @param text Text or SSML to synthesize
+   * @param options Synthesis options
+   * @returns Promise resolving to audio bytes from the first engine that succeeds
+   */
+  protected async _synthToBytes(text: string, options?: SpeakOptions): Promise<Uint8Array> {
+    return this.runWithFailover(options, (engine, engineOptions) =>
+      engine.synthToBytes(text, engineOptions)
+    );
+  }
+
+  /**
+   * Synthesize text to a byte stream, failing over between engines
+   * Failover happens while the stream is being opened; errors raised while reading it are not retried.
+   * @param text Text or SSML to synthesize
+   * @param options Synthesis options
+   * @returns Promise resolving to the stream and word boundaries from the first engine that succeeds
+   */
+  protected async _synthToBytestream(
+    text: string,
+    options?: SpeakOptions
+  ): Promise<{
+    audioStream: ReadableStream<Uint8Array>;
+    wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
+  }> {
+    return this.runWithFailover(options, (engine, engineOptions) =>
+      engine.synthToBytestream(text, engineOptions)
+    );
+  }
+
+  /**
+   * Set a property on this client and on every wrapped engine
+   * @param propertyName Property name
+   * @param value Property value
+   */
+  setProperty(propertyName: string, value: PropertyType | RetryOptions): void {
+    super.setProperty(propertyName, value);
+    for (const engine of this.engines) {
+      engine.setProperty(propertyName, value);
+    }
+  }
+
+  /**
+   * Set the synthesis cache of every wrapped engine.
+   * Each engine caches its own results, so audio is keyed by the engine that produced it.
+   * @param cache Synthesis cache, or null to disable caching
+   */
+  setCache(cache: SynthesisCache | null): void {
+    for (const engine of this.engines ?? []) {
+      engine.setCache(cache);
+    }
+  }
+
+  /**
+   * Get the synthesis cache of the wrapped engines
+   * @returns Cache of the first engine, or null when caching is disabled
+   */
+  getCache(): SynthesisCache | null {
+    return this.engines[0].getCache();
+  }
+
+  /**
+   * Set the pronunciation lexicon of every wrapped engine, so each applies it with the tags
+   * (or hosted lexicons) it supports
+   * @param lexicon Lexicon, or null to stop applying one
+   */
+  setLexicon(lexicon: Lexicon | null): void {
+    super.setLexicon(lexicon);
+    for (const engine of this.engines) {
+      engine.setLexicon(lexicon);
+    }
+  }
+
+  /**
+   * Leave the lexicon to the wrapped engines instead of rewriting the text here
+   * @returns True, as every engine applies the lexicon itself
+   */
+  protected async _prepareNativeLexicon(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Check whether at least one engine has valid credentials
+   * @returns Promise resolving to true if any engine can be used
+   */
+  async checkCredentials(): Promise<boolean> {
+    for (const engine of this.engines) {
+      if (await engine.checkCredentials().catch(() => false)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  protected getRequiredCredentials(): string[] {
+    return ["engines"];
+  }
+
+  /**
+   * Run an operation on each engine in turn until one succeeds
+   * @param options Synthesis options from the caller
+   * @param operation Operation to run on an engine
+   * @returns Result of the first engine that succeeds
+   */
+  private async runWithFailover<T>(
+    options: SpeakOptions | undefined,
+    operation: (engine: AbstractTTSClient, options: SpeakOptions | undefined) => Promise<T>
+  ): Promise<T> {
+    const requestedVoice = options?.voice ?? this.voiceReference ?? this.voiceId ?? undefined;
+    let voice = requestedVoice;
+
+    for (let index = 0; index < this.engines.length; index++) {
+      throwIfAborted(options?.signal);
+      const engine = this.engines[index];
+
+      try {
+        const result = await operation(engine, voice ? { ...options, voice } : options);
+        this.lastEngine = engine;
+        this.copyPlaybackState(engine);
+        return result;
+      } catch (error) {
+        const ttsError = toTTSError(error, { provider: engine.engineName });
+        const next = this.engines[index + 1];
+        if (!next || isAbortError(ttsError) || !this.shouldFailover(ttsError, engine)) {
+          throw ttsError;
+        }
+
+        // Reference audio is passed on as it is; engines that cannot use it fail over in turn
+        voice =
+          typeof requestedVoice === "string"
+            ? await this.mapVoice(requestedVoice, next)
+            : requestedVoice;
+        for (const listener of this.failoverListeners) {
+          listener({ from: engine, to: next, error: ttsError, voice });
+        }
+      }
+    }
+
+    // Unreachable: the loop either returns or throws on the last engine
+    throw new TTSError("No TTS engine is available", { provider: "failover" });
+  }
+
+  /**
+   * Map a voice ID to the closest voice offered by another engine
+   * @param voiceId Requested voice ID
+   * @param target Engine the request moves to
+   * @returns Voice ID for the target engine, or undefined to use its default voice
+   */
+  private async mapVoice(voiceId: string, target: AbstractTTSClient): Promise<string | undefined> {
+    const targetVoices = await this.loadVoices(target);
+    if (targetVoices.some((voice) => voice.id === voiceId)) {
+      return voiceId;
+    }
+
+    let reference: UnifiedVoice | undefined;
+    for (const engine of this.engines) {
+      if (engine === target) {
+        continue;
+      }
+      reference = (await this.loadVoices(engine)).find((voice) => voice.id === voiceId);
+      if (reference) {
+        break;
+      }
+    }
+
+    // Without the original voice, fall back to the language selected on this client
+    const closest = findClosestVoice(
+      targetVoices,
+      reference ?? {
+        languageCodes: [{ bcp47: this.lang, iso639_3: "", display: this.lang }],
+        gender: "Unknown",
+      }
+    );
+    return closest?.id;
+  }
+
+  /**
+   * Load (and cache) the voice list of an engine
+   * @param engine TTS client
+   * @returns Voices, or an empty list when they cannot be loaded
+   */
+  private loadVoices(engine: AbstractTTSClient): Promise<UnifiedVoice[]> {
+    let voices = this.voiceCache.get(engine);
+    if (!voices) {
+      voices = engine.getVoices().catch(() => {
+        this.voiceCache.delete(engine);
+        return [];
+      });
+      this.voiceCache.set(engine, voices);
+    }
+    return voices;
+  }
+}
+
+registerEngine("failover", {
+  create: (credentials: FailoverTTSCredentials, options) =>
+    new FailoverTTSClient(credentials, options),
+  credentialsSchema: { required: ["engines"], optional: ["shouldFailover"] },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
@@ -1,19 +1,28 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { createHttpError, throwIfHttpError } from "../core/errors";
 import * as SSMLUtils from "../core/ssml-utils";
 import * as SpeechMarkdown from "../markdown/converter";
-import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
-import { getFetch } from "../utils/fetch-utils";
+import type {
+  CloneVoiceOptions,
+  SpeakOptions,
+  TTSCredentials,
+  UnifiedVoice,
+  VoiceInput,
+  VoiceReference,
+} from "../types";
+import { abortableStream } from "../utils/abort-utils";
+import { loadVoiceReference, loadVoiceSamples } from "../utils/audio-input";
+import { uint8ArrayToBase64 } from "../utils/base64-utils";
 import { toIso639_3, toLanguageDisplay } from "../utils/language-utils";
 
-const fetch = getFetch();
-
 const AUDIO_TAG_MODELS = ["s2-pro"];
 
 const AUDIO_TAG_REGEX = /\[[^\]]+\]/g;
 
 export interface FishAudioTTSOptions extends SpeakOptions {
   model?: string;
-  voice?: string;
+  voice?: VoiceInput;
   providerOptions?: Record<string, unknown>;
 }
 
@@ -26,9 +35,12 @@ export interface FishAudioTTSCredentials extends TTSCredentials {
 }
 
 export class FishAudioTTSClient extends AbstractTTSClient {
+  readonly engineName = "fishaudio";
+
   private apiKey: string;
   private baseUrl: string;
   private model: string;
+  protected acceptsVoiceReference = true;
 
   constructor(credentials: FishAudioTTSCredentials = {}) {
     super(credentials);
@@ -37,7 +49,10 @@ export class FishAudioTTSClient extends AbstractTTSClient {
     this.model = (credentials as any).model || "s2-pro";
     this.voiceId = "";
     this._models = [
-      { id: "s2-pro", features: ["streaming", "audio-tags", "inline-voice-cloning"] },
+      {
+        id: "s2-pro",
+        features: ["streaming", "audio-tags", "inline-voice-cloning", "voice-cloning"],
+      },
     ];
     this.sampleRate = 44100;
 
@@ -84,11 +99,16 @@ export class FishAudioTTSClient extends AbstractTTSClient {
 
     if (options?.useSpeechMarkdown && SpeechMarkdown.isSpeechMarkdown(processedText)) {
       const ssml = await SpeechMarkdown.toSSML(processedText, "w3c");
-      processedText = SSMLUtils.stripSSML(ssml);
+      processedText = SSMLUtils.processSSMLForEngine(ssml, "fishaudio", undefined, this.lang);
     }
 
     if (SSMLUtils.isSSML(processedText)) {
-      processedText = SSMLUtils.stripSSML(processedText);
+      processedText = SSMLUtils.processSSMLForEngine(
+        processedText,
+        "fishaudio",
+        undefined,
+        this.lang
+      );
     }
 
     processedText = this.processAudioTags(processedText);
@@ -99,10 +119,6 @@ export class FishAudioTTSClient extends AbstractTTSClient {
     this.model = model;
   }
 
-  setVoice(voiceId: string): void {
-    this.voiceId = voiceId;
-  }
-
   getProperty(property: string): any {
     switch (property) {
       case "model":
@@ -131,7 +147,7 @@ export class FishAudioTTSClient extends AbstractTTSClient {
   async checkCredentials(): Promise<boolean> {
     if (!this.apiKey) return false;
     try {
-      const response = await fetch(`${this.baseUrl}/v1/model`, {
+      const response = await this.fetchWithRetry(`${this.baseUrl}/v1/model`, {
         method: "GET",
         headers: {
           Authorization: `Bearer ${this.apiKey}`,
@@ -149,7 +165,7 @@ export class FishAudioTTSClient extends AbstractTTSClient {
 
   protected async _getVoices(): Promise<any[]> {
     try {
-      const response = await fetch(`${this.baseUrl}/v1/model`, {
+      const response = await this.fetchWithRetry(`${this.baseUrl}/v1/model`, {
         method: "GET",
         headers: {
           Authorization: `Bearer ${this.apiKey}`,
@@ -181,20 +197,101 @@ export class FishAudioTTSClient extends AbstractTTSClient {
       }));
   }
 
-  async synthToBytes(text: string, options: FishAudioTTSOptions = {}): Promise<Uint8Array> {
+  /**
+   * Create a private voice model from recordings of a speaker
+   * @param options Name, samples, description and language of the voice
+   * @returns Promise resolving to the new voice
+   */
+  async createClonedVoice(options: CloneVoiceOptions): Promise<UnifiedVoice> {
+    const form = new FormData();
+    form.append("type", "tts");
+    form.append("title", options.name);
+    form.append("train_mode", "fast");
+    form.append("visibility", "private");
+    for (const { blob, filename } of await loadVoiceSamples(options.samples)) {
+      form.append("voices", blob, filename);
+    }
+    if (options.description) {
+      form.append("description", options.description);
+    }
+    if (options.language) {
+      form.append("languages", options.language);
+    }
+
+    const response = await this.fetchOnce(`${this.baseUrl}/v1/model`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${this.apiKey}` },
+      body: form,
+    });
+    await throwIfHttpError(response, "Failed to create cloned voice", { provider: "fishaudio" });
+
+    const [voice] = await this._mapVoicesToUnified([{ type: "tts", ...(await response.json()) }]);
+    return voice;
+  }
+
+  /**
+   * Get the voice models created by the account
+   * @returns Promise resolving to the cloned voices
+   */
+  async listClonedVoices(): Promise<UnifiedVoice[]> {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/v1/model?self=true`, {
+      method: "GET",
+      headers: { Authorization: `Bearer ${this.apiKey}` },
+    });
+    await throwIfHttpError(response, "Failed to list cloned voices", { provider: "fishaudio" });
+
+    const data = await response.json();
+    return this._mapVoicesToUnified(Array.isArray(data) ? data : (data.items ?? []));
+  }
+
+  /**
+   * Delete a voice model created by the account
+   * @param voiceId ID of the voice model
+   */
+  async deleteClonedVoice(voiceId: string): Promise<void> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/v1/model/${encodeURIComponent(voiceId)}`,
+      {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+      }
+    );
+    await throwIfHttpError(response, "Failed to delete cloned voice", {
+      provider: "fishaudio",
+      voiceId,
+    });
+  }
+
+  /**
+   * Convert reference audio to an entry of the references field
+   * @param reference Reference audio of the request
+   * @returns Base64 audio and its transcript
+   */
+  private async toReference(reference: VoiceReference): Promise<{ audio: string; text: string }> {
+    const { audioBytes, transcript } = await loadVoiceReference(reference);
+    return { audio: uint8ArrayToBase64(audioBytes), text: transcript ?? "" };
+  }
+
+  protected async _synthToBytes(
+    text: string,
+    options: FishAudioTTSOptions = {}
+  ): Promise<Uint8Array> {
     const preparedText = await this.prepareText(text, options);
     const modelId = options.model || this.model;
-    const voiceId = options.voice || this.voiceId;
+    const reference = this.resolveVoiceReference(options.voice);
+    const voiceId = reference ? null : this.resolveVoiceId(options.voice);
 
     const body: Record<string, unknown> = {
       ...options.providerOptions,
       text: preparedText,
     };
-    if (voiceId) {
+    if (reference) {
+      body.references = [await this.toReference(reference)];
+    } else if (voiceId) {
       body.reference_id = voiceId;
     }
 
-    const response = await fetch(`${this.baseUrl}/v1/tts`, {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/v1/tts`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -202,12 +299,21 @@ export class FishAudioTTSClient extends AbstractTTSClient {
         model: modelId,
       },
       body: JSON.stringify(body),
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(
-        `Fish Audio API error: ${response.status} ${response.statusText} - ${errorText}`
+      throw createHttpError(
+        `Fish Audio API error: ${response.status} ${response.statusText} - ${errorText}`,
+        {
+          provider: "fishaudio",
+          statusCode: response.status,
+          model: modelId,
+          voiceId,
+          responseBody: errorText,
+        },
+        response.headers
       );
     }
 
@@ -216,7 +322,7 @@ export class FishAudioTTSClient extends AbstractTTSClient {
     return new Uint8Array(arrayBuffer);
   }
 
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options: FishAudioTTSOptions = {}
   ): Promise<{
@@ -225,17 +331,20 @@ export class FishAudioTTSClient extends AbstractTTSClient {
   }> {
     const preparedText = await this.prepareText(text, options);
     const modelId = options.model || this.model;
-    const voiceId = options.voice || this.voiceId;
+    const reference = this.resolveVoiceReference(options.voice);
+    const voiceId = reference ? null : this.resolveVoiceId(options.voice);
 
     const body: Record<string, unknown> = {
       ...options.providerOptions,
       text: preparedText,
     };
-    if (voiceId) {
+    if (reference) {
+      body.references = [await this.toReference(reference)];
+    } else if (voiceId) {
       body.reference_id = voiceId;
     }
 
-    const response = await fetch(`${this.baseUrl}/v1/tts`, {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/v1/tts`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -243,12 +352,21 @@ export class FishAudioTTSClient extends AbstractTTSClient {
         model: modelId,
       },
       body: JSON.stringify(body),
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(
-        `Fish Audio API error: ${response.status} ${response.statusText} - ${errorText}`
+      throw createHttpError(
+        `Fish Audio API error: ${response.status} ${response.statusText} - ${errorText}`,
+        {
+          provider: "fishaudio",
+          statusCode: response.status,
+          model: modelId,
+          voiceId,
+          responseBody: errorText,
+        },
+        response.headers
       );
     }
 
@@ -261,9 +379,16 @@ export class FishAudioTTSClient extends AbstractTTSClient {
           controller.close();
         },
       });
-      return { audioStream: readableStream, wordBoundaries: [] };
+      return { audioStream: abortableStream(readableStream, options.signal), wordBoundaries: [] };
     }
 
-    return { audioStream: response.body, wordBoundaries: [] };
+    return { audioStream: abortableStream(response.body, options.signal), wordBoundaries: [] };
   }
 }
+
+registerEngine("fishaudio", {
+  create: (credentials: FishAudioTTSCredentials) => new FishAudioTTSClient(credentials),
+  credentialsSchema: { required: ["apiKey"], optional: ["baseURL", "model"] },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
@@ -1,8 +1,10 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { createHttpError, TTSAuthError, TTSError } from "../core/errors";
 import * as SSMLUtils from "../core/ssml-utils";
 import * as SpeechMarkdown from "../markdown/converter";
 import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
-import { getFetch } from "../utils/fetch-utils";
+import { abortableStream } from "../utils/abort-utils";
 import { toIso639_3 } from "../utils/language-utils";
 
 export type GeminiTTSModel = "gemini-3.1-flash-tts-preview" | "gemini-2.5-flash-preview-tts";
@@ -182,6 +184,8 @@ const GEMINI_LANGUAGE_READINESS: Record<string, GeminiLanguageReadiness> =
  * this client wraps it as WAV by default so normal playback and conversion paths work.
  */
 export class GeminiTTSClient extends AbstractTTSClient {
+  readonly engineName = "gemini";
+
   private apiKey: string;
   private baseUrl: string;
   private model: string;
@@ -276,11 +280,11 @@ export class GeminiTTSClient extends AbstractTTSClient {
 
     if (options?.useSpeechMarkdown && SpeechMarkdown.isSpeechMarkdown(processedText)) {
       const ssml = await SpeechMarkdown.toSSML(processedText, "w3c");
-      processedText = SSMLUtils.stripSSML(ssml);
+      processedText = SSMLUtils.processSSMLForEngine(ssml, "gemini", undefined, this.lang);
     }
 
     if (SSMLUtils.isSSML(processedText)) {
-      processedText = SSMLUtils.stripSSML(processedText);
+      processedText = SSMLUtils.processSSMLForEngine(processedText, "gemini", undefined, this.lang);
     }
 
     return processedText;
@@ -290,10 +294,6 @@ export class GeminiTTSClient extends AbstractTTSClient {
     this.model = model;
   }
 
-  setVoice(voiceId: string): void {
-    this.voiceId = voiceId;
-  }
-
   getProperty(property: string): any {
     switch (property) {
       case "model":
@@ -334,7 +334,7 @@ export class GeminiTTSClient extends AbstractTTSClient {
     if (!this.apiKey) return false;
 
     try {
-      const response = await getFetch()(`${this.baseUrl}/models`, {
+      const response = await this.fetchWithRetry(`${this.baseUrl}/models`, {
         method: "GET",
         headers: {
           "x-goog-api-key": this.apiKey,
@@ -400,14 +400,16 @@ export class GeminiTTSClient extends AbstractTTSClient {
     }));
   }
 
-  async synthToBytes(text: string, options: GeminiTTSOptions = {}): Promise<Uint8Array> {
+  protected async _synthToBytes(text: string, options: GeminiTTSOptions = {}): Promise<Uint8Array> {
     if (!this.apiKey) {
-      throw new Error("Gemini TTS API key is required. Set apiKey or GEMINI_API_KEY.");
+      throw new TTSAuthError("Gemini TTS API key is required. Set apiKey or GEMINI_API_KEY.", {
+        provider: "gemini",
+      });
     }
 
     const preparedText = await this.prepareText(text, options);
     const model = options.model || this.model;
-    const voiceName = options.voice || this.voiceId || GeminiTTSClient.DEFAULT_VOICE;
+    const voiceName = this.resolveVoiceId(options.voice) || GeminiTTSClient.DEFAULT_VOICE;
     const generationConfig = {
       ...options.providerOptions,
       responseModalities: ["AUDIO"],
@@ -434,19 +436,28 @@ export class GeminiTTSClient extends AbstractTTSClient {
       model,
     };
 
-    const response = await getFetch()(`${this.baseUrl}/models/${model}:generateContent`, {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/models/${model}:generateContent`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         "x-goog-api-key": this.apiKey,
       },
       body: JSON.stringify(request),
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text().catch(() => "");
-      throw new Error(
-        `Gemini TTS API error: ${response.status} ${response.statusText} - ${errorText}`
+      throw createHttpError(
+        `Gemini TTS API error: ${response.status} ${response.statusText} - ${errorText}`,
+        {
+          provider: "gemini",
+          statusCode: response.status,
+          model,
+          voiceId: voiceName,
+          responseBody: errorText,
+        },
+        response.headers
       );
     }
 
@@ -461,14 +472,14 @@ export class GeminiTTSClient extends AbstractTTSClient {
     return this.pcm16ToWav(pcmBytes, this.sampleRate, 1);
   }
 
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options: GeminiTTSOptions = {}
   ): Promise<{
     audioStream: ReadableStream<Uint8Array>;
     wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
   }> {
-    const audioBytes = await this.synthToBytes(text, options);
+    const audioBytes = await this._synthToBytes(text, options);
     const stream = new ReadableStream<Uint8Array>({
       start(controller) {
         controller.enqueue(audioBytes);
@@ -476,15 +487,9 @@ export class GeminiTTSClient extends AbstractTTSClient {
       },
     });
 
-    const wordBoundaries = options.useWordBoundary
-      ? this.timings.map(([start, end, word]) => ({
-          text: word,
-          offset: Math.round(start * 10000),
-          duration: Math.round((end - start) * 10000),
-        }))
-      : [];
+    const wordBoundaries = options.useWordBoundary ? this._getWordBoundariesFromTimings() : [];
 
-    return { audioStream: stream, wordBoundaries };
+    return { audioStream: abortableStream(stream, options.signal), wordBoundaries };
   }
 
   private extractAudioBytes(response: any): Uint8Array {
@@ -514,8 +519,9 @@ export class GeminiTTSClient extends AbstractTTSClient {
     ]
       .filter(Boolean)
       .join("; ");
-    throw new Error(
-      `Gemini TTS response did not include audio data${details ? ` (${details})` : ""}.`
+    throw new TTSError(
+      `Gemini TTS response did not include audio data${details ? ` (${details})` : ""}.`,
+      { provider: "gemini", responseBody: JSON.stringify(response) }
     );
   }
 
@@ -570,3 +576,10 @@ export class GeminiTTSClient extends AbstractTTSClient {
     }
   }
 }
+
+registerEngine("gemini", {
+  create: (credentials: GeminiTTSCredentials) => new GeminiTTSClient(credentials),
+  credentialsSchema: { required: ["apiKey"], optional: ["baseURL", "model", "voice"] },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
@@ -1,11 +1,48 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { createHttpError, TTSUnsupportedFeatureError, toTTSError } from "../core/errors";
 import * as SSMLUtils from "../core/ssml-utils";
 import * as SpeechMarkdown from "../markdown/converter";
+import {
+  createSSMLElement,
+  findSSMLElement,
+  parseSSML,
+  type SSMLElement,
+  type SSMLNode,
+  serializeSSML,
+} from "../ssml/parser";
 import type { SpeakOptions, TTSCredentials, UnifiedVoice, WordBoundaryCallback } from "../types";
+import { abortableStream, raceWithAbort } from "../utils/abort-utils";
 
 // Dynamic import for Google Cloud Text-to-Speech (Node.js only)
 // This avoids browser import errors for Node.js-only packages
 
+/**
+ * HTTP equivalents of the gRPC status codes returned by the Google Cloud client
+ */
+const GRPC_TO_HTTP_STATUS: Record<number, number> = {
+  3: 400, // INVALID_ARGUMENT
+  4: 504, // DEADLINE_EXCEEDED
+  5: 404, // NOT_FOUND
+  7: 403, // PERMISSION_DENIED
+  8: 429, // RESOURCE_EXHAUSTED
+  14: 503, // UNAVAILABLE
+  16: 401, // UNAUTHENTICATED
+};
+
+/**
+ * Elements whose content must be plain text, so word timing marks can't be placed inside
+ */
+const TEXT_ONLY_ELEMENTS = new Set(["say-as", "sub", "phoneme"]);
+
+/**
+ * SSML of a request with the text each word timing mark was added before, by mark name
+ */
+interface MarkedSSML {
+  ssml: string;
+  wordMarks: Map<string, string>;
+}
+
 /**
  * Google TTS credentials
  */
@@ -43,13 +80,15 @@ export interface GoogleTTSOptions extends SpeakOptions {
  * Google TTS client
  */
 export class GoogleTTSClient extends AbstractTTSClient {
+  readonly engineName = "google";
+
   /**
    * Google Cloud Text-to-Speech client
    */
   private client: any | null;
 
   /**
-   * Whether to use the beta API for word timings
+   * Whether to use the beta API for word timings (REST mode always can)
    */
   private useBetaApi = false;
 
@@ -74,10 +113,15 @@ export class GoogleTTSClient extends AbstractTTSClient {
       { id: "polyglot", features: ["streaming", "ssml"] },
     ];
 
+    this.maxTextLength = 5000; // Request limit is 5000 bytes of input
+
     // Store the credentials for later use
     this.googleCredentials = credentials;
     this.client = null;
 
+    // The v1beta1 REST endpoint returns timepoints for SSML marks
+    this.useBetaApi = Boolean(credentials.apiKey);
+
     // Don't initialize the client here - do it lazily on first use
     // This follows the same pattern as Polly and Azure engines
   }
@@ -90,7 +134,7 @@ export class GoogleTTSClient extends AbstractTTSClient {
     // If apiKey is provided, use REST mode (browser-safe) and skip Node client init
     if (credentials.apiKey) {
       this.client = null;
-      this.useBetaApi = false; // v1 REST doesn't return timepoints; we'll estimate timings
+      this.useBetaApi = true; // v1beta1 REST returns timepoints for word timing marks
       return;
     }
 
@@ -169,12 +213,28 @@ export class GoogleTTSClient extends AbstractTTSClient {
    * @param options Synthesis options
    * @returns Promise resolving to audio bytes
    */
-  async synthToBytes(text: string, options?: GoogleTTSOptions): Promise<Uint8Array> {
+  protected async _synthToBytes(text: string, options?: GoogleTTSOptions): Promise<Uint8Array> {
+    const { audio, timings } = await this.synthesize(text, options);
+    this.timings = timings;
+    return audio;
+  }
+
+  /**
+   * Synthesize text, keeping the word timings with the audio of the request so concurrent
+   * requests don't read each other's timings
+   * @param text Text or SSML to synthesize
+   * @param options Synthesis options
+   * @returns Promise resolving to audio bytes and word timings in seconds
+   */
+  private async synthesize(
+    text: string,
+    options?: GoogleTTSOptions
+  ): Promise<{ audio: Uint8Array; timings: Array<[number, number, string]> }> {
     // If API key provided, use REST mode (browser-safe, no Node deps)
     if (this.googleCredentials.apiKey) {
       try {
-        const ssml = await this.prepareSSML(text, options);
-        const voiceName = options?.voice || this.voiceId;
+        const { ssml, wordMarks } = await this.prepareSSML(text, options);
+        const voiceName = this.resolveVoiceId(options?.voice);
         const supportsSSML =
           !voiceName || voiceName.includes("Standard") || voiceName.includes("Wavenet");
         let languageCode = this.lang || "en-US";
@@ -191,10 +251,25 @@ export class GoogleTTSClient extends AbstractTTSClient {
           audioConfig: { audioEncoding: options?.format === "mp3" ? "MP3" : "LINEAR16" },
         };
         if (!options?.voice && !this.voiceId) request.voice.ssmlGender = "NEUTRAL";
-        // REST v1 does not return timepoints; estimate timings
-        const bytes = await this.restSynthesize(this.googleCredentials.apiKey, request);
-        this._createEstimatedWordTimings(text);
-        return bytes;
+        // Word timings come from the timepoints of the marks added by addWordTimingMarks
+        const useWordTimings = Boolean(options?.useWordBoundary && this.useBetaApi);
+        if (useWordTimings) {
+          request.enableTimePointing = ["SSML_MARK"];
+        }
+        const { audioContent, timepoints } = await this.restSynthesize(
+          this.googleCredentials.apiKey,
+          request,
+          options?.signal,
+          useWordTimings ? "v1beta1" : "v1"
+        );
+        if (useWordTimings && timepoints?.length) {
+          this.processTimepoints(timepoints, wordMarks);
+        } else {
+          // Voices without SSML support return no timepoints; estimate timings
+          this._createEstimatedWordTimings(text);
+        }
+        // Both replace this.timings with a new array, which is kept for this request
+        return { audio: audioContent, timings: this.timings };
       } catch (error) {
         console.error("Error synthesizing speech via REST (apiKey):", error);
         throw error;
@@ -208,20 +283,21 @@ export class GoogleTTSClient extends AbstractTTSClient {
 
     // If the client is still not available after initialization, throw an error
     if (!this.client) {
-      throw new Error(
-        "Google TTS client is not available. Install @google-cloud/text-to-speech to use this engine."
+      throw new TTSUnsupportedFeatureError(
+        "Google TTS client is not available. Install @google-cloud/text-to-speech to use this engine.",
+        { provider: "google" }
       );
     }
 
     try {
       // Prepare SSML if needed
-      const ssml = await this.prepareSSML(text, options);
+      const { ssml, wordMarks } = await this.prepareSSML(text, options);
 
       // Determine if we should use the beta API for word timings
       const useWordTimings = options?.useWordBoundary && this.useBetaApi;
 
       // Check if the voice supports SSML
-      const voiceName = options?.voice || this.voiceId;
+      const voiceName = this.resolveVoiceId(options?.voice);
       // Only Standard and Wavenet voices support SSML
       const supportsSSML =
         !voiceName || voiceName.includes("Standard") || voiceName.includes("Wavenet");
@@ -279,17 +355,18 @@ export class GoogleTTSClient extends AbstractTTSClient {
             credentials: this.googleCredentials.credentials,
             keyFilename: this.googleCredentials.keyFilename,
           });
-          [response] = await betaClient.synthesizeSpeech(request);
+          [response] = await raceWithAbort(betaClient.synthesizeSpeech(request), options?.signal);
         } catch (error) {
+          if (options?.signal?.aborted) throw error;
           console.warn(
             "Error using beta API for word timings, falling back to standard API:",
             error
           );
-          [response] = await this.client.synthesizeSpeech(request);
+          [response] = await raceWithAbort(this.client.synthesizeSpeech(request), options?.signal);
         }
       } else {
         // Use standard API
-        [response] = await this.client.synthesizeSpeech(request);
+        [response] = await raceWithAbort(this.client.synthesizeSpeech(request), options?.signal);
       }
 
       // Process word timings if available
@@ -301,7 +378,7 @@ export class GoogleTTSClient extends AbstractTTSClient {
       ) {
         this.processTimepoints(
           response.timepoints as Array<{ markName: string; timeSeconds: number }>,
-          text
+          wordMarks
         );
       } else {
         // Create estimated word timings
@@ -309,12 +386,16 @@ export class GoogleTTSClient extends AbstractTTSClient {
       }
 
       // Return audio content, ensuring it's a Uint8Array
-      return response && response.audioContent
-        ? new Uint8Array(response.audioContent as Uint8Array)
-        : new Uint8Array(0);
+      return {
+        audio:
+          response && response.audioContent
+            ? new Uint8Array(response.audioContent as Uint8Array)
+            : new Uint8Array(0),
+        timings: this.timings,
+      };
     } catch (error) {
       console.error("Error synthesizing speech:", error);
-      throw error;
+      throw this.toGoogleError(error, this.resolveVoiceId(options?.voice));
     }
   }
 
@@ -324,7 +405,7 @@ export class GoogleTTSClient extends AbstractTTSClient {
    * @param options Synthesis options
    * @returns Promise resolving to an object containing the audio stream and word boundaries
    */
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options?: GoogleTTSOptions
   ): Promise<{
@@ -340,8 +421,9 @@ export class GoogleTTSClient extends AbstractTTSClient {
 
       // If the client is still not available after initialization, throw an error
       if (!this.client) {
-        throw new Error(
-          "Google TTS client is not available. Install @google-cloud/text-to-speech to use this engine."
+        throw new TTSUnsupportedFeatureError(
+          "Google TTS client is not available. Install @google-cloud/text-to-speech to use this engine.",
+          { provider: "google" }
         );
       }
     }
@@ -349,7 +431,8 @@ export class GoogleTTSClient extends AbstractTTSClient {
     try {
       // For Google TTS, we'll convert to bytes first and then create a stream
       // This is because Google's API doesn't provide a streaming endpoint
-      const audioBytes = await this.synthToBytes(text, options);
+      const { audio: audioBytes, timings } = await this.synthesize(text, options);
+      this.timings = timings;
 
       // Create a standard ReadableStream
       const stream = new ReadableStream<Uint8Array>({
@@ -360,16 +443,10 @@ export class GoogleTTSClient extends AbstractTTSClient {
       });
 
       // Always return the structure, populate boundaries only if requested AND available
-      const finalBoundaries = options?.useWordBoundary
-        ? this.timings.map(([start, end, word]) => ({
-            text: word,
-            offset: Math.round(start * 10000), // Convert to 100-nanosecond units
-            duration: Math.round((end - start) * 10000),
-          }))
-        : [];
+      const finalBoundaries = options?.useWordBoundary ? this._getWordBoundariesFromTimings() : [];
 
       return {
-        audioStream: stream,
+        audioStream: abortableStream(stream, options?.signal),
         wordBoundaries: finalBoundaries,
       };
     } catch (error) {
@@ -389,14 +466,8 @@ export class GoogleTTSClient extends AbstractTTSClient {
     callback: WordBoundaryCallback,
     options?: GoogleTTSOptions
   ): Promise<void> {
-    // Register the callback
-    this.on("boundary", callback);
-
-    // Enable word boundary information
-    const enhancedOptions = { ...options, useWordBoundary: true };
-
     // Start playback with word boundary information
-    await this.speakStreamed(text, enhancedOptions);
+    await this._speakStreamedWithCallbacks(text, callback, { ...options, useWordBoundary: true });
   }
 
   /**
@@ -425,9 +496,9 @@ export class GoogleTTSClient extends AbstractTTSClient {
    * Prepare SSML for synthesis
    * @param text Text or SSML to prepare
    * @param options Synthesis options
-   * @returns SSML ready for synthesis
+   * @returns SSML ready for synthesis, with the text of its word timing marks
    */
-  private async prepareSSML(text: string, options?: GoogleTTSOptions): Promise<string> {
+  private async prepareSSML(text: string, options?: GoogleTTSOptions): Promise<MarkedSSML> {
     // If rawSSML is enabled, skip Speech Markdown conversion
     if (options?.rawSSML) {
       // Ensure text is wrapped in SSML
@@ -452,29 +523,23 @@ export class GoogleTTSClient extends AbstractTTSClient {
     let ssml = SSMLUtils.wrapWithSpeakTags(text);
 
     // Add prosody if properties are set
-    if (this.properties.rate || this.properties.pitch || this.properties.volume) {
-      const attrs: string[] = [];
-
-      if (this.properties.rate) {
-        attrs.push(`rate="${this.properties.rate}"`);
-      }
-
-      if (this.properties.pitch) {
-        attrs.push(`pitch="${this.properties.pitch}"`);
-      }
-
-      if (this.properties.volume) {
-        attrs.push(`volume="${this.properties.volume}dB"`);
-      }
+    const attributes: Record<string, string> = {};
+    if (this.properties.rate) {
+      attributes.rate = String(this.properties.rate);
+    }
+    if (this.properties.pitch) {
+      attributes.pitch = String(this.properties.pitch);
+    }
+    if (this.properties.volume) {
+      attributes.volume = `${this.properties.volume}dB`;
+    }
 
-      if (attrs.length > 0) {
-        // Extract content between speak tags
-        const match = ssml.match(/<speak[^>]*>(.*?)<\/speak>/s);
-        if (match) {
-          const content = match[1];
-          const prosodyContent = `<prosody ${attrs.join(" ")}>${content}</prosody>`;
-          ssml = ssml.replace(content, prosodyContent);
-        }
+    if (Object.keys(attributes).length > 0) {
+      const nodes = parseSSML(ssml, { recover: true });
+      const speak = findSSMLElement(nodes, "speak");
+      if (speak) {
+        speak.children = [createSSMLElement("prosody", attributes, speak.children)];
+        ssml = serializeSSML(nodes);
       }
     }
 
@@ -485,72 +550,64 @@ export class GoogleTTSClient extends AbstractTTSClient {
   /**
    * Add SSML mark tags for word timing
    * @param ssml SSML to add mark tags to
-   * @returns SSML with mark tags
+   * @returns SSML with mark tags, and the text each mark was added before by mark name
    */
-  private addWordTimingMarks(ssml: string): string {
+  private addWordTimingMarks(ssml: string): MarkedSSML {
+    const wordMarks = new Map<string, string>();
     // Only add marks if using beta API
     if (!this.useBetaApi) {
-      return ssml;
+      return { ssml, wordMarks };
     }
 
-    // Extract plain text from SSML
-    const plainText = SSMLUtils.stripSSML(ssml);
-
-    // Split into words
-    const words = plainText.split(/\s+/).filter((word) => word.length > 0);
-
-    // If no words, return original SSML
-    if (!words.length) {
-      return ssml;
-    }
-
-    // Add mark tags to each word
-    let markedText = plainText;
-    for (let i = words.length - 1; i >= 0; i--) {
-      const word = words[i];
-      const regex = new RegExp(`\\b${word}\\b`);
-      markedText = markedText.replace(regex, `<mark name="word_${i}"/>${word}`);
-    }
-
-    // Replace content in SSML
-    if (SSMLUtils.isSSML(ssml)) {
-      return ssml.replace(/>([^<]+)</g, (match, content) => {
-        if (content.trim() === plainText.trim()) {
-          return `>${markedText}<`;
+    // Add a mark tag before each word, remembering the text it stands for
+    const nodes = SSMLUtils.isSSML(ssml)
+      ? parseSSML(ssml, { recover: true })
+      : [createSSMLElement("speak", {}, [{ type: "text", value: ssml }])];
+    const addMark = (text: string): SSMLElement => {
+      const name = `word_${wordMarks.size}`;
+      wordMarks.set(name, text);
+      return createSSMLElement("mark", { name });
+    };
+    const addMarks = (children: SSMLNode[]): SSMLNode[] =>
+      children.flatMap((node): SSMLNode[] => {
+        if (node.type === "element" && TEXT_ONLY_ELEMENTS.has(node.name)) {
+          // Marks can't go inside these, so one mark stands for all of their words
+          const text = SSMLUtils.stripSSML(serializeSSML(node)).replace(/\s+/g, " ").trim();
+          return text ? [addMark(text), node] : [node];
+        }
+        if (node.type === "element") {
+          return [{ ...node, children: addMarks(node.children) }];
         }
-        return match;
+        return node.value.split(/(\S+)/).flatMap((part, index): SSMLNode[] => {
+          if (index % 2 === 0) {
+            return part ? [{ type: "text", value: part }] : [];
+          }
+          return [addMark(part), { type: "text", value: part }];
+        });
       });
-    }
+    const marked = addMarks(nodes);
 
-    // Wrap with speak tags if not already SSML
-    return `<speak>${markedText}</speak>`;
+    // If no words, return original SSML
+    return { ssml: wordMarks.size === 0 ? ssml : serializeSSML(marked), wordMarks };
   }
 
   /**
    * Process timepoints from Google TTS response
-   * @param timepoints Timepoints from Google TTS response
-   * @param text Original text
+   * @param timepoints Timepoints of the marks added by addWordTimingMarks
+   * @param wordMarks Text each mark was added before, by mark name
    */
   private processTimepoints(
     timepoints: Array<{ markName: string; timeSeconds: number }>,
-    text: string
+    wordMarks: Map<string, string>
   ): void {
-    // Extract plain text from SSML if needed
-    const plainText = SSMLUtils.isSSML(text) ? SSMLUtils.stripSSML(text) : text;
-
-    // Split into words
-    const words = plainText.split(/\s+/).filter((word) => word.length > 0);
-
     // Create word timings from timepoints
     this.timings = [];
 
     for (let i = 0; i < timepoints.length; i++) {
       const timepoint = timepoints[i];
-      const wordIndex = Number.parseInt(timepoint.markName.replace("word_", ""));
-
-      if (wordIndex >= 0 && wordIndex < words.length) {
-        const word = words[wordIndex];
+      const word = wordMarks.get(timepoint.markName);
 
+      if (word !== undefined) {
         const startTime = timepoint.timeSeconds;
 
         // Estimate end time (next timepoint or start + word length * average time per character)
@@ -712,31 +769,74 @@ export class GoogleTTSClient extends AbstractTTSClient {
     return super.checkCredentialsDetailed();
   }
 
+  /**
+   * Convert an error raised by the Google Cloud client (gRPC status codes) into a typed TTS error
+   * @param error Error thrown by the client
+   * @param voiceId Voice used for the request
+   * @returns Typed TTS error, or the original error when it cannot be classified
+   */
+  private toGoogleError(error: unknown, voiceId?: string | null): unknown {
+    const grpcCode = (error as { code?: unknown } | null)?.code;
+    if (typeof grpcCode === "number" && GRPC_TO_HTTP_STATUS[grpcCode]) {
+      return createHttpError((error as Error).message, {
+        provider: "google",
+        statusCode: GRPC_TO_HTTP_STATUS[grpcCode],
+        voiceId,
+        responseBody: (error as { details?: string }).details,
+        cause: error,
+      });
+    }
+    return toTTSError(error, { provider: "google", voiceId });
+  }
+
   // ===== REST helpers for API key mode (browser-safe) =====
   private async restListVoices(apiKey: string): Promise<any> {
     const url = `https://texttospeech.googleapis.com/v1/voices?key=${encodeURIComponent(apiKey)}`;
-    const res = await fetch(url);
+    const res = await this.fetchWithRetry(url);
     if (!res.ok) {
-      throw new Error(`Google TTS voices failed: ${res.status} ${res.statusText}`);
+      throw createHttpError(`Google TTS voices failed: ${res.status} ${res.statusText}`, {
+        provider: "google",
+        statusCode: res.status,
+      });
     }
     return res.json();
   }
 
-  private async restSynthesize(apiKey: string, request: any): Promise<Uint8Array> {
-    const url = `https://texttospeech.googleapis.com/v1/text:synthesize?key=${encodeURIComponent(apiKey)}`;
-    const res = await fetch(url, {
+  private async restSynthesize(
+    apiKey: string,
+    request: any,
+    signal?: AbortSignal,
+    apiVersion: "v1" | "v1beta1" = "v1"
+  ): Promise<{
+    audioContent: Uint8Array;
+    timepoints?: Array<{ markName: string; timeSeconds: number }>;
+  }> {
+    const url = `https://texttospeech.googleapis.com/${apiVersion}/text:synthesize?key=${encodeURIComponent(apiKey)}`;
+    const res = await this.fetchWithRetry(url, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify(request),
+      signal,
     });
     if (!res.ok) {
       const text = await res.text().catch(() => "");
-      throw new Error(`Google TTS synth failed: ${res.status} ${res.statusText} ${text}`);
+      throw createHttpError(
+        `Google TTS synth failed: ${res.status} ${res.statusText} ${text}`,
+        {
+          provider: "google",
+          statusCode: res.status,
+          voiceId: request?.voice?.name,
+          responseBody: text,
+        },
+        res.headers
+      );
     }
     const json = await res.json();
     const b64 = json?.audioContent as string | undefined;
-    if (!b64) return new Uint8Array(0);
-    return this.base64ToBytes(b64);
+    return {
+      audioContent: b64 ? this.base64ToBytes(b64) : new Uint8Array(0),
+      timepoints: json?.timepoints,
+    };
   }
 
   private base64ToBytes(b64: string): Uint8Array {
@@ -752,3 +852,14 @@ export class GoogleTTSClient extends AbstractTTSClient {
     return out;
   }
 }
+
+registerEngine("google", {
+  create: (credentials: GoogleTTSCredentials) => new GoogleTTSClient(credentials),
+  credentialsSchema: {
+    required: [],
+    oneOf: [["apiKey", "keyFilename"]],
+    optional: ["projectId", "credentials"],
+  },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
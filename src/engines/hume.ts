@@ -1,15 +1,17 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { createHttpError } from "../core/errors";
 import * as SSMLUtils from "../core/ssml-utils";
 import * as SpeechMarkdown from "../markdown/converter";
-import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
-import { getFetch } from "../utils/fetch-utils";
+import type { SpeakOptions, TTSCredentials, UnifiedVoice, VoiceInput } from "../types";
+import { abortableStream } from "../utils/abort-utils";
+import { loadVoiceReference } from "../utils/audio-input";
+import { uint8ArrayToBase64 } from "../utils/base64-utils";
 import { toIso639_3, toLanguageDisplay } from "../utils/language-utils";
 
-const fetch = getFetch();
-
 export interface HumeTTSOptions extends SpeakOptions {
   model?: string;
-  voice?: string;
+  voice?: VoiceInput;
   providerOptions?: Record<string, unknown>;
 }
 
@@ -22,9 +24,12 @@ export interface HumeTTSCredentials extends TTSCredentials {
 }
 
 export class HumeTTSClient extends AbstractTTSClient {
+  readonly engineName = "hume";
+
   private apiKey: string;
   private baseUrl: string;
   private model: string;
+  protected acceptsVoiceReference = true;
 
   static readonly VOICES = [
     { id: "ito", name: "Ito", gender: "Unknown" as const, language: "en-US" },
@@ -96,11 +101,11 @@ export class HumeTTSClient extends AbstractTTSClient {
 
     if (options?.useSpeechMarkdown && SpeechMarkdown.isSpeechMarkdown(processedText)) {
       const ssml = await SpeechMarkdown.toSSML(processedText, "w3c");
-      processedText = SSMLUtils.stripSSML(ssml);
+      processedText = SSMLUtils.processSSMLForEngine(ssml, "hume", undefined, this.lang);
     }
 
     if (SSMLUtils.isSSML(processedText)) {
-      processedText = SSMLUtils.stripSSML(processedText);
+      processedText = SSMLUtils.processSSMLForEngine(processedText, "hume", undefined, this.lang);
     }
 
     return processedText;
@@ -110,10 +115,6 @@ export class HumeTTSClient extends AbstractTTSClient {
     this.model = model;
   }
 
-  setVoice(voiceId: string): void {
-    this.voiceId = voiceId;
-  }
-
   getProperty(property: string): any {
     switch (property) {
       case "model":
@@ -142,7 +143,7 @@ export class HumeTTSClient extends AbstractTTSClient {
   async checkCredentials(): Promise<boolean> {
     if (!this.apiKey) return false;
     try {
-      const response = await fetch(`${this.baseUrl}/tts/file`, {
+      const response = await this.fetchWithRetry(`${this.baseUrl}/tts/file`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -180,13 +181,20 @@ export class HumeTTSClient extends AbstractTTSClient {
     }));
   }
 
-  async synthToBytes(text: string, options: HumeTTSOptions = {}): Promise<Uint8Array> {
+  protected async _synthToBytes(text: string, options: HumeTTSOptions = {}): Promise<Uint8Array> {
     const preparedText = await this.prepareText(text, options);
     const modelId = options.model || this.model;
-    const voiceId = options.voice || this.voiceId;
+    const reference = this.resolveVoiceReference(options.voice);
+    const voiceId = reference ? null : this.resolveVoiceId(options.voice);
 
     const utterance: Record<string, unknown> = { text: preparedText };
-    if (voiceId) {
+    if (reference) {
+      const { audioBytes, transcript } = await loadVoiceReference(reference);
+      utterance.voice = {
+        audio: uint8ArrayToBase64(audioBytes),
+        ...(transcript && { transcript }),
+      };
+    } else if (voiceId) {
       utterance.voice = { name: voiceId, provider: "HUME_AI" };
     }
 
@@ -200,18 +208,29 @@ export class HumeTTSClient extends AbstractTTSClient {
       body.version = version;
     }
 
-    const response = await fetch(`${this.baseUrl}/tts/file`, {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/tts/file`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         "X-Hume-Api-Key": this.apiKey,
       },
       body: JSON.stringify(body),
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Hume API error: ${response.status} ${response.statusText} - ${errorText}`);
+      throw createHttpError(
+        `Hume API error: ${response.status} ${response.statusText} - ${errorText}`,
+        {
+          provider: "hume",
+          statusCode: response.status,
+          model: modelId,
+          voiceId,
+          responseBody: errorText,
+        },
+        response.headers
+      );
     }
 
     const arrayBuffer = await response.arrayBuffer();
@@ -219,7 +238,7 @@ export class HumeTTSClient extends AbstractTTSClient {
     return new Uint8Array(arrayBuffer);
   }
 
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options: HumeTTSOptions = {}
   ): Promise<{
@@ -228,10 +247,17 @@ export class HumeTTSClient extends AbstractTTSClient {
   }> {
     const preparedText = await this.prepareText(text, options);
     const modelId = options.model || this.model;
-    const voiceId = options.voice || this.voiceId;
+    const reference = this.resolveVoiceReference(options.voice);
+    const voiceId = reference ? null : this.resolveVoiceId(options.voice);
 
     const utterance: Record<string, unknown> = { text: preparedText };
-    if (voiceId) {
+    if (reference) {
+      const { audioBytes, transcript } = await loadVoiceReference(reference);
+      utterance.voice = {
+        audio: uint8ArrayToBase64(audioBytes),
+        ...(transcript && { transcript }),
+      };
+    } else if (voiceId) {
       utterance.voice = { name: voiceId, provider: "HUME_AI" };
     }
 
@@ -245,18 +271,29 @@ export class HumeTTSClient extends AbstractTTSClient {
       body.version = version;
     }
 
-    const response = await fetch(`${this.baseUrl}/tts/stream/file`, {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/tts/stream/file`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         "X-Hume-Api-Key": this.apiKey,
       },
       body: JSON.stringify(body),
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Hume API error: ${response.status} ${response.statusText} - ${errorText}`);
+      throw createHttpError(
+        `Hume API error: ${response.status} ${response.statusText} - ${errorText}`,
+        {
+          provider: "hume",
+          statusCode: response.status,
+          model: modelId,
+          voiceId,
+          responseBody: errorText,
+        },
+        response.headers
+      );
     }
 
     if (!response.body) {
@@ -268,9 +305,16 @@ export class HumeTTSClient extends AbstractTTSClient {
           controller.close();
         },
       });
-      return { audioStream: readableStream, wordBoundaries: [] };
+      return { audioStream: abortableStream(readableStream, options.signal), wordBoundaries: [] };
     }
 
-    return { audioStream: response.body, wordBoundaries: [] };
+    return { audioStream: abortableStream(response.body, options.signal), wordBoundaries: [] };
   }
 }
+
+registerEngine("hume", {
+  create: (credentials: HumeTTSCredentials) => new HumeTTSClient(credentials),
+  credentialsSchema: { required: ["apiKey"], optional: ["baseURL", "model"] },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
@@ -1,16 +1,17 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { createHttpError } from "../core/errors";
 import * as SSMLUtils from "../core/ssml-utils";
 import * as SpeechMarkdown from "../markdown/converter";
-import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
-import { base64ToUint8Array } from "../utils/base64-utils";
-import { getFetch } from "../utils/fetch-utils";
+import type { SpeakOptions, TTSCredentials, UnifiedVoice, VoiceInput } from "../types";
+import { abortableStream } from "../utils/abort-utils";
+import { loadVoiceReference } from "../utils/audio-input";
+import { base64ToUint8Array, uint8ArrayToBase64 } from "../utils/base64-utils";
 import { toIso639_3, toLanguageDisplay } from "../utils/language-utils";
 
-const fetch = getFetch();
-
 export interface MistralTTSOptions extends SpeakOptions {
   model?: string;
-  voice?: string;
+  voice?: VoiceInput;
   responseFormat?: "mp3" | "wav" | "opus";
   providerOptions?: Record<string, unknown>;
 }
@@ -24,10 +25,13 @@ export interface MistralTTSCredentials extends TTSCredentials {
 }
 
 export class MistralTTSClient extends AbstractTTSClient {
+  readonly engineName = "mistral";
+
   private apiKey: string;
   private baseUrl: string;
   private model: string;
   private responseFormat: string;
+  protected acceptsVoiceReference = true;
 
   static readonly VOICES = [
     { id: "Amalthea", name: "Amalthea", gender: "Unknown" as const, language: "en-US" },
@@ -107,11 +111,16 @@ export class MistralTTSClient extends AbstractTTSClient {
 
     if (options?.useSpeechMarkdown && SpeechMarkdown.isSpeechMarkdown(processedText)) {
       const ssml = await SpeechMarkdown.toSSML(processedText, "w3c");
-      processedText = SSMLUtils.stripSSML(ssml);
+      processedText = SSMLUtils.processSSMLForEngine(ssml, "mistral", undefined, this.lang);
     }
 
     if (SSMLUtils.isSSML(processedText)) {
-      processedText = SSMLUtils.stripSSML(processedText);
+      processedText = SSMLUtils.processSSMLForEngine(
+        processedText,
+        "mistral",
+        undefined,
+        this.lang
+      );
     }
 
     return processedText;
@@ -121,10 +130,6 @@ export class MistralTTSClient extends AbstractTTSClient {
     this.model = model;
   }
 
-  setVoice(voiceId: string): void {
-    this.voiceId = voiceId;
-  }
-
   getProperty(property: string): any {
     switch (property) {
       case "model":
@@ -158,7 +163,7 @@ export class MistralTTSClient extends AbstractTTSClient {
   async checkCredentials(): Promise<boolean> {
     if (!this.apiKey) return false;
     try {
-      const response = await fetch(`${this.baseUrl}/models`, {
+      const response = await this.fetchWithRetry(`${this.baseUrl}/models`, {
         method: "GET",
         headers: {
           Authorization: `Bearer ${this.apiKey}`,
@@ -194,10 +199,11 @@ export class MistralTTSClient extends AbstractTTSClient {
     }));
   }
 
-  async synthToBytes(text: string, options: MistralTTSOptions = {}): Promise<Uint8Array> {
+  protected async _synthToBytes(text: string, options: MistralTTSOptions = {}): Promise<Uint8Array> {
     const preparedText = await this.prepareText(text, options);
     const modelId = options.model || this.model;
-    const voiceId = options.voice || this.voiceId;
+    const reference = this.resolveVoiceReference(options.voice);
+    const voiceId = reference ? null : this.resolveVoiceId(options.voice);
 
     const body: Record<string, unknown> = {
       response_format: options.responseFormat || this.responseFormat,
@@ -205,23 +211,35 @@ export class MistralTTSClient extends AbstractTTSClient {
       model: modelId,
       input: preparedText,
     };
-    if (voiceId) {
+    if (reference) {
+      const { audioBytes } = await loadVoiceReference(reference);
+      body.ref_audio = uint8ArrayToBase64(audioBytes);
+    } else if (voiceId) {
       body.voice_id = voiceId;
     }
 
-    const response = await fetch(`${this.baseUrl}/audio/speech`, {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/audio/speech`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${this.apiKey}`,
       },
       body: JSON.stringify(body),
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(
-        `Mistral API error: ${response.status} ${response.statusText} - ${errorText}`
+      throw createHttpError(
+        `Mistral API error: ${response.status} ${response.statusText} - ${errorText}`,
+        {
+          provider: "mistral",
+          statusCode: response.status,
+          model: modelId,
+          voiceId,
+          responseBody: errorText,
+        },
+        response.headers
       );
     }
 
@@ -230,7 +248,7 @@ export class MistralTTSClient extends AbstractTTSClient {
     return base64ToUint8Array(json.audio_data);
   }
 
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options: MistralTTSOptions = {}
   ): Promise<{
@@ -239,7 +257,8 @@ export class MistralTTSClient extends AbstractTTSClient {
   }> {
     const preparedText = await this.prepareText(text, options);
     const modelId = options.model || this.model;
-    const voiceId = options.voice || this.voiceId;
+    const reference = this.resolveVoiceReference(options.voice);
+    const voiceId = reference ? null : this.resolveVoiceId(options.voice);
 
     const body: Record<string, unknown> = {
       response_format: options.responseFormat || this.responseFormat,
@@ -248,11 +267,14 @@ export class MistralTTSClient extends AbstractTTSClient {
       input: preparedText,
       stream: true,
     };
-    if (voiceId) {
+    if (reference) {
+      const { audioBytes } = await loadVoiceReference(reference);
+      body.ref_audio = uint8ArrayToBase64(audioBytes);
+    } else if (voiceId) {
       body.voice_id = voiceId;
     }
 
-    const response = await fetch(`${this.baseUrl}/audio/speech`, {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/audio/speech`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -260,28 +282,37 @@ export class MistralTTSClient extends AbstractTTSClient {
         Accept: "text/event-stream",
       },
       body: JSON.stringify(body),
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(
-        `Mistral API error: ${response.status} ${response.statusText} - ${errorText}`
+      throw createHttpError(
+        `Mistral API error: ${response.status} ${response.statusText} - ${errorText}`,
+        {
+          provider: "mistral",
+          statusCode: response.status,
+          model: modelId,
+          voiceId,
+          responseBody: errorText,
+        },
+        response.headers
       );
     }
 
     if (!response.body) {
-      const bytes = await this.synthToBytes(text, options);
+      const bytes = await this._synthToBytes(text, options);
       const readableStream = new ReadableStream({
         start(controller) {
           controller.enqueue(bytes);
           controller.close();
         },
       });
-      return { audioStream: readableStream, wordBoundaries: [] };
+      return { audioStream: abortableStream(readableStream, options.signal), wordBoundaries: [] };
     }
 
     const sseStream = this.parseSseBase64Stream(response.body);
-    return { audioStream: sseStream, wordBoundaries: [] };
+    return { audioStream: abortableStream(sseStream, options.signal), wordBoundaries: [] };
   }
 
   private parseSseBase64Stream(body: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
@@ -321,3 +352,10 @@ export class MistralTTSClient extends AbstractTTSClient {
     });
   }
 }
+
+registerEngine("mistral", {
+  create: (credentials: MistralTTSCredentials) => new MistralTTSClient(credentials),
+  credentialsSchema: { required: ["apiKey"], optional: ["baseURL", "model"] },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
@@ -1,8 +1,10 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { createHttpError, TTSError, TTSNetworkError } from "../core/errors";
 import * as SSMLUtils from "../core/ssml-utils";
 import * as SpeechMarkdown from "../markdown/converter";
 import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
-import { getFetch } from "../utils/fetch-utils";
+import { abortableStream, throwIfAborted } from "../utils/abort-utils";
 
 /**
  * ModelsLab TTS Client Credentials
@@ -112,6 +114,8 @@ const MAX_POLL_ATTEMPTS = 20;
  * ```
  */
 export class ModelsLabTTSClient extends AbstractTTSClient {
+  readonly engineName = "modelslab";
+
   private apiKey: string;
   private defaultLanguage: string;
   private defaultSpeed: number;
@@ -151,8 +155,8 @@ export class ModelsLabTTSClient extends AbstractTTSClient {
    * Synthesize text to audio bytes (Uint8Array).
    * Handles async generation — polls until audio is ready.
    */
-  async synthToBytes(text: string, options: ModelsLabTTSOptions = {}): Promise<Uint8Array> {
-    const { audioStream } = await this.synthToBytestream(text, options);
+  protected async _synthToBytes(text: string, options: ModelsLabTTSOptions = {}): Promise<Uint8Array> {
+    const { audioStream } = await this._synthToBytestream(text, options);
     const reader = audioStream.getReader();
     const chunks: Uint8Array[] = [];
     while (true) {
@@ -173,7 +177,7 @@ export class ModelsLabTTSClient extends AbstractTTSClient {
   /**
    * Synthesize text to a ReadableStream of audio chunks.
    */
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options: ModelsLabTTSOptions = {}
   ): Promise<{
@@ -185,13 +189,18 @@ export class ModelsLabTTSClient extends AbstractTTSClient {
     // Convert SpeechMarkdown → SSML → plain text if needed
     if (options.useSpeechMarkdown && SpeechMarkdown.isSpeechMarkdown(processedText)) {
       const ssml = await SpeechMarkdown.toSSML(processedText);
-      processedText = SSMLUtils.stripSSML(ssml);
+      processedText = SSMLUtils.processSSMLForEngine(ssml, "modelslab", undefined, this.lang);
     } else if (SSMLUtils.isSSML(processedText)) {
-      // ModelsLab doesn't support SSML — strip tags
-      processedText = SSMLUtils.stripSSML(processedText);
+      // ModelsLab doesn't support SSML — convert to plain text
+      processedText = SSMLUtils.processSSMLForEngine(
+        processedText,
+        "modelslab",
+        undefined,
+        this.lang
+      );
     }
 
-    const voiceId = options.voice || this.voiceId || DEFAULT_VOICE;
+    const voiceId = this.resolveVoiceId(options.voice) || DEFAULT_VOICE;
     this.voiceId = voiceId;
 
     const speed = options.speed ?? this.defaultSpeed;
@@ -202,7 +211,8 @@ export class ModelsLabTTSClient extends AbstractTTSClient {
       voiceId,
       language,
       speed,
-      options.emotion ?? false
+      options.emotion ?? false,
+      options.signal
     );
 
     const audioStream = new ReadableStream<Uint8Array>({
@@ -212,7 +222,7 @@ export class ModelsLabTTSClient extends AbstractTTSClient {
       },
     });
 
-    return { audioStream, wordBoundaries: [] };
+    return { audioStream: abortableStream(audioStream, options.signal), wordBoundaries: [] };
   }
 
   /** Internal: call ModelsLab API and return audio bytes. */
@@ -221,11 +231,10 @@ export class ModelsLabTTSClient extends AbstractTTSClient {
     voiceId: string,
     language: string,
     speed: number,
-    emotion: boolean
+    emotion: boolean,
+    signal?: AbortSignal
   ): Promise<Uint8Array> {
-    const fetch = getFetch();
-
-    const resp = await fetch(API_URL, {
+    const resp = await this.fetchWithRetry(API_URL, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
@@ -236,10 +245,16 @@ export class ModelsLabTTSClient extends AbstractTTSClient {
         speed,
         emotion,
       }),
+      signal,
     });
 
     if (!resp.ok) {
-      throw new Error(`ModelsLab API error: ${resp.status} ${resp.statusText}`);
+      const errorText = await resp.text().catch(() => "");
+      throw createHttpError(
+        `ModelsLab API error: ${resp.status} ${resp.statusText}`,
+        { provider: "modelslab", statusCode: resp.status, voiceId, responseBody: errorText },
+        resp.headers
+      );
     }
 
     const data = (await resp.json()) as {
@@ -251,7 +266,11 @@ export class ModelsLabTTSClient extends AbstractTTSClient {
     };
 
     if (data.status === "error") {
-      throw new Error(`ModelsLab TTS error: ${data.message ?? JSON.stringify(data)}`);
+      throw new TTSError(`ModelsLab TTS error: ${data.message ?? JSON.stringify(data)}`, {
+        provider: "modelslab",
+        voiceId,
+        responseBody: JSON.stringify(data),
+      });
     }
 
     let audioUrl: string | undefined;
@@ -261,29 +280,38 @@ export class ModelsLabTTSClient extends AbstractTTSClient {
     } else if (data.status === "processing") {
       const fetchUrl = data.fetch_result ?? data.link;
       if (!fetchUrl) {
-        throw new Error("ModelsLab returned processing status with no fetch URL");
+        throw new TTSError("ModelsLab returned processing status with no fetch URL", {
+          provider: "modelslab",
+          voiceId,
+        });
       }
-      audioUrl = await this._poll(fetchUrl, fetch);
+      audioUrl = await this._poll(fetchUrl, signal);
     } else {
-      throw new Error(`Unexpected ModelsLab status: ${data.status}`);
+      throw new TTSError(`Unexpected ModelsLab status: ${data.status}`, {
+        provider: "modelslab",
+        voiceId,
+        responseBody: JSON.stringify(data),
+      });
     }
 
     if (!audioUrl) {
-      throw new Error("ModelsLab returned no audio URL");
+      throw new TTSError("ModelsLab returned no audio URL", { provider: "modelslab", voiceId });
     }
 
-    return this._downloadAudio(audioUrl, fetch);
+    return this._downloadAudio(audioUrl, signal);
   }
 
   /** Poll the fetch_result URL until audio is ready. */
-  private async _poll(fetchUrl: string, fetch: ReturnType<typeof getFetch>): Promise<string> {
+  private async _poll(fetchUrl: string, signal?: AbortSignal): Promise<string> {
     for (let attempt = 0; attempt < MAX_POLL_ATTEMPTS; attempt++) {
       await this._sleep(POLL_INTERVAL_MS);
+      throwIfAborted(signal);
 
-      const resp = await fetch(fetchUrl, {
+      const resp = await this.fetchWithRetry(fetchUrl, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ key: this.apiKey }),
+        signal,
       });
 
       if (!resp.ok) continue;
@@ -298,20 +326,26 @@ export class ModelsLabTTSClient extends AbstractTTSClient {
         return data.output[0];
       }
       if (data.status === "error") {
-        throw new Error(`ModelsLab poll error: ${data.message}`);
+        throw new TTSError(`ModelsLab poll error: ${data.message}`, {
+          provider: "modelslab",
+          responseBody: JSON.stringify(data),
+        });
       }
     }
-    throw new Error(`ModelsLab audio generation timed out after ${MAX_POLL_ATTEMPTS} attempts`);
+    throw new TTSNetworkError(
+      `ModelsLab audio generation timed out after ${MAX_POLL_ATTEMPTS} attempts`,
+      { provider: "modelslab" }
+    );
   }
 
   /** Download audio from URL and return as Uint8Array. */
-  private async _downloadAudio(
-    url: string,
-    fetch: ReturnType<typeof getFetch>
-  ): Promise<Uint8Array> {
-    const resp = await fetch(url);
+  private async _downloadAudio(url: string, signal?: AbortSignal): Promise<Uint8Array> {
+    const resp = await this.fetchWithRetry(url, { signal });
     if (!resp.ok) {
-      throw new Error(`Failed to download audio: ${resp.status} ${resp.statusText}`);
+      throw createHttpError(`Failed to download audio: ${resp.status} ${resp.statusText}`, {
+        provider: "modelslab",
+        statusCode: resp.status,
+      });
     }
     const buf = await resp.arrayBuffer();
     return new Uint8Array(buf);
@@ -323,3 +357,10 @@ export class ModelsLabTTSClient extends AbstractTTSClient {
 }
 
 export default ModelsLabTTSClient;
+
+registerEngine("modelslab", {
+  create: (credentials: ModelsLabTTSCredentials) => new ModelsLabTTSClient(credentials),
+  credentialsSchema: { required: ["apiKey"] },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
@@ -1,13 +1,13 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { createHttpError } from "../core/errors";
 import * as SSMLUtils from "../core/ssml-utils";
 import * as SpeechMarkdown from "../markdown/converter";
 import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
+import { abortableStream } from "../utils/abort-utils";
 import { base64ToUint8Array } from "../utils/base64-utils";
-import { getFetch } from "../utils/fetch-utils";
 import { toIso639_3, toLanguageDisplay } from "../utils/language-utils";
 
-const fetch = getFetch();
-
 export interface MurfTTSOptions extends SpeakOptions {
   model?: string;
   voice?: string;
@@ -23,6 +23,8 @@ export interface MurfTTSCredentials extends TTSCredentials {
 }
 
 export class MurfTTSClient extends AbstractTTSClient {
+  readonly engineName = "murf";
+
   private apiKey: string;
   private baseUrl: string;
   private model: string;
@@ -90,11 +92,11 @@ export class MurfTTSClient extends AbstractTTSClient {
 
     if (options?.useSpeechMarkdown && SpeechMarkdown.isSpeechMarkdown(processedText)) {
       const ssml = await SpeechMarkdown.toSSML(processedText, "w3c");
-      processedText = SSMLUtils.stripSSML(ssml);
+      processedText = SSMLUtils.processSSMLForEngine(ssml, "murf", undefined, this.lang);
     }
 
     if (SSMLUtils.isSSML(processedText)) {
-      processedText = SSMLUtils.stripSSML(processedText);
+      processedText = SSMLUtils.processSSMLForEngine(processedText, "murf", undefined, this.lang);
     }
 
     return processedText;
@@ -104,10 +106,6 @@ export class MurfTTSClient extends AbstractTTSClient {
     this.model = model;
   }
 
-  setVoice(voiceId: string): void {
-    this.voiceId = voiceId;
-  }
-
   getProperty(property: string): any {
     switch (property) {
       case "model":
@@ -136,7 +134,7 @@ export class MurfTTSClient extends AbstractTTSClient {
   async checkCredentials(): Promise<boolean> {
     if (!this.apiKey) return false;
     try {
-      const response = await fetch(`${this.baseUrl}/speech/generate`, {
+      const response = await this.fetchWithRetry(`${this.baseUrl}/speech/generate`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -174,10 +172,10 @@ export class MurfTTSClient extends AbstractTTSClient {
     }));
   }
 
-  async synthToBytes(text: string, options: MurfTTSOptions = {}): Promise<Uint8Array> {
+  protected async _synthToBytes(text: string, options: MurfTTSOptions = {}): Promise<Uint8Array> {
     const preparedText = await this.prepareText(text, options);
     const modelId = options.model || this.model;
-    const voiceId = options.voice || this.voiceId;
+    const voiceId = this.resolveVoiceId(options.voice);
     const isFalcon = modelId === "FALCON";
 
     const body: Record<string, unknown> = {
@@ -194,18 +192,29 @@ export class MurfTTSClient extends AbstractTTSClient {
 
     const url = isFalcon ? `${this.baseUrl}/speech/stream` : `${this.baseUrl}/speech/generate`;
 
-    const response = await fetch(url, {
+    const response = await this.fetchWithRetry(url, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         "api-key": this.apiKey,
       },
       body: JSON.stringify(body),
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Murf API error: ${response.status} ${response.statusText} - ${errorText}`);
+      throw createHttpError(
+        `Murf API error: ${response.status} ${response.statusText} - ${errorText}`,
+        {
+          provider: "murf",
+          statusCode: response.status,
+          model: modelId,
+          voiceId,
+          responseBody: errorText,
+        },
+        response.headers
+      );
     }
 
     if (isFalcon) {
@@ -220,7 +229,7 @@ export class MurfTTSClient extends AbstractTTSClient {
     return bytes;
   }
 
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options: MurfTTSOptions = {}
   ): Promise<{
@@ -229,7 +238,7 @@ export class MurfTTSClient extends AbstractTTSClient {
   }> {
     const preparedText = await this.prepareText(text, options);
     const modelId = options.model || this.model;
-    const voiceId = options.voice || this.voiceId;
+    const voiceId = this.resolveVoiceId(options.voice);
 
     const body: Record<string, unknown> = {
       ...options.providerOptions,
@@ -238,31 +247,49 @@ export class MurfTTSClient extends AbstractTTSClient {
       model: modelId,
     };
 
-    const response = await fetch(`${this.baseUrl}/speech/stream`, {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/speech/stream`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         "api-key": this.apiKey,
       },
       body: JSON.stringify(body),
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Murf API error: ${response.status} ${response.statusText} - ${errorText}`);
+      throw createHttpError(
+        `Murf API error: ${response.status} ${response.statusText} - ${errorText}`,
+        {
+          provider: "murf",
+          statusCode: response.status,
+          model: modelId,
+          voiceId,
+          responseBody: errorText,
+        },
+        response.headers
+      );
     }
 
     if (!response.body) {
-      const bytes = await this.synthToBytes(text, options);
+      const bytes = await this._synthToBytes(text, options);
       const readableStream = new ReadableStream({
         start(controller) {
           controller.enqueue(bytes);
           controller.close();
         },
       });
-      return { audioStream: readableStream, wordBoundaries: [] };
+      return { audioStream: abortableStream(readableStream, options.signal), wordBoundaries: [] };
     }
 
-    return { audioStream: response.body, wordBoundaries: [] };
+    return { audioStream: abortableStream(response.body, options.signal), wordBoundaries: [] };
   }
 }
+
+registerEngine("murf", {
+  create: (credentials: MurfTTSCredentials) => new MurfTTSClient(credentials),
+  credentialsSchema: { required: ["apiKey"], optional: ["baseURL", "model"] },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
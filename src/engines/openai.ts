@@ -1,8 +1,11 @@
 // Node-only imports moved inside Node-only code paths below for browser compatibility.
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { TTSUnsupportedFeatureError, toTTSError } from "../core/errors";
 import * as SSMLUtils from "../core/ssml-utils";
 import * as SpeechMarkdown from "../markdown/converter";
-import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
+import type { SpeakOptions, TTSCredentials, UnifiedVoice, VoiceInput } from "../types";
+import { abortableStream } from "../utils/abort-utils";
 import { estimateWordBoundaries, type WordBoundary } from "../utils/word-timing-estimator";
 
 // Mock OpenAI types for TypeScript compilation
@@ -106,6 +109,8 @@ export interface OpenAITTSCredentials extends TTSCredentials {
  * Word boundaries are estimated since OpenAI doesn't provide word events.
  */
 export class OpenAITTSClient extends AbstractTTSClient {
+  readonly engineName = "openai";
+
   // Use 'any' for client to accommodate both real and mock SDK types easily
   private client: any | null = null;
   private clientLoadingPromise: Promise<any | null> | null = null;
@@ -146,6 +151,7 @@ export class OpenAITTSClient extends AbstractTTSClient {
       { id: "tts-1-hd", features: ["streaming"] },
     ];
     this.credentials = credentials;
+    this.maxTextLength = 4096;
 
     // Don't initialize client here, load it on demand
 
@@ -313,10 +319,14 @@ export class OpenAITTSClient extends AbstractTTSClient {
 
   /**
    * Set the voice to use for synthesis
-   * @param voiceId Voice ID to use
+   * @param voice Voice ID to use; reference audio is not supported
+   * @param lang Language code
    */
-  setVoice(voiceId: string): void {
-    this.voice = voiceId;
+  setVoice(voice: VoiceInput, lang?: string): void {
+    super.setVoice(voice, lang);
+    if (typeof voice === "string") {
+      this.voice = voice;
+    }
   }
 
   /**
@@ -396,8 +406,9 @@ export class OpenAITTSClient extends AbstractTTSClient {
    */
   async textToSpeech(text: string, options: OpenAITTSOptions = {}): Promise<string> {
     if (typeof window !== "undefined") {
-      throw new Error(
-        "textToSpeech with file output is not supported in the browser. Use synthToBytes or synthToBytestream instead."
+      throw new TTSUnsupportedFeatureError(
+        "textToSpeech with file output is not supported in the browser. Use synthToBytes or synthToBytestream instead.",
+        { provider: "openai", feature: "file-output" }
       );
     }
     // Node.js only
@@ -443,8 +454,9 @@ export class OpenAITTSClient extends AbstractTTSClient {
    */
   async textToSpeechStreaming(text: string, options: OpenAITTSOptions = {}): Promise<string> {
     if (typeof window !== "undefined") {
-      throw new Error(
-        "textToSpeechStreaming with file output is not supported in the browser. Use synthToBytes or synthToBytestream instead."
+      throw new TTSUnsupportedFeatureError(
+        "textToSpeechStreaming with file output is not supported in the browser. Use synthToBytes or synthToBytestream instead.",
+        { provider: "openai", feature: "file-output" }
       );
     }
     const importNodeBuiltin = (name: string) => new Function("m", "return import(m)")(name);
@@ -533,7 +545,10 @@ export class OpenAITTSClient extends AbstractTTSClient {
    * @returns Promise resolving to the path of the generated audio file
    */
   async ssmlToSpeech(_ssml: string, _options: OpenAITTSOptions = {}): Promise<string> {
-    throw new Error("SSML is not supported by OpenAI TTS");
+    throw new TTSUnsupportedFeatureError("SSML is not supported by OpenAI TTS", {
+      provider: "openai",
+      feature: "ssml",
+    });
   }
 
   /**
@@ -543,7 +558,10 @@ export class OpenAITTSClient extends AbstractTTSClient {
    * @returns Promise resolving to the path of the generated audio file
    */
   async ssmlToSpeechStreaming(_ssml: string, _options: OpenAITTSOptions = {}): Promise<string> {
-    throw new Error("SSML is not supported by OpenAI TTS");
+    throw new TTSUnsupportedFeatureError("SSML is not supported by OpenAI TTS", {
+      provider: "openai",
+      feature: "ssml",
+    });
   }
 
   /**
@@ -552,7 +570,10 @@ export class OpenAITTSClient extends AbstractTTSClient {
    * @param options Synthesis options
    * @returns Promise resolving to audio bytes
    */
-  async synthToBytes(text: string | string[], options: OpenAITTSOptions = {}): Promise<Uint8Array> {
+  protected async _synthToBytes(
+    text: string | string[],
+    options: OpenAITTSOptions = {}
+  ): Promise<Uint8Array> {
     try {
       // Prepare text for synthesis (handle Speech Markdown and SSML)
       let processedText = typeof text === "string" ? text : text.join(" ");
@@ -562,18 +583,23 @@ export class OpenAITTSClient extends AbstractTTSClient {
         // Convert to SSML first, then strip SSML tags since OpenAI doesn't support SSML
         // Use "w3c" platform for generic SSML (will be stripped anyway)
         const ssml = await SpeechMarkdown.toSSML(processedText, "w3c");
-        processedText = SSMLUtils.stripSSML(ssml);
+        processedText = SSMLUtils.processSSMLForEngine(ssml, "openai", undefined, this.lang);
       }
 
-      // If text is SSML, strip the tags as OpenAI doesn't support SSML
+      // If text is SSML, convert it to plain text as OpenAI doesn't support SSML
       if (SSMLUtils.isSSML(processedText)) {
-        processedText = SSMLUtils.stripSSML(processedText);
+        processedText = SSMLUtils.processSSMLForEngine(
+          processedText,
+          "openai",
+          undefined,
+          this.lang
+        );
       }
 
       const client = await this.loadClient();
       const params: any = {
         model: options.model || this.model,
-        voice: options.voice || this.voice,
+        voice: this.resolveVoiceId(options.voice) || this.voice,
         input: processedText,
         instructions: this.instructions || undefined,
         response_format: options.format || this.responseFormat,
@@ -582,12 +608,16 @@ export class OpenAITTSClient extends AbstractTTSClient {
       };
 
       // Use the initialized client (could be mock or real)
-      const response = await client.audio.speech.create(params);
+      const response = await client.audio.speech.create(params, { signal: options.signal });
       const arrayBuffer = await response.arrayBuffer();
       return new Uint8Array(arrayBuffer);
     } catch (error) {
       console.error("Error converting text to speech bytes:", error);
-      throw error;
+      throw toTTSError(error, {
+        provider: "openai",
+        model: options.model || this.model,
+        voiceId: options.voice || this.voice,
+      });
     }
   }
 
@@ -597,7 +627,7 @@ export class OpenAITTSClient extends AbstractTTSClient {
    * @param _options Synthesis options (currently unused for streaming, uses defaults).
    * @returns Promise resolving to an object containing the audio stream and an empty word boundaries array.
    */
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     _options?: SpeakOptions
   ): Promise<{
@@ -607,22 +637,32 @@ export class OpenAITTSClient extends AbstractTTSClient {
     try {
       const client = await this.loadClient();
       // Use the initialized client (could be mock or real)
-      const response = await client.audio.speech.create({
-        model: this.model,
-        voice: this.voice,
-        input: text,
-        instructions: this.instructions || undefined,
-        response_format: this.responseFormat as any,
-      });
+      const response = await client.audio.speech.create(
+        {
+          model: this.model,
+          voice: this.voice,
+          input: text,
+          instructions: this.instructions || undefined,
+          response_format: this.responseFormat as any,
+        },
+        { signal: _options?.signal }
+      );
 
       // Get the stream
       const stream = response.body;
 
       // Return the stream and an empty word boundaries array
-      return { audioStream: stream, wordBoundaries: [] };
+      return { audioStream: abortableStream(stream, _options?.signal), wordBoundaries: [] };
     } catch (error) {
       console.error("Error converting text to speech stream:", error);
-      throw error;
+      throw toTTSError(error, { provider: "openai", model: this.model, voiceId: this.voice });
     }
   }
 }
+
+registerEngine("openai", {
+  create: (credentials: OpenAITTSCredentials) => new OpenAITTSClient(credentials),
+  credentialsSchema: { required: ["apiKey"], optional: ["baseURL", "organization"] },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
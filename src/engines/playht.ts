@@ -1,15 +1,27 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import {
+  createHttpError,
+  TTSError,
+  TTSNetworkError,
+  TTSUnsupportedFeatureError,
+  throwIfHttpError,
+} from "../core/errors";
 import * as SSMLUtils from "../core/ssml-utils";
 import * as SpeechMarkdown from "../markdown/converter";
-import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
-import { getFetch } from "../utils/fetch-utils";
+import type {
+  CloneVoiceOptions,
+  SpeakOptions,
+  TTSCredentials,
+  UnifiedVoice,
+  VoiceInput,
+} from "../types";
+import { abortableStream } from "../utils/abort-utils";
+import { loadVoiceSamples } from "../utils/audio-input";
 import { estimateWordBoundaries, type WordBoundary } from "../utils/word-timing-estimator";
 
 // Node-only imports moved inside Node-only code paths below for browser compatibility.
 
-// Get the fetch implementation for the current environment
-const fetch = getFetch();
-
 /**
  * PlayHT TTS Client Credentials
  */
@@ -63,6 +75,8 @@ export type PlayHTVoiceEngine = "PlayHT1.0" | "PlayHT2.0" | null;
  * Word boundaries are estimated since PlayHT doesn't provide word events.
  */
 export class PlayHTTTSClient extends AbstractTTSClient {
+  readonly engineName = "playht";
+
   private apiKey: string;
   private userId: string;
   private voice: string;
@@ -78,8 +92,8 @@ export class PlayHTTTSClient extends AbstractTTSClient {
     super(credentials);
 
     this._models = [
-      { id: "playht", features: ["streaming"] },
-      { id: "playht2.5-turbo", features: ["streaming"] },
+      { id: "playht", features: ["streaming", "voice-cloning"] },
+      { id: "playht2.5-turbo", features: ["streaming", "voice-cloning"] },
     ];
 
     // Set credentials
@@ -128,7 +142,7 @@ export class PlayHTTTSClient extends AbstractTTSClient {
   private async _fetchVoices(): Promise<any[]> {
     try {
       // Fetch standard voices
-      const standardResponse = await fetch("https://api.play.ht/api/v2/voices", {
+      const standardResponse = await this.fetchWithRetry("https://api.play.ht/api/v2/voices", {
         method: "GET",
         headers: {
           accept: "application/json",
@@ -138,26 +152,14 @@ export class PlayHTTTSClient extends AbstractTTSClient {
       });
 
       if (!standardResponse.ok) {
-        throw new Error(`Failed to fetch PlayHT voices: ${standardResponse.statusText}`);
+        throw createHttpError(`Failed to fetch PlayHT voices: ${standardResponse.statusText}`, {
+          provider: "playht",
+          statusCode: standardResponse.status,
+        });
       }
 
       const standardVoices = await standardResponse.json();
-
-      // Fetch cloned voices
-      const clonedResponse = await fetch("https://api.play.ht/api/v2/cloned-voices", {
-        method: "GET",
-        headers: {
-          accept: "application/json",
-          AUTHORIZATION: this.apiKey,
-          "X-USER-ID": this.userId,
-        },
-      });
-
-      if (!clonedResponse.ok) {
-        throw new Error(`Failed to fetch PlayHT cloned voices: ${clonedResponse.statusText}`);
-      }
-
-      const clonedVoices = await clonedResponse.json();
+      const clonedVoices = await this._fetchClonedVoices();
 
       // Merge standard and cloned voices
       return [...standardVoices, ...clonedVoices];
@@ -167,6 +169,30 @@ export class PlayHTTTSClient extends AbstractTTSClient {
     }
   }
 
+  /**
+   * Fetch the cloned voices of the account from the PlayHT API
+   * @returns Promise resolving to an array of PlayHT voice objects
+   */
+  private async _fetchClonedVoices(): Promise<any[]> {
+    const clonedResponse = await this.fetchWithRetry("https://api.play.ht/api/v2/cloned-voices", {
+      method: "GET",
+      headers: {
+        accept: "application/json",
+        AUTHORIZATION: this.apiKey,
+        "X-USER-ID": this.userId,
+      },
+    });
+
+    if (!clonedResponse.ok) {
+      throw createHttpError(`Failed to fetch PlayHT cloned voices: ${clonedResponse.statusText}`, {
+        provider: "playht",
+        statusCode: clonedResponse.status,
+      });
+    }
+
+    return clonedResponse.json();
+  }
+
   /**
    * Get available voices
    * @returns Promise resolving to an array of unified voice objects
@@ -224,11 +250,83 @@ export class PlayHTTTSClient extends AbstractTTSClient {
     return unifiedVoices;
   }
 
+  /**
+   * Create an instant voice clone from a recording of a speaker.
+   * PlayHT clones from a single sample file, so only the first sample is used.
+   * @param options Name and samples of the voice
+   * @returns Promise resolving to the new voice
+   */
+  async createClonedVoice(options: CloneVoiceOptions): Promise<UnifiedVoice> {
+    if (options.samples.length > 1) {
+      console.warn("PlayHT clones from a single sample file; only the first sample is used");
+    }
+    const [{ blob, filename }] = await loadVoiceSamples(options.samples.slice(0, 1));
+
+    const form = new FormData();
+    form.append("sample_file", blob, filename);
+    form.append("voice_name", options.name);
+
+    const response = await this.fetchOnce("https://api.play.ht/api/v2/cloned-voices/instant", {
+      method: "POST",
+      headers: {
+        accept: "application/json",
+        AUTHORIZATION: this.apiKey,
+        "X-USER-ID": this.userId,
+      },
+      body: form,
+    });
+    await throwIfHttpError(response, "Failed to create PlayHT cloned voice", {
+      provider: "playht",
+    });
+
+    const voice = await response.json();
+    const [unified] = await this._mapVoicesToUnified([
+      { language_code: options.language, ...voice, name: voice.name ?? options.name },
+    ]);
+    return unified;
+  }
+
+  /**
+   * Get the cloned voices of the account
+   * @returns Promise resolving to the cloned voices
+   */
+  async listClonedVoices(): Promise<UnifiedVoice[]> {
+    return this._mapVoicesToUnified(await this._fetchClonedVoices());
+  }
+
+  /**
+   * Delete a cloned voice
+   * @param voiceId ID of the cloned voice (its s3:// manifest URL)
+   */
+  async deleteClonedVoice(voiceId: string): Promise<void> {
+    const response = await this.fetchWithRetry("https://api.play.ht/api/v2/cloned-voices", {
+      method: "DELETE",
+      headers: {
+        accept: "application/json",
+        "Content-Type": "application/json",
+        AUTHORIZATION: this.apiKey,
+        "X-USER-ID": this.userId,
+      },
+      body: JSON.stringify({ voice_id: voiceId }),
+    });
+    await throwIfHttpError(response, "Failed to delete PlayHT cloned voice", {
+      provider: "playht",
+      voiceId,
+    });
+  }
+
   /**
    * Set the voice to use for synthesis
-   * @param voiceId Voice ID to use
+   * @param voice Voice ID to use; reference audio is not supported
+   * @param lang Language code
    */
-  setVoice(voiceId: string): void {
+  setVoice(voice: VoiceInput, lang?: string): void {
+    super.setVoice(voice, lang);
+    if (typeof voice !== "string") {
+      return;
+    }
+    const voiceId = voice;
+
     // If the voice ID contains a '#' character, it's a modified ID to handle duplicates
     // Extract the original ID (everything before the '#')
     if (voiceId.includes("#")) {
@@ -343,8 +441,9 @@ export class PlayHTTTSClient extends AbstractTTSClient {
   async textToSpeech(text: string, options: PlayHTTTSOptions = {}): Promise<string> {
     try {
       if (typeof window !== "undefined") {
-        throw new Error(
-          "File output is not supported in the browser. Use synthToBytes or synthToBytestream instead."
+        throw new TTSUnsupportedFeatureError(
+          "File output is not supported in the browser. Use synthToBytes or synthToBytestream instead.",
+          { provider: "playht", feature: "file-output" }
         );
       }
       const dyn: any = new Function("m", "return import(m)");
@@ -360,7 +459,7 @@ export class PlayHTTTSClient extends AbstractTTSClient {
       const outputPath = path.join(outputDir, outputFile);
 
       // Create speech
-      const response = await fetch("https://api.play.ht/api/v2/tts", {
+      const response = await this.fetchWithRetry("https://api.play.ht/api/v2/tts", {
         method: "POST",
         headers: {
           accept: "application/json",
@@ -377,15 +476,27 @@ export class PlayHTTTSClient extends AbstractTTSClient {
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to convert text to speech: ${response.statusText}`);
+        throw createHttpError(
+          `Failed to convert text to speech: ${response.statusText}`,
+          {
+            provider: "playht",
+            statusCode: response.status,
+            model: this.voiceEngine,
+            voiceId: this.voice,
+          },
+          response.headers
+        );
       }
 
       const data = await response.json();
 
       // Download the audio file
-      const audioResponse = await fetch(data.url);
+      const audioResponse = await this.fetchWithRetry(data.url);
       if (!audioResponse.ok) {
-        throw new Error(`Failed to download audio file: ${audioResponse.statusText}`);
+        throw createHttpError(`Failed to download audio file: ${audioResponse.statusText}`, {
+          provider: "playht",
+          statusCode: audioResponse.status,
+        });
       }
 
       const buffer = Buffer.from(await audioResponse.arrayBuffer());
@@ -433,8 +544,9 @@ export class PlayHTTTSClient extends AbstractTTSClient {
   async textToSpeechStreaming(text: string, options: PlayHTTTSOptions = {}): Promise<string> {
     try {
       if (typeof window !== "undefined") {
-        throw new Error(
-          "File output is not supported in the browser. Use synthToBytes or synthToBytestream instead."
+        throw new TTSUnsupportedFeatureError(
+          "File output is not supported in the browser. Use synthToBytes or synthToBytestream instead.",
+          { provider: "playht", feature: "file-output" }
         );
       }
       const dyn: any = new Function("m", "return import(m)");
@@ -451,7 +563,7 @@ export class PlayHTTTSClient extends AbstractTTSClient {
       const outputPath = path.join(outputDir, outputFile);
 
       // Create speech with streaming - use the regular API since the streaming API returns a WAV file directly
-      const response = await fetch("https://api.play.ht/api/v2/tts", {
+      const response = await this.fetchWithRetry("https://api.play.ht/api/v2/tts", {
         method: "POST",
         headers: {
           accept: "application/json",
@@ -472,7 +584,17 @@ export class PlayHTTTSClient extends AbstractTTSClient {
         console.error(
           `PlayHT API error: ${response.status} ${response.statusText}\nResponse: ${errorText}`
         );
-        throw new Error(`Failed to convert text to speech with streaming: ${response.statusText}`);
+        throw createHttpError(
+          `Failed to convert text to speech with streaming: ${response.statusText}`,
+          {
+            provider: "playht",
+            statusCode: response.status,
+            model: this.voiceEngine,
+            voiceId: this.voice,
+            responseBody: errorText,
+          },
+          response.headers
+        );
       }
 
       const data = await response.json();
@@ -480,7 +602,10 @@ export class PlayHTTTSClient extends AbstractTTSClient {
       // Poll for the result
       const jobId = data.id;
       if (!jobId) {
-        throw new Error(`PlayHT API did not return a job ID: ${JSON.stringify(data)}`);
+        throw new TTSError(`PlayHT API did not return a job ID: ${JSON.stringify(data)}`, {
+          provider: "playht",
+          responseBody: JSON.stringify(data),
+        });
       }
 
       // Get the job status URL
@@ -500,7 +625,7 @@ export class PlayHTTTSClient extends AbstractTTSClient {
         await new Promise((resolve) => setTimeout(resolve, pollingInterval));
 
         // Get the job status
-        const statusResponse = await fetch(jobStatusUrl, {
+        const statusResponse = await this.fetchWithRetry(jobStatusUrl, {
           method: "GET",
           headers: {
             accept: "application/json",
@@ -510,7 +635,10 @@ export class PlayHTTTSClient extends AbstractTTSClient {
         });
 
         if (!statusResponse.ok) {
-          throw new Error(`Failed to get job status: ${statusResponse.statusText}`);
+          throw createHttpError(`Failed to get job status: ${statusResponse.statusText}`, {
+            provider: "playht",
+            statusCode: statusResponse.status,
+          });
         }
 
         const statusData = await statusResponse.json();
@@ -542,20 +670,27 @@ export class PlayHTTTSClient extends AbstractTTSClient {
 
         // Check if the job failed
         if (statusData.status === "failed") {
-          throw new Error(`Streaming job failed: ${JSON.stringify(statusData)}`);
+          throw new TTSError(`Streaming job failed: ${JSON.stringify(statusData)}`, {
+            provider: "playht",
+            responseBody: JSON.stringify(statusData),
+          });
         }
       }
 
       if (!audioUrl) {
-        throw new Error(
-          `Timed out waiting for streaming job to complete after ${maxAttempts} attempts`
+        throw new TTSNetworkError(
+          `Timed out waiting for streaming job to complete after ${maxAttempts} attempts`,
+          { provider: "playht" }
         );
       }
 
       // Download the audio file
-      const audioResponse = await fetch(audioUrl);
+      const audioResponse = await this.fetchWithRetry(audioUrl);
       if (!audioResponse.ok) {
-        throw new Error(`Failed to download streaming audio file: ${audioResponse.statusText}`);
+        throw createHttpError(
+          `Failed to download streaming audio file: ${audioResponse.statusText}`,
+          { provider: "playht", statusCode: audioResponse.status }
+        );
       }
 
       const buffer = Buffer.from(await audioResponse.arrayBuffer());
@@ -601,7 +736,10 @@ export class PlayHTTTSClient extends AbstractTTSClient {
    * @returns Promise resolving to the path of the generated audio file
    */
   async ssmlToSpeech(_ssml: string, _options: PlayHTTTSOptions = {}): Promise<string> {
-    throw new Error("SSML is not supported by PlayHT TTS");
+    throw new TTSUnsupportedFeatureError("SSML is not supported by PlayHT TTS", {
+      provider: "playht",
+      feature: "ssml",
+    });
   }
 
   /**
@@ -611,7 +749,10 @@ export class PlayHTTTSClient extends AbstractTTSClient {
    * @returns Promise resolving to the path of the generated audio file
    */
   async ssmlToSpeechStreaming(_ssml: string, _options: PlayHTTTSOptions = {}): Promise<string> {
-    throw new Error("SSML is not supported by PlayHT TTS");
+    throw new TTSUnsupportedFeatureError("SSML is not supported by PlayHT TTS", {
+      provider: "playht",
+      feature: "ssml",
+    });
   }
 
   /**
@@ -674,12 +815,12 @@ export class PlayHTTTSClient extends AbstractTTSClient {
    * @param options Synthesis options
    * @returns Promise resolving to audio bytes
    */
-  async synthToBytes(text: string, options?: PlayHTTTSOptions): Promise<Uint8Array> {
+  protected async _synthToBytes(text: string, options?: PlayHTTTSOptions): Promise<Uint8Array> {
     try {
       console.debug("PlayHT synthToBytes: Calling synthToBytestream internally...");
 
       // For PlayHT, we'll always use MP3 as the native format for better compatibility
-      const audioStream = await this.synthToBytestream(text, options);
+      const audioStream = await this._synthToBytestream(text, options);
 
       if (!audioStream) {
         throw new Error("synthToBytestream returned null, cannot generate Buffer.");
@@ -717,7 +858,7 @@ export class PlayHTTTSClient extends AbstractTTSClient {
    * @param options Synthesis options
    * @returns Promise resolving to an object containing the audio stream and an empty word boundaries array.
    */
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     _options: SpeakOptions = {}
   ): Promise<{
@@ -733,12 +874,17 @@ export class PlayHTTTSClient extends AbstractTTSClient {
         // Convert to SSML first, then strip SSML tags since PlayHT doesn't support SSML
         // Use "w3c" platform for generic SSML (will be stripped anyway)
         const ssml = await SpeechMarkdown.toSSML(processedText, "w3c");
-        processedText = SSMLUtils.stripSSML(ssml);
+        processedText = SSMLUtils.processSSMLForEngine(ssml, "playht", undefined, this.lang);
       }
 
-      // If text is SSML, strip the tags as PlayHT doesn't support SSML
+      // If text is SSML, convert it to plain text as PlayHT doesn't support SSML
       if (SSMLUtils.isSSML(processedText)) {
-        processedText = SSMLUtils.stripSSML(processedText);
+        processedText = SSMLUtils.processSSMLForEngine(
+          processedText,
+          "playht",
+          undefined,
+          this.lang
+        );
       }
 
       // PlayHT works best with MP3 format, especially for cloned voices
@@ -746,7 +892,7 @@ export class PlayHTTTSClient extends AbstractTTSClient {
       const nativeFormat = "mp3";
       const acceptHeader = "audio/mpeg";
 
-      const response = await fetch("https://api.play.ht/api/v2/tts/stream", {
+      const response = await this.fetchWithRetry("https://api.play.ht/api/v2/tts/stream", {
         method: "POST",
         headers: {
           accept: acceptHeader,
@@ -761,6 +907,7 @@ export class PlayHTTTSClient extends AbstractTTSClient {
           voice_engine: this.voiceEngine, // Ensure this is set appropriately
           // Add other relevant options like speed, sample_rate if needed
         }),
+        signal: _options?.signal,
       });
 
       if (!response.ok) {
@@ -774,21 +921,38 @@ export class PlayHTTTSClient extends AbstractTTSClient {
         console.error(
           `PlayHT Streaming API error: ${response.status} ${response.statusText}\nResponse Body: ${errorBody}`
         );
-        throw new Error(
-          `Failed to stream text to speech: ${response.status} ${response.statusText}`
+        throw createHttpError(
+          `Failed to stream text to speech: ${response.status} ${response.statusText}`,
+          {
+            provider: "playht",
+            statusCode: response.status,
+            model: this.voiceEngine,
+            voiceId: this.voice,
+            responseBody: errorBody,
+          },
+          response.headers
         );
       }
 
       // The response body is the audio stream
       if (!response.body) {
-        throw new Error("PlayHT Streaming API did not return a response body stream.");
+        throw new TTSError("PlayHT Streaming API did not return a response body stream.", {
+          provider: "playht",
+        });
       }
 
       // Return the stream along with an empty word boundaries array
-      return { audioStream: response.body, wordBoundaries: [] };
+      return { audioStream: abortableStream(response.body, _options?.signal), wordBoundaries: [] };
     } catch (error) {
       console.error("Error converting text to speech stream:", error);
       throw error;
     }
   }
 }
+
+registerEngine("playht", {
+  create: (credentials: PlayHTTTSCredentials) => new PlayHTTTSClient(credentials),
+  credentialsSchema: { required: ["apiKey", "userId"] },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
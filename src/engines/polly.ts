@@ -3,9 +3,21 @@ import type {
   SynthesizeSpeechCommandOutput,
 } from "@aws-sdk/client-polly";
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { TTSAuthError, TTSError, TTSRateLimitError, toTTSError } from "../core/errors";
+import type { Lexicon } from "../core/lexicon";
 import * as SSMLUtils from "../core/ssml-utils";
+import { visemeFromPolly } from "../core/visemes";
 import * as SpeechMarkdown from "../markdown/converter";
-import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
+import { findSSMLElement, parseSSML, serializeSSML } from "../ssml/parser";
+import type {
+  SpeakOptions,
+  SpeechMarks,
+  TTSCredentials,
+  UnifiedVoice,
+  WordBoundary,
+} from "../types";
+import { abortableStream } from "../utils/abort-utils";
 import { streamToBuffer } from "../utils/stream-utils";
 
 /**
@@ -36,10 +48,75 @@ export interface PollyTTSCredentials extends TTSCredentials {
   secretAccessKey: string;
 }
 
+/**
+ * Speech mark returned by Polly, one JSON object per line
+ */
+interface PollySpeechMark {
+  time: number;
+  type: "sentence" | "word" | "viseme" | "ssml";
+  value: string;
+}
+
+/**
+ * Parse Polly speech marks into word boundaries and timed events.
+ * Polly only reports when a word starts, so each word lasts until the next word or sentence
+ * starts; the last word lasts until the last mark (the closing silence viseme).
+ * @param ndjson Newline-delimited JSON speech marks
+ * @returns Word boundaries, sentences, SSML marks and visemes with times in milliseconds
+ */
+function parseSpeechMarks(ndjson: string): { wordBoundaries: WordBoundary[] } & SpeechMarks {
+  const speechMarks: PollySpeechMark[] = [];
+  for (const line of ndjson.trim().split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      speechMarks.push(JSON.parse(line));
+    } catch (parseError) {
+      console.warn(`Skipping invalid JSON line in speech marks: ${line}`, parseError);
+    }
+  }
+
+  const end = speechMarks.reduce((latest, mark) => Math.max(latest, mark.time), 0);
+  const result: { wordBoundaries: WordBoundary[] } & Required<SpeechMarks> = {
+    wordBoundaries: [],
+    sentences: [],
+    marks: [],
+    visemes: [],
+  };
+
+  speechMarks.forEach((mark, index) => {
+    switch (mark.type) {
+      case "word": {
+        const next = speechMarks
+          .slice(index + 1)
+          .find((later) => later.type === "word" || later.type === "sentence");
+        result.wordBoundaries.push({
+          text: mark.value,
+          offset: mark.time,
+          duration: Math.max(0, (next?.time ?? end) - mark.time),
+        });
+        break;
+      }
+      case "sentence":
+        result.sentences.push({ text: mark.value, offset: mark.time });
+        break;
+      case "ssml":
+        result.marks.push({ name: mark.value, offset: mark.time });
+        break;
+      case "viseme":
+        result.visemes.push(visemeFromPolly(mark.value, mark.time));
+        break;
+    }
+  });
+
+  return result;
+}
+
 /**
  * AWS Polly TTS client
  */
 export class PollyTTSClient extends AbstractTTSClient {
+  readonly engineName = "polly";
+
   /**
    * AWS Polly client
    */
@@ -51,6 +128,11 @@ export class PollyTTSClient extends AbstractTTSClient {
    */
   private voiceCache: Map<string, UnifiedVoice> = new Map();
 
+  /**
+   * Lexicon uploaded with PutLexicon, by PLS content, with whether the upload succeeded
+   */
+  private lexiconUpload: { pls: string; name: string; uploaded: Promise<boolean> } | null = null;
+
   /**
    * Create a new AWS Polly TTS client
    * @param credentials AWS credentials
@@ -59,15 +141,16 @@ export class PollyTTSClient extends AbstractTTSClient {
     super(credentials);
 
     this._models = [
-      { id: "generative", features: ["streaming", "ssml", "word-boundary-events"] },
-      { id: "long-form", features: ["streaming", "ssml", "word-boundary-events"] },
-      { id: "neural", features: ["streaming", "ssml", "word-boundary-events"] },
-      { id: "standard", features: ["streaming", "ssml", "word-boundary-events"] },
+      { id: "generative", features: ["streaming", "ssml", "word-boundary-events", "visemes"] },
+      { id: "long-form", features: ["streaming", "ssml", "word-boundary-events", "visemes"] },
+      { id: "neural", features: ["streaming", "ssml", "word-boundary-events", "visemes"] },
+      { id: "standard", features: ["streaming", "ssml", "word-boundary-events", "visemes"] },
     ];
 
     // Set the default sample rate for PCM format to match the Python implementation
     // The Python implementation uses wav.setparams((1, 2, 16000, 0, "NONE", "NONE"))
     this.sampleRate = 16000; // Default sample rate for Polly PCM format
+    this.maxTextLength = 3000; // SynthesizeSpeech limit for billed characters
 
     // Support both Node and Browser. In browsers, prefer short-lived credentials or an injected PollyClient.
     try {
@@ -244,7 +327,7 @@ export class PollyTTSClient extends AbstractTTSClient {
    */
   private async prepareSSML(text: string, options?: SpeakOptions): Promise<string> {
     // Get the voice ID from options or the current voice
-    const voiceId = options?.voice || this.voiceId || "";
+    const voiceId = this.resolveVoiceId(options?.voice) || "";
 
     // If rawSSML is enabled, skip Speech Markdown conversion and validation
     if (options?.rawSSML) {
@@ -275,45 +358,38 @@ export class PollyTTSClient extends AbstractTTSClient {
     }
     if (!validation.isValid) {
       console.error("Polly SSML validation errors:", validation.errors);
-      throw new Error(`Invalid SSML for Polly: ${validation.errors.join(", ")}`);
+      throw new TTSError(`Invalid SSML for Polly: ${validation.errors.join(", ")}`, {
+        provider: "polly",
+      });
     }
 
     // Process SSML for Polly compatibility (removes unsupported tags based on voice type)
-    text = SSMLUtils.processSSMLForEngine(text, "polly", voiceId);
+    text = SSMLUtils.processSSMLForEngine(text, "polly", voiceId, this.lang);
 
     // Get SSML support level for additional processing
     const ssmlSupport = await this.getSSMLSupportLevel(voiceId);
 
     // Fix common SSML issues for Polly (for voices that support SSML)
     if (ssmlSupport === "full") {
-      // 1. Make sure the speak tag has the correct xmlns attribute
-      // Polly requires the xmlns attribute to be present
-      if (!text.includes('xmlns="http://www.w3.org/2001/10/synthesis"')) {
-        text = text.replace(/<speak>/i, '<speak xmlns="http://www.w3.org/2001/10/synthesis">');
-      }
-
-      // 2. Fix any self-closing tags that Polly doesn't support
-      text = text.replace(/<break\s+([^>]+)\/>/gi, "<break $1></break>");
-
-      // 3. Apply prosody settings if needed
-      if (
-        this.properties.rate !== "medium" ||
-        this.properties.pitch !== "medium" ||
-        this.properties.volume !== 100
-      ) {
-        // Extract the content inside the speak tags
-        const speakTagMatch = /<speak[^>]*>(.*?)<\/speak>/s.exec(text);
-        if (speakTagMatch && speakTagMatch[1]) {
-          const content = speakTagMatch[1];
-
-          // Wrap with prosody tag
-          const prosodyContent = this.constructProsodyTag(content);
-
-          // Put back inside speak tags with the original attributes
-          const openingTag = text.substring(0, text.indexOf(">") + 1);
-          text = `${openingTag}${prosodyContent}</speak>`;
+      const nodes = parseSSML(text, { recover: true });
+      const speak = findSSMLElement(nodes, "speak");
+      if (speak) {
+        // 1. Polly requires the xmlns attribute to be present
+        speak.attributes.xmlns ??= "http://www.w3.org/2001/10/synthesis";
+
+        // 2. Wrap the content in a prosody tag if needed
+        if (
+          this.properties.rate !== "medium" ||
+          this.properties.pitch !== "medium" ||
+          this.properties.volume !== 100
+        ) {
+          const prosodyContent = this.constructProsodyTag(serializeSSML(speak.children));
+          speak.children = parseSSML(prosodyContent, { recover: true });
         }
       }
+
+      // 3. Polly doesn't support self-closing tags
+      text = serializeSSML(nodes, { selfClosing: false });
     }
 
     return text;
@@ -325,7 +401,7 @@ export class PollyTTSClient extends AbstractTTSClient {
    * @param options Synthesis options
    * @returns Promise resolving to audio bytes
    */
-  async synthToBytes(text: string, options?: PollyTTSOptions): Promise<Uint8Array> {
+  protected async _synthToBytes(text: string, options?: PollyTTSOptions): Promise<Uint8Array> {
     try {
       const pollyModule =
         this._pollyModule ||
@@ -358,7 +434,7 @@ export class PollyTTSClient extends AbstractTTSClient {
 
       // Get the voice ID
       const VoiceIdType = VoiceId; // Get the RUNTIME VoiceId enum/object
-      const voiceIdString = options?.voice || this.voiceId || "Joanna";
+      const voiceIdString = this.resolveVoiceId(options?.voice) || "Joanna";
       const voiceId = voiceIdString as unknown as typeof VoiceIdType; // Cast using the runtime type
 
       // Prepare text or SSML
@@ -381,6 +457,7 @@ export class PollyTTSClient extends AbstractTTSClient {
         OutputFormat: outputFormat,
         VoiceId: voiceId,
         Engine: engine, // Use appropriate engine based on voice capabilities
+        LexiconNames: await this.getLexiconNames(options),
         // Set sample rate based on format
         // For PCM, always use 16000 Hz to match the Python implementation
         // For MP3 and OGG, use 24000 Hz for better quality
@@ -394,11 +471,14 @@ export class PollyTTSClient extends AbstractTTSClient {
       const command = new SynthesizeSpeechCommand(input);
 
       // Execute the command
-      const response = await this.client.send(command);
+      const response = await this.client.send(command, { abortSignal: options?.signal });
 
       // Get audio data
       if (!response.AudioStream) {
-        throw new Error("No audio data returned from AWS Polly");
+        throw new TTSError("No audio data returned from AWS Polly", {
+          provider: "polly",
+          voiceId: voiceIdString,
+        });
       }
 
       // Convert audio stream to Uint8Array
@@ -419,23 +499,28 @@ export class PollyTTSClient extends AbstractTTSClient {
       return audioData;
     } catch (error) {
       console.error("Error synthesizing speech:", error);
-      throw error;
+      throw this.toPollyError(error, this.resolveVoiceId(options?.voice));
     }
   }
 
   /**
-   * Synthesize text to a byte stream with word boundaries
+   * Synthesize text to a byte stream with word boundaries.
+   * Timings come from a separate speech marks request for words, sentences, SSML `<mark>`
+   * elements and visemes.
    * @param text Text or SSML to synthesize
    * @param options Synthesis options
-   * @returns Promise resolving to an object containing the audio stream and word boundaries
+   * @returns Promise resolving to an object containing the audio stream, word boundaries,
+   *          sentences, SSML marks and visemes
    */
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options?: PollyTTSOptions
-  ): Promise<{
-    audioStream: ReadableStream<Uint8Array>;
-    wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
-  }> {
+  ): Promise<
+    {
+      audioStream: ReadableStream<Uint8Array>;
+      wordBoundaries: WordBoundary[];
+    } & SpeechMarks
+  > {
     try {
       const pollyModule =
         this._pollyModule ||
@@ -459,7 +544,7 @@ export class PollyTTSClient extends AbstractTTSClient {
         SpeechMarkType,
       } = pollyModule;
       const VoiceIdType = VoiceId; // Get the RUNTIME VoiceId enum/object
-      const voiceIdString = options?.voice || this.voiceId || "Joanna";
+      const voiceIdString = this.resolveVoiceId(options?.voice) || "Joanna";
       const voiceId = voiceIdString as unknown as typeof VoiceIdType; // Cast via unknown
 
       // Prepare text or SSML
@@ -475,7 +560,9 @@ export class PollyTTSClient extends AbstractTTSClient {
       const { Engine } = pollyModule;
       const engine = Engine[engineString as keyof typeof Engine] || Engine.standard;
 
-      const wordBoundaries: Array<{ text: string; offset: number; duration: number }> = [];
+      const lexiconNames = await this.getLexiconNames(options);
+
+      let speechMarks: ReturnType<typeof parseSpeechMarks> = { wordBoundaries: [] };
 
       // Request Speech Marks (JSON)
       try {
@@ -483,31 +570,24 @@ export class PollyTTSClient extends AbstractTTSClient {
           Text: preparedText,
           VoiceId: voiceId,
           OutputFormat: "json",
-          SpeechMarkTypes: [SpeechMarkType.WORD],
+          SpeechMarkTypes: [
+            SpeechMarkType.WORD,
+            SpeechMarkType.SENTENCE,
+            SpeechMarkType.SSML,
+            SpeechMarkType.VISEME,
+          ],
           TextType: textType,
           Engine: engine,
+          LexiconNames: lexiconNames,
         };
         const marksCommand = new SynthesizeSpeechCommand(marksParams);
-        const marksResponse: SynthesizeSpeechCommandOutput = await this.client.send(marksCommand);
+        const marksResponse: SynthesizeSpeechCommandOutput = await this.client.send(marksCommand, {
+          abortSignal: options?.signal,
+        });
 
         if (marksResponse.AudioStream) {
           const streamData = await streamToBuffer(marksResponse.AudioStream as any); // Use correct util
-          const marksJsonString = new TextDecoder().decode(streamData); // Decode Buffer/Uint8Array
-          const jsonLines = marksJsonString.trim().split("\n");
-          for (const line of jsonLines) {
-            try {
-              const mark = JSON.parse(line);
-              if (mark.type === "word") {
-                wordBoundaries.push({
-                  text: mark.value,
-                  offset: mark.time, // Use Polly's time (ms) as offset
-                  duration: 0, // Polly doesn't provide duration for word marks
-                });
-              }
-            } catch (parseError) {
-              console.warn(`Skipping invalid JSON line in speech marks: ${line}`, parseError);
-            }
-          }
+          speechMarks = parseSpeechMarks(new TextDecoder().decode(streamData));
         } else {
           console.warn("No AudioStream received from Polly for speech marks");
         }
@@ -536,6 +616,7 @@ export class PollyTTSClient extends AbstractTTSClient {
         OutputFormat: outputFormat,
         TextType: textType,
         Engine: engine,
+        LexiconNames: lexiconNames,
         // Set sample rate based on format
         // For PCM, always use 16000 Hz to match the Python implementation
         // For MP3 and OGG, use 24000 Hz for better quality
@@ -547,10 +628,15 @@ export class PollyTTSClient extends AbstractTTSClient {
 
       try {
         const audioCommand = new SynthesizeSpeechCommand(audioParams);
-        const audioResponse: SynthesizeSpeechCommandOutput = await this.client.send(audioCommand);
+        const audioResponse: SynthesizeSpeechCommandOutput = await this.client.send(audioCommand, {
+          abortSignal: options?.signal,
+        });
 
         if (!audioResponse.AudioStream) {
-          throw new Error("No AudioStream received from Polly for audio data");
+          throw new TTSError("No AudioStream received from Polly for audio data", {
+            provider: "polly",
+            voiceId: voiceIdString,
+          });
         }
 
         // Get the audio stream
@@ -586,12 +672,12 @@ export class PollyTTSClient extends AbstractTTSClient {
 
         // Return combined result
         return {
-          audioStream: audioStream,
-          wordBoundaries: wordBoundaries,
+          ...speechMarks,
+          audioStream: abortableStream(audioStream, options?.signal),
         };
       } catch (error) {
         console.error("Error synthesizing audio stream from Polly:", error);
-        throw error; // Re-throw the audio synthesis error
+        throw this.toPollyError(error, voiceIdString); // Re-throw the audio synthesis error
       }
     } catch (error) {
       console.error("Error initializing Polly client:", error);
@@ -600,30 +686,31 @@ export class PollyTTSClient extends AbstractTTSClient {
   }
 
   /**
-   * Strip SSML tags from text
-   * @param text Text with SSML tags
-   * @returns Plain text without SSML tags
+   * Convert an AWS SDK error into a typed TTS error
+   * Polly reports throttling as HTTP 400, so the exception name is checked first.
+   * @param error Error thrown by the Polly client
+   * @param voiceId Voice used for the request
+   * @returns Typed TTS error, or the original error when it cannot be classified
    */
-  protected _stripSSML(text: string): string {
-    // If text is not SSML, return as is
-    if (!this._isSSML(text)) {
-      return text;
+  private toPollyError(error: unknown, voiceId?: string | null): unknown {
+    const name = (error as { name?: string } | null)?.name;
+    if (name === "ThrottlingException" || name === "TooManyRequestsException") {
+      return new TTSRateLimitError((error as Error).message, {
+        provider: "polly",
+        statusCode: (error as any).$metadata?.httpStatusCode,
+        voiceId,
+        cause: error,
+      });
     }
-
-    // Remove all XML tags
-    let plainText = text.replace(/<[^>]+>/g, "");
-
-    // Decode XML entities
-    plainText = plainText.replace(/&lt;/g, "<");
-    plainText = plainText.replace(/&gt;/g, ">");
-    plainText = plainText.replace(/&amp;/g, "&");
-    plainText = plainText.replace(/&quot;/g, '"');
-    plainText = plainText.replace(/&apos;/g, "'");
-
-    // Remove extra whitespace
-    plainText = plainText.replace(/\s+/g, " ").trim();
-
-    return plainText;
+    if (name === "UnrecognizedClientException" || name === "InvalidSignatureException") {
+      return new TTSAuthError((error as Error).message, {
+        provider: "polly",
+        statusCode: (error as any).$metadata?.httpStatusCode,
+        voiceId,
+        cause: error,
+      });
+    }
+    return toTTSError(error, { provider: "polly", voiceId });
   }
 
   /**
@@ -725,6 +812,68 @@ export class PollyTTSClient extends AbstractTTSClient {
     return wavData;
   }
 
+  /**
+   * Upload the lexicon with PutLexicon, once per lexicon content, so Polly applies it itself.
+   * When the upload fails the text is rewritten with the lexicon instead.
+   * @param lexicon Lexicon to upload
+   * @returns True when the lexicon is stored in Polly
+   */
+  protected async _prepareNativeLexicon(lexicon: Lexicon): Promise<boolean> {
+    const pls = lexicon.toPLS();
+    if (this.lexiconUpload?.pls !== pls) {
+      const name = lexicon.name;
+      this.lexiconUpload = { pls, name, uploaded: this.putLexicon(name, pls) };
+    }
+    return this.lexiconUpload.uploaded;
+  }
+
+  /**
+   * Store a lexicon in Polly
+   * @param name Lexicon name
+   * @param pls PLS document
+   * @returns True when the lexicon was stored
+   */
+  private async putLexicon(name: string, pls: string): Promise<boolean> {
+    try {
+      const pollyModule =
+        this._pollyModule ||
+        (await (new Function("m", "return import(m)") as any)("@aws-sdk/client-polly"));
+      if (!this.client) {
+        const PollyClient = pollyModule.PollyClient;
+        this.client = new PollyClient({
+          region: this.credentials.region,
+          credentials: {
+            accessKeyId: this.credentials.accessKeyId,
+            secretAccessKey: this.credentials.secretAccessKey,
+          },
+        });
+        this._pollyModule = pollyModule;
+      }
+      const PutLexiconCommand = pollyModule.PutLexiconCommand;
+      await this.client.send(new PutLexiconCommand({ Name: name, Content: pls }));
+      return true;
+    } catch (error) {
+      console.warn(
+        "Could not upload lexicon to AWS Polly, applying it to the text instead:",
+        error
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Get the names of the uploaded lexicons to apply to a request
+   * @param options Synthesis options
+   * @returns Lexicon names, or undefined when no lexicon is uploaded
+   */
+  private async getLexiconNames(options?: PollyTTSOptions): Promise<string[] | undefined> {
+    const upload = this.lexiconUpload;
+    if (!this.lexicon || options?.rawSSML || !upload || upload.pls !== this.lexicon.toPLS()) {
+      return undefined;
+    }
+    return (await upload.uploaded) ? [upload.name] : undefined;
+  }
+
   /**
    * Get the list of required credential types for this engine
    * @returns Array of required credential field names
@@ -775,3 +924,10 @@ export class PollyTTSClient extends AbstractTTSClient {
     }
   }
 }
+
+registerEngine("polly", {
+  create: (credentials: PollyTTSCredentials) => new PollyTTSClient(credentials),
+  credentialsSchema: { required: ["region", "accessKeyId", "secretAccessKey"] },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
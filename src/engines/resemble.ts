@@ -1,13 +1,14 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { createHttpError, throwIfHttpError } from "../core/errors";
 import * as SSMLUtils from "../core/ssml-utils";
 import * as SpeechMarkdown from "../markdown/converter";
-import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
+import type { CloneVoiceOptions, SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
+import { abortableStream } from "../utils/abort-utils";
+import { loadVoiceSamples } from "../utils/audio-input";
 import { base64ToUint8Array } from "../utils/base64-utils";
-import { getFetch } from "../utils/fetch-utils";
 import { toIso639_3, toLanguageDisplay } from "../utils/language-utils";
 
-const fetch = getFetch();
-
 export interface ResembleTTSOptions extends SpeakOptions {
   voice?: string;
   providerOptions?: Record<string, unknown>;
@@ -21,6 +22,8 @@ export interface ResembleTTSCredentials extends TTSCredentials {
 }
 
 export class ResembleTTSClient extends AbstractTTSClient {
+  readonly engineName = "resemble";
+
   private apiKey: string;
   private baseUrl: string;
 
@@ -30,7 +33,10 @@ export class ResembleTTSClient extends AbstractTTSClient {
     this.baseUrl = credentials.baseURL || "https://f.cluster.resemble.ai";
     this.voiceId = "";
     this._models = [
-      { id: "default", features: ["streaming", "inline-voice-cloning", "open-source"] },
+      {
+        id: "default",
+        features: ["streaming", "inline-voice-cloning", "voice-cloning", "open-source"],
+      },
     ];
     this.sampleRate = 22050;
 
@@ -67,20 +73,21 @@ export class ResembleTTSClient extends AbstractTTSClient {
 
     if (options?.useSpeechMarkdown && SpeechMarkdown.isSpeechMarkdown(processedText)) {
       const ssml = await SpeechMarkdown.toSSML(processedText, "w3c");
-      processedText = SSMLUtils.stripSSML(ssml);
+      processedText = SSMLUtils.processSSMLForEngine(ssml, "resemble", undefined, this.lang);
     }
 
     if (SSMLUtils.isSSML(processedText)) {
-      processedText = SSMLUtils.stripSSML(processedText);
+      processedText = SSMLUtils.processSSMLForEngine(
+        processedText,
+        "resemble",
+        undefined,
+        this.lang
+      );
     }
 
     return processedText;
   }
 
-  setVoice(voiceId: string): void {
-    this.voiceId = voiceId;
-  }
-
   getProperty(property: string): any {
     switch (property) {
       case "voice":
@@ -104,7 +111,7 @@ export class ResembleTTSClient extends AbstractTTSClient {
   async checkCredentials(): Promise<boolean> {
     if (!this.apiKey) return false;
     try {
-      const response = await fetch(`${this.baseUrl}/v2/voices`, {
+      const response = await this.fetchWithRetry(`${this.baseUrl}/v2/voices`, {
         method: "GET",
         headers: {
           Authorization: this.apiKey,
@@ -122,7 +129,7 @@ export class ResembleTTSClient extends AbstractTTSClient {
 
   protected async _getVoices(): Promise<any[]> {
     try {
-      const response = await fetch(`${this.baseUrl}/v2/voices`, {
+      const response = await this.fetchWithRetry(`${this.baseUrl}/v2/voices`, {
         method: "GET",
         headers: {
           Authorization: this.apiKey,
@@ -152,9 +159,117 @@ export class ResembleTTSClient extends AbstractTTSClient {
     }));
   }
 
-  async synthToBytes(text: string, options: ResembleTTSOptions = {}): Promise<Uint8Array> {
+  /**
+   * Create a rapid voice clone: the voice is created, the samples are uploaded as its
+   * recordings, and the voice is built
+   * @param options Name, samples, description and language of the voice
+   * @returns Promise resolving to the new voice (usable once Resemble has finished building it)
+   */
+  async createClonedVoice(options: CloneVoiceOptions): Promise<UnifiedVoice> {
+    const samples = await loadVoiceSamples(options.samples);
+
+    const createResponse = await this.fetchOnce(`${this.baseUrl}/v2/voices`, {
+      method: "POST",
+      headers: { Authorization: this.apiKey, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: options.name,
+        voice_type: "rapid",
+        ...(options.description && { description: options.description }),
+        ...(options.language && { language: options.language }),
+      }),
+    });
+    await throwIfHttpError(createResponse, "Failed to create cloned voice", {
+      provider: "resemble",
+    });
+    const created = await createResponse.json();
+    const voice = created.item ?? created;
+    const voiceId: string = voice.uuid;
+
+    try {
+      for (const [index, { blob, filename }] of samples.entries()) {
+        const form = new FormData();
+        form.append("file", blob, filename);
+        form.append("name", `${options.name} ${index + 1}`);
+        form.append("emotion", "neutral");
+        form.append("is_active", "true");
+        const response = await this.fetchOnce(
+          `${this.baseUrl}/v2/voices/${encodeURIComponent(voiceId)}/recordings`,
+          {
+            method: "POST",
+            headers: { Authorization: this.apiKey },
+            body: form,
+          }
+        );
+        await throwIfHttpError(response, "Failed to upload voice sample", {
+          provider: "resemble",
+          voiceId,
+        });
+      }
+
+      const buildResponse = await this.fetchOnce(
+        `${this.baseUrl}/v2/voices/${encodeURIComponent(voiceId)}/build`,
+        {
+          method: "POST",
+          headers: { Authorization: this.apiKey },
+        }
+      );
+      await throwIfHttpError(buildResponse, "Failed to build cloned voice", {
+        provider: "resemble",
+        voiceId,
+      });
+    } catch (error) {
+      // Don't leave a half-made voice in the account
+      await this.deleteClonedVoice(voiceId).catch((deleteError) => {
+        console.warn(`Could not delete incomplete Resemble voice ${voiceId}:`, deleteError);
+      });
+      throw error;
+    }
+
+    const [unified] = await this._mapVoicesToUnified([
+      { language: options.language, ...voice, name: voice.name ?? options.name },
+    ]);
+    return unified;
+  }
+
+  /**
+   * Get the voices of the account
+   * @returns Promise resolving to the cloned voices
+   */
+  async listClonedVoices(): Promise<UnifiedVoice[]> {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/v2/voices`, {
+      method: "GET",
+      headers: { Authorization: this.apiKey },
+    });
+    await throwIfHttpError(response, "Failed to list cloned voices", { provider: "resemble" });
+
+    const data = await response.json();
+    return this._mapVoicesToUnified(Array.isArray(data) ? data : (data.items ?? []));
+  }
+
+  /**
+   * Delete a voice of the account
+   * @param voiceId UUID of the voice
+   */
+  async deleteClonedVoice(voiceId: string): Promise<void> {
+    const response = await this.fetchWithRetry(
+      `${this.baseUrl}/v2/voices/${encodeURIComponent(voiceId)}`,
+      {
+        method: "DELETE",
+        headers: { Authorization: this.apiKey },
+      }
+    );
+    await throwIfHttpError(response, "Failed to delete cloned voice", {
+      provider: "resemble",
+      voiceId,
+    });
+  }
+
+  protected async _synthToBytes(
+    text: string,
+    options: ResembleTTSOptions = {}
+  ): Promise<Uint8Array> {
     const preparedText = await this.prepareText(text, options);
-    const voiceId = options.voice || this.voiceId;
+    const voiceId = this.resolveVoiceId(options.voice);
 
     const body: Record<string, unknown> = {
       ...options.providerOptions,
@@ -162,19 +277,27 @@ export class ResembleTTSClient extends AbstractTTSClient {
       data: preparedText,
     };
 
-    const response = await fetch(`${this.baseUrl}/synthesize`, {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/synthesize`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         Authorization: this.apiKey,
       },
       body: JSON.stringify(body),
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(
-        `Resemble API error: ${response.status} ${response.statusText} - ${errorText}`
+      throw createHttpError(
+        `Resemble API error: ${response.status} ${response.statusText} - ${errorText}`,
+        {
+          provider: "resemble",
+          statusCode: response.status,
+          voiceId,
+          responseBody: errorText,
+        },
+        response.headers
       );
     }
 
@@ -185,7 +308,7 @@ export class ResembleTTSClient extends AbstractTTSClient {
     return bytes;
   }
 
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options: ResembleTTSOptions = {}
   ): Promise<{
@@ -193,7 +316,7 @@ export class ResembleTTSClient extends AbstractTTSClient {
     wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
   }> {
     const preparedText = await this.prepareText(text, options);
-    const voiceId = options.voice || this.voiceId;
+    const voiceId = this.resolveVoiceId(options.voice);
 
     const body: Record<string, unknown> = {
       ...options.providerOptions,
@@ -201,33 +324,48 @@ export class ResembleTTSClient extends AbstractTTSClient {
       data: preparedText,
     };
 
-    const response = await fetch(`${this.baseUrl}/stream`, {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/stream`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         Authorization: this.apiKey,
       },
       body: JSON.stringify(body),
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(
-        `Resemble API error: ${response.status} ${response.statusText} - ${errorText}`
+      throw createHttpError(
+        `Resemble API error: ${response.status} ${response.statusText} - ${errorText}`,
+        {
+          provider: "resemble",
+          statusCode: response.status,
+          voiceId,
+          responseBody: errorText,
+        },
+        response.headers
       );
     }
 
     if (!response.body) {
-      const bytes = await this.synthToBytes(text, options);
+      const bytes = await this._synthToBytes(text, options);
       const readableStream = new ReadableStream({
         start(controller) {
           controller.enqueue(bytes);
           controller.close();
         },
       });
-      return { audioStream: readableStream, wordBoundaries: [] };
+      return { audioStream: abortableStream(readableStream, options.signal), wordBoundaries: [] };
     }
 
-    return { audioStream: response.body, wordBoundaries: [] };
+    return { audioStream: abortableStream(response.body, options.signal), wordBoundaries: [] };
   }
 }
+
+registerEngine("resemble", {
+  create: (credentials: ResembleTTSCredentials) => new ResembleTTSClient(credentials),
+  credentialsSchema: { required: ["apiKey"], optional: ["baseURL"] },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
@@ -3,8 +3,11 @@ import { existsSync, readFileSync, unlinkSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { TTSError, TTSUnsupportedFeatureError } from "../core/errors";
 import * as SpeechMarkdown from "../markdown/converter";
 import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
+import { abortableStream, raceWithAbort } from "../utils/abort-utils";
 
 /**
  * SAPI TTS Client Credentials
@@ -37,6 +40,8 @@ interface SAPIVoiceInfo {
  * - Rate, pitch, and volume controls
  */
 export class SAPITTSClient extends AbstractTTSClient {
+  readonly engineName = "sapi";
+
   private static readonly TEMP_PREFIX = "sapi_tts_";
 
   constructor(credentials: SAPITTSCredentials = {}) {
@@ -57,13 +62,17 @@ export class SAPITTSClient extends AbstractTTSClient {
   private validateEnvironment(): void {
     // Check if we're in a Node.js environment
     if (typeof process === "undefined" || !process.versions || !process.versions.node) {
-      throw new Error("SAPITTSClient is only supported in Node.js environments");
+      throw new TTSUnsupportedFeatureError(
+        "SAPITTSClient is only supported in Node.js environments",
+        { provider: "sapi" }
+      );
     }
 
     // Check if we're on Windows
     if (process.platform !== "win32") {
-      throw new Error(
-        `SAPITTSClient is only supported on Windows. Current platform: ${process.platform}`
+      throw new TTSUnsupportedFeatureError(
+        `SAPITTSClient is only supported on Windows. Current platform: ${process.platform}`,
+        { provider: "sapi" }
       );
     }
   }
@@ -174,9 +183,10 @@ export class SAPITTSClient extends AbstractTTSClient {
   /**
    * Run a PowerShell script and return the output
    */
-  private async runPowerShellScript(script: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const powershell = spawn("powershell.exe", [
+  private async runPowerShellScript(script: string, signal?: AbortSignal): Promise<string> {
+    let powershell: ReturnType<typeof spawn> | undefined;
+    const run = new Promise<string>((resolve, reject) => {
+      powershell = spawn("powershell.exe", [
         "-NoProfile",
         "-NonInteractive",
         "-ExecutionPolicy",
@@ -188,11 +198,11 @@ export class SAPITTSClient extends AbstractTTSClient {
       let stdout = "";
       let stderr = "";
 
-      powershell.stdout.on("data", (data) => {
+      powershell.stdout?.on("data", (data) => {
         stdout += data.toString();
       });
 
-      powershell.stderr.on("data", (data) => {
+      powershell.stderr?.on("data", (data) => {
         stderr += data.toString();
       });
 
@@ -208,6 +218,9 @@ export class SAPITTSClient extends AbstractTTSClient {
         reject(new Error(`Failed to start PowerShell: ${error.message}`));
       });
     });
+
+    // Kill the PowerShell process if the caller aborts
+    return raceWithAbort(run, signal, () => powershell?.kill());
   }
 
   /**
@@ -289,13 +302,13 @@ export class SAPITTSClient extends AbstractTTSClient {
   /**
    * Synthesize text to audio bytes using SAPI
    */
-  async synthToBytes(text: string, options?: SpeakOptions): Promise<Uint8Array> {
+  protected async _synthToBytes(text: string, options?: SpeakOptions): Promise<Uint8Array> {
     try {
       // Create a temporary filename for the audio export
       const tempFilename = join(tmpdir(), `${SAPITTSClient.TEMP_PREFIX}${Date.now()}.wav`);
 
       // Prepare synthesis options
-      const voice = options?.voice || this.voiceId || null;
+      const voice = this.resolveVoiceId(options?.voice) || null;
       const rate = this.convertRate(options?.rate);
       const volume = this.convertVolume(options?.volume);
 
@@ -370,15 +383,21 @@ export class SAPITTSClient extends AbstractTTSClient {
       `;
 
       // Execute PowerShell script
-      const result = await this.runPowerShellScript(`$text = "${escapedText}"; ${script}`);
+      const result = await this.runPowerShellScript(
+        `$text = "${escapedText}"; ${script}`,
+        options?.signal
+      );
 
       if (!result.includes("SUCCESS")) {
-        throw new Error("SAPI synthesis failed");
+        throw new TTSError("SAPI synthesis failed", { provider: "sapi", voiceId: voice });
       }
 
       // Read the generated WAV file
       if (!existsSync(tempFilename)) {
-        throw new Error("SAPI failed to generate audio file");
+        throw new TTSError("SAPI failed to generate audio file", {
+          provider: "sapi",
+          voiceId: voice,
+        });
       }
 
       const audioBuffer = readFileSync(tempFilename);
@@ -392,7 +411,7 @@ export class SAPITTSClient extends AbstractTTSClient {
 
       // Create estimated word timings (SAPI doesn't provide real-time events in this mode)
       this._createEstimatedWordTimings(
-        isSSMLProcessed ? this.stripSSML(processedText) : processedText
+        isSSMLProcessed ? this._stripSSML(processedText) : processedText
       );
 
       return new Uint8Array(audioBuffer);
@@ -405,7 +424,7 @@ export class SAPITTSClient extends AbstractTTSClient {
   /**
    * Synthesize text to a byte stream with word boundaries
    */
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options?: SpeakOptions
   ): Promise<{
@@ -414,7 +433,7 @@ export class SAPITTSClient extends AbstractTTSClient {
   }> {
     try {
       // Get the audio bytes first
-      const audioBytes = await this.synthToBytes(text, options);
+      const audioBytes = await this._synthToBytes(text, options);
 
       // For now, use estimated word boundaries
       // TODO: Implement real-time word boundary events using SAPI events
@@ -434,7 +453,9 @@ export class SAPITTSClient extends AbstractTTSClient {
         // Wrap plain text in SSML tags to enable consistent SSML processing
         processedText = this.ensureProperSSML(`<speak>${processedText}</speak>`);
       }
-      const plainText = this._isSSML(processedText) ? this.stripSSML(processedText) : processedText;
+      const plainText = this._isSSML(processedText)
+        ? this._stripSSML(processedText)
+        : processedText;
       const words = plainText.split(/\s+/).filter((word) => word.length > 0);
       const estimatedDuration = 0.3; // Estimated duration per word in seconds
       const wordBoundaries: Array<{ text: string; offset: number; duration: number }> = [];
@@ -460,7 +481,7 @@ export class SAPITTSClient extends AbstractTTSClient {
       });
 
       return {
-        audioStream,
+        audioStream: abortableStream(audioStream, options?.signal),
         wordBoundaries,
       };
     } catch (error) {
@@ -554,16 +575,6 @@ export class SAPITTSClient extends AbstractTTSClient {
     return str.replace(/\\/g, "\\\\").replace(/"/g, '""').replace(/`/g, "``").replace(/\$/g, "`$");
   }
 
-  /**
-   * Strip SSML tags from text (fallback for plain text processing)
-   * @param text Text with SSML tags
-   * @returns Plain text without SSML tags
-   */
-  private stripSSML(text: string): string {
-    // Simple SSML tag removal - SAPI handles SSML natively, but this is for word timing estimation
-    return text.replace(/<[^>]*>/g, "").trim();
-  }
-
   /**
    * Ensure SSML has proper format for SAPI
    * @param text SSML text
@@ -603,3 +614,10 @@ export class SAPITTSClient extends AbstractTTSClient {
     return text;
   }
 }
+
+registerEngine("sapi", {
+  create: (credentials: SAPITTSCredentials) => new SAPITTSClient(credentials),
+  credentialsSchema: { required: [] },
+  capabilities: { browserSupported: false, nodeSupported: true },
+  browser: false,
+});
@@ -9,9 +9,19 @@
  */
 
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { createHttpError, TTSInvalidVoiceError, TTSUnsupportedFeatureError } from "../core/errors";
 import * as SSMLUtils from "../core/ssml-utils";
 import * as SpeechMarkdown from "../markdown/converter";
-import type { SpeakOptions, TTSCredentials, UnifiedVoice, WordBoundaryCallback } from "../types";
+import type {
+  SpeakOptions,
+  TTSCredentials,
+  UnifiedVoice,
+  Viseme,
+  VoiceInput,
+  WordBoundaryCallback,
+} from "../types";
+import { abortableStream, throwIfAborted } from "../utils/abort-utils";
 import { decompressBzip2 } from "../utils/bzip2";
 import { fileSystem, isBrowser, isNode, pathUtils } from "../utils/environment";
 import { estimateWordBoundaries } from "../utils/word-timing-estimator";
@@ -144,6 +154,8 @@ export interface SherpaOnnxWasmTTSOptions extends SpeakOptions {
  * Maintains full backward compatibility with existing API.
  */
 export class SherpaOnnxWasmTTSClient extends AbstractTTSClient {
+  readonly engineName = "sherpaonnx-wasm";
+
   private wasmModule: SherpaOnnxWasmModule | null = null;
   private tts: any = null;
   private wasmPath = "";
@@ -167,7 +179,7 @@ export class SherpaOnnxWasmTTSClient extends AbstractTTSClient {
   constructor(credentials: TTSCredentials = {}, enhancedOptions: EnhancedWasmOptions = {}) {
     super(credentials);
 
-    this._models = [{ id: "sherpaonnx-wasm", features: ["open-source"] }];
+    this._models = [{ id: "sherpaonnx-wasm", features: ["open-source", "visemes"] }];
 
     // Capabilities: Browser-only engine, requires WASM runtime
     this.capabilities = { browserSupported: true, nodeSupported: false, needsWasm: true };
@@ -567,7 +579,7 @@ export class SherpaOnnxWasmTTSClient extends AbstractTTSClient {
    * @param options Options for synthesis
    * @returns Promise resolving to a byte array of audio data
    */
-  async synthToBytes(text: string, _options?: SpeakOptions): Promise<Uint8Array> {
+  protected async _synthToBytes(text: string, _options?: SpeakOptions): Promise<Uint8Array> {
     // Prepare text for synthesis (handle Speech Markdown and SSML)
     let processedText = text;
 
@@ -576,12 +588,17 @@ export class SherpaOnnxWasmTTSClient extends AbstractTTSClient {
       // Convert to SSML first, then strip SSML tags since SherpaOnnx doesn't support SSML
       // Use "w3c" platform for generic SSML (will be stripped anyway)
       const ssml = await SpeechMarkdown.toSSML(processedText, "w3c");
-      processedText = SSMLUtils.stripSSML(ssml);
+      processedText = SSMLUtils.processSSMLForEngine(ssml, "sherpaonnx-wasm", undefined, this.lang);
     }
 
-    // If text is SSML, strip the tags as SherpaOnnx doesn't support SSML
+    // If text is SSML, convert it to plain text as SherpaOnnx doesn't support SSML
     if (SSMLUtils.isSSML(processedText)) {
-      processedText = SSMLUtils.stripSSML(processedText);
+      processedText = SSMLUtils.processSSMLForEngine(
+        processedText,
+        "sherpaonnx-wasm",
+        undefined,
+        this.lang
+      );
     }
 
     console.log("synthToBytes called with text:", processedText);
@@ -1096,7 +1113,7 @@ export class SherpaOnnxWasmTTSClient extends AbstractTTSClient {
         for (const boundary of wordBoundaries) {
           setTimeout(() => {
             onWord(boundary.word, boundary.start, boundary.end);
-          }, boundary.start * 1000);
+          }, boundary.start);
         }
       }
 
@@ -1259,11 +1276,16 @@ export class SherpaOnnxWasmTTSClient extends AbstractTTSClient {
   /**
    * Set the voice to use for synthesis
    * Enhanced with multi-model support while maintaining backward compatibility
-   * @param voiceId Voice ID to use
+   * @param voice Voice ID to use. Reference audio is rejected, as in the Node engine: no model in
+   * the catalog does zero-shot cloning.
    */
-  async setVoice(voiceId: string): Promise<void> {
-    // Call the parent method to set the voiceId
-    super.setVoice(voiceId);
+  async setVoice(voice: VoiceInput): Promise<void> {
+    // Call the parent method to set the voiceId; it throws for reference audio
+    super.setVoice(voice);
+    if (typeof voice !== "string") {
+      return;
+    }
+    const voiceId = voice;
     console.log(`Setting voice to ${voiceId}`);
 
     // Enhanced multi-model support (loader-only runtime: fetch, extract, mount into /assets)
@@ -1286,7 +1308,10 @@ export class SherpaOnnxWasmTTSClient extends AbstractTTSClient {
       await this.modelRepository.loadModelsIndex();
       const cfg = this.modelRepository.getModelConfig(voiceId);
       if (!cfg || !cfg.url) {
-        throw new Error(`No URL found for model ${voiceId}`);
+        throw new TTSInvalidVoiceError(`No URL found for model ${voiceId}`, {
+          provider: "sherpaonnx-wasm",
+          voiceId,
+        });
       }
       this.currentVoiceConfig = cfg;
 
@@ -1368,7 +1393,12 @@ export class SherpaOnnxWasmTTSClient extends AbstractTTSClient {
         // Fetch archive
         console.log(`Fetching model archive: ${modelUrl}`);
         const res = await fetch(modelUrl);
-        if (!res.ok) throw new Error(`Failed to fetch model: ${res.status} ${res.statusText}`);
+        if (!res.ok) {
+          throw createHttpError(`Failed to fetch model: ${res.status} ${res.statusText}`, {
+            provider: "sherpaonnx-wasm",
+            statusCode: res.status,
+          });
+        }
         const archiveBuf = await res.arrayBuffer();
 
         // Decompress .bz2 if needed
@@ -1572,16 +1602,19 @@ export class SherpaOnnxWasmTTSClient extends AbstractTTSClient {
    * @param options Options for synthesis
    * @returns Promise resolving to an object containing the audio stream and an empty word boundaries array
    */
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options?: SpeakOptions
   ): Promise<{
     audioStream: ReadableStream<Uint8Array>;
     wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
+    visemes: Viseme[];
   }> {
     // This is a simplified implementation that doesn't actually stream
     // In a real implementation, you would use a ReadableStream
-    const audioBytes = await this.synthToBytes(text, options);
+    throwIfAborted(options?.signal);
+    const audioBytes = await this._synthToBytes(text, options);
+    throwIfAborted(options?.signal);
 
     // Generate word boundaries if requested
     let wordBoundaries: Array<{ text: string; offset: number; duration: number }> = [];
@@ -1591,22 +1624,21 @@ export class SherpaOnnxWasmTTSClient extends AbstractTTSClient {
       this._createEstimatedWordTimings(text);
 
       // Convert internal timings to word boundary format
-      wordBoundaries = this.timings.map(([start, end, word]) => ({
-        text: word,
-        offset: Math.round(start * 10000), // Convert to 100-nanosecond units
-        duration: Math.round((end - start) * 10000),
-      }));
+      wordBoundaries = this._getWordBoundariesFromTimings();
     }
 
     // Create a ReadableStream from the audio bytes
+    const audioStream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(audioBytes);
+        controller.close();
+      },
+    });
+
     return {
-      audioStream: new ReadableStream({
-        start(controller) {
-          controller.enqueue(audioBytes);
-          controller.close();
-        },
-      }),
+      audioStream: abortableStream(audioStream, options?.signal),
       wordBoundaries,
+      visemes: await this._estimateVisemes(text, wordBoundaries),
     };
   }
 }
@@ -1733,7 +1765,10 @@ class ModelRepository {
   async downloadModelFiles(modelId: string): Promise<ModelFiles> {
     const config = this.getModelConfig(modelId);
     if (!config) {
-      throw new Error(`Model ${modelId} not found in repository`);
+      throw new TTSInvalidVoiceError(`Model ${modelId} not found in repository`, {
+        provider: "sherpaonnx-wasm",
+        voiceId: modelId,
+      });
     }
 
     console.log(`Downloading model files for ${modelId}...`);
@@ -1847,7 +1882,10 @@ class WasmModelManager {
       switch (config.type) {
         case "kokoro":
           if (!this.wasmModule._LoadKokoroModel) {
-            throw new Error("Kokoro model loading not supported in this WASM build");
+            throw new TTSUnsupportedFeatureError(
+              "Kokoro model loading not supported in this WASM build",
+              { provider: "sherpaonnx-wasm" }
+            );
           }
           modelHandle = this.wasmModule._LoadKokoroModel(
             modelPtr,
@@ -1861,7 +1899,10 @@ class WasmModelManager {
 
         case "matcha":
           if (!this.wasmModule._LoadMatchaModel) {
-            throw new Error("Matcha model loading not supported in this WASM build");
+            throw new TTSUnsupportedFeatureError(
+              "Matcha model loading not supported in this WASM build",
+              { provider: "sherpaonnx-wasm" }
+            );
           }
           modelHandle = this.wasmModule._LoadMatchaModel(
             modelPtr,
@@ -1875,7 +1916,10 @@ class WasmModelManager {
 
         default:
           if (!this.wasmModule._LoadVitsModel) {
-            throw new Error("VITS model loading not supported in this WASM build");
+            throw new TTSUnsupportedFeatureError(
+              "VITS model loading not supported in this WASM build",
+              { provider: "sherpaonnx-wasm" }
+            );
           }
           modelHandle = this.wasmModule._LoadVitsModel(
             modelPtr,
@@ -1918,7 +1962,9 @@ class WasmModelManager {
     }
 
     if (!this.wasmModule._SwitchToModel) {
-      throw new Error("Model switching not supported in this WASM build");
+      throw new TTSUnsupportedFeatureError("Model switching not supported in this WASM build", {
+        provider: "sherpaonnx-wasm",
+      });
     }
 
     console.log(`Switching to model ${modelId} (handle: ${model.handle})`);
@@ -1988,3 +2034,10 @@ class WasmModelManager {
     this.loadedModels.clear();
   }
 }
+
+registerEngine("sherpaonnx-wasm", {
+  create: (credentials: TTSCredentials) => new SherpaOnnxWasmTTSClient(credentials),
+  credentialsSchema: { required: [] },
+  capabilities: { browserSupported: true, nodeSupported: false, needsWasm: true },
+  browser: true,
+});
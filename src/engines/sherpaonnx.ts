@@ -6,8 +6,12 @@ import * as path from "node:path";
 import decompress from "decompress";
 import decompressTarbz2 from "decompress-tarbz2";
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { createHttpError, TTSInvalidVoiceError } from "../core/errors";
+import * as SSMLUtils from "../core/ssml-utils";
 import * as SpeechMarkdown from "../markdown/converter";
-import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
+import type { SpeakOptions, TTSCredentials, UnifiedVoice, Viseme, VoiceInput } from "../types";
+import { abortableStream, throwIfAborted } from "../utils/abort-utils";
 
 // Capture native fetch at module level
 const nativeFetch = globalThis.fetch;
@@ -111,6 +115,8 @@ interface SherpaOnnxAudio {
  * SherpaOnnx TTS client
  */
 export class SherpaOnnxTTSClient extends AbstractTTSClient {
+  readonly engineName = "sherpaonnx";
+
   /**
    * Get comprehensive diagnostics for SherpaOnnx setup
    * @returns Detailed diagnostic information
@@ -163,7 +169,9 @@ export class SherpaOnnxTTSClient extends AbstractTTSClient {
   constructor(credentials: SherpaOnnxTTSCredentials) {
     super(credentials);
 
-    this._models = [{ id: "sherpaonnx", features: ["open-source", "word-boundary-events"] }];
+    this._models = [
+      { id: "sherpaonnx", features: ["open-source", "word-boundary-events", "visemes"] },
+    ];
 
     // Initialize instance variables with proper null/undefined checking
     this.modelPath = credentials?.modelPath || null;
@@ -243,7 +251,10 @@ export class SherpaOnnxTTSClient extends AbstractTTSClient {
       const response = await nativeFetch(url);
 
       if (!response.ok) {
-        throw new Error(`Failed to download file: ${response.statusText}`);
+        throw createHttpError(`Failed to download file: ${response.statusText}`, {
+          provider: "sherpaonnx",
+          statusCode: response.status,
+        });
       }
 
       // Add check before calling arrayBuffer
@@ -632,7 +643,10 @@ export class SherpaOnnxTTSClient extends AbstractTTSClient {
 
     // Get model URL from JSON config
     if (!(safeModelId in this.jsonModels)) {
-      throw new Error(`Model ID ${safeModelId} not found in configuration`);
+      throw new TTSInvalidVoiceError(`Model ID ${safeModelId} not found in configuration`, {
+        provider: "sherpaonnx",
+        voiceId: safeModelId,
+      });
     }
 
     const modelConfig = this.jsonModels[safeModelId];
@@ -1219,13 +1233,22 @@ export class SherpaOnnxTTSClient extends AbstractTTSClient {
 
   /**
    * Set the voice to use for synthesis
-   * @param voiceId Voice ID to use
+   * @param voice Voice ID to use. Reference audio is rejected: zero-shot models such as ZipVoice
+   * are not in the model catalog, so there is no engine to clone with.
    */
-  public async setVoice(voiceId: string): Promise<void> {
+  public async setVoice(voice: VoiceInput): Promise<void> {
+    if (typeof voice !== "string") {
+      super.setVoice(voice);
+      return;
+    }
+    const voiceId = voice;
     try {
       // Check if the voice exists in the configuration
       if (!(voiceId in this.jsonModels)) {
-        throw new Error(`Voice ID ${voiceId} not found in configuration`);
+        throw new TTSInvalidVoiceError(`Voice ID ${voiceId} not found in configuration`, {
+          provider: "sherpaonnx",
+          voiceId,
+        });
       }
 
       // Set the voice ID
@@ -1263,7 +1286,7 @@ export class SherpaOnnxTTSClient extends AbstractTTSClient {
    * @param options Synthesis options
    * @returns Promise resolving to audio bytes
    */
-  async synthToBytes(text: string, options?: SpeakOptions): Promise<Uint8Array> {
+  protected async _synthToBytes(text: string, options?: SpeakOptions): Promise<Uint8Array> {
     try {
       // Ensure loader/environment check is initialized lazily
       ensureSherpaOnnxLoaderInitialized();
@@ -1275,12 +1298,12 @@ export class SherpaOnnxTTSClient extends AbstractTTSClient {
         // Convert to SSML first, then strip SSML tags since SherpaOnnx doesn't support SSML
         // Use "w3c" platform for generic SSML (will be stripped anyway)
         const ssml = await SpeechMarkdown.toSSML(plainText, "w3c");
-        plainText = this.stripSSML(ssml);
+        plainText = SSMLUtils.processSSMLForEngine(ssml, "sherpaonnx", undefined, this.lang);
       }
 
-      // Remove SSML tags if present (SherpaOnnx doesn't support SSML)
+      // Convert SSML to plain text (SherpaOnnx doesn't support SSML)
       if (this._isSSML(plainText)) {
-        plainText = this.stripSSML(plainText);
+        plainText = SSMLUtils.processSSMLForEngine(plainText, "sherpaonnx", undefined, this.lang);
       }
 
       // Ensure TTS is initialized before synthesis
@@ -1356,20 +1379,22 @@ export class SherpaOnnxTTSClient extends AbstractTTSClient {
    * @returns Promise resolving to an object containing the audio stream and an empty word boundaries array.
    * @returns Promise resolving to an object containing the audio stream and word boundaries.
    */
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     _options?: SpeakOptions
   ): Promise<{
     audioStream: ReadableStream<Uint8Array>;
     wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
+    visemes?: Viseme[];
   }> {
     try {
+      throwIfAborted(_options?.signal);
       // Ensure loader/environment check is initialized lazily
       ensureSherpaOnnxLoaderInitialized();
       // Remove SSML tags if present
       let plainText = text;
       if (this._isSSML(plainText)) {
-        plainText = this.stripSSML(plainText);
+        plainText = SSMLUtils.processSSMLForEngine(plainText, "sherpaonnx", undefined, this.lang);
       }
 
       // Ensure TTS is initialized before synthesis
@@ -1382,6 +1407,8 @@ export class SherpaOnnxTTSClient extends AbstractTTSClient {
         }
       }
 
+      throwIfAborted(_options?.signal);
+
       // Handle case where TTS is not initialized (similar to synthToBytes)
       if (!this.tts) {
         console.warn("SherpaOnnx TTS is not initialized. Returning empty stream and boundaries.");
@@ -1436,8 +1463,8 @@ export class SherpaOnnxTTSClient extends AbstractTTSClient {
         formattedWordBoundaries = rawWordBoundaries.map(
           (wb: { word: string; start: number; end: number }) => ({
             text: wb.word,
-            offset: wb.start * 10000, // Convert seconds to 100-nanosecond units
-            duration: (wb.end - wb.start) * 10000, // Calculate duration in 100-nanosecond units
+            offset: Math.round(wb.start * 1000), // Convert seconds to milliseconds
+            duration: Math.round((wb.end - wb.start) * 1000),
           })
         );
       } else if (_options?.useWordBoundary) {
@@ -1445,17 +1472,14 @@ export class SherpaOnnxTTSClient extends AbstractTTSClient {
         this._createEstimatedWordTimings(plainText);
 
         // Convert internal timings to word boundary format
-        formattedWordBoundaries = this.timings.map(([start, end, word]) => ({
-          text: word,
-          offset: Math.round(start * 10000), // Convert to 100-nanosecond units
-          duration: Math.round((end - start) * 10000),
-        }));
+        formattedWordBoundaries = this._getWordBoundariesFromTimings();
       }
 
-      // Return both the audio stream and the formatted word boundaries
+      // Return the audio stream, the formatted word boundaries and visemes approximated from them
       return {
-        audioStream,
+        audioStream: abortableStream(audioStream, _options?.signal),
         wordBoundaries: formattedWordBoundaries,
+        visemes: await this._estimateVisemes(plainText, formattedWordBoundaries),
       };
     } catch (error) {
       console.error("Error synthesizing speech stream:", error);
@@ -1548,16 +1572,6 @@ export class SherpaOnnxTTSClient extends AbstractTTSClient {
     return wavBytes;
   }
 
-  /**
-   * Strip SSML tags from text
-   * @param text Text with SSML tags
-   * @returns Plain text without SSML tags
-   */
-  private stripSSML(text: string): string {
-    // Remove all XML tags
-    return text.replace(/<[^>]*>/g, "");
-  }
-
   /**
    * Get the list of required credential types for this engine
    * @returns Array of required credential field names
@@ -1652,3 +1666,10 @@ export class SherpaOnnxTTSClient extends AbstractTTSClient {
 
 // Export alias for backward compatibility
 export { SherpaOnnxTTSClient as SherpaOnnxTTS };
+
+registerEngine("sherpaonnx", {
+  create: (credentials: SherpaOnnxTTSCredentials) => new SherpaOnnxTTSClient(credentials),
+  credentialsSchema: { required: [], optional: ["modelPath", "tokensPath", "modelId"] },
+  capabilities: { browserSupported: false, nodeSupported: true },
+  browser: false,
+});
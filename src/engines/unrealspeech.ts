@@ -1,12 +1,12 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { createHttpError } from "../core/errors";
 import * as SSMLUtils from "../core/ssml-utils";
 import * as SpeechMarkdown from "../markdown/converter";
 import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
-import { getFetch } from "../utils/fetch-utils";
+import { abortableStream } from "../utils/abort-utils";
 import { toIso639_3, toLanguageDisplay } from "../utils/language-utils";
 
-const fetch = getFetch();
-
 export interface UnrealSpeechTTSOptions extends SpeakOptions {
   voice?: string;
   audioFormat?: "mp3" | "wav" | "pcm";
@@ -21,6 +21,8 @@ export interface UnrealSpeechTTSCredentials extends TTSCredentials {
 }
 
 export class UnrealSpeechTTSClient extends AbstractTTSClient {
+  readonly engineName = "unrealspeech";
+
   private apiKey: string;
   private baseUrl: string;
 
@@ -76,20 +78,21 @@ export class UnrealSpeechTTSClient extends AbstractTTSClient {
 
     if (options?.useSpeechMarkdown && SpeechMarkdown.isSpeechMarkdown(processedText)) {
       const ssml = await SpeechMarkdown.toSSML(processedText, "w3c");
-      processedText = SSMLUtils.stripSSML(ssml);
+      processedText = SSMLUtils.processSSMLForEngine(ssml, "unrealspeech", undefined, this.lang);
     }
 
     if (SSMLUtils.isSSML(processedText)) {
-      processedText = SSMLUtils.stripSSML(processedText);
+      processedText = SSMLUtils.processSSMLForEngine(
+        processedText,
+        "unrealspeech",
+        undefined,
+        this.lang
+      );
     }
 
     return processedText;
   }
 
-  setVoice(voiceId: string): void {
-    this.voiceId = voiceId;
-  }
-
   getProperty(property: string): any {
     switch (property) {
       case "voice":
@@ -113,7 +116,7 @@ export class UnrealSpeechTTSClient extends AbstractTTSClient {
   async checkCredentials(): Promise<boolean> {
     if (!this.apiKey) return false;
     try {
-      const response = await fetch(`${this.baseUrl}/speech`, {
+      const response = await this.fetchWithRetry(`${this.baseUrl}/speech`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -156,9 +159,9 @@ export class UnrealSpeechTTSClient extends AbstractTTSClient {
     }));
   }
 
-  async synthToBytes(text: string, options: UnrealSpeechTTSOptions = {}): Promise<Uint8Array> {
+  protected async _synthToBytes(text: string, options: UnrealSpeechTTSOptions = {}): Promise<Uint8Array> {
     const preparedText = await this.prepareText(text, options);
-    const voiceId = options.voice || this.voiceId;
+    const voiceId = this.resolveVoiceId(options.voice);
 
     const body: Record<string, unknown> = {
       ...options.providerOptions,
@@ -168,27 +171,39 @@ export class UnrealSpeechTTSClient extends AbstractTTSClient {
       Text: preparedText,
     };
 
-    const response = await fetch(`${this.baseUrl}/speech`, {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/speech`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${this.apiKey}`,
       },
       body: JSON.stringify(body),
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(
-        `Unreal Speech API error: ${response.status} ${response.statusText} - ${errorText}`
+      throw createHttpError(
+        `Unreal Speech API error: ${response.status} ${response.statusText} - ${errorText}`,
+        {
+          provider: "unrealspeech",
+          statusCode: response.status,
+          voiceId,
+          responseBody: errorText,
+        },
+        response.headers
       );
     }
 
     const json = (await response.json()) as { OutputUri: string };
-    const audioResponse = await fetch(json.OutputUri);
+    const audioResponse = await this.fetchWithRetry(json.OutputUri, { signal: options.signal });
 
     if (!audioResponse.ok) {
-      throw new Error(`Unreal Speech download error: ${audioResponse.status}`);
+      throw createHttpError(`Unreal Speech download error: ${audioResponse.status}`, {
+        provider: "unrealspeech",
+        statusCode: audioResponse.status,
+        voiceId,
+      });
     }
 
     const arrayBuffer = await audioResponse.arrayBuffer();
@@ -196,7 +211,7 @@ export class UnrealSpeechTTSClient extends AbstractTTSClient {
     return new Uint8Array(arrayBuffer);
   }
 
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options: UnrealSpeechTTSOptions = {}
   ): Promise<{
@@ -204,7 +219,7 @@ export class UnrealSpeechTTSClient extends AbstractTTSClient {
     wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
   }> {
     const preparedText = await this.prepareText(text, options);
-    const voiceId = options.voice || this.voiceId;
+    const voiceId = this.resolveVoiceId(options.voice);
 
     const body: Record<string, unknown> = {
       ...options.providerOptions,
@@ -213,33 +228,48 @@ export class UnrealSpeechTTSClient extends AbstractTTSClient {
       Text: preparedText,
     };
 
-    const response = await fetch(`${this.baseUrl}/stream`, {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/stream`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${this.apiKey}`,
       },
       body: JSON.stringify(body),
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(
-        `Unreal Speech API error: ${response.status} ${response.statusText} - ${errorText}`
+      throw createHttpError(
+        `Unreal Speech API error: ${response.status} ${response.statusText} - ${errorText}`,
+        {
+          provider: "unrealspeech",
+          statusCode: response.status,
+          voiceId,
+          responseBody: errorText,
+        },
+        response.headers
       );
     }
 
     if (!response.body) {
-      const bytes = await this.synthToBytes(text, options);
+      const bytes = await this._synthToBytes(text, options);
       const readableStream = new ReadableStream({
         start(controller) {
           controller.enqueue(bytes);
           controller.close();
         },
       });
-      return { audioStream: readableStream, wordBoundaries: [] };
+      return { audioStream: abortableStream(readableStream, options.signal), wordBoundaries: [] };
     }
 
-    return { audioStream: response.body, wordBoundaries: [] };
+    return { audioStream: abortableStream(response.body, options.signal), wordBoundaries: [] };
   }
 }
+
+registerEngine("unrealspeech", {
+  create: (credentials: UnrealSpeechTTSCredentials) => new UnrealSpeechTTSClient(credentials),
+  credentialsSchema: { required: ["apiKey"], optional: ["baseURL"] },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
@@ -1,8 +1,10 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { createHttpError } from "../core/errors";
 import * as SSMLUtils from "../core/ssml-utils";
 import * as SpeechMarkdown from "../markdown/converter";
 import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
-import { getFetch } from "../utils/fetch-utils";
+import { abortableStream } from "../utils/abort-utils";
 
 /**
  * UpliftAI TTS Client Credentials
@@ -82,6 +84,8 @@ const UPLIFTAI_VOICES: UnifiedVoice[] = [
  * UpliftAI TTS Client
  */
 export class UpliftAITTSClient extends AbstractTTSClient {
+  readonly engineName = "upliftai";
+
   private apiKey: string;
   private baseUrl = "https://api.upliftai.org/v1/synthesis";
   private outputFormat: string;
@@ -126,8 +130,8 @@ export class UpliftAITTSClient extends AbstractTTSClient {
   /**
    * Synthesize text to audio bytes
    */
-  async synthToBytes(text: string, options: UpliftAITTSOptions = {}): Promise<Uint8Array> {
-    const { audioStream } = await this.synthToBytestream(text, options);
+  protected async _synthToBytes(text: string, options: UpliftAITTSOptions = {}): Promise<Uint8Array> {
+    const { audioStream } = await this._synthToBytestream(text, options);
     const reader = audioStream.getReader();
     const chunks: Uint8Array[] = [];
     while (true) {
@@ -148,7 +152,7 @@ export class UpliftAITTSClient extends AbstractTTSClient {
   /**
    * Synthesize text to a byte stream
    */
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options: UpliftAITTSOptions = {}
   ): Promise<{
@@ -159,17 +163,22 @@ export class UpliftAITTSClient extends AbstractTTSClient {
 
     if (options.useSpeechMarkdown && SpeechMarkdown.isSpeechMarkdown(processedText)) {
       const ssml = await SpeechMarkdown.toSSML(processedText);
-      processedText = SSMLUtils.stripSSML(ssml);
+      processedText = SSMLUtils.processSSMLForEngine(ssml, "upliftai", undefined, this.lang);
     }
 
     if (SSMLUtils.isSSML(processedText)) {
-      processedText = SSMLUtils.stripSSML(processedText);
+      processedText = SSMLUtils.processSSMLForEngine(
+        processedText,
+        "upliftai",
+        undefined,
+        this.lang
+      );
     }
 
-    const voiceId = options.voice || this.voiceId || UPLIFTAI_VOICES[0].id;
+    const voiceId = this.resolveVoiceId(options.voice) || UPLIFTAI_VOICES[0].id;
     this.voiceId = voiceId;
 
-    const response = await getFetch()(`${this.baseUrl}/text-to-speech/stream`, {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/text-to-speech/stream`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -180,16 +189,34 @@ export class UpliftAITTSClient extends AbstractTTSClient {
         text: processedText,
         outputFormat: options.outputFormat || this.outputFormat,
       }),
+      signal: options.signal,
     });
 
     if (!response.ok || !response.body) {
-      throw new Error(`Failed to synthesize speech: ${response.status} ${response.statusText}`);
+      const errorText = await response.text().catch(() => "");
+      throw createHttpError(
+        `Failed to synthesize speech: ${response.status} ${response.statusText}`,
+        {
+          provider: "upliftai",
+          statusCode: response.status,
+          voiceId,
+          responseBody: errorText,
+        },
+        response.headers
+      );
     }
 
     options.onEnd?.();
 
-    return { audioStream: response.body, wordBoundaries: [] };
+    return { audioStream: abortableStream(response.body, options.signal), wordBoundaries: [] };
   }
 }
 
 export default UpliftAITTSClient;
+
+registerEngine("upliftai", {
+  create: (credentials: UpliftAITTSCredentials) => new UpliftAITTSClient(credentials),
+  credentialsSchema: { required: ["apiKey"], optional: ["outputFormat"] },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
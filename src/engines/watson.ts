@@ -1,7 +1,10 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { createHttpError } from "../core/errors";
 import * as SSMLUtils from "../core/ssml-utils";
 import * as SpeechMarkdown from "../markdown/converter";
 import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
+import { abortableStream, createAbortError } from "../utils/abort-utils";
 
 /**
  * IBM Watson TTS Client Credentials
@@ -17,6 +20,8 @@ export interface WatsonTTSCredentials extends TTSCredentials {
  * IBM Watson TTS Client
  */
 export class WatsonTTSClient extends AbstractTTSClient {
+  readonly engineName = "watson";
+
   private apiKey: string;
   private region: string;
   private instanceId: string;
@@ -48,7 +53,7 @@ export class WatsonTTSClient extends AbstractTTSClient {
       // Ensure we have a valid IAM token
       await this._refreshIAMToken();
 
-      const response = await fetch(
+      const response = await this.fetchWithRetry(
         `https://api.${this.region}.text-to-speech.watson.cloud.ibm.com/v1/voices`,
         {
           method: "GET",
@@ -60,7 +65,10 @@ export class WatsonTTSClient extends AbstractTTSClient {
       );
 
       if (!response.ok) {
-        throw new Error(`Failed to fetch voices: ${response.statusText}`);
+        throw createHttpError(`Failed to fetch voices: ${response.statusText}`, {
+          provider: "watson",
+          statusCode: response.status,
+        });
       }
 
       const data = await response.json();
@@ -99,7 +107,7 @@ export class WatsonTTSClient extends AbstractTTSClient {
    */
   private async _refreshIAMToken(): Promise<void> {
     try {
-      const response = await fetch("https://iam.cloud.ibm.com/identity/token", {
+      const response = await this.fetchWithRetry("https://iam.cloud.ibm.com/identity/token", {
         method: "POST",
         headers: {
           "Content-Type": "application/x-www-form-urlencoded",
@@ -107,11 +115,14 @@ export class WatsonTTSClient extends AbstractTTSClient {
         body: new URLSearchParams({
           apikey: this.apiKey,
           grant_type: "urn:ibm:params:oauth:grant-type:apikey",
-        }),
+        }).toString(),
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to refresh IAM token: ${response.statusText}`);
+        throw createHttpError(`Failed to refresh IAM token: ${response.statusText}`, {
+          provider: "watson",
+          statusCode: response.status,
+        });
       }
 
       const data = await response.json();
@@ -133,7 +144,7 @@ export class WatsonTTSClient extends AbstractTTSClient {
    */
   private async prepareSSML(text: string, options?: SpeakOptions): Promise<string> {
     // Use the provided voice or the one set with setVoice
-    const voice = options?.voice || this.voiceId;
+    const voice = this.resolveVoiceId(options?.voice);
 
     // Check if the input is already SSML
     let isSSML = SSMLUtils.isSSML(text);
@@ -162,27 +173,25 @@ export class WatsonTTSClient extends AbstractTTSClient {
       return processedText;
     }
 
-    // Otherwise, create SSML from plain text
-    this.ssml.clearSSML();
-
-    // Create SSML with voice and prosody
-    let ssmlContent = processedText;
-
-    // Apply prosody settings if specified
-    if (options?.rate || options?.pitch || options?.volume) {
-      const prosodyAttrs = [];
-      if (options.rate) prosodyAttrs.push(`rate="${options.rate}"`);
-      if (options.pitch) prosodyAttrs.push(`pitch="${options.pitch}"`);
-      if (options.volume !== undefined) prosodyAttrs.push(`volume="${options.volume}%"`);
-
-      ssmlContent = `<prosody ${prosodyAttrs.join(" ")}>${ssmlContent}</prosody>`;
-    }
-
-    // Add voice tag
-    ssmlContent = `<voice name="${voice || "en-US_AllisonV3Voice"}">${ssmlContent}</voice>`;
-
-    // Wrap with speak tags
-    return this.ssml.wrapWithSpeak(ssmlContent);
+    // Otherwise, create SSML from plain text, with voice and prosody
+    const hasProsody = options?.rate || options?.pitch || options?.volume;
+    return this.ssml
+      .clearSSML()
+      .voice(voice || "en-US_AllisonV3Voice", (builder) => {
+        if (hasProsody) {
+          builder.prosody(
+            {
+              rate: options.rate,
+              pitch: options.pitch,
+              volume: options.volume !== undefined ? `${options.volume}%` : undefined,
+            },
+            processedText
+          );
+        } else {
+          builder.text(processedText);
+        }
+      })
+      .build();
   }
 
   /**
@@ -220,7 +229,7 @@ export class WatsonTTSClient extends AbstractTTSClient {
    * @param options Synthesis options
    * @returns Promise resolving to audio bytes
    */
-  async synthToBytes(text: string, options?: SpeakOptions): Promise<Uint8Array> {
+  protected async _synthToBytes(text: string, options?: SpeakOptions): Promise<Uint8Array> {
     try {
       // Ensure we have a valid IAM token
       await this._refreshIAMToken();
@@ -229,9 +238,9 @@ export class WatsonTTSClient extends AbstractTTSClient {
       const ssml = await this.prepareSSML(text, options);
 
       // Use provided voice_id or the one set with setVoice
-      const voice = options?.voice || this.voiceId || "en-US_AllisonV3Voice";
+      const voice = this.resolveVoiceId(options?.voice) || "en-US_AllisonV3Voice";
 
-      const response = await fetch(
+      const response = await this.fetchWithRetry(
         `https://api.${this.region}.text-to-speech.watson.cloud.ibm.com/v1/synthesize`,
         {
           method: "POST",
@@ -245,11 +254,22 @@ export class WatsonTTSClient extends AbstractTTSClient {
             voice: voice,
             accept: "audio/wav",
           }),
+          signal: options?.signal,
         }
       );
 
       if (!response.ok) {
-        throw new Error(`Failed to synthesize speech: ${response.statusText}`);
+        const errorText = await response.text().catch(() => "");
+        throw createHttpError(
+          `Failed to synthesize speech: ${response.statusText}`,
+          {
+            provider: "watson",
+            statusCode: response.status,
+            voiceId: voice,
+            responseBody: errorText,
+          },
+          response.headers
+        );
       }
 
       const arrayBuffer = await response.arrayBuffer();
@@ -266,7 +286,7 @@ export class WatsonTTSClient extends AbstractTTSClient {
    * @param options Synthesis options
    * @returns Promise resolving to an object containing the audio stream and word boundary information
    */
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options?: SpeakOptions
   ): Promise<{
@@ -280,14 +300,14 @@ export class WatsonTTSClient extends AbstractTTSClient {
     const ssml = await this.prepareSSML(text, options);
 
     // Use provided voice_id or the one set with setVoice
-    const voice = options?.voice || this.voiceId || "en-US_AllisonV3Voice";
+    const voice = this.resolveVoiceId(options?.voice) || "en-US_AllisonV3Voice";
 
     // Reset word boundaries
     this.wordBoundaries = [];
 
     // Check if we're in a browser environment
     if (typeof window !== "undefined" && "WebSocket" in window) {
-      return this._synthToBytestreamWithBrowserWebSocket(ssml, voice);
+      return this._synthToBytestreamWithBrowserWebSocket(ssml, voice, options?.signal);
     }
     // In Node.js environment, use the REST API
     return this._synthToBytestreamWithREST(ssml, options);
@@ -297,11 +317,13 @@ export class WatsonTTSClient extends AbstractTTSClient {
    * Synthesize text to a byte stream using the WebSocket API in browser
    * @param ssml SSML to synthesize
    * @param voice Voice to use
+   * @param signal Optional AbortSignal that closes the socket
    * @returns Promise resolving to an object containing the audio stream and word boundary information
    */
   private async _synthToBytestreamWithBrowserWebSocket(
     ssml: string,
-    voice: string
+    voice: string,
+    signal?: AbortSignal
   ): Promise<{
     audioStream: ReadableStream<Uint8Array>;
     wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
@@ -311,6 +333,10 @@ export class WatsonTTSClient extends AbstractTTSClient {
         reject(new Error("WebSocket URL or IAM token not available"));
         return;
       }
+      if (signal?.aborted) {
+        reject(createAbortError(signal));
+        return;
+      }
 
       const ws = new WebSocket(`${this.wsUrl}?access_token=${this.iamToken}&voice=${voice}`);
       const chunks: Uint8Array[] = [];
@@ -318,6 +344,12 @@ export class WatsonTTSClient extends AbstractTTSClient {
 
       ws.binaryType = "arraybuffer";
 
+      const abortHandler = () => {
+        ws.close();
+        reject(createAbortError(signal));
+      };
+      signal?.addEventListener("abort", abortHandler, { once: true });
+
       ws.onopen = () => {
         const message = {
           text: ssml,
@@ -357,6 +389,9 @@ export class WatsonTTSClient extends AbstractTTSClient {
       };
 
       ws.onclose = () => {
+        signal?.removeEventListener("abort", abortHandler);
+        if (signal?.aborted) return;
+
         // Store word boundaries for later use
         this.wordBoundaries = wordTimings;
 
@@ -393,9 +428,9 @@ export class WatsonTTSClient extends AbstractTTSClient {
   }> {
     try {
       // Use provided voice_id or the one set with setVoice
-      const voice = options?.voice || this.voiceId || "en-US_AllisonV3Voice";
+      const voice = this.resolveVoiceId(options?.voice) || "en-US_AllisonV3Voice";
 
-      const response = await fetch(
+      const response = await this.fetchWithRetry(
         `https://api.${this.region}.text-to-speech.watson.cloud.ibm.com/v1/synthesize`,
         {
           method: "POST",
@@ -409,15 +444,26 @@ export class WatsonTTSClient extends AbstractTTSClient {
             voice: voice,
             accept: "audio/wav",
           }),
+          signal: options?.signal,
         }
       );
 
       if (!response.ok) {
-        throw new Error(`Failed to synthesize speech: ${response.statusText}`);
+        const errorText = await response.text().catch(() => "");
+        throw createHttpError(
+          `Failed to synthesize speech: ${response.statusText}`,
+          {
+            provider: "watson",
+            statusCode: response.status,
+            voiceId: voice,
+            responseBody: errorText,
+          },
+          response.headers
+        );
       }
 
       // Create estimated word timings based on text length
-      const words = ssml.replace(/<[^>]*>/g, "").split(/\s+/);
+      const words = SSMLUtils.stripSSML(ssml).split(/\s+/);
       const estimatedDuration = 0.3; // Estimated duration per word in seconds
       const wordBoundaries: Array<{ text: string; offset: number; duration: number }> = [];
 
@@ -437,7 +483,7 @@ export class WatsonTTSClient extends AbstractTTSClient {
       this.wordBoundaries = wordBoundaries;
 
       return {
-        audioStream: response.body as ReadableStream<Uint8Array>,
+        audioStream: abortableStream(response.body as ReadableStream<Uint8Array>, options?.signal),
         wordBoundaries,
       };
     } catch (error) {
@@ -445,18 +491,6 @@ export class WatsonTTSClient extends AbstractTTSClient {
       throw error;
     }
   }
-
-  /**
-   * Set the voice to use for synthesis
-   * @param voiceId Voice ID to use
-   * @param lang Language code (not used in Watson)
-   */
-  setVoice(voiceId: string, lang?: string): void {
-    this.voiceId = voiceId;
-    if (lang) {
-      this.lang = lang;
-    }
-  }
 }
 
 /**
@@ -465,3 +499,13 @@ export class WatsonTTSClient extends AbstractTTSClient {
 export interface WatsonTTSOptions extends SpeakOptions {
   format?: "mp3" | "wav";
 }
+
+registerEngine("watson", {
+  create: (credentials: WatsonTTSCredentials) => new WatsonTTSClient(credentials),
+  credentialsSchema: {
+    required: ["apiKey", "region", "instanceId"],
+    optional: ["disableSSLVerification"],
+  },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
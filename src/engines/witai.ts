@@ -1,7 +1,10 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { createHttpError, TTSAuthError, TTSInvalidVoiceError } from "../core/errors";
 import * as SSMLUtils from "../core/ssml-utils";
 import * as SpeechMarkdown from "../markdown/converter";
-import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
+import type { SpeakOptions, TTSCredentials, UnifiedVoice, VoiceInput } from "../types";
+import { abortableStream } from "../utils/abort-utils";
 
 /**
  * WitAI TTS Client Credentials
@@ -14,6 +17,8 @@ export interface WitAITTSCredentials extends TTSCredentials {
  * WitAI TTS Client
  */
 export class WitAITTSClient extends AbstractTTSClient {
+  readonly engineName = "witai";
+
   private token: string;
   private baseUrl = "https://api.wit.ai";
   private apiVersion = "20240601";
@@ -30,7 +35,7 @@ export class WitAITTSClient extends AbstractTTSClient {
     this._models = [{ id: "witai", features: ["streaming", "ssml"] }];
 
     if (!credentials.token) {
-      throw new Error("An API token for Wit.ai must be provided");
+      throw new TTSAuthError("An API token for Wit.ai must be provided", { provider: "witai" });
     }
 
     this.token = credentials.token as string;
@@ -74,13 +79,16 @@ export class WitAITTSClient extends AbstractTTSClient {
    */
   protected async _getVoices(): Promise<any[]> {
     try {
-      const response = await fetch(`${this.baseUrl}/voices?v=${this.apiVersion}`, {
+      const response = await this.fetchWithRetry(`${this.baseUrl}/voices?v=${this.apiVersion}`, {
         method: "GET",
         headers: this.headers,
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to fetch voices: ${response.statusText}`);
+        throw createHttpError(`Failed to fetch voices: ${response.statusText}`, {
+          provider: "witai",
+          statusCode: response.status,
+        });
       }
 
       const voices = await response.json();
@@ -194,22 +202,24 @@ export class WitAITTSClient extends AbstractTTSClient {
    * @param options Synthesis options
    * @returns Promise resolving to audio bytes
    */
-  async synthToBytes(text: string, options?: SpeakOptions): Promise<Uint8Array> {
+  protected async _synthToBytes(text: string, options?: SpeakOptions): Promise<Uint8Array> {
     try {
       // Prepare text for synthesis (strip SSML/Markdown if present)
       const preparedText = await this.prepareText(text, options);
       console.debug(
-        `${this.constructor.name}.synthToBytes - TTS text ${preparedText}, Options: ${JSON.stringify(options)}`
+        `${this.engineName}.synthToBytes - TTS text ${preparedText}, Options: ${JSON.stringify(options)}`
       );
 
       // Use provided voice or the one set with setVoice
-      let voice = options?.voice || this.voiceId;
+      let voice = this.resolveVoiceId(options?.voice);
 
       if (!voice) {
         // Use a default voice if none is set
         const voices = await this._getVoices();
         if (voices.length === 0) {
-          throw new Error("No voice ID provided and no default voice available");
+          throw new TTSInvalidVoiceError("No voice ID provided and no default voice available", {
+            provider: "witai",
+          });
         }
         voice = voices[0].id;
         this.voiceId = voice;
@@ -237,23 +247,37 @@ export class WitAITTSClient extends AbstractTTSClient {
         data: data,
       });
 
-      const response = await fetch(`${this.baseUrl}/synthesize?v=${this.apiVersion}`, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(data),
-      });
+      const response = await this.fetchWithRetry(
+        `${this.baseUrl}/synthesize?v=${this.apiVersion}`,
+        {
+          method: "POST",
+          headers,
+          body: JSON.stringify(data),
+          signal: options?.signal,
+        }
+      );
 
       if (!response.ok) {
         // Try to get more detailed error information
         let errorMessage = `Failed to synthesize speech: ${response.statusText}`;
+        let errorData = "";
         try {
-          const errorData = await response.text();
+          errorData = await response.text();
           console.error("WitAI TTS Error Response:", errorData);
           errorMessage += ` - ${errorData}`;
         } catch (_e) {
           // Ignore error parsing error
         }
-        throw new Error(errorMessage);
+        throw createHttpError(
+          errorMessage,
+          {
+            provider: "witai",
+            statusCode: response.status,
+            voiceId: voice,
+            responseBody: errorData,
+          },
+          response.headers
+        );
       }
 
       const arrayBuffer = await response.arrayBuffer();
@@ -270,7 +294,7 @@ export class WitAITTSClient extends AbstractTTSClient {
    * @param options Synthesis options
    * @returns Promise resolving to an object containing the audio stream and word boundary information
    */
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options?: SpeakOptions
   ): Promise<{
@@ -282,13 +306,15 @@ export class WitAITTSClient extends AbstractTTSClient {
       const preparedText = await this.prepareText(text, options);
 
       // Use provided voice or the one set with setVoice
-      let voice = options?.voice || this.voiceId;
+      let voice = this.resolveVoiceId(options?.voice);
 
       if (!voice) {
         // Use a default voice if none is set
         const voices = await this._getVoices();
         if (voices.length === 0) {
-          throw new Error("No voice ID provided and no default voice available");
+          throw new TTSInvalidVoiceError("No voice ID provided and no default voice available", {
+            provider: "witai",
+          });
         }
         voice = voices[0].id;
         this.voiceId = voice;
@@ -316,23 +342,37 @@ export class WitAITTSClient extends AbstractTTSClient {
         data: data,
       });
 
-      const response = await fetch(`${this.baseUrl}/synthesize?v=${this.apiVersion}`, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(data),
-      });
+      const response = await this.fetchWithRetry(
+        `${this.baseUrl}/synthesize?v=${this.apiVersion}`,
+        {
+          method: "POST",
+          headers,
+          body: JSON.stringify(data),
+          signal: options?.signal,
+        }
+      );
 
       if (!response.ok) {
         // Try to get more detailed error information
         let errorMessage = `Failed to synthesize speech: ${response.statusText}`;
+        let errorData = "";
         try {
-          const errorData = await response.text();
+          errorData = await response.text();
           console.error("WitAI TTS Bytestream Error Response:", errorData);
           errorMessage += ` - ${errorData}`;
         } catch (_e) {
           // Ignore error parsing error
         }
-        throw new Error(errorMessage);
+        throw createHttpError(
+          errorMessage,
+          {
+            provider: "witai",
+            statusCode: response.status,
+            voiceId: voice,
+            responseBody: errorData,
+          },
+          response.headers
+        );
       }
 
       // Create estimated word boundaries based on text length
@@ -353,7 +393,7 @@ export class WitAITTSClient extends AbstractTTSClient {
       }
 
       return {
-        audioStream: response.body as ReadableStream<Uint8Array>,
+        audioStream: abortableStream(response.body as ReadableStream<Uint8Array>, options?.signal),
         wordBoundaries,
       };
     } catch (error) {
@@ -364,15 +404,12 @@ export class WitAITTSClient extends AbstractTTSClient {
 
   /**
    * Set the voice to use for synthesis
-   * @param voiceId Voice ID to use
+   * @param voice Voice ID to use; reference audio is not supported
    * @param lang Language code (not used in WitAI)
    */
-  setVoice(voiceId: string, lang?: string): void {
-    console.log(`Setting WitAI voice to: ${voiceId}`);
-    this.voiceId = voiceId;
-    if (lang) {
-      this.lang = lang;
-    }
+  setVoice(voice: VoiceInput, lang?: string): void {
+    super.setVoice(voice, lang);
+    console.log(`Setting WitAI voice to: ${voice}`);
   }
 }
 
@@ -382,3 +419,10 @@ export class WitAITTSClient extends AbstractTTSClient {
 export interface WitAITTSOptions extends SpeakOptions {
   format?: "mp3" | "wav" | "pcm";
 }
+
+registerEngine("witai", {
+  create: (credentials: WitAITTSCredentials) => new WitAITTSClient(credentials),
+  credentialsSchema: { required: ["token"] },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
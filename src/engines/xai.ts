@@ -1,12 +1,12 @@
 import { AbstractTTSClient } from "../core/abstract-tts";
+import { registerEngine } from "../core/engine-registry";
+import { createHttpError } from "../core/errors";
 import * as SSMLUtils from "../core/ssml-utils";
 import * as SpeechMarkdown from "../markdown/converter";
 import type { SpeakOptions, TTSCredentials, UnifiedVoice } from "../types";
-import { getFetch } from "../utils/fetch-utils";
+import { abortableStream } from "../utils/abort-utils";
 import { toIso639_3, toLanguageDisplay } from "../utils/language-utils";
 
-const fetch = getFetch();
-
 export interface XaiTTSOptions extends SpeakOptions {
   model?: string;
   voice?: string;
@@ -23,6 +23,8 @@ export interface XaiTTSCredentials extends TTSCredentials {
 }
 
 export class XaiTTSClient extends AbstractTTSClient {
+  readonly engineName = "xai";
+
   private apiKey: string;
   private baseUrl: string;
   private model: string;
@@ -84,11 +86,11 @@ export class XaiTTSClient extends AbstractTTSClient {
 
     if (options?.useSpeechMarkdown && SpeechMarkdown.isSpeechMarkdown(processedText)) {
       const ssml = await SpeechMarkdown.toSSML(processedText, "w3c");
-      processedText = SSMLUtils.stripSSML(ssml);
+      processedText = SSMLUtils.processSSMLForEngine(ssml, "xai", undefined, this.lang);
     }
 
     if (SSMLUtils.isSSML(processedText)) {
-      processedText = SSMLUtils.stripSSML(processedText);
+      processedText = SSMLUtils.processSSMLForEngine(processedText, "xai", undefined, this.lang);
     }
 
     processedText = this.processAudioTags(processedText);
@@ -99,10 +101,6 @@ export class XaiTTSClient extends AbstractTTSClient {
     this.model = model;
   }
 
-  setVoice(voiceId: string): void {
-    this.voiceId = voiceId;
-  }
-
   getProperty(property: string): any {
     switch (property) {
       case "model":
@@ -136,7 +134,7 @@ export class XaiTTSClient extends AbstractTTSClient {
   async checkCredentials(): Promise<boolean> {
     if (!this.apiKey) return false;
     try {
-      const response = await fetch(`${this.baseUrl}/tts`, {
+      const response = await this.fetchWithRetry(`${this.baseUrl}/tts`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -174,9 +172,9 @@ export class XaiTTSClient extends AbstractTTSClient {
     }));
   }
 
-  async synthToBytes(text: string, options: XaiTTSOptions = {}): Promise<Uint8Array> {
+  protected async _synthToBytes(text: string, options: XaiTTSOptions = {}): Promise<Uint8Array> {
     const preparedText = await this.prepareText(text, options);
-    const voiceId = options.voice || this.voiceId;
+    const voiceId = this.resolveVoiceId(options.voice);
 
     const body: Record<string, unknown> = {
       language: options.language || this.language,
@@ -187,18 +185,29 @@ export class XaiTTSClient extends AbstractTTSClient {
       body.voice_id = voiceId;
     }
 
-    const response = await fetch(`${this.baseUrl}/tts`, {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/tts`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${this.apiKey}`,
       },
       body: JSON.stringify(body),
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`xAI API error: ${response.status} ${response.statusText} - ${errorText}`);
+      throw createHttpError(
+        `xAI API error: ${response.status} ${response.statusText} - ${errorText}`,
+        {
+          provider: "xai",
+          statusCode: response.status,
+          model: this.model,
+          voiceId,
+          responseBody: errorText,
+        },
+        response.headers
+      );
     }
 
     const arrayBuffer = await response.arrayBuffer();
@@ -206,7 +215,7 @@ export class XaiTTSClient extends AbstractTTSClient {
     return new Uint8Array(arrayBuffer);
   }
 
-  async synthToBytestream(
+  protected async _synthToBytestream(
     text: string,
     options: XaiTTSOptions = {}
   ): Promise<{
@@ -214,7 +223,7 @@ export class XaiTTSClient extends AbstractTTSClient {
     wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
   }> {
     const preparedText = await this.prepareText(text, options);
-    const voiceId = options.voice || this.voiceId;
+    const voiceId = this.resolveVoiceId(options.voice);
 
     const body: Record<string, unknown> = {
       language: options.language || this.language,
@@ -225,18 +234,29 @@ export class XaiTTSClient extends AbstractTTSClient {
       body.voice_id = voiceId;
     }
 
-    const response = await fetch(`${this.baseUrl}/tts`, {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/tts`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${this.apiKey}`,
       },
       body: JSON.stringify(body),
+      signal: options.signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`xAI API error: ${response.status} ${response.statusText} - ${errorText}`);
+      throw createHttpError(
+        `xAI API error: ${response.status} ${response.statusText} - ${errorText}`,
+        {
+          provider: "xai",
+          statusCode: response.status,
+          model: this.model,
+          voiceId,
+          responseBody: errorText,
+        },
+        response.headers
+      );
     }
 
     if (!response.body) {
@@ -248,9 +268,16 @@ export class XaiTTSClient extends AbstractTTSClient {
           controller.close();
         },
       });
-      return { audioStream: readableStream, wordBoundaries: [] };
+      return { audioStream: abortableStream(readableStream, options.signal), wordBoundaries: [] };
     }
 
-    return { audioStream: response.body, wordBoundaries: [] };
+    return { audioStream: abortableStream(response.body, options.signal), wordBoundaries: [] };
   }
 }
+
+registerEngine("xai", {
+  create: (credentials: XaiTTSCredentials) => new XaiTTSClient(credentials),
+  credentialsSchema: { required: ["apiKey"], optional: ["baseURL", "model"] },
+  capabilities: { browserSupported: true, nodeSupported: true },
+  browser: true,
+});
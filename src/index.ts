@@ -1,16 +1,94 @@
 // Core exports
 export { AbstractTTSClient } from "./core/abstract-tts";
+export {
+  createRegisteredClient,
+  type EngineCapabilities,
+  type EngineCreateOptions,
+  type EngineCredentialsSchema,
+  type EngineRegistration,
+  getEngineRegistration,
+  getRegisteredEngines,
+  isEngineRegistered,
+  type RegisteredEngine,
+  registerEngine,
+  unregisterEngine,
+} from "./core/engine-registry";
+export {
+  createHttpError,
+  parseRetryAfter,
+  SSMLParseError,
+  TTSAuthError,
+  TTSError,
+  type TTSErrorContext,
+  type TTSErrorOptions,
+  TTSInvalidVoiceError,
+  TTSNetworkError,
+  TTSQuotaError,
+  TTSRateLimitError,
+  TTSUnsupportedFeatureError,
+  toTTSError,
+} from "./core/errors";
+export { FileSystemCacheBackend } from "./core/fs-cache-backend";
+export {
+  type ApplyLexiconOptions,
+  applyLexicon,
+  Lexicon,
+  type LexiconEntry,
+  type LexiconMap,
+  type LexiconOptions,
+} from "./core/lexicon";
+export {
+  computeRetryDelay,
+  DEFAULT_RETRY_POLICY,
+  isRetryableError,
+  type RetryOptions,
+  type RetryPolicy,
+  resolveRetryPolicy,
+  type TTSErrorClass,
+} from "./core/retry";
+export {
+  type CacheBackend,
+  type CacheEntry,
+  type CacheKeyParts,
+  type CacheLimits,
+  createCacheKey,
+  IndexedDBCacheBackend,
+  MemoryCacheBackend,
+  SynthesisCache,
+  type SynthesisCacheOptions,
+} from "./core/synthesis-cache";
 export { AudioPlayback } from "./core/playback";
+export {
+  type SpeechQueueEndReason,
+  type SpeechQueueEventMap,
+  type SpeechQueueItem,
+  type SpeechQueueItemOptions,
+  type SpeechQueueListener,
+  SpeechQueue,
+} from "./core/speech-queue";
 export * as SSMLUtils from "./core/ssml-utils";
+export { splitTextIntoChunks } from "./core/text-chunking";
+export { estimateVisemes, splitPhonemes, VISEME_SHAPES } from "./core/visemes";
 export * as VoiceUtils from "./core/voice-utils";
+export { type InputStreamService, WebSocketInputStream } from "./core/websocket-input-stream";
 // Engine exports
 export { AzureTTSClient } from "./engines/azure";
-export { CartesiaTTSClient } from "./engines/cartesia";
+export { type CartesiaInputStream, CartesiaTTSClient } from "./engines/cartesia";
 export { CereVoiceTTSClient } from "./engines/cerevoice";
 export { DeepgramTTSClient } from "./engines/deepgram";
-export { ElevenLabsTTSClient } from "./engines/elevenlabs";
+export {
+  type ElevenLabsInputStream,
+  type ElevenLabsInputStreamOptions,
+  ElevenLabsTTSClient,
+} from "./engines/elevenlabs";
 export { EspeakNodeTTSClient, EspeakTTSClient } from "./engines/espeak";
 export { EspeakBrowserTTSClient, EspeakWasmTTSClient } from "./engines/espeak-wasm";
+export {
+  FailoverTTSClient,
+  type FailoverEvent,
+  type FailoverTTSCredentials,
+  findClosestVoice,
+} from "./engines/failover";
 export { FishAudioTTSClient } from "./engines/fishaudio";
 export { GeminiTTSClient } from "./engines/gemini";
 export { GoogleTTSClient } from "./engines/google";
@@ -34,18 +112,68 @@ export * from "./factory";
 // Markdown exports
 export * as SpeechMarkdown from "./markdown/converter";
 export { configureSpeechMarkdown } from "./markdown/converter";
+// Text normalization exports
+export { createEnglishRules, type EnglishNormalizationOptions } from "./normalization/english";
+export {
+  getNormalizationRules,
+  type NormalizationRule,
+  type NormalizeSayAsOptions,
+  normalizeSayAs,
+  normalizeText,
+  registerNormalizationRules,
+  type SayAsHandler,
+  type TextNormalizationRules,
+} from "./normalization/normalizer";
 // SSML exports
-export { SSMLBuilder } from "./ssml/builder";
+export {
+  type SSMLBreakAttributes,
+  SSMLBuilder,
+  type SSMLContent,
+  type SSMLExpressAsAttributes,
+  type SSMLProsodyAttributes,
+  type SSMLSayAsAttributes,
+  type SSMLVoiceAttributes,
+} from "./ssml/builder";
+export {
+  createSSMLElement,
+  findSSMLElement,
+  type ParseSSMLOptions,
+  parseSSML,
+  replaceSSMLElements,
+  type SerializeSSMLOptions,
+  type SSMLElement,
+  type SSMLNode,
+  type SSMLText,
+  serializeSSML,
+  ssmlToText,
+  unwrapSSMLElements,
+  walkSSML,
+} from "./ssml/parser";
 // Type exports
 export type {
+  CloneVoiceOptions,
   CredentialsCheckResult,
   PropertyType,
+  SentenceBoundary,
   SimpleCallback,
   SpeakOptions,
+  SpeechMarks,
+  SSMLMark,
+  SynthLongOptions,
+  SynthLongResult,
+  TextStreamInput,
+  TextStreamSynthesisResult,
   TTSCredentials,
+  TTSEventListener,
+  TTSEventMap,
   TTSEventType,
   UnifiedVoice,
+  Viseme,
+  VisemeShape,
+  VoiceInput,
+  VoiceReference,
   WordBoundaryCallback,
 } from "./types";
 // Utility exports
+export { concatAudio, getAudioDuration } from "./utils/audio-concat";
 export { getFetch, isFetchAvailable } from "./utils/fetch-utils";
@@ -0,0 +1,649 @@
+/**
+ * English text normalization rules
+ *
+ * Reads numbers, ordinals, fractions, currencies, dates, times, telephone numbers, units
+ * and common abbreviations as words. Date order and spelling follow the locale.
+ */
+
+import type { NormalizationRule, TextNormalizationRules } from "./normalizer";
+
+/**
+ * Options for English rules
+ */
+export interface EnglishNormalizationOptions {
+  /**
+   * Order of the parts of numeric dates such as 12/03/2024
+   */
+  dateOrder?: "mdy" | "dmy";
+
+  /**
+   * Use British spellings ("metre", "litre") and read dates as "the twelfth of March"
+   */
+  british?: boolean;
+}
+
+const ONES = [
+  "zero",
+  "one",
+  "two",
+  "three",
+  "four",
+  "five",
+  "six",
+  "seven",
+  "eight",
+  "nine",
+  "ten",
+  "eleven",
+  "twelve",
+  "thirteen",
+  "fourteen",
+  "fifteen",
+  "sixteen",
+  "seventeen",
+  "eighteen",
+  "nineteen",
+];
+const TENS = ["", "", "twenty", "thirty", "forty", "fifty", "sixty", "seventy", "eighty", "ninety"];
+const SCALES = ["", "thousand", "million", "billion", "trillion"];
+const IRREGULAR_ORDINALS: Record<string, string> = {
+  one: "first",
+  two: "second",
+  three: "third",
+  five: "fifth",
+  eight: "eighth",
+  nine: "ninth",
+  twelve: "twelfth",
+};
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+/**
+ * Currency names by symbol and ISO code: [major singular, major plural, minor singular, minor plural]
+ */
+const CURRENCIES: Record<string, string[]> = {
+  $: ["dollar", "dollars", "cent", "cents"],
+  USD: ["dollar", "dollars", "cent", "cents"],
+  "£": ["pound", "pounds", "penny", "pence"],
+  GBP: ["pound", "pounds", "penny", "pence"],
+  "€": ["euro", "euros", "cent", "cents"],
+  EUR: ["euro", "euros", "cent", "cents"],
+  "¥": ["yen", "yen"],
+  JPY: ["yen", "yen"],
+  "₹": ["rupee", "rupees", "paisa", "paise"],
+  INR: ["rupee", "rupees", "paisa", "paise"],
+  CAD: ["Canadian dollar", "Canadian dollars", "cent", "cents"],
+  AUD: ["Australian dollar", "Australian dollars", "cent", "cents"],
+};
+const CURRENCY_SCALES: Record<string, string> = {
+  k: "thousand",
+  m: "million",
+  bn: "billion",
+  thousand: "thousand",
+  million: "million",
+  billion: "billion",
+  trillion: "trillion",
+};
+
+/**
+ * Unit names by abbreviation: [singular, plural]
+ */
+const UNITS: Record<string, [string, string]> = {
+  mm: ["millimeter", "millimeters"],
+  cm: ["centimeter", "centimeters"],
+  m: ["meter", "meters"],
+  km: ["kilometer", "kilometers"],
+  ft: ["foot", "feet"],
+  mi: ["mile", "miles"],
+  mg: ["milligram", "milligrams"],
+  g: ["gram", "grams"],
+  kg: ["kilogram", "kilograms"],
+  oz: ["ounce", "ounces"],
+  lb: ["pound", "pounds"],
+  lbs: ["pound", "pounds"],
+  ml: ["milliliter", "milliliters"],
+  mL: ["milliliter", "milliliters"],
+  L: ["liter", "liters"],
+  "km/h": ["kilometer per hour", "kilometers per hour"],
+  kph: ["kilometer per hour", "kilometers per hour"],
+  mph: ["mile per hour", "miles per hour"],
+  "°C": ["degree Celsius", "degrees Celsius"],
+  "°F": ["degree Fahrenheit", "degrees Fahrenheit"],
+  "%": ["percent", "percent"],
+  ms: ["millisecond", "milliseconds"],
+  sec: ["second", "seconds"],
+  min: ["minute", "minutes"],
+  hr: ["hour", "hours"],
+  hrs: ["hour", "hours"],
+  Hz: ["hertz", "hertz"],
+  kHz: ["kilohertz", "kilohertz"],
+  MHz: ["megahertz", "megahertz"],
+  GHz: ["gigahertz", "gigahertz"],
+  W: ["watt", "watts"],
+  kW: ["kilowatt", "kilowatts"],
+  kWh: ["kilowatt hour", "kilowatt hours"],
+  KB: ["kilobyte", "kilobytes"],
+  MB: ["megabyte", "megabytes"],
+  GB: ["gigabyte", "gigabytes"],
+  TB: ["terabyte", "terabytes"],
+};
+
+/**
+ * Abbreviations read as words. "St." is handled separately (Saint or Street).
+ */
+const ABBREVIATIONS: Record<string, string> = {
+  Mr: "Mister",
+  Mrs: "Missus",
+  Ms: "Miz",
+  Dr: "Doctor",
+  Prof: "Professor",
+  Jr: "Junior",
+  Sr: "Senior",
+  Ave: "Avenue",
+  Rd: "Road",
+  Blvd: "Boulevard",
+  Mt: "Mount",
+  Dept: "Department",
+  Corp: "Corporation",
+  Inc: "Incorporated",
+  Ltd: "Limited",
+  approx: "approximately",
+  vs: "versus",
+  etc: "et cetera",
+};
+
+const NUMBER = String.raw`\d{1,3}(?:,\d{3})+|\d+`;
+const MONTH_ABBREVIATIONS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sept",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+const MONTH_NAMES = String.raw`(?:${MONTHS.join("|")}|(?:${MONTH_ABBREVIATIONS.join("|")})\.?)(?![a-z])`;
+
+/**
+ * Escape text for use in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+/**
+ * Read a non-negative integer below 10^15 as words
+ * @param value Integer
+ * @returns Words, e.g. "one thousand two hundred thirty-four"
+ */
+export function cardinalToWords(value: number): string {
+  if (value < 20) {
+    return ONES[value];
+  }
+  if (value < 100) {
+    const rest = value % 10;
+    return rest ? `${TENS[Math.floor(value / 10)]}-${ONES[rest]}` : TENS[value / 10];
+  }
+  if (value < 1000) {
+    const rest = value % 100;
+    const hundreds = `${ONES[Math.floor(value / 100)]} hundred`;
+    return rest ? `${hundreds} ${cardinalToWords(rest)}` : hundreds;
+  }
+
+  const words: string[] = [];
+  let scale = 0;
+  for (let rest = value; rest > 0; rest = Math.floor(rest / 1000), scale++) {
+    const group = rest % 1000;
+    if (group) {
+      words.unshift(
+        SCALES[scale] ? `${cardinalToWords(group)} ${SCALES[scale]}` : cardinalToWords(group)
+      );
+    }
+  }
+  return words.join(" ");
+}
+
+/**
+ * Read a non-negative integer as an ordinal
+ * @param value Integer
+ * @returns Words, e.g. "twenty-first"
+ */
+export function ordinalToWords(value: number): string {
+  return cardinalToWords(value).replace(/[a-z]+$/, (last) => {
+    if (IRREGULAR_ORDINALS[last]) return IRREGULAR_ORDINALS[last];
+    if (last.endsWith("y")) return `${last.slice(0, -1)}ieth`;
+    return `${last}th`;
+  });
+}
+
+/**
+ * Read digits one by one
+ */
+function digitsToWords(digits: string): string {
+  return [...digits].map((digit) => ONES[Number(digit)]).join(" ");
+}
+
+/**
+ * Read a number with optional sign, thousands separators and decimals
+ * @param text Number, e.g. "-1,234.5"
+ * @returns Words, or null when the text is not a number
+ */
+function numberToWords(text: string): string | null {
+  const match = text.trim().match(/^([-−])?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?$/);
+  if (!match) return null;
+
+  const integer = match[2].replace(/,/g, "");
+  let words =
+    integer.length > 15 || (integer.length > 1 && integer.startsWith("0"))
+      ? digitsToWords(integer)
+      : cardinalToWords(Number(integer));
+  if (match[3]) {
+    words += ` point ${digitsToWords(match[3])}`;
+  }
+  return match[1] ? `minus ${words}` : words;
+}
+
+/**
+ * Read a year the way it is spoken ("nineteen oh five", "twenty twenty-four")
+ */
+function yearToWords(year: number): string {
+  if (year < 1000 || year > 9999 || year % 1000 < 10) {
+    return cardinalToWords(year);
+  }
+  const century = cardinalToWords(Math.floor(year / 100));
+  const rest = year % 100;
+  if (rest === 0) return `${century} hundred`;
+  if (rest < 10) return `${century} oh ${ONES[rest]}`;
+  return `${century} ${cardinalToWords(rest)}`;
+}
+
+/**
+ * Read a fraction ("three quarters")
+ */
+function fractionToWords(numerator: number, denominator: number): string {
+  const plural = numerator !== 1;
+  let unit: string;
+  if (denominator === 2) unit = plural ? "halves" : "half";
+  else if (denominator === 4) unit = plural ? "quarters" : "quarter";
+  else unit = `${ordinalToWords(denominator)}${plural ? "s" : ""}`;
+  return `${cardinalToWords(numerator)} ${unit}`;
+}
+
+/**
+ * Read an amount of money
+ * @param amount Amount, e.g. "1,234.50"
+ * @param currency Currency symbol or ISO code
+ * @param scale Scale word or suffix following the amount ("m", "billion")
+ * @returns Words, or null when the currency is unknown
+ */
+function currencyToWords(amount: string, currency: string, scale?: string): string | null {
+  const names = CURRENCIES[currency] ?? CURRENCIES[currency.toUpperCase()];
+  const match = amount.match(/^(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?$/);
+  if (!names || !match) return null;
+  const [major, majors, minor, minors] = names;
+
+  if (scale) {
+    return `${numberToWords(amount)} ${CURRENCY_SCALES[scale.toLowerCase()]} ${majors}`;
+  }
+
+  const units = Number(match[1].replace(/,/g, ""));
+  if (match[2] && (!minor || match[2].length > 2)) {
+    return `${numberToWords(amount)} ${majors}`;
+  }
+  const cents = match[2] ? Number(match[2].padEnd(2, "0")) : 0;
+  const parts: string[] = [];
+  if (units > 0 || cents === 0) {
+    parts.push(`${cardinalToWords(units)} ${units === 1 ? major : majors}`);
+  }
+  if (cents > 0) {
+    parts.push(`${cardinalToWords(cents)} ${cents === 1 ? minor : minors}`);
+  }
+  return parts.join(" and ");
+}
+
+/**
+ * Read a telephone number digit by digit, pausing between groups
+ * @param text Telephone number
+ * @returns Words, or null when the text has too few or too many digits
+ */
+function telephoneToWords(text: string): string | null {
+  const digits = text.replace(/\D/g, "");
+  if (digits.length < 3 || digits.length > 15) return null;
+  const groups = text.match(/\d+/g) ?? [];
+  const words = groups.map(digitsToWords).join(", ");
+  return text.trim().startsWith("+") ? `plus ${words}` : words;
+}
+
+/**
+ * Read a time of day ("three thirty p m", "fifteen hundred")
+ * @param text Time, e.g. "3:30pm", "15:00", "10:15:30"
+ * @returns Words, or null when the text is not a valid time
+ */
+function timeToWords(text: string): string | null {
+  const match = text.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(?:([AaPp])\.?[Mm]\.?)?$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const seconds = match[3] ? Number(match[3]) : 0;
+  const period = match[4]?.toLowerCase();
+  if (hours > 23 || minutes > 59 || seconds > 59 || (period && (hours === 0 || hours > 12))) {
+    return null;
+  }
+
+  let words = cardinalToWords(hours);
+  if (minutes === 0) {
+    words += period || hours <= 12 ? " o'clock" : " hundred";
+  } else {
+    words += minutes < 10 ? ` oh ${ONES[minutes]}` : ` ${cardinalToWords(minutes)}`;
+  }
+  if (seconds) {
+    words += ` and ${cardinalToWords(seconds)} ${seconds === 1 ? "second" : "seconds"}`;
+  }
+  if (period) {
+    words = `${words.replace(" o'clock", "")} ${period} m`;
+  }
+  return words;
+}
+
+/**
+ * Read a measurement ("five kilograms")
+ * @param value Number
+ * @param unit Unit abbreviation
+ * @param british Whether to use British spellings
+ * @returns Words, or null when the unit or number is unknown
+ */
+function unitToWords(value: string, unit: string, british: boolean): string | null {
+  const names = UNITS[unit];
+  const amount = numberToWords(value);
+  if (!names || !amount) return null;
+  const name = names[value.replace(/^[-−]/, "") === "1" ? 0 : 1];
+  return `${amount} ${british ? name.replace(/meter|liter/, (word) => `${word.slice(0, -2)}re`) : name}`;
+}
+
+/**
+ * Create the English rules
+ * @param options Date order and spelling
+ * @returns Rules for registerNormalizationRules()
+ */
+export function createEnglishRules(
+  options: EnglishNormalizationOptions = {}
+): TextNormalizationRules {
+  const dateOrder = options.dateOrder ?? "mdy";
+  const british = options.british ?? false;
+
+  /**
+   * Read a date; month is 1-based. Returns null when the date is invalid.
+   */
+  const dateToWords = (year?: number, month?: number, day?: number): string | null => {
+    if (!month || month > 12 || (day !== undefined && (day < 1 || day > 31))) {
+      return null;
+    }
+    const name = MONTHS[month - 1];
+    let words = name;
+    if (day !== undefined) {
+      words = british ? `the ${ordinalToWords(day)} of ${name}` : `${name} ${ordinalToWords(day)}`;
+    }
+    return year === undefined ? words : `${words}, ${yearToWords(year)}`;
+  };
+
+  /**
+   * Read a numeric date in the given part order ("dmy", "ymd", "md", ...)
+   */
+  const numericDateToWords = (text: string, order: string): string | null => {
+    const parts = text.trim().split(/[/.-]/);
+    if (parts.length !== order.length || parts.some((part) => !/^\d+$/.test(part))) {
+      return null;
+    }
+    const values: Record<string, number> = {};
+    order.split("").forEach((part, index) => {
+      values[part] = Number(parts[index]);
+      if (part === "y" && parts[index].length === 2) {
+        values.y += values.y < 50 ? 2000 : 1900;
+      }
+    });
+    return dateToWords(values.y, values.m, values.d);
+  };
+
+  const unitPattern = Object.keys(UNITS)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|");
+  const currencySymbols = Object.keys(CURRENCIES)
+    .filter((key) => !/^[A-Z]{3}$/.test(key))
+    .map(escapeRegExp)
+    .join("");
+  const currencyCodes = Object.keys(CURRENCIES)
+    .filter((key) => /^[A-Z]{3}$/.test(key))
+    .join("|");
+
+  const rules: NormalizationRule[] = [
+    {
+      name: "currency",
+      pattern: new RegExp(
+        String.raw`([-−])?([${currencySymbols}])\s?(${NUMBER})(\.\d+)?(?:\s?(k|m|bn|thousand|million|billion|trillion)\b)?`,
+        "g"
+      ),
+      replace: (match, sign, symbol, amount, decimals, scale) => {
+        const words = currencyToWords(`${amount}${decimals ?? ""}`, symbol as string, scale);
+        return words ? `${sign ? "minus " : ""}${words}` : match;
+      },
+    },
+    {
+      name: "currency-code",
+      pattern: new RegExp(
+        String.raw`\b(?:(${currencyCodes})\s?(${NUMBER})(\.\d+)?|(${NUMBER})(\.\d+)?\s?(${currencyCodes}))\b`,
+        "g"
+      ),
+      replace: (match, codeBefore, amountAfter, decimalsAfter, amount, decimals, code) => {
+        const words = codeBefore
+          ? currencyToWords(`${amountAfter}${decimalsAfter ?? ""}`, codeBefore)
+          : currencyToWords(`${amount}${decimals ?? ""}`, code as string);
+        return words ?? match;
+      },
+    },
+    {
+      name: "iso-date",
+      pattern: /\b(\d{4})-(\d{2})-(\d{2})\b/g,
+      replace: (match, year, month, day) =>
+        dateToWords(Number(year), Number(month), Number(day)) ?? match,
+    },
+    {
+      name: "numeric-date",
+      pattern: /(?<!\d|\d[/.-])(\d{1,2})([/.-])(\d{1,2})\2(\d{4}|\d{2})(?!\d|[/.-]\d)/g,
+      replace: (match) => numericDateToWords(match, dateOrder) ?? match,
+    },
+    {
+      // Two-digit parts ("12/03") are dates; other pairs are left to the fraction rule
+      name: "short-date",
+      pattern: /(?<!\d|\d[/.])(\d{2})\/(\d{2})(?!\d|[/.]\d)/g,
+      replace: (match) => numericDateToWords(match, dateOrder.replace("y", "")) ?? match,
+    },
+    {
+      name: "month-day",
+      pattern: new RegExp(
+        String.raw`\b(${MONTH_NAMES})\s+(\d{1,2})(?:st|nd|rd|th)?\b(?:,?\s+(\d{4})\b)?`,
+        "g"
+      ),
+      replace: (match, month, day, year) =>
+        dateToWords(
+          year ? Number(year) : undefined,
+          MONTHS.findIndex((name) => name.startsWith((month as string).slice(0, 3))) + 1,
+          Number(day)
+        ) ?? match,
+    },
+    {
+      name: "day-month",
+      pattern: new RegExp(
+        String.raw`\b(\d{1,2})(?:st|nd|rd|th)?\s+(${MONTH_NAMES})(?:,?\s+(\d{4})\b)?`,
+        "g"
+      ),
+      replace: (match, day, month, year) => {
+        const index = MONTHS.findIndex((name) => name.startsWith((month as string).slice(0, 3)));
+        const words = `the ${ordinalToWords(Number(day))} of ${MONTHS[index]}`;
+        return Number(day) >= 1 && Number(day) <= 31
+          ? year
+            ? `${words}, ${yearToWords(Number(year))}`
+            : words
+          : match;
+      },
+    },
+    {
+      name: "time",
+      pattern: /\b\d{1,2}:\d{2}(?::\d{2})?(?:\s?[AaPp]\.?[Mm]\b)?/g,
+      replace: (match) => timeToWords(match) ?? match,
+    },
+    {
+      // Needs a "+", parentheses, a trunk prefix ("020 7946 0958") or three groups with "-"/"."
+      // separators, so plain lists of numbers and ranges such as 1990-2000 are left alone
+      name: "telephone",
+      pattern:
+        /(?<![\w+.,-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,5}\)[\s.-]?)?\d{2,5}(?:[\s.-]\d{2,5}){1,4}(?![\w.,-]\d|\w)/g,
+      replace: (match) => {
+        const digits = match.replace(/\D/g, "").length;
+        const groups = match.match(/\d+/g)?.length ?? 0;
+        if (digits < 7 || !(/^\+|\(/.test(match) || (groups >= 3 && /^0|\d[.-]\d/.test(match)))) {
+          return match;
+        }
+        return telephoneToWords(match) ?? match;
+      },
+    },
+    {
+      name: "unit",
+      pattern: new RegExp(
+        String.raw`(?<![\w.,])((?<!\S)[-−])?(${NUMBER})(\.\d+)?\s?(${unitPattern})(?![\w/])`,
+        "g"
+      ),
+      replace: (match, sign, value, decimals, unit) =>
+        unitToWords(`${sign ?? ""}${value}${decimals ?? ""}`, unit as string, british) ?? match,
+    },
+    {
+      name: "fraction",
+      pattern: /(?<![\w/.])(\d{1,3})\/(\d{1,3})(?![\w/])/g,
+      replace: (match, numerator, denominator) =>
+        Number(numerator) > 0 && Number(numerator) < Number(denominator)
+          ? fractionToWords(Number(numerator), Number(denominator))
+          : match,
+    },
+    {
+      name: "ordinal",
+      pattern: /\b(\d{1,15})(st|nd|rd|th)\b/g,
+      replace: (_match, value) => ordinalToWords(Number(value)),
+    },
+    {
+      name: "decade",
+      pattern: /\b(1\d|20)(\d)0s\b/g,
+      replace: (_match, century, decade) =>
+        yearToWords(Number(`${century}${decade}0`))
+          .replace(/y$/, "ie")
+          .replace(/(\w)$/, "$1s"),
+    },
+    {
+      name: "year-range",
+      pattern: /\b(1[1-9]\d{2}|20\d{2})\s?[-–]\s?(1[1-9]\d{2}|20\d{2})\b/g,
+      replace: (_match, from, to) => `${yearToWords(Number(from))} to ${yearToWords(Number(to))}`,
+    },
+    {
+      name: "year",
+      pattern: new RegExp(
+        String.raw`\b(in|since|until|by|from|during|year|circa|${MONTH_NAMES})\s+(1[1-9]\d{2}|20\d{2})\b(?![.,]\d)`,
+        "gi"
+      ),
+      replace: (_match, word, year) => `${word} ${yearToWords(Number(year))}`,
+    },
+    {
+      // "St. Louis" is a saint; "Main St." and "St. near" are streets
+      name: "street-or-saint",
+      pattern: /(\b[A-Z][\w'-]*\s+)?\bSt\.(?=(\s+[A-Z])?)/g,
+      replace: (_match, before, after) => `${before ?? ""}${after && !before ? "Saint" : "Street"}`,
+    },
+    {
+      name: "abbreviation",
+      pattern: new RegExp(String.raw`\b(${Object.keys(ABBREVIATIONS).join("|")})\.`, "g"),
+      replace: (_match, abbreviation) => ABBREVIATIONS[abbreviation as string],
+    },
+    {
+      name: "latin-abbreviation",
+      pattern: /\b(e\.g|i\.e)\.(?=\s|,|$)/g,
+      replace: (_match, abbreviation) => (abbreviation === "e.g" ? "for example" : "that is"),
+    },
+    {
+      name: "number-sign",
+      pattern: /(?:\bNo\.|#)\s?(?=\d)/g,
+      replace: () => "number ",
+    },
+    {
+      name: "ampersand",
+      pattern: /\s&\s/g,
+      replace: () => " and ",
+    },
+    {
+      name: "number",
+      pattern: /(?<![\w.,])((?<!\S)[-−])?(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(?![\w]|[.,]\d)/g,
+      replace: (match, sign, integer, decimals) =>
+        numberToWords(`${sign ?? ""}${integer}${decimals ?? ""}`) ?? match,
+    },
+  ];
+
+  const sayAs: TextNormalizationRules["sayAs"] = {
+    cardinal: (text) => numberToWords(text.replace(/\s/g, "")),
+    ordinal: (text) => {
+      const match = text.trim().match(/^(\d{1,3}(?:,\d{3}){1,4}|\d{1,15})(?:st|nd|rd|th)?\.?$/);
+      return match ? ordinalToWords(Number(match[1].replace(/,/g, ""))) : null;
+    },
+    digits: (text) => (/^\d+$/.test(text.trim()) ? digitsToWords(text.trim()) : null),
+    fraction: (text) => {
+      const match = text.trim().match(/^(\d+)\/(\d+)$/);
+      return match && Number(match[2]) > 1
+        ? fractionToWords(Number(match[1]), Number(match[2]))
+        : null;
+    },
+    currency: (text, format) => {
+      const value = text.trim();
+      const symbol = value.match(new RegExp(String.raw`^([${currencySymbols}])\s?([\d,.]+)$`));
+      if (symbol) return currencyToWords(symbol[2], symbol[1]);
+      const code = value.match(/^(?:([A-Z]{3})\s?([\d,.]+)|([\d,.]+)\s?([A-Z]{3}))$/);
+      if (code) return currencyToWords(code[2] ?? code[3], code[1] ?? code[4]);
+      return format ? currencyToWords(value, format) : null;
+    },
+    date: (text, format) => {
+      const value = text.trim();
+      const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+      if (iso && !format) return dateToWords(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+      const order =
+        format?.toLowerCase() ??
+        (value.split(/[/.-]/).length === 2 ? dateOrder.replace("y", "") : dateOrder);
+      if (!/^[dmy]{1,3}$/.test(order)) return null;
+      if (order === "y") return /^\d{4}$/.test(value) ? yearToWords(Number(value)) : null;
+      return numericDateToWords(value, order);
+    },
+    time: (text) => timeToWords(text),
+    telephone: (text) => telephoneToWords(text),
+    unit: (text) => {
+      const match = text
+        .trim()
+        .match(new RegExp(String.raw`^([-−]?[\d,]+(?:\.\d+)?)\s?(${unitPattern})$`));
+      return match ? unitToWords(match[1], match[2], british) : null;
+    },
+  };
+  sayAs.number = sayAs.cardinal;
+  sayAs.measure = sayAs.unit;
+
+  return { rules, sayAs };
+}
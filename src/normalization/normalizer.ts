@@ -0,0 +1,152 @@
+/**
+ * Text normalization
+ *
+ * Expands numbers, ordinals, currencies, dates, times, telephone numbers, units and
+ * abbreviations into words before synthesis, for engines that read them inconsistently or
+ * ignore `<say-as>`. Rules are registered per language; English is built in.
+ */
+
+import { createEnglishRules } from "./english";
+
+/**
+ * Rule that rewrites part of a text as words
+ */
+export interface NormalizationRule {
+  /**
+   * Name of the rule, used to find it when extending a language
+   */
+  name: string;
+
+  /**
+   * Pattern matching the text the rule expands. Every match is replaced.
+   */
+  pattern: RegExp;
+
+  /**
+   * Get the words for a match
+   * @param match Matched text
+   * @param groups Capture groups of the pattern
+   * @returns Replacement text; return the match to leave it unchanged
+   */
+  replace: (match: string, ...groups: Array<string | undefined>) => string;
+}
+
+/**
+ * Expand the content of a `<say-as>` element
+ * @param text Content of the element
+ * @param format The element's format attribute (e.g. "dmy" for dates)
+ * @returns Words, or null when the text can't be read as this type
+ */
+export type SayAsHandler = (text: string, format?: string) => string | null;
+
+/**
+ * Normalization rules of a language
+ */
+export interface TextNormalizationRules {
+  /**
+   * Rules applied in order by normalizeText()
+   */
+  rules: NormalizationRule[];
+
+  /**
+   * Handlers for `<say-as>` by interpret-as value ("cardinal", "date", ...)
+   */
+  sayAs: Record<string, SayAsHandler>;
+}
+
+/**
+ * Options for normalizeSayAs
+ */
+export interface NormalizeSayAsOptions {
+  /**
+   * The element's format attribute
+   */
+  format?: string;
+
+  /**
+   * Language of the text (BCP-47)
+   */
+  lang?: string;
+}
+
+const registry = new Map<string, TextNormalizationRules>();
+
+/**
+ * Normalize a BCP-47 tag for lookup ("en_GB" -> "en-gb")
+ */
+function toLanguageKey(lang: string): string {
+  return lang.trim().replace(/_/g, "-").toLowerCase();
+}
+
+/**
+ * Register the normalization rules of a language, replacing any existing rules.
+ * Rules registered for a primary language ("fr") are used for all its regions ("fr-CA")
+ * that have no rules of their own.
+ * @param lang Language tag, e.g. "en" or "en-GB"
+ * @param rules Rules of the language
+ */
+export function registerNormalizationRules(lang: string, rules: TextNormalizationRules): void {
+  registry.set(toLanguageKey(lang), rules);
+}
+
+/**
+ * Get the normalization rules used for a language
+ * @param lang Language tag
+ * @returns Rules of the language or its primary language, or undefined when there are none
+ */
+export function getNormalizationRules(lang: string): TextNormalizationRules | undefined {
+  const key = toLanguageKey(lang);
+  return registry.get(key) ?? registry.get(key.split("-")[0]);
+}
+
+/**
+ * Expand numbers, currencies, dates, times, telephone numbers, units and abbreviations
+ * in text into words
+ * @param text Plain text
+ * @param lang Language of the text (BCP-47); text in languages without rules is returned as is
+ * @returns Normalized text
+ */
+export function normalizeText(text: string, lang = "en"): string {
+  const language = getNormalizationRules(lang);
+  if (!language) {
+    return text;
+  }
+
+  return language.rules.reduce((result, rule) => {
+    const pattern = rule.pattern.global
+      ? rule.pattern
+      : new RegExp(rule.pattern.source, `${rule.pattern.flags}g`);
+    return result.replace(pattern, (match: string, ...args: unknown[]) => {
+      // replace() passes the groups, then the offset (a number)
+      const groups = args.slice(
+        0,
+        args.findIndex((arg) => typeof arg === "number")
+      );
+      return rule.replace(match, ...(groups as Array<string | undefined>));
+    });
+  }, text);
+}
+
+/**
+ * Expand the content of a `<say-as>` element into words
+ * @param text Content of the element
+ * @param interpretAs The element's interpret-as attribute
+ * @param options Format attribute and language
+ * @returns Words, or null when the language has no handler for the type or the text doesn't fit it
+ */
+export function normalizeSayAs(
+  text: string,
+  interpretAs: string,
+  options: NormalizeSayAsOptions = {}
+): string | null {
+  const handler = getNormalizationRules(options.lang ?? "en")?.sayAs[interpretAs.toLowerCase()];
+  return handler ? handler(text, options.format) : null;
+}
+
+registerNormalizationRules("en", createEnglishRules({ dateOrder: "mdy" }));
+for (const region of ["GB", "AU", "NZ", "IE", "IN", "ZA"]) {
+  registerNormalizationRules(
+    `en-${region}`,
+    createEnglishRules({ dateOrder: "dmy", british: true })
+  );
+}
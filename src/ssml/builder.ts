@@ -1,32 +1,352 @@
+import { SSMLCompatibilityManager } from "../core/ssml-compatibility";
+import {
+  createSSMLElement,
+  parseSSML,
+  type SSMLElement,
+  type SSMLNode,
+  serializeSSML,
+  walkSSML,
+} from "./parser";
+
+/**
+ * Content of an element: plain text (escaped for you, "" for an empty element), or a callback
+ * that adds child content to the builder, e.g. `(b) => b.text("Hello ").emphasis("strong", "world")`
+ */
+export type SSMLContent = string | ((builder: SSMLBuilder) => void);
+
+/**
+ * Attributes of `<prosody>`
+ */
+export interface SSMLProsodyAttributes {
+  rate?: "x-slow" | "slow" | "medium" | "fast" | "x-fast" | "default" | (string & {});
+  pitch?: "x-low" | "low" | "medium" | "high" | "x-high" | "default" | (string & {});
+  volume?: "silent" | "x-soft" | "soft" | "medium" | "loud" | "x-loud" | (string & {});
+  range?: string;
+  contour?: string;
+  duration?: string;
+}
+
+/**
+ * Attributes of `<break>`
+ */
+export interface SSMLBreakAttributes {
+  /**
+   * Duration as a number of milliseconds or an SSML time such as "1s"
+   */
+  time?: number | string;
+  strength?: "none" | "x-weak" | "weak" | "medium" | "strong" | "x-strong";
+}
+
+/**
+ * Attributes of `<say-as>` besides `interpret-as`
+ */
+export interface SSMLSayAsAttributes {
+  format?: string;
+  detail?: string;
+}
+
+/**
+ * Attributes of `<voice>`
+ */
+export interface SSMLVoiceAttributes {
+  name?: string;
+  gender?: "male" | "female" | "neutral";
+  age?: number;
+  variant?: number;
+  languages?: string;
+}
+
+/**
+ * Attributes of `<mstts:express-as>` besides `style`
+ */
+export interface SSMLExpressAsAttributes {
+  styledegree?: number | string;
+  role?: string;
+}
+
+/**
+ * Namespaces declared on `<speak>` when their prefix is used
+ */
+const VENDOR_NAMESPACES: Record<string, string> = {
+  mstts: "https://www.w3.org/2001/mstts",
+};
+
 /**
- * SSML Builder class for creating SSML markup
+ * Drop undefined values and convert the rest to strings
+ */
+function toAttributes(values: Record<string, string | number | undefined>): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [name, value] of Object.entries(values)) {
+    if (value !== undefined) {
+      attributes[name] = String(value);
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Fluent builder for SSML documents
+ *
+ * Every method returns the builder, so calls chain. Element methods take their content as
+ * text or as a callback that adds nested content; when the content is left out, the element
+ * stays open and later calls add to it until `end()` is called.
+ *
+ * ```typescript
+ * const ssml = new SSMLBuilder()
+ *   .prosody({ rate: "slow" }, (b) => b.text("Hello ").emphasis("strong", "world"))
+ *   .break(500)
+ *   .sayAs("characters", "SSML")
+ *   .build("polly");
+ * ```
  */
 export class SSMLBuilder {
-  private ssml = "";
+  private root: SSMLElement = createSSMLElement("speak");
+  private stack: SSMLElement[] = [this.root];
 
   /**
-   * Add text or SSML to the builder
-   * @param text Text or SSML to add
-   * @returns The SSML string
+   * Add an SSML fragment or document. Attributes of a `<speak>` root are kept and its
+   * content is added at the current position; malformed markup is repaired.
+   * @param ssml SSML or plain text
+   * @returns The SSML builder instance
    */
-  add(text: string): string {
-    // If text doesn't start with <speak>, wrap it
-    if (text.trim().startsWith("<speak")) {
-      this.ssml = text;
+  add(ssml: string): SSMLBuilder {
+    const nodes = parseSSML(ssml, { recover: true });
+    const content = nodes.filter((node) => node.type === "element" || node.value.trim() !== "");
+    const [speak] = content;
+    if (content.length === 1 && speak.type === "element" && speak.name === "speak") {
+      Object.assign(this.root.attributes, speak.attributes);
+      this.appendAll(speak.children);
     } else {
-      this.ssml = `<speak>${text}</speak>`;
+      this.appendAll(nodes);
+    }
+    return this;
+  }
+
+  /**
+   * Add plain text, escaping any markup characters
+   * @param text Text to speak
+   * @returns The SSML builder instance
+   */
+  text(text: string): SSMLBuilder {
+    if (text) {
+      this.current().children.push({ type: "text", value: text });
+    }
+    return this;
+  }
+
+  /**
+   * Add any element, e.g. a vendor extension without a dedicated method
+   * @param name Tag name, including any namespace prefix
+   * @param attributes Attribute values; undefined values are left out
+   * @param content Element content; leave out to keep the element open until `end()`
+   * @returns The SSML builder instance
+   */
+  element(
+    name: string,
+    attributes: Record<string, string | number | undefined> = {},
+    content?: SSMLContent
+  ): SSMLBuilder {
+    const element = createSSMLElement(name, toAttributes(attributes));
+    this.current().children.push(element);
+    this.stack.push(element);
+    if (content !== undefined) {
+      const depth = this.stack.length;
+      if (typeof content === "string") {
+        this.text(content);
+      } else {
+        content(this);
+      }
+      // Close anything the callback left open, then the element itself
+      this.stack.length = depth - 1;
+    }
+    return this;
+  }
+
+  /**
+   * Close the most recently opened element
+   * @returns The SSML builder instance
+   */
+  end(): SSMLBuilder {
+    if (this.stack.length === 1) {
+      throw new Error("SSMLBuilder.end() called with no open element");
     }
-    return this.ssml;
+    this.stack.pop();
+    return this;
+  }
+
+  /**
+   * Add a pause
+   * @param time Milliseconds, an SSML time such as "1s", or break attributes
+   * @returns The SSML builder instance
+   */
+  break(time: number | string | SSMLBreakAttributes = "500ms"): SSMLBuilder {
+    const attributes = typeof time === "object" ? time : { time };
+    const duration = typeof attributes.time === "number" ? `${attributes.time}ms` : attributes.time;
+    return this.element("break", { time: duration, strength: attributes.strength }, "");
+  }
+
+  /**
+   * Add a prosody element
+   * @param attributes Rate, pitch, volume and other prosody attributes
+   * @param content Element content
+   * @returns The SSML builder instance
+   */
+  prosody(attributes: SSMLProsodyAttributes, content?: SSMLContent): SSMLBuilder {
+    return this.element("prosody", { ...attributes }, content);
+  }
+
+  /**
+   * Add an emphasis element
+   * @param level Emphasis level
+   * @param content Element content
+   * @returns The SSML builder instance
+   */
+  emphasis(
+    level: "strong" | "moderate" | "none" | "reduced" | undefined,
+    content?: SSMLContent
+  ): SSMLBuilder {
+    return this.element("emphasis", { level }, content);
+  }
+
+  /**
+   * Add a say-as element
+   * @param interpretAs How to read the content (e.g. "characters", "date", "cardinal")
+   * @param text Text to interpret
+   * @param attributes Format and detail
+   * @returns The SSML builder instance
+   */
+  sayAs(interpretAs: string, text: string, attributes: SSMLSayAsAttributes = {}): SSMLBuilder {
+    return this.element("say-as", { "interpret-as": interpretAs, ...attributes }, text);
+  }
+
+  /**
+   * Add a phoneme element
+   * @param alphabet Phonetic alphabet (e.g. "ipa", "x-sampa")
+   * @param ph Pronunciation
+   * @param text Written text
+   * @returns The SSML builder instance
+   */
+  phoneme(alphabet: string, ph: string, text: string): SSMLBuilder {
+    return this.element("phoneme", { alphabet, ph }, text);
+  }
+
+  /**
+   * Add a substitution element
+   * @param alias Text to speak
+   * @param text Written text
+   * @returns The SSML builder instance
+   */
+  sub(alias: string, text: string): SSMLBuilder {
+    return this.element("sub", { alias }, text);
+  }
+
+  /**
+   * Add a voice element
+   * @param voice Voice name, or voice selection attributes
+   * @param content Element content
+   * @returns The SSML builder instance
+   */
+  voice(voice: string | SSMLVoiceAttributes, content?: SSMLContent): SSMLBuilder {
+    const attributes = typeof voice === "string" ? { name: voice } : voice;
+    return this.element("voice", { ...attributes }, content);
+  }
+
+  /**
+   * Add a lang element
+   * @param lang BCP-47 language code
+   * @param content Element content
+   * @returns The SSML builder instance
+   */
+  lang(lang: string, content?: SSMLContent): SSMLBuilder {
+    return this.element("lang", { "xml:lang": lang }, content);
+  }
+
+  /**
+   * Add a mark, reported back by engines that support marks
+   * @param name Mark name
+   * @returns The SSML builder instance
+   */
+  mark(name: string): SSMLBuilder {
+    return this.element("mark", { name }, "");
+  }
+
+  /**
+   * Add an audio element
+   * @param src Audio URL
+   * @param fallback Content spoken when the audio can't be played
+   * @returns The SSML builder instance
+   */
+  audio(src: string, fallback?: SSMLContent): SSMLBuilder {
+    return this.element("audio", { src }, fallback ?? "");
+  }
+
+  /**
+   * Add a paragraph
+   * @param content Element content
+   * @returns The SSML builder instance
+   */
+  p(content?: SSMLContent): SSMLBuilder {
+    return this.element("p", {}, content);
+  }
+
+  /**
+   * Add a sentence
+   * @param content Element content
+   * @returns The SSML builder instance
+   */
+  s(content?: SSMLContent): SSMLBuilder {
+    return this.element("s", {}, content);
+  }
+
+  /**
+   * Reference a pronunciation lexicon. Lexicons are placed before the rest of the document,
+   * as SSML requires.
+   * @param uri Lexicon URI
+   * @param id Optional xml:id for the lexicon
+   * @returns The SSML builder instance
+   */
+  lexicon(uri: string, id?: string): SSMLBuilder {
+    const lexicon = createSSMLElement("lexicon", toAttributes({ uri, "xml:id": id }));
+    const index = this.root.children.findIndex(
+      (node) => node.type !== "element" || node.name !== "lexicon"
+    );
+    this.root.children.splice(index === -1 ? this.root.children.length : index, 0, lexicon);
+    return this;
+  }
+
+  /**
+   * Add an Azure speaking style (`<mstts:express-as>`)
+   * @param style Style name (e.g. "cheerful", "sad")
+   * @param content Element content
+   * @param attributes Style degree and role
+   * @returns The SSML builder instance
+   */
+  expressAs(
+    style: string,
+    content?: SSMLContent,
+    attributes: SSMLExpressAsAttributes = {}
+  ): SSMLBuilder {
+    return this.element("mstts:express-as", { style, ...attributes }, content);
+  }
+
+  /**
+   * Add an Amazon Polly effect (`<amazon:effect>`)
+   * @param name Effect name (e.g. "whispered", "drc")
+   * @param content Element content
+   * @returns The SSML builder instance
+   */
+  amazonEffect(name: string, content?: SSMLContent): SSMLBuilder {
+    return this.element("amazon:effect", { name }, content);
   }
 
   /**
    * Add a break to the SSML
    * @param time Break duration (e.g., '500ms')
    * @returns The SSML builder instance
+   * @deprecated Use `break()`
    */
   addBreak(time = "500ms"): SSMLBuilder {
-    this.ssml = this.ssml.replace("</speak>", `<break time="${time}"/></speak>`);
-    return this;
+    return this.break(time);
   }
 
   /**
@@ -36,6 +356,7 @@ export class SSMLBuilder {
    * @param pitch Speech pitch
    * @param volume Speech volume
    * @returns The SSML builder instance
+   * @deprecated Use `prosody()`
    */
   addProsody(
     text: string,
@@ -43,20 +364,28 @@ export class SSMLBuilder {
     pitch?: "x-low" | "low" | "medium" | "high" | "x-high",
     volume?: string
   ): SSMLBuilder {
-    let prosodyAttrs = "";
-    if (rate) prosodyAttrs += ` rate="${rate}"`;
-    if (pitch) prosodyAttrs += ` pitch="${pitch}"`;
-    if (volume) prosodyAttrs += ` volume="${volume}"`;
-
-    const prosodyElement = `<prosody${prosodyAttrs}>${text}</prosody>`;
+    return this.prosody({ rate, pitch, volume }, text);
+  }
 
-    if (this.ssml.includes("<speak>")) {
-      this.ssml = this.ssml.replace("<speak>", `<speak>${prosodyElement}`);
-    } else {
-      this.ssml = `<speak>${prosodyElement}</speak>`;
-    }
+  /**
+   * Build the SSML document. Open elements are closed.
+   * @param engine Optional engine to adapt the document for, removing tags it doesn't support
+   * @param voiceId Optional voice ID for voice-specific engine capabilities
+   * @returns SSML string
+   */
+  build(engine?: string, voiceId?: string): string {
+    const root: SSMLElement = { ...this.root, attributes: { ...this.root.attributes } };
+    walkSSML([root], (element) => {
+      for (const name of [element.name, ...Object.keys(element.attributes)]) {
+        const prefix = name.split(":")[0];
+        if (name.includes(":") && VENDOR_NAMESPACES[prefix]) {
+          root.attributes[`xmlns:${prefix}`] ??= VENDOR_NAMESPACES[prefix];
+        }
+      }
+    });
 
-    return this;
+    const ssml = serializeSSML(root);
+    return engine ? SSMLCompatibilityManager.processSSMLForEngine(ssml, engine, voiceId) : ssml;
   }
 
   /**
@@ -73,9 +402,12 @@ export class SSMLBuilder {
 
   /**
    * Clear the SSML content
+   * @returns The SSML builder instance
    */
-  clearSSML(): void {
-    this.ssml = "";
+  clearSSML(): SSMLBuilder {
+    this.root = createSSMLElement("speak");
+    this.stack = [this.root];
+    return this;
   }
 
   /**
@@ -83,6 +415,14 @@ export class SSMLBuilder {
    * @returns The current SSML string
    */
   toString(): string {
-    return this.ssml;
+    return this.build();
+  }
+
+  private current(): SSMLElement {
+    return this.stack[this.stack.length - 1];
+  }
+
+  private appendAll(nodes: SSMLNode[]): void {
+    this.current().children.push(...nodes);
   }
 }
@@ -0,0 +1,510 @@
+import { SSMLParseError } from "../core/errors";
+
+/**
+ * SSML element, e.g. `<prosody rate="slow">...</prosody>` or `<mstts:express-as>`
+ */
+export interface SSMLElement {
+  type: "element";
+  /**
+   * Qualified tag name, including any namespace prefix
+   */
+  name: string;
+  /**
+   * Attribute values with entities decoded, in document order
+   */
+  attributes: Record<string, string>;
+  children: SSMLNode[];
+}
+
+/**
+ * Text content with entities decoded (CDATA sections become text too)
+ */
+export interface SSMLText {
+  type: "text";
+  value: string;
+}
+
+export type SSMLNode = SSMLElement | SSMLText;
+
+/**
+ * Options for parseSSML
+ */
+export interface ParseSSMLOptions {
+  /**
+   * Repair malformed input instead of throwing: unclosed elements are closed at the end of
+   * their parent, stray closing tags are ignored, and stray `<` or `&` are kept as text.
+   */
+  recover?: boolean;
+}
+
+/**
+ * Options for serializeSSML
+ */
+export interface SerializeSSMLOptions {
+  /**
+   * Write empty elements as `<break/>` (default) or as `<break></break>`
+   */
+  selfClosing?: boolean;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Elements whose content is read as separate sentences when converting to plain text
+ */
+const BLOCK_ELEMENTS = new Set(["p", "s", "paragraph", "sentence"]);
+
+/**
+ * Elements that stand for a pause when converting to plain text
+ */
+const PAUSE_ELEMENTS = new Set(["break"]);
+
+/**
+ * Elements that carry no spoken text
+ */
+const SILENT_ELEMENTS = new Set(["mark", "desc", "lexicon", "meta", "metadata"]);
+
+function isNameStart(char: string): boolean {
+  return /[A-Za-z_:]/.test(char);
+}
+
+function isNameChar(char: string): boolean {
+  return /[\w:.-]/.test(char);
+}
+
+function isWhitespace(char: string): boolean {
+  return char === " " || char === "\t" || char === "\n" || char === "\r";
+}
+
+/**
+ * Single-pass parser over an SSML string
+ */
+class Parser {
+  private pos = 0;
+
+  constructor(
+    private readonly input: string,
+    private readonly recover: boolean
+  ) {}
+
+  parse(): SSMLNode[] {
+    const root: SSMLElement = { type: "element", name: "", attributes: {}, children: [] };
+    const stack: SSMLElement[] = [root];
+
+    while (this.pos < this.input.length) {
+      const parent = stack[stack.length - 1];
+
+      if (this.input[this.pos] !== "<") {
+        const end = this.indexOrEnd("<", this.pos);
+        this.appendText(parent, this.decode(this.input.slice(this.pos, end), this.pos));
+        this.pos = end;
+      } else if (this.input.startsWith("<!--", this.pos)) {
+        this.pos = this.skipPast("-->", this.pos + 4, "comment");
+      } else if (this.input.startsWith("<![CDATA[", this.pos)) {
+        const end = this.skipPast("]]>", this.pos + 9, "CDATA section");
+        this.appendText(parent, this.input.slice(this.pos + 9, Math.max(this.pos + 9, end - 3)));
+        this.pos = end;
+      } else if (this.input.startsWith("<?", this.pos)) {
+        this.pos = this.skipPast("?>", this.pos + 2, "processing instruction");
+      } else if (this.input.startsWith("<!", this.pos)) {
+        this.skipDeclaration();
+      } else if (this.input.startsWith("</", this.pos)) {
+        this.parseClosingTag(stack);
+      } else if (isNameStart(this.input[this.pos + 1] ?? "")) {
+        const element = this.parseOpeningTag();
+        parent.children.push(element.node);
+        if (!element.selfClosing) {
+          stack.push(element.node);
+        }
+      } else {
+        this.fail("Unexpected '<'", this.pos);
+        this.appendText(parent, "<");
+        this.pos++;
+      }
+    }
+
+    if (stack.length > 1) {
+      this.fail(`Unclosed element <${stack[stack.length - 1].name}>`, this.input.length);
+    }
+    return root.children;
+  }
+
+  /**
+   * Throw in strict mode; in recover mode the caller repairs the input and carries on
+   */
+  private fail(message: string, position: number): void {
+    if (!this.recover) {
+      throw new SSMLParseError(`${message} at position ${position}`, { position });
+    }
+  }
+
+  private indexOrEnd(search: string, from: number): number {
+    const index = this.input.indexOf(search, from);
+    return index === -1 ? this.input.length : index;
+  }
+
+  private skipPast(terminator: string, from: number, what: string): number {
+    const index = this.input.indexOf(terminator, from);
+    if (index === -1) {
+      this.fail(`Unterminated ${what}`, this.pos);
+      return this.input.length;
+    }
+    return index + terminator.length;
+  }
+
+  /**
+   * Skip `<!DOCTYPE ...>`, including an internal subset in square brackets
+   */
+  private skipDeclaration(): void {
+    let depth = 0;
+    for (let i = this.pos + 2; i < this.input.length; i++) {
+      const char = this.input[i];
+      if (char === "[") depth++;
+      else if (char === "]") depth--;
+      else if (char === ">" && depth <= 0) {
+        this.pos = i + 1;
+        return;
+      }
+    }
+    this.fail("Unterminated declaration", this.pos);
+    this.pos = this.input.length;
+  }
+
+  private readName(): string {
+    const start = this.pos;
+    while (this.pos < this.input.length && isNameChar(this.input[this.pos])) {
+      this.pos++;
+    }
+    return this.input.slice(start, this.pos);
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.input.length && isWhitespace(this.input[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private parseOpeningTag(): { node: SSMLElement; selfClosing: boolean } {
+    const start = this.pos;
+    this.pos++;
+    const node: SSMLElement = {
+      type: "element",
+      name: this.readName(),
+      attributes: {},
+      children: [],
+    };
+
+    while (this.pos < this.input.length) {
+      this.skipWhitespace();
+      if (this.input.startsWith("/>", this.pos)) {
+        this.pos += 2;
+        return { node, selfClosing: true };
+      }
+      if (this.input[this.pos] === ">") {
+        this.pos++;
+        return { node, selfClosing: false };
+      }
+
+      const attributeStart = this.pos;
+      const name = this.readName();
+      if (!name) {
+        this.fail(`Unexpected '${this.input[this.pos]}' in <${node.name}>`, this.pos);
+        this.pos++;
+        continue;
+      }
+      if (name in node.attributes) {
+        this.fail(`Duplicate attribute '${name}' on <${node.name}>`, attributeStart);
+      }
+      node.attributes[name] = this.parseAttributeValue(node.name, name);
+    }
+
+    this.fail(`Unterminated tag <${node.name}>`, start);
+    return { node, selfClosing: true };
+  }
+
+  private parseAttributeValue(tagName: string, name: string): string {
+    this.skipWhitespace();
+    if (this.input[this.pos] !== "=") {
+      this.fail(`Attribute '${name}' on <${tagName}> has no value`, this.pos);
+      return "";
+    }
+    this.pos++;
+    this.skipWhitespace();
+
+    const quote = this.input[this.pos];
+    if (quote === '"' || quote === "'") {
+      const start = this.pos + 1;
+      const end = this.input.indexOf(quote, start);
+      if (end === -1) {
+        this.fail(`Unterminated value for attribute '${name}' on <${tagName}>`, this.pos);
+        this.pos = this.input.length;
+        return this.decode(this.input.slice(start), start);
+      }
+      this.pos = end + 1;
+      return this.decode(this.input.slice(start, end), start);
+    }
+
+    this.fail(`Attribute '${name}' on <${tagName}> must be quoted`, this.pos);
+    const start = this.pos;
+    while (
+      this.pos < this.input.length &&
+      !isWhitespace(this.input[this.pos]) &&
+      this.input[this.pos] !== ">" &&
+      !this.input.startsWith("/>", this.pos)
+    ) {
+      this.pos++;
+    }
+    return this.decode(this.input.slice(start, this.pos), start);
+  }
+
+  private parseClosingTag(stack: SSMLElement[]): void {
+    const start = this.pos;
+    this.pos += 2;
+    const name = this.readName();
+    this.skipWhitespace();
+    if (this.input[this.pos] === ">") {
+      this.pos++;
+    } else {
+      this.fail(`Malformed closing tag </${name}>`, start);
+      this.pos = this.indexOrEnd(">", this.pos) + 1;
+    }
+
+    const current = stack[stack.length - 1];
+    if (stack.length > 1 && current.name === name) {
+      stack.pop();
+      return;
+    }
+
+    const openIndex = stack.findIndex((element, index) => index > 0 && element.name === name);
+    this.fail(
+      stack.length > 1
+        ? `Expected </${current.name}> but found </${name}>`
+        : `Unexpected closing tag </${name}>`,
+      start
+    );
+    // Recover: close everything opened since the matching element, or ignore a stray tag
+    if (openIndex !== -1) {
+      stack.length = openIndex;
+    }
+  }
+
+  private appendText(parent: SSMLElement, value: string): void {
+    if (!value) return;
+    const last = parent.children[parent.children.length - 1];
+    if (last?.type === "text") {
+      last.value += value;
+    } else {
+      parent.children.push({ type: "text", value });
+    }
+  }
+
+  private decode(raw: string, offset: number): string {
+    if (!raw.includes("&")) {
+      return raw;
+    }
+    return raw.replace(/&([^;&\s<]*);?/g, (match, entity: string, index: number) => {
+      let decoded: string | undefined;
+      if (match.endsWith(";")) {
+        if (entity.startsWith("#x") || entity.startsWith("#X")) {
+          decoded = this.fromCodePoint(Number.parseInt(entity.slice(2), 16));
+        } else if (entity.startsWith("#")) {
+          decoded = this.fromCodePoint(Number.parseInt(entity.slice(1), 10));
+        } else {
+          decoded = NAMED_ENTITIES[entity];
+        }
+      }
+      if (decoded === undefined) {
+        this.fail(`Invalid entity '${match}'`, offset + index);
+        return match;
+      }
+      return decoded;
+    });
+  }
+
+  private fromCodePoint(codePoint: number): string | undefined {
+    if (!Number.isInteger(codePoint) || codePoint < 0 || codePoint > 0x10ffff) {
+      return undefined;
+    }
+    return String.fromCodePoint(codePoint);
+  }
+}
+
+/**
+ * Parse SSML (or an SSML fragment) into a list of nodes
+ *
+ * Comments, processing instructions (`<?xml ...?>`) and DOCTYPE declarations are skipped.
+ * @param ssml SSML text
+ * @param options Parse options
+ * @returns Top-level nodes
+ * @throws SSMLParseError when the input is not well-formed and `recover` is not set
+ */
+export function parseSSML(ssml: string, options: ParseSSMLOptions = {}): SSMLNode[] {
+  return new Parser(ssml, options.recover ?? false).parse();
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeAttribute(value: string): string {
+  return escapeText(value).replace(/"/g, "&quot;");
+}
+
+/**
+ * Serialize nodes back to well-formed SSML
+ * @param nodes Node or nodes to serialize
+ * @param options Serialize options
+ * @returns SSML text
+ */
+export function serializeSSML(
+  nodes: SSMLNode | SSMLNode[],
+  options: SerializeSSMLOptions = {}
+): string {
+  const selfClosing = options.selfClosing ?? true;
+  const write = (node: SSMLNode): string => {
+    if (node.type === "text") {
+      return escapeText(node.value);
+    }
+    const attributes = Object.entries(node.attributes)
+      .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+      .join("");
+    if (node.children.length === 0 && selfClosing) {
+      return `<${node.name}${attributes}/>`;
+    }
+    return `<${node.name}${attributes}>${node.children.map(write).join("")}</${node.name}>`;
+  };
+  return (Array.isArray(nodes) ? nodes : [nodes]).map(write).join("");
+}
+
+/**
+ * Create an element node
+ * @param name Tag name
+ * @param attributes Attribute values
+ * @param children Child nodes
+ * @returns The element
+ */
+export function createSSMLElement(
+  name: string,
+  attributes: Record<string, string> = {},
+  children: SSMLNode[] = []
+): SSMLElement {
+  return { type: "element", name, attributes, children };
+}
+
+/**
+ * Visit every element depth-first, in document order
+ * @param nodes Nodes to visit
+ * @param visitor Called with each element and its parent (null at the top level)
+ */
+export function walkSSML(
+  nodes: SSMLNode[],
+  visitor: (element: SSMLElement, parent: SSMLElement | null) => void
+): void {
+  const visit = (children: SSMLNode[], parent: SSMLElement | null) => {
+    for (const node of children) {
+      if (node.type === "element") {
+        visitor(node, parent);
+        visit(node.children, node);
+      }
+    }
+  };
+  visit(nodes, null);
+}
+
+/**
+ * Find the first element with the given name, depth-first
+ * @param nodes Nodes to search
+ * @param name Tag name
+ * @returns The element, or null when there is none
+ */
+export function findSSMLElement(nodes: SSMLNode[], name: string): SSMLElement | null {
+  for (const node of nodes) {
+    if (node.type !== "element") continue;
+    if (node.name === name) return node;
+    const found = findSSMLElement(node.children, name);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Replace elements with other nodes, at any depth. Children are processed before their parent.
+ * @param nodes Nodes to process
+ * @param replace Returns the replacement nodes for an element, or null to keep it
+ * @returns New node list; the input is not modified
+ */
+export function replaceSSMLElements(
+  nodes: SSMLNode[],
+  replace: (element: SSMLElement) => SSMLNode[] | null
+): SSMLNode[] {
+  const result: SSMLNode[] = [];
+  const append = (node: SSMLNode) => {
+    const last = result[result.length - 1];
+    if (node.type === "text" && last?.type === "text") {
+      result[result.length - 1] = { type: "text", value: last.value + node.value };
+    } else {
+      result.push(node);
+    }
+  };
+  for (const node of nodes) {
+    if (node.type === "text") {
+      append(node);
+      continue;
+    }
+    const element = { ...node, children: replaceSSMLElements(node.children, replace) };
+    const replacement = replace(element);
+    if (replacement) {
+      replacement.forEach(append);
+    } else {
+      append(element);
+    }
+  }
+  return result;
+}
+
+/**
+ * Replace matching elements with their children, at any depth
+ * @param nodes Nodes to process
+ * @param shouldUnwrap Predicate selecting the elements to remove
+ * @returns New node list; the input is not modified
+ */
+export function unwrapSSMLElements(
+  nodes: SSMLNode[],
+  shouldUnwrap: (element: SSMLElement) => boolean
+): SSMLNode[] {
+  return replaceSSMLElements(nodes, (element) => (shouldUnwrap(element) ? element.children : null));
+}
+
+/**
+ * Convert nodes to the plain text they speak
+ *
+ * Breaks become spaces, paragraphs and sentences are separated by spaces, marks are dropped
+ * and whitespace is collapsed.
+ * @param nodes Nodes to convert
+ * @returns Plain text
+ */
+export function ssmlToText(nodes: SSMLNode[]): string {
+  const parts: string[] = [];
+  const visit = (children: SSMLNode[]) => {
+    for (const node of children) {
+      if (node.type === "text") {
+        parts.push(node.value);
+      } else if (PAUSE_ELEMENTS.has(node.name)) {
+        parts.push(" ");
+      } else if (!SILENT_ELEMENTS.has(node.name)) {
+        visit(node.children);
+        if (BLOCK_ELEMENTS.has(node.name)) {
+          parts.push(" ");
+        }
+      }
+    }
+  };
+  visit(nodes);
+  return parts.join("").replace(/\s+/g, " ").trim();
+}
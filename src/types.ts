@@ -33,9 +33,9 @@ export interface SpeakOptions {
   outputPath?: string;
 
   /**
-   * Voice ID to use for synthesis
+   * Voice ID to use for synthesis, or reference audio for engines with zero-shot cloning
    */
-  voice?: string;
+  voice?: VoiceInput;
 
   /**
    * Audio format to use for synthesis
@@ -48,6 +48,107 @@ export interface SpeakOptions {
    * by the Speech Markdown library or the wrapper's SSML processing
    */
   rawSSML?: boolean;
+
+  /**
+   * How SSML is emulated on engines without SSML support:
+   * - "text" (default): breaks become punctuation, `<sub>` and spelled-out `<say-as>` become text
+   * - "audio": the document is also split at breaks and rate changes, with silence spliced in
+   *   for breaks and `<prosody rate>` applied by time-stretching (WAV/PCM output only)
+   */
+  ssmlEmulation?: "text" | "audio";
+
+  /**
+   * Signal used to cancel the request. Aborting cancels any in-flight network request,
+   * closes the returned audio stream and stops playback started by speak()/speakStreamed()
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for synthLong
+ */
+export interface SynthLongOptions extends SpeakOptions {
+  /**
+   * Maximum characters per request. Defaults to the engine's request limit.
+   */
+  maxChunkLength?: number;
+
+  /**
+   * Number of chunks synthesized at the same time (default 2)
+   */
+  concurrency?: number;
+}
+
+/**
+ * Result of synthLong
+ */
+export interface SynthLongResult {
+  /**
+   * Audio of all chunks joined into one file
+   */
+  audioBytes: Uint8Array;
+
+  /**
+   * Word boundaries of all chunks, offset to their position in the joined audio
+   */
+  wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
+}
+
+/**
+ * Text that arrives in fragments, such as LLM tokens
+ */
+export type TextStreamInput = ReadableStream<string> | AsyncIterable<string>;
+
+/**
+ * Result of synthFromTextStream
+ */
+export interface TextStreamSynthesisResult {
+  /**
+   * Audio of the text, ending once the last fragment has been synthesized
+   */
+  audioStream: ReadableStream<Uint8Array>;
+
+  /**
+   * Word boundaries in milliseconds, filled in as the audio stream is read
+   */
+  wordBoundaries: Array<{ text: string; offset: number; duration: number }>;
+}
+
+/**
+ * Recording of a speaker that engines with zero-shot cloning imitate on each request, without
+ * storing a voice: a URL of the audio, or the audio itself (bytes, base64 or a data URL) with an
+ * optional transcript of what is said
+ */
+export type VoiceReference = { url: string } | { audio: Uint8Array | string; transcript?: string };
+
+/**
+ * Voice of a request: a voice ID, or reference audio of the speaker
+ */
+export type VoiceInput = string | VoiceReference;
+
+/**
+ * Options for createClonedVoice
+ */
+export interface CloneVoiceOptions {
+  /**
+   * Name of the new voice
+   */
+  name: string;
+
+  /**
+   * Recordings of the speaker: audio bytes, or http(s) URLs or file paths (Node.js only)
+   */
+  samples: Uint8Array[] | string[];
+
+  /**
+   * Description of the voice
+   */
+  description?: string;
+
+  /**
+   * Language of the samples (BCP-47, e.g. "en-US")
+   */
+  language?: string;
 }
 
 /**
@@ -74,6 +175,12 @@ export interface SpeakInput {
    * Audio stream to play
    */
   audioStream?: ReadableStream<Uint8Array>;
+
+  /**
+   * Word boundaries of the audio (in milliseconds), used for boundary events when playing
+   * pre-synthesized audio
+   */
+  wordBoundaries?: Array<{ text: string; offset: number; duration: number }>;
 }
 
 /**
@@ -96,7 +203,7 @@ export type UnifiedVoice = {
   gender?: "Male" | "Female" | "Unknown";
 
   /**
-   * TTS provider
+   * TTS provider (a built-in engine, or the name of an engine added with registerEngine)
    */
   provider:
     | "azure"
@@ -124,7 +231,8 @@ export type UnifiedVoice = {
     | "unrealspeech"
     | "xai"
     | "fishaudio"
-    | "gemini";
+    | "gemini"
+    | (string & {});
 
   /**
    * Language codes supported by this voice
@@ -173,13 +281,96 @@ export type UnifiedVoice = {
  */
 export type TTSCredentials = Record<string, unknown>;
 
+/**
+ * Payloads of the events emitted by TTS clients, as listener argument lists
+ */
+export interface TTSEventMap {
+  /**
+   * Playback started
+   */
+  start: [];
+
+  /**
+   * Playback finished, was stopped, or failed (after an "error" event)
+   */
+  end: [];
+
+  /**
+   * A word is being spoken
+   */
+  boundary: [boundary: WordBoundary];
+
+  /**
+   * Synthesis or playback failed
+   */
+  error: [error: Error];
+
+  /**
+   * A synthesis request is about to be sent to the engine
+   */
+  synthesisStart: [event: { text: string }];
+
+  /**
+   * The first audio bytes of a synthesis request arrived
+   */
+  firstByte: [event: { latencyMs: number }];
+
+  /**
+   * A chunk of audio arrived
+   */
+  chunk: [chunk: Uint8Array];
+
+  /**
+   * Audio is being received; emitted after every chunk
+   */
+  progress: [event: { bytesReceived: number; elapsedMs: number }];
+
+  /**
+   * Playback was paused
+   */
+  pause: [];
+
+  /**
+   * Playback was resumed
+   */
+  resume: [];
+
+  /**
+   * stop() was called
+   */
+  stop: [];
+
+  /**
+   * An SSML `<mark>` was reached
+   */
+  mark: [event: SSMLMark];
+
+  /**
+   * A sentence is being spoken
+   */
+  sentence: [event: SentenceBoundary];
+
+  /**
+   * The mouth shape changed (engines with the "visemes" feature)
+   */
+  viseme: [event: Viseme];
+}
+
 /**
  * Event types for TTS callbacks
  */
-export type TTSEventType = "start" | "end" | "boundary";
+export type TTSEventType = keyof TTSEventMap;
+
+/**
+ * Listener for a TTS event
+ */
+export type TTSEventListener<E extends TTSEventType = TTSEventType> = (
+  ...args: TTSEventMap[E]
+) => void;
 
 /**
- * Callback function for word boundary events
+ * Callback function for word boundary events.
+ * Start and end times are in milliseconds from the beginning of the audio.
  */
 export type WordBoundaryCallback = (word: string, startTime: number, endTime: number) => void;
 
@@ -195,18 +386,22 @@ export type ModelFeature =
   | "streaming"
   | "audio-tags"
   | "inline-voice-cloning"
+  | "voice-cloning"
   | "open-source"
   | "word-boundary-events"
   | "character-boundary-events"
+  | "visemes"
   | "ssml";
 
 export const FEATURES: Record<string, ModelFeature> = {
   STREAMING: "streaming",
   AUDIO_TAGS: "audio-tags",
   INLINE_VOICE_CLONING: "inline-voice-cloning",
+  VOICE_CLONING: "voice-cloning",
   OPEN_SOURCE: "open-source",
   WORD_BOUNDARY_EVENTS: "word-boundary-events",
   CHARACTER_BOUNDARY_EVENTS: "character-boundary-events",
+  VISEMES: "visemes",
   SSML: "ssml",
 } as const;
 
@@ -218,7 +413,9 @@ export interface ModelInfo {
 export type PropertyType = string | number | boolean;
 
 /**
- * Word Boundary interface for speech marks
+ * Word Boundary interface for speech marks.
+ * All word boundaries in the library (returned by synthToBytestream, emitted on the
+ * "boundary" event) use milliseconds; engines convert their native units at the source.
  */
 export type WordBoundary = {
   /**
@@ -235,6 +432,89 @@ export type WordBoundary = {
   duration: number;
 };
 
+/**
+ * Start of a sentence in the audio
+ */
+export type SentenceBoundary = {
+  /**
+   * The sentence text
+   */
+  text: string;
+  /**
+   * Time offset from the beginning of the audio stream, in milliseconds.
+   */
+  offset: number;
+};
+
+/**
+ * SSML `<mark>` reached in the audio
+ */
+export type SSMLMark = {
+  /**
+   * Name of the mark
+   */
+  name: string;
+  /**
+   * Time offset from the beginning of the audio stream, in milliseconds.
+   */
+  offset: number;
+};
+
+/**
+ * Mouth shape of the common viseme set (the 22 Microsoft SAPI visemes), named after the
+ * first phoneme of its group
+ */
+export type VisemeShape =
+  | "sil"
+  | "ae"
+  | "aa"
+  | "ao"
+  | "eh"
+  | "er"
+  | "iy"
+  | "uw"
+  | "ow"
+  | "aw"
+  | "oy"
+  | "ay"
+  | "h"
+  | "r"
+  | "l"
+  | "s"
+  | "sh"
+  | "th"
+  | "f"
+  | "d"
+  | "k"
+  | "p";
+
+/**
+ * Mouth shape at a point in the audio
+ */
+export type Viseme = {
+  /**
+   * Viseme ID in the common set (0-21, 0 is silence)
+   */
+  id: number;
+  /**
+   * Shape of the viseme
+   */
+  shape: VisemeShape;
+  /**
+   * Time offset from the beginning of the audio stream, in milliseconds.
+   */
+  offset: number;
+};
+
+/**
+ * Timed events reported by an engine alongside the word boundaries of a synthesis result
+ */
+export type SpeechMarks = {
+  sentences?: SentenceBoundary[];
+  marks?: SSMLMark[];
+  visemes?: Viseme[];
+};
+
 /**
  * Detailed credentials check result
  */
@@ -0,0 +1,160 @@
+/**
+ * Utilities for honouring AbortSignal cancellation across engines
+ */
+
+/**
+ * Create the error thrown when an operation is cancelled through an AbortSignal.
+ * Mirrors the DOMException produced by fetch so callers can check `error.name === "AbortError"`.
+ * @param signal Signal that was aborted (its reason is used as the message when it is a string)
+ * @returns Error named "AbortError"
+ */
+export function createAbortError(signal?: AbortSignal): Error {
+  const reason = signal?.reason;
+  if (reason instanceof Error && reason.name === "AbortError") {
+    return reason;
+  }
+
+  const message = typeof reason === "string" ? reason : "The operation was aborted";
+  const error = new Error(message);
+  error.name = "AbortError";
+  return error;
+}
+
+/**
+ * Check whether an error represents an aborted operation
+ * @param error Error to check
+ * @returns True if the error was caused by an AbortSignal
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { name?: string }).name === "AbortError"
+  );
+}
+
+/**
+ * Throw an AbortError if the signal has already been aborted
+ * @param signal Optional AbortSignal
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError(signal);
+  }
+}
+
+/**
+ * Run an operation that cannot be cancelled natively (SDK calls, local synthesis),
+ * rejecting as soon as the signal aborts. The optional onAbort hook lets callers
+ * release the underlying resource (close a synthesizer, kill a process).
+ * @param promise Operation to race against the signal
+ * @param signal Optional AbortSignal
+ * @param onAbort Optional cleanup invoked when the signal aborts
+ * @returns Promise resolving with the operation result
+ */
+export function raceWithAbort<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal,
+  onAbort?: () => void
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  if (signal.aborted) {
+    onAbort?.();
+    return Promise.reject(createAbortError(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const abortHandler = () => {
+      try {
+        onAbort?.();
+      } finally {
+        reject(createAbortError(signal));
+      }
+    };
+    signal.addEventListener("abort", abortHandler, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", abortHandler);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", abortHandler);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Wrap an audio stream so that aborting the signal cancels the source stream
+ * and errors the returned stream with an AbortError.
+ * @param stream Source audio stream
+ * @param signal Optional AbortSignal
+ * @returns The original stream when no signal is given, otherwise an abortable wrapper
+ */
+export function abortableStream(
+  stream: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): ReadableStream<Uint8Array> {
+  if (!signal) {
+    return stream;
+  }
+
+  const reader = stream.getReader();
+  let abortHandler: (() => void) | null = null;
+
+  const cleanup = () => {
+    if (abortHandler) {
+      signal.removeEventListener("abort", abortHandler);
+      abortHandler = null;
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (signal.aborted) {
+        reader.cancel(signal.reason).catch(() => {});
+        controller.error(createAbortError(signal));
+        return;
+      }
+
+      abortHandler = () => {
+        cleanup();
+        reader.cancel(signal.reason).catch(() => {});
+        try {
+          controller.error(createAbortError(signal));
+        } catch {
+          // Stream already closed or errored
+        }
+      };
+      signal.addEventListener("abort", abortHandler, { once: true });
+    },
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (signal.aborted) {
+          return;
+        }
+        if (done) {
+          cleanup();
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        cleanup();
+        if (!signal.aborted) {
+          controller.error(error);
+        }
+      }
+    },
+    cancel(reason) {
+      cleanup();
+      return reader.cancel(reason);
+    },
+  });
+}
@@ -0,0 +1,527 @@
+/**
+ * Audio concatenation utilities
+ * Joins separately synthesized WAV, MP3 or raw 16-bit PCM segments into one file,
+ * and creates silence and speed changes to splice in between them
+ */
+
+import { detectAudioFormat } from "./audio-input";
+
+/**
+ * Formats that can be joined without re-encoding
+ */
+export type ConcatenableFormat = "wav" | "mp3" | "pcm";
+
+/**
+ * Format of a WAV file
+ */
+interface WavInfo {
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  fmtChunk: Uint8Array;
+  data: Uint8Array;
+}
+
+/**
+ * MPEG audio frame
+ */
+interface Mp3Frame {
+  offset: number;
+  length: number;
+  samples: number;
+  sampleRate: number;
+}
+
+// Bitrates in kbps, indexed by [MPEG-1 ? 0 : 1][layer - 1][bitrate index]
+const MP3_BITRATES = [
+  [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  ],
+  [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+];
+
+// Sample rates indexed by the MPEG version bits (0 = MPEG-2.5, 2 = MPEG-2, 3 = MPEG-1)
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000],
+};
+
+/**
+ * Detect which concatenable format audio bytes are in
+ * @param audioBytes Audio bytes
+ * @returns Format, or null for formats that cannot be joined (OGG, FLAC, ...)
+ */
+export function getConcatenableFormat(audioBytes: Uint8Array): ConcatenableFormat | null {
+  const mimeType = detectAudioFormat(audioBytes);
+  if (mimeType === "audio/mpeg") {
+    return "mp3";
+  }
+  if (mimeType !== "audio/wav") {
+    return null;
+  }
+  return parseWav(audioBytes) ? "wav" : "pcm";
+}
+
+/**
+ * Get the duration of WAV, MP3 or raw 16-bit mono PCM audio
+ * @param audioBytes Audio bytes
+ * @param sampleRate Sample rate of raw PCM audio
+ * @returns Duration in seconds, or undefined for other formats
+ */
+export function getAudioDuration(audioBytes: Uint8Array, sampleRate = 24000): number | undefined {
+  switch (getConcatenableFormat(audioBytes)) {
+    case "wav": {
+      const wav = parseWav(audioBytes) as WavInfo;
+      const bytesPerSecond = wav.sampleRate * wav.channels * (wav.bitsPerSample / 8);
+      return wav.data.length / bytesPerSecond;
+    }
+    case "mp3":
+      return readMp3Frames(audioBytes)
+        .filter((frame) => !isMp3InfoFrame(audioBytes, frame))
+        .reduce((total, frame) => total + frame.samples / frame.sampleRate, 0);
+    case "pcm":
+      return audioBytes.length / 2 / sampleRate;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Join audio segments of the same format into one file.
+ * WAV segments are merged under a single header, MP3 segments are joined frame by frame
+ * (dropping ID3 tags and Xing/Info headers after the first segment), raw PCM is appended.
+ * @param segments Audio segments in order
+ * @returns Joined audio
+ */
+export function concatAudio(segments: Uint8Array[]): Uint8Array {
+  const nonEmpty = segments.filter((segment) => segment.length > 0);
+  if (nonEmpty.length <= 1) {
+    return nonEmpty[0] ?? new Uint8Array(0);
+  }
+
+  const format = getConcatenableFormat(nonEmpty[0]);
+  if (!format) {
+    throw new Error(
+      `Cannot join ${detectAudioFormat(nonEmpty[0])} audio; request WAV or MP3 output instead`
+    );
+  }
+  if (nonEmpty.some((segment) => getConcatenableFormat(segment) !== format)) {
+    throw new Error("Cannot join audio segments in different formats");
+  }
+
+  switch (format) {
+    case "wav":
+      return concatWav(nonEmpty.map((segment) => parseWav(segment) as WavInfo));
+    case "mp3":
+      return concatBytes(
+        nonEmpty.flatMap((segment, index) => {
+          const parts = readMp3Frames(segment)
+            .filter((frame) => !isMp3InfoFrame(segment, frame))
+            .map((frame) => segment.subarray(frame.offset, frame.offset + frame.length));
+          // Keep the ID3 tag of the first segment only
+          const tagLength = getId3Length(segment);
+          if (index === 0 && tagLength) {
+            parts.unshift(segment.subarray(0, tagLength));
+          }
+          return parts;
+        })
+      );
+    default:
+      return concatBytes(nonEmpty);
+  }
+}
+
+/**
+ * Create the header of a PCM WAV stream whose length is not known yet. The RIFF and data
+ * sizes are placeholders (0xFFFFFFFF), as players expect of a WAV stream.
+ * @param sampleRate Sample rate in Hz
+ * @param channels Number of channels
+ * @param bitsPerSample Bits per sample
+ * @returns WAV header to put before the samples
+ */
+export function createWavStreamHeader(
+  sampleRate: number,
+  channels = 1,
+  bitsPerSample = 16
+): Uint8Array {
+  const blockAlign = (channels * bitsPerSample) / 8;
+  const fmtChunk = new Uint8Array(16);
+  const view = new DataView(fmtChunk.buffer);
+  view.setUint16(0, 1, true); // PCM
+  view.setUint16(2, channels, true);
+  view.setUint32(4, sampleRate, true);
+  view.setUint32(8, sampleRate * blockAlign, true);
+  view.setUint16(12, blockAlign, true);
+  view.setUint16(14, bitsPerSample, true);
+  return wavStreamHeader({
+    channels,
+    sampleRate,
+    bitsPerSample,
+    fmtChunk,
+    data: new Uint8Array(0),
+  });
+}
+
+/**
+ * Prepare a segment for a stream of joined audio whose total length is not known yet.
+ * The first WAV segment keeps its header, with the placeholder sizes of a WAV stream; later
+ * WAV segments add their samples only. MP3 segments after the first lose their ID3 tags and
+ * Xing/Info headers. Raw PCM and other formats are passed through.
+ * @param segment Audio segment
+ * @param first Whether this is the first segment of the stream
+ * @returns Bytes to append to the stream
+ */
+export function toStreamSegment(segment: Uint8Array, first: boolean): Uint8Array {
+  switch (getConcatenableFormat(segment)) {
+    case "wav": {
+      const wav = parseWav(segment) as WavInfo;
+      return first ? concatBytes([wavStreamHeader(wav), wav.data]) : wav.data;
+    }
+    case "mp3":
+      if (first) {
+        return segment;
+      }
+      return concatBytes(
+        readMp3Frames(segment)
+          .filter((frame) => !isMp3InfoFrame(segment, frame))
+          .map((frame) => segment.subarray(frame.offset, frame.offset + frame.length))
+      );
+    default:
+      return segment;
+  }
+}
+
+/**
+ * Create silence in the same format as existing audio, so it can be joined to it
+ * @param template Audio whose format the silence copies
+ * @param seconds Length of the silence
+ * @param sampleRate Sample rate of raw PCM audio
+ * @returns Silent audio
+ */
+export function createSilence(
+  template: Uint8Array,
+  seconds: number,
+  sampleRate = 24000
+): Uint8Array {
+  switch (getConcatenableFormat(template)) {
+    case "wav": {
+      const wav = parseWav(template) as WavInfo;
+      const bytesPerFrame = wav.channels * (wav.bitsPerSample / 8);
+      const data = new Uint8Array(Math.round(seconds * wav.sampleRate) * bytesPerFrame);
+      // 8-bit WAV samples are unsigned, centred on 128
+      if (wav.bitsPerSample === 8) {
+        data.fill(0x80);
+      }
+      return concatWav([{ ...wav, data }]);
+    }
+    case "mp3": {
+      const frame = readMp3Frames(template).find((item) => !isMp3InfoFrame(template, item));
+      if (!frame) {
+        throw new Error("Cannot create silence for MP3 audio without frames");
+      }
+      // A frame without CRC and with empty side information decodes to silence
+      const silentFrame = new Uint8Array(frame.length);
+      silentFrame.set(template.subarray(frame.offset, frame.offset + 4));
+      silentFrame[1] |= 0x01;
+      const count = Math.round((seconds * frame.sampleRate) / frame.samples);
+      return concatBytes(Array.from({ length: count }, () => silentFrame));
+    }
+    case "pcm":
+      return new Uint8Array(Math.round(seconds * sampleRate) * 2);
+    default:
+      throw new Error(`Cannot create silence for ${detectAudioFormat(template)} audio`);
+  }
+}
+
+/**
+ * Change the speed of 16-bit WAV or raw PCM audio without changing its pitch (WSOLA)
+ * @param audioBytes Audio bytes
+ * @param rate Speed factor (2 = twice as fast, 0.5 = half speed)
+ * @param sampleRate Sample rate of raw PCM audio
+ * @returns Time-stretched audio in the same format
+ */
+export function timeStretch(audioBytes: Uint8Array, rate: number, sampleRate = 24000): Uint8Array {
+  if (rate === 1) {
+    return audioBytes;
+  }
+  if (!(rate > 0)) {
+    throw new Error(`Invalid time-stretch rate: ${rate}`);
+  }
+
+  const format = getConcatenableFormat(audioBytes);
+  const wav = format === "wav" ? (parseWav(audioBytes) as WavInfo) : null;
+  if (format !== "pcm" && wav?.bitsPerSample !== 16) {
+    throw new Error(
+      `Cannot time-stretch ${detectAudioFormat(audioBytes)} audio; request WAV output instead`
+    );
+  }
+
+  const data = wav ? wav.data : audioBytes;
+  const channels = wav ? wav.channels : 1;
+  const rateHz = wav ? wav.sampleRate : sampleRate;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const length = Math.floor(data.length / 2 / channels);
+  const sample = (index: number, channel: number) =>
+    view.getInt16((index * channels + channel) * 2, true);
+
+  const frameSize = Math.max(2, Math.round(rateHz * 0.03) & ~1);
+  const hop = frameSize / 2;
+  const tolerance = Math.round(rateHz * 0.01);
+  const window = Float32Array.from(
+    { length: frameSize },
+    (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameSize)
+  );
+
+  const outputLength = Math.round(length / rate);
+  const output = new Float32Array((outputLength + frameSize) * channels);
+  let previous = 0;
+
+  for (let out = 0; out < outputLength; out += hop) {
+    // Pick the input frame near the nominal position that best continues the previous frame
+    const nominal = Math.round(out * rate);
+    let best = Math.min(nominal, Math.max(0, length - frameSize));
+    if (out > 0) {
+      const natural = previous + hop;
+      let bestScore = Number.NEGATIVE_INFINITY;
+      const from = Math.max(0, nominal - tolerance);
+      const to = Math.min(length - frameSize, nominal + tolerance);
+      for (let candidate = from; candidate <= to; candidate++) {
+        let score = 0;
+        for (let i = 0; i < hop && natural + i < length; i++) {
+          score += sample(natural + i, 0) * sample(candidate + i, 0);
+        }
+        if (score > bestScore) {
+          bestScore = score;
+          best = candidate;
+        }
+      }
+    }
+    previous = best;
+
+    for (let i = 0; i < frameSize && best + i < length; i++) {
+      for (let channel = 0; channel < channels; channel++) {
+        output[(out + i) * channels + channel] += sample(best + i, channel) * window[i];
+      }
+    }
+  }
+
+  const stretched = new Uint8Array(outputLength * channels * 2);
+  const outputView = new DataView(stretched.buffer);
+  for (let i = 0; i < outputLength * channels; i++) {
+    outputView.setInt16(i * 2, Math.max(-32768, Math.min(32767, Math.round(output[i]))), true);
+  }
+  return wav ? concatWav([{ ...wav, data: stretched }]) : stretched;
+}
+
+/**
+ * Concatenate byte arrays
+ * @param parts Byte arrays
+ * @returns Joined bytes
+ */
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Parse the format and sample data of a WAV file
+ * @param bytes WAV file bytes
+ * @returns WAV info, or null if the bytes are not a WAV file
+ */
+function parseWav(bytes: Uint8Array): WavInfo | null {
+  if (
+    bytes.length < 12 ||
+    String.fromCharCode(...bytes.subarray(0, 4)) !== "RIFF" ||
+    String.fromCharCode(...bytes.subarray(8, 12)) !== "WAVE"
+  ) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let fmtChunk: Uint8Array | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const id = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === "fmt ") {
+      fmtChunk = bytes.subarray(body, body + size);
+    } else if (id === "data" && fmtChunk) {
+      const fmt = new DataView(fmtChunk.buffer, fmtChunk.byteOffset, fmtChunk.byteLength);
+      // Streamed WAV files often carry a placeholder size; use what is there
+      const end = size === 0 || body + size > bytes.length ? bytes.length : body + size;
+      return {
+        channels: fmt.getUint16(2, true),
+        sampleRate: fmt.getUint32(4, true),
+        bitsPerSample: fmt.getUint16(14, true),
+        fmtChunk,
+        data: bytes.subarray(body, end),
+      };
+    }
+    offset = body + size + (size % 2);
+  }
+
+  return null;
+}
+
+/**
+ * Write WAV segments into one WAV file
+ * @param segments Parsed WAV segments
+ * @returns WAV file bytes
+ */
+function concatWav(segments: WavInfo[]): Uint8Array {
+  const [first] = segments;
+  if (
+    segments.some(
+      (segment) =>
+        segment.channels !== first.channels ||
+        segment.sampleRate !== first.sampleRate ||
+        segment.bitsPerSample !== first.bitsPerSample
+    )
+  ) {
+    throw new Error("Cannot join WAV segments with different sample formats");
+  }
+
+  const data = concatBytes(segments.map((segment) => segment.data));
+  const fmtSize = first.fmtChunk.length;
+  const result = new Uint8Array(12 + 8 + fmtSize + (fmtSize % 2) + 8 + data.length);
+  const view = new DataView(result.buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      result[offset + i] = text.charCodeAt(i);
+    }
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, result.length - 8, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, fmtSize, true);
+  result.set(first.fmtChunk, 20);
+  const dataHeader = 20 + fmtSize + (fmtSize % 2);
+  writeString(dataHeader, "data");
+  view.setUint32(dataHeader + 4, data.length, true);
+  result.set(data, dataHeader + 8);
+  return result;
+}
+
+/**
+ * Create the header of a WAV stream with the sample format of a WAV file
+ * @param wav Parsed WAV file
+ * @returns Header with placeholder sizes
+ */
+function wavStreamHeader(wav: WavInfo): Uint8Array {
+  const header = concatWav([{ ...wav, data: new Uint8Array(0) }]);
+  const view = new DataView(header.buffer);
+  view.setUint32(4, 0xffffffff, true);
+  view.setUint32(header.length - 4, 0xffffffff, true);
+  return header;
+}
+
+/**
+ * Find the MPEG audio frames of an MP3 file
+ * @param bytes MP3 bytes
+ * @returns Frames in order
+ */
+function readMp3Frames(bytes: Uint8Array): Mp3Frame[] {
+  const frames: Mp3Frame[] = [];
+  let offset = getId3Length(bytes);
+
+  while (offset + 4 <= bytes.length) {
+    const frame = parseMp3FrameHeader(bytes, offset);
+    if (!frame || offset + frame.length > bytes.length) {
+      // Resynchronise on the next byte (skips junk and trailing ID3v1 tags)
+      offset++;
+      continue;
+    }
+    frames.push(frame);
+    offset += frame.length;
+  }
+
+  return frames;
+}
+
+/**
+ * Get the length of the ID3v2 tag at the start of an MP3 file
+ * @param bytes MP3 bytes
+ * @returns Tag length in bytes, or 0 when there is no tag
+ */
+function getId3Length(bytes: Uint8Array): number {
+  if (bytes.length < 10 || bytes[0] !== 0x49 || bytes[1] !== 0x44 || bytes[2] !== 0x33) {
+    return 0;
+  }
+  // Size is a 28-bit syncsafe integer, followed by an optional 10-byte footer
+  const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+  return 10 + size + (bytes[5] & 0x10 ? 10 : 0);
+}
+
+/**
+ * Parse an MPEG audio frame header
+ * @param bytes MP3 bytes
+ * @param offset Offset of the candidate header
+ * @returns Frame, or null if there is no valid header at the offset
+ */
+function parseMp3FrameHeader(bytes: Uint8Array, offset: number): Mp3Frame | null {
+  if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) {
+    return null;
+  }
+
+  const versionBits = (bytes[offset + 1] >> 3) & 0x03;
+  const layerBits = (bytes[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = (bytes[offset + 2] >> 4) & 0x0f;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  const padding = (bytes[offset + 2] >> 1) & 0x01;
+
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15) {
+    return null;
+  }
+  if (sampleRateIndex === 3) {
+    return null;
+  }
+
+  const layer = 4 - layerBits;
+  const isMpeg1 = versionBits === 3;
+  const bitrate = MP3_BITRATES[isMpeg1 ? 0 : 1][layer - 1][bitrateIndex] * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[versionBits][sampleRateIndex];
+
+  let length: number;
+  let samples: number;
+  if (layer === 1) {
+    length = (Math.floor((12 * bitrate) / sampleRate) + padding) * 4;
+    samples = 384;
+  } else {
+    const perFrame = layer === 3 && !isMpeg1 ? 576 : 1152;
+    length = Math.floor(((perFrame / 8) * bitrate) / sampleRate) + padding;
+    samples = perFrame;
+  }
+
+  return { offset, length, samples, sampleRate };
+}
+
+/**
+ * Check whether a frame is a Xing/Info/VBRI header frame rather than audio.
+ * These frames describe the length of the whole file, so they are wrong after joining.
+ * @param bytes MP3 bytes
+ * @param frame Frame to check
+ * @returns True for header frames
+ */
+function isMp3InfoFrame(bytes: Uint8Array, frame: Mp3Frame): boolean {
+  const body = String.fromCharCode(
+    ...bytes.subarray(frame.offset + 4, frame.offset + Math.min(frame.length, 48))
+  );
+  return /Xing|Info|VBRI/.test(body);
+}
@@ -2,7 +2,8 @@
  * Utility functions for handling different audio input sources
  */
 
-import type { SpeakInput } from "../types";
+import type { SpeakInput, VoiceReference } from "../types";
+import { base64ToUint8Array } from "./base64-utils";
 import { isNode } from "./environment";
 import { streamToBuffer } from "./stream-utils";
 
@@ -118,6 +119,79 @@ export async function readAudioFile(filename: string): Promise<Uint8Array> {
   }
 }
 
+/**
+ * Loads voice samples for cloning as files for a multipart upload
+ * @param samples Audio bytes, or http(s) URLs or file paths (Node.js only)
+ * @returns One Blob per sample with a file name
+ */
+export async function loadVoiceSamples(
+  samples: ReadonlyArray<Uint8Array | string>
+): Promise<Array<{ blob: Blob; filename: string }>> {
+  if (samples.length === 0) {
+    throw new Error("At least one voice sample is required");
+  }
+
+  return Promise.all(
+    samples.map(async (sample, index) => {
+      let audioBytes: Uint8Array;
+      let mimeType: string;
+      let filename: string;
+
+      if (typeof sample !== "string") {
+        audioBytes = sample;
+        mimeType = detectAudioFormat(sample);
+        filename = `sample-${index + 1}.${mimeType.replace("audio/", "").replace("mpeg", "mp3")}`;
+      } else if (/^https?:\/\//i.test(sample)) {
+        const response = await fetch(sample);
+        if (!response.ok) {
+          throw new Error(
+            `Failed to download voice sample "${sample}": ${response.status} ${response.statusText}`
+          );
+        }
+        audioBytes = new Uint8Array(await response.arrayBuffer());
+        mimeType = detectAudioFormat(audioBytes);
+        filename = new URL(sample).pathname.split("/").pop() || `sample-${index + 1}`;
+      } else {
+        audioBytes = await readAudioFile(sample);
+        mimeType = getAudioFormatFromFilename(sample);
+        filename = sample.split(/[\\/]/).pop() || `sample-${index + 1}`;
+      }
+
+      return { blob: new Blob([audioBytes as BlobPart], { type: mimeType }), filename };
+    })
+  );
+}
+
+/**
+ * Loads the audio of a voice reference
+ * @param reference URL of the audio, or audio bytes, base64 or a data URL
+ * @returns Audio bytes with their MIME type, and the transcript if one was given
+ */
+export async function loadVoiceReference(
+  reference: VoiceReference
+): Promise<{ audioBytes: Uint8Array; mimeType: string; transcript?: string }> {
+  if ("url" in reference) {
+    const response = await fetch(reference.url);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to download voice reference "${reference.url}": ${response.status} ${response.statusText}`
+      );
+    }
+    const audioBytes = new Uint8Array(await response.arrayBuffer());
+    return { audioBytes, mimeType: detectAudioFormat(audioBytes) };
+  }
+
+  const audioBytes =
+    typeof reference.audio === "string"
+      ? base64ToUint8Array(reference.audio.replace(/^data:[^,]*,/, ""))
+      : reference.audio;
+  return {
+    audioBytes,
+    mimeType: detectAudioFormat(audioBytes),
+    transcript: reference.transcript,
+  };
+}
+
 /**
  * Converts an audio stream to bytes
  */
@@ -6,3 +6,11 @@ export function base64ToUint8Array(b64: string): Uint8Array {
   }
   return bytes;
 }
+
+export function uint8ArrayToBase64(bytes: Uint8Array): string {
+  let binaryStr = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binaryStr += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binaryStr);
+}
@@ -0,0 +1,321 @@
+/**
+ * Utility functions for playing audio streams in the browser as they arrive
+ */
+
+import { detectAudioFormat } from "./audio-input";
+
+/**
+ * Controls for audio that is being played from a stream
+ */
+export interface StreamPlayback {
+  pause(): void;
+  resume(): void;
+  stop(): void;
+}
+
+/**
+ * Options for playAudioStreamInBrowser
+ */
+export interface BrowserStreamPlaybackOptions {
+  /**
+   * Sample rate of raw 16-bit PCM audio
+   */
+  sampleRate: number;
+
+  /**
+   * Called when the first audio starts playing
+   */
+  onStart?: () => void;
+
+  /**
+   * Called with the playback controls once playback has been set up
+   */
+  onPlayback?: (playback: StreamPlayback) => void;
+}
+
+/**
+ * Stream formats the browser player can play progressively
+ */
+export type BrowserStreamFormat = "mpeg" | "wav" | "pcm";
+
+/**
+ * Work out how a stream can be played progressively from its first bytes.
+ * MP3 is played through Media Source Extensions; 16-bit WAV and raw 16-bit PCM through Web Audio.
+ * @param head First bytes of the stream (at least a WAV header, 44 bytes)
+ * @returns Stream format, or null when the stream has to be buffered before playback
+ */
+export function getBrowserStreamFormat(head: Uint8Array): BrowserStreamFormat | null {
+  const mimeType = detectAudioFormat(head);
+  const hasRiffHeader =
+    head.length >= 12 &&
+    String.fromCharCode(head[0], head[1], head[2], head[3]) === "RIFF" &&
+    String.fromCharCode(head[8], head[9], head[10], head[11]) === "WAVE";
+
+  if (mimeType === "audio/mpeg") {
+    const mediaSource = (globalThis as any).MediaSource;
+    return mediaSource?.isTypeSupported?.("audio/mpeg") ? "mpeg" : null;
+  }
+
+  if (mimeType !== "audio/wav" || typeof (globalThis as any).AudioContext !== "function") {
+    return null;
+  }
+
+  if (!hasRiffHeader) {
+    return "pcm";
+  }
+
+  // Only uncompressed 16-bit PCM can be scheduled chunk by chunk
+  const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  const isPcm16 =
+    head.length >= 36 && view.getUint16(20, true) === 1 && view.getUint16(34, true) === 16;
+  return isPcm16 ? "wav" : null;
+}
+
+/**
+ * Play an audio stream in the browser as it arrives
+ * @param stream Audio stream
+ * @param format Stream format, from getBrowserStreamFormat
+ * @param options Playback options
+ * @returns Promise that resolves when playback is complete or stopped
+ */
+export function playAudioStreamInBrowser(
+  stream: ReadableStream<Uint8Array>,
+  format: BrowserStreamFormat,
+  options: BrowserStreamPlaybackOptions
+): Promise<void> {
+  return format === "mpeg"
+    ? playMediaSourceStream(stream, options)
+    : playPcmStream(stream, format === "wav", options);
+}
+
+/**
+ * Play an MP3 stream through Media Source Extensions
+ * @param stream MP3 stream
+ * @param options Playback options
+ * @returns Promise that resolves when playback is complete or stopped
+ */
+async function playMediaSourceStream(
+  stream: ReadableStream<Uint8Array>,
+  options: BrowserStreamPlaybackOptions
+): Promise<void> {
+  const mediaSource = new MediaSource();
+  const audio = new Audio();
+  const url = URL.createObjectURL(mediaSource);
+  const reader = stream.getReader();
+  let stopped = false;
+  let finish: () => void = () => {};
+  const ended = new Promise<void>((resolve) => {
+    finish = resolve;
+  });
+
+  audio.onended = () => finish();
+  audio.onerror = () => finish();
+  options.onPlayback?.({
+    pause: () => audio.pause(),
+    resume: () => {
+      audio.play().catch(() => {});
+    },
+    stop: () => {
+      stopped = true;
+      audio.pause();
+      reader.cancel().catch(() => {});
+      finish();
+    },
+  });
+
+  try {
+    await new Promise<void>((resolve) => {
+      mediaSource.addEventListener("sourceopen", () => resolve(), { once: true });
+      audio.src = url;
+    });
+
+    const sourceBuffer = mediaSource.addSourceBuffer("audio/mpeg");
+    const append = (chunk: Uint8Array) =>
+      new Promise<void>((resolve, reject) => {
+        sourceBuffer.addEventListener("updateend", () => resolve(), { once: true });
+        sourceBuffer.addEventListener("error", () => reject(new Error("SourceBuffer error")), {
+          once: true,
+        });
+        sourceBuffer.appendBuffer(chunk as Uint8Array<ArrayBuffer>);
+      });
+
+    let started = false;
+    while (!stopped) {
+      const { done, value } = await reader.read();
+      if (done || stopped) {
+        break;
+      }
+      await append(value);
+      if (!started) {
+        started = true;
+        await audio.play();
+        options.onStart?.();
+      }
+    }
+
+    if (!stopped && mediaSource.readyState === "open") {
+      mediaSource.endOfStream();
+    }
+    if (!started) {
+      finish();
+    }
+    await ended;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Play a 16-bit PCM or WAV stream by scheduling each chunk on a Web Audio context
+ * @param stream Audio stream
+ * @param hasHeader Whether the stream starts with a WAV header
+ * @param options Playback options
+ * @returns Promise that resolves when playback is complete or stopped
+ */
+async function playPcmStream(
+  stream: ReadableStream<Uint8Array>,
+  hasHeader: boolean,
+  options: BrowserStreamPlaybackOptions
+): Promise<void> {
+  const context = new AudioContext();
+  const reader = stream.getReader();
+  const sources = new Set<AudioBufferSourceNode>();
+  let stopped = false;
+  let channels = 1;
+  let sampleRate = options.sampleRate;
+  let pending = new Uint8Array(0);
+  let headerParsed = !hasHeader;
+  let nextTime = 0;
+  let streamDone = false;
+  let finish: () => void = () => {};
+  const ended = new Promise<void>((resolve) => {
+    finish = resolve;
+  });
+
+  options.onPlayback?.({
+    pause: () => {
+      context.suspend().catch(() => {});
+    },
+    resume: () => {
+      context.resume().catch(() => {});
+    },
+    stop: () => {
+      stopped = true;
+      for (const source of sources) {
+        source.stop();
+      }
+      sources.clear();
+      reader.cancel().catch(() => {});
+      finish();
+    },
+  });
+
+  const schedule = (bytes: Uint8Array) => {
+    const frames = Math.floor(bytes.length / (2 * channels));
+    if (!frames) {
+      return;
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, frames * 2 * channels);
+    const buffer = context.createBuffer(channels, frames, sampleRate);
+    for (let channel = 0; channel < channels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let frame = 0; frame < frames; frame++) {
+        data[frame] = view.getInt16((frame * channels + channel) * 2, true) / 32768;
+      }
+    }
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    source.onended = () => {
+      sources.delete(source);
+      if (streamDone && sources.size === 0) {
+        finish();
+      }
+    };
+    // Keep a small lead so the first chunk is not clipped
+    const startAt = Math.max(nextTime, context.currentTime + 0.05);
+    source.start(startAt);
+    sources.add(source);
+    if (nextTime === 0) {
+      options.onStart?.();
+    }
+    nextTime = startAt + buffer.duration;
+  };
+
+  try {
+    while (!stopped) {
+      const { done, value } = await reader.read();
+      if (done || stopped) {
+        break;
+      }
+
+      const combined = new Uint8Array(pending.length + value.length);
+      combined.set(pending);
+      combined.set(value, pending.length);
+      pending = combined;
+
+      if (!headerParsed) {
+        const header = parseWavHeader(pending);
+        if (!header) {
+          continue;
+        }
+        channels = header.channels;
+        sampleRate = header.sampleRate;
+        pending = pending.slice(header.dataOffset);
+        headerParsed = true;
+      }
+
+      // Keep partial frames for the next chunk
+      const usable = pending.length - (pending.length % (2 * channels));
+      schedule(pending.subarray(0, usable));
+      pending = pending.slice(usable);
+    }
+
+    streamDone = true;
+    if (stopped || sources.size === 0) {
+      finish();
+    }
+    await ended;
+  } finally {
+    context.close().catch(() => {});
+  }
+}
+
+/**
+ * Read the format of a WAV header
+ * @param bytes Start of a WAV file
+ * @returns Channel count, sample rate and offset of the sample data, or null if the header is incomplete
+ */
+function parseWavHeader(
+  bytes: Uint8Array
+): { channels: number; sampleRate: number; dataOffset: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let channels = 1;
+  let sampleRate = 0;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const id = String.fromCharCode(
+      bytes[offset],
+      bytes[offset + 1],
+      bytes[offset + 2],
+      bytes[offset + 3]
+    );
+    const size = view.getUint32(offset + 4, true);
+
+    if (id === "fmt ") {
+      if (offset + 16 > bytes.length) {
+        return null;
+      }
+      channels = view.getUint16(offset + 10, true);
+      sampleRate = view.getUint32(offset + 12, true);
+    } else if (id === "data") {
+      return sampleRate ? { channels, sampleRate, dataOffset: offset + 8 } : null;
+    }
+
+    offset += 8 + size + (size % 2);
+  }
+
+  return null;
+}
@@ -17,7 +17,8 @@ export interface FetchResponse {
 export interface FetchOptions {
   method?: string;
   headers?: Record<string, string>;
-  body?: string | ArrayBuffer | Uint8Array;
+  body?: string | ArrayBuffer | Uint8Array | FormData;
+  signal?: AbortSignal;
 }
 
 export type FetchFunction = (url: string, options?: FetchOptions) => Promise<FetchResponse>;
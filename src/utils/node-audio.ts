@@ -2,8 +2,9 @@
  * Utility functions for playing audio in Node.js
  */
 
-import { detectAudioFormat } from "./audio-input";
+import { detectAudioFormat, streamToBytes } from "./audio-input";
 import { isNode } from "./environment";
+import { peekStream } from "./stream-utils";
 
 // Global state for audio playback
 interface AudioState {
@@ -331,6 +332,22 @@ function isRawPCM(audioBytes: Uint8Array): boolean {
   return false;
 }
 
+/**
+ * Get the sample rate of raw PCM audio produced by an engine
+ * @param sampleRate Sample rate reported by the engine
+ * @param engineName Name of the TTS engine
+ * @returns Sample rate in Hz
+ */
+function getPcmSampleRate(sampleRate?: number, engineName?: string): number {
+  if (engineName === "witai") {
+    return 24000;
+  }
+  if (engineName === "polly") {
+    return 16000;
+  }
+  return sampleRate || 24000; // Default to WitAI's sample rate
+}
+
 /**
  * Play audio in Node.js
  * @param audioBytes Audio data as Uint8Array
@@ -381,16 +398,7 @@ export async function playAudioInNode(
 
     // Check if this is raw PCM data that needs a WAV header
     if (isRawPCM(audioBytes)) {
-      // Determine sample rate based on engine
-      let actualSampleRate = sampleRate || 24000; // Default to WitAI's sample rate
-
-      if (engineName === "witai") {
-        actualSampleRate = 24000;
-      } else if (engineName === "polly") {
-        actualSampleRate = 16000;
-      }
-
-      finalAudioBytes = createWavFile(audioBytes, actualSampleRate);
+      finalAudioBytes = createWavFile(audioBytes, getPcmSampleRate(sampleRate, engineName));
       // Update file extension to WAV since we're adding a WAV header
       const tempFileWav = path.join(tempDir, `tts-audio-${Date.now()}.wav`);
       audioState.tempFile = tempFileWav;
@@ -507,6 +515,170 @@ export async function playAudioInNode(
   }
 }
 
+/**
+ * Check whether a command is available on the PATH
+ * @param command Command name
+ * @returns True if the command can be run
+ */
+function hasCommand(command: string): boolean {
+  try {
+    const lookup = process.platform === "win32" ? "where" : "which";
+    audioState.childProcess.execSync(`${lookup} ${command}`, { stdio: "ignore" });
+    return true;
+  } catch (_error) {
+    return false;
+  }
+}
+
+/**
+ * Find a player that can read audio of the given format from stdin
+ * @param head First bytes of the audio
+ * @param sampleRate Sample rate used for raw PCM
+ * @returns Command and arguments, or null when no streaming player is installed
+ */
+function getStreamingPlayer(
+  head: Uint8Array,
+  sampleRate: number
+): { command: string; args: string[] } | null {
+  const rawPCM = isRawPCM(head);
+  const format = detectAudioFormat(head);
+
+  if (process.platform !== "darwin" && process.platform !== "win32") {
+    if (rawPCM && hasCommand("aplay")) {
+      return {
+        command: "aplay",
+        args: ["-q", "-t", "raw", "-f", "S16_LE", "-c", "1", "-r", String(sampleRate), "-"],
+      };
+    }
+    if (format === "audio/wav" && hasCommand("aplay")) {
+      return { command: "aplay", args: ["-q", "-"] };
+    }
+    if (format === "audio/mpeg" && hasCommand("mpg123")) {
+      return { command: "mpg123", args: ["-q", "-"] };
+    }
+    if (format === "audio/ogg" && hasCommand("ogg123")) {
+      return { command: "ogg123", args: ["-q", "-"] };
+    }
+  }
+
+  // afplay and the Windows players only read files, so use ffplay where it is installed
+  if (hasCommand("ffplay")) {
+    const rawArgs = rawPCM ? ["-f", "s16le", "-ar", String(sampleRate), "-ac", "1"] : [];
+    return {
+      command: "ffplay",
+      args: ["-nodisp", "-autoexit", "-loglevel", "quiet", ...rawArgs, "-i", "-"],
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Play an audio stream in Node.js as it arrives.
+ * Chunks are piped into a player that reads from stdin (aplay, mpg123, ogg123 or ffplay), so
+ * playback starts with the first chunks. When no such player is installed, the stream is
+ * buffered and played with playAudioInNode.
+ * @param stream Audio stream
+ * @param sampleRate Sample rate in Hz, used for raw PCM
+ * @param engineName Name of the TTS engine (used to determine the raw PCM sample rate)
+ * @param onStart Called when the first audio is handed to the player
+ * @returns Promise that resolves when audio playback is complete
+ */
+export async function playAudioStreamInNode(
+  stream: ReadableStream<Uint8Array>,
+  sampleRate?: number,
+  engineName?: string,
+  onStart?: () => void
+): Promise<void> {
+  if (!isNode) {
+    throw new Error("This function can only be used in Node.js");
+  }
+
+  // Stop any currently playing audio
+  stopAudioPlayback();
+
+  if (!audioState.childProcess || !audioState.fs) {
+    audioState.childProcess = await new Function("m", "return import(m)")("node:child_process");
+    audioState.fs = await new Function("m", "return import(m)")("node:fs");
+  }
+
+  // A WAV header is 44 bytes; that is also enough to recognise MP3 and OGG
+  const { head, stream: audioStream } = await peekStream(stream, 44);
+  const player = getStreamingPlayer(head, getPcmSampleRate(sampleRate, engineName));
+
+  if (!player) {
+    const audioBytes = await streamToBytes(audioStream);
+    onStart?.();
+    await playAudioInNode(audioBytes, sampleRate, engineName);
+    return;
+  }
+
+  const reader = audioStream.getReader();
+  const child = audioState.childProcess.spawn(player.command, player.args, {
+    stdio: ["pipe", "ignore", "ignore"],
+  });
+  audioState.currentProcess = child;
+  audioState.isPlaying = true;
+  audioState.isPaused = false;
+
+  let exited = false;
+  const finished = new Promise<void>((resolve, reject) => {
+    child.on("close", () => {
+      exited = true;
+      if (audioState.currentProcess === child) {
+        audioState.currentProcess = null;
+        audioState.isPlaying = false;
+        audioState.isPaused = false;
+      }
+      resolve();
+    });
+    child.on("error", (err: Error) => {
+      exited = true;
+      if (audioState.currentProcess === child) {
+        audioState.currentProcess = null;
+        audioState.isPlaying = false;
+        audioState.isPaused = false;
+      }
+      reject(err);
+    });
+  });
+  // Writing after the player was stopped raises EPIPE; the close handler settles playback
+  child.stdin.on("error", () => {});
+
+  try {
+    let started = false;
+    while (!exited) {
+      const { done, value } = await reader.read();
+      if (done || exited) {
+        break;
+      }
+      if (!value?.length) {
+        continue;
+      }
+      if (!child.stdin.write(Buffer.from(value))) {
+        await new Promise<void>((resolve) => {
+          child.stdin.once("drain", resolve);
+          child.once("close", resolve);
+        });
+      }
+      if (!started) {
+        started = true;
+        onStart?.();
+      }
+    }
+  } catch (error) {
+    child.kill();
+    throw error;
+  } finally {
+    if (exited) {
+      reader.cancel().catch(() => {});
+    }
+    child.stdin.end();
+  }
+
+  await finished;
+}
+
 /**
  * Clean up temporary audio file
  */
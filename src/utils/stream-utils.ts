@@ -73,3 +73,105 @@ export async function streamToBuffer(
   // Handle unexpected stream type if it's neither Web nor Node stream
   throw new Error("Unsupported stream type provided to streamToBuffer");
 }
+
+/**
+ * Read the first bytes of a Web ReadableStream without losing them.
+ * Chunks are read until at least `minBytes` are available (or the stream ends); the returned
+ * stream replays those chunks before the rest of the original stream.
+ * @param stream The stream to peek into.
+ * @param minBytes Minimum number of bytes to read.
+ * @returns The bytes read so far and a stream yielding the full original content.
+ */
+export async function peekStream(
+  stream: ReadableStream<Uint8Array>,
+  minBytes: number
+): Promise<{ head: Uint8Array; stream: ReadableStream<Uint8Array> }> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  let done = false;
+
+  while (length < minBytes) {
+    const result = await reader.read();
+    if (result.done) {
+      done = true;
+      break;
+    }
+    if (result.value?.length) {
+      chunks.push(result.value);
+      length += result.value.length;
+    }
+  }
+
+  const head = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    head.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  const replay = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(chunk);
+      }
+      if (done) {
+        controller.close();
+      }
+    },
+    async pull(controller) {
+      if (done) {
+        return;
+      }
+      try {
+        // Skip empty chunks so every pull enqueues data or closes the stream
+        while (true) {
+          const result = await reader.read();
+          if (result.done) {
+            done = true;
+            controller.close();
+            return;
+          }
+          if (result.value?.length) {
+            controller.enqueue(result.value);
+            return;
+          }
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  return { head, stream: replay };
+}
+
+/**
+ * Iterate over the values of a Web ReadableStream or an async iterable
+ * @param source Stream or async iterable, e.g. LLM tokens
+ * @returns Async generator of the values in order
+ */
+export async function* iterateStream<T>(
+  source: ReadableStream<T> | AsyncIterable<T>
+): AsyncGenerator<T> {
+  if (!("getReader" in source && typeof source.getReader === "function")) {
+    yield* source as AsyncIterable<T>;
+    return;
+  }
+
+  const reader = source.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
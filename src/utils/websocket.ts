@@ -0,0 +1,107 @@
+/**
+ * WebSocket utilities for engines with streaming protocols
+ *
+ * Browsers, Deno, Bun and Node.js >= 22 have a global WebSocket. Older Node.js versions use
+ * the optional "ws" package.
+ */
+
+import { createAbortError, throwIfAborted } from "./abort-utils";
+
+/**
+ * The parts of the WebSocket API used by the engines (implemented by the global WebSocket
+ * and by the "ws" package)
+ */
+export interface WebSocketLike {
+  binaryType: string;
+  readonly readyState: number;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onclose: ((event: { code: number; reason: string }) => void) | null;
+  send(data: string | ArrayBuffer | Uint8Array): void;
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * WebSocket constructor
+ */
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+/**
+ * readyState of an open WebSocket
+ */
+export const WEBSOCKET_OPEN = 1;
+
+let wsPackagePromise: Promise<WebSocketConstructor | null> | null = null;
+
+/**
+ * Get a WebSocket implementation for the current environment
+ * @returns The global WebSocket, the "ws" package, or null when neither is available
+ */
+export async function loadWebSocket(): Promise<WebSocketConstructor | null> {
+  const globalWebSocket = (globalThis as { WebSocket?: unknown }).WebSocket;
+  if (typeof globalWebSocket === "function") {
+    return globalWebSocket as WebSocketConstructor;
+  }
+
+  if (!wsPackagePromise) {
+    wsPackagePromise = new Function("m", "return import(m)")("ws")
+      .then((ws: any) => (ws.WebSocket ?? ws.default ?? null) as WebSocketConstructor | null)
+      .catch(() => null);
+  }
+  return wsPackagePromise;
+}
+
+/**
+ * Open a WebSocket connection
+ * @param url WebSocket URL, including any credentials the service accepts as query parameters
+ * @param signal Optional AbortSignal that cancels the connection attempt
+ * @returns Promise resolving to the socket once it is open, with binary messages as ArrayBuffers
+ */
+export async function openWebSocket(url: string, signal?: AbortSignal): Promise<WebSocketLike> {
+  throwIfAborted(signal);
+
+  const WebSocketClass = await loadWebSocket();
+  if (!WebSocketClass) {
+    throw new Error(
+      "WebSocket is not available in this environment. Please install the ws package: npm install ws"
+    );
+  }
+
+  const socket = new WebSocketClass(url);
+  socket.binaryType = "arraybuffer";
+  // Never show credentials from the query string in error messages
+  const safeUrl = url.split("?")[0];
+
+  return new Promise((resolve, reject) => {
+    const settle = () => {
+      signal?.removeEventListener("abort", abortHandler);
+      socket.onopen = null;
+      socket.onerror = null;
+      socket.onclose = null;
+    };
+    const abortHandler = () => {
+      settle();
+      socket.close();
+      reject(createAbortError(signal));
+    };
+    signal?.addEventListener("abort", abortHandler, { once: true });
+
+    socket.onopen = () => {
+      settle();
+      resolve(socket);
+    };
+    socket.onerror = (event) => {
+      settle();
+      // The "ws" package includes the HTTP status, e.g. "Unexpected server response: 401"
+      const detail = (event as { message?: string } | null)?.message;
+      reject(new Error(`WebSocket connection to ${safeUrl} failed${detail ? `: ${detail}` : ""}`));
+    };
+    socket.onclose = (event) => {
+      settle();
+      reject(
+        new Error(`WebSocket connection to ${safeUrl} closed before opening (code ${event.code})`)
+      );
+    };
+  });
+}
@@ -8,12 +8,12 @@ export interface WordBoundary {
   word: string;
 
   /**
-   * Start time in seconds
+   * Start time in milliseconds
    */
   start: number;
 
   /**
-   * End time in seconds
+   * End time in milliseconds
    */
   end: number;
 }
@@ -58,8 +58,8 @@ export function estimateWordBoundaries(
 
     wordBoundaries.push({
       word,
-      start: currentTime / 1000, // Convert to seconds
-      end: (currentTime + duration) / 1000, // Convert to seconds
+      start: Math.round(currentTime),
+      end: Math.round(currentTime + duration),
     });
 
     currentTime += duration;